@@ -1,15 +1,48 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { StorageService } from './services/storageService';
-import { parseCsmHtml } from './services/parserService';
-import { Acordao, ChatMessage } from './types';
+import { parseAcordao } from './services/parserService';
+import { buildAcordaoRecord, rawFileNameFor } from './services/importService';
+import { loadVocabularyIndex, VocabularyIndex } from './services/vocabularyService';
+import { Acordao, AnalysisScope, Collection, LoadReport, ModelSettings, ResearchSession, ReviewField, SavedSearch, TextAnnotation } from './types';
 import { analyzeJurisprudence } from './services/geminiService';
+import { isAbortError } from './services/modelClient';
+import { previewPartialAnalysis } from './services/analysisService';
+import { appliesProvision, formatProvision, parseProvisionQuery } from './services/legislationService';
+import { TOKEN_BUDGET_OPTIONS } from './services/retrievalService';
+import { createModelClient, getProvider, loadModelSettings, saveModelSettings } from './services/providerService';
+import { DateRange } from './services/dateService';
+import { ALL_SCOPE, addToCollection, createCollection, describeScope, removeFromCollection, renameInCollection, renameInStoredCollections, resolveScope } from './services/collectionService';
+import ArchiveModal from './components/ArchiveModal';
+import ImportModal from './components/ImportModal';
+import BackupModal from './components/BackupModal';
+import LoadReportBanner from './components/LoadReportBanner';
+import AcordaoReader from './components/AcordaoReader';
+import AcordaoEditor from './components/AcordaoEditor';
+import { lowConfidenceFields } from './services/reviewService';
+import { appendMessages, createSession, duplicateSession, renameSession, sessionNameFromQuestion } from './services/sessionService';
+import SessionSidebar from './components/SessionSidebar';
+import ContextReportView from './components/ContextReportView';
+import AnalysisView from './components/AnalysisView';
+import ReportExportModal from './components/ReportExportModal';
+import SettingsModal from './components/SettingsModal';
+import ComparisonView from './components/ComparisonView';
+import ThesisMapView from './components/ThesisMapView';
+
+interface ReviewState {
+  mode: 'capture' | 'edit';
+  record: Acordao;
+  sourceText: string;
+  lowConfidence: ReviewField[];
+  warnings: string[];
+}
 
 const App: React.FC = () => {
   const [isFolderSelected, setIsFolderSelected] = useState(false);
   const [acordaos, setAcordaos] = useState<Acordao[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [sessions, setSessions] = useState<ResearchSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [userInput, setUserInput] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [notification, setNotification] = useState<string | null>(null);
@@ -20,15 +53,64 @@ const App: React.FC = () => {
   const [showCaptureModal, setShowCaptureModal] = useState(false);
   const [capturedText, setCapturedText] = useState('');
   const [showDbModal, setShowDbModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showBackupModal, setShowBackupModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [review, setReview] = useState<ReviewState | null>(null);
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(loadModelSettings);
+  const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [comparisonIds, setComparisonIds] = useState<string[] | null>(null);
+  const [dateRange, setDateRange] = useState<DateRange>({});
+  const [provisionInput, setProvisionInput] = useState('');
+  const [streamingText, setStreamingText] = useState('');
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [scope, setScope] = useState<AnalysisScope>(ALL_SCOPE);
+  const [scopeCount, setScopeCount] = useState(0);
+  const [thesisMapAcordaos, setThesisMapAcordaos] = useState<Acordao[] | null>(null);
+  const [loadReport, setLoadReport] = useState<LoadReport | null>(null);
+  const [readerId, setReaderId] = useState<string | null>(null);
+  const analysisAbort = useRef<AbortController | null>(null);
+
+  const activeSession = sessions.find(s => s.id === activeSessionId) || null;
+  const messages = activeSession?.messages || [];
+  const provision = parseProvisionQuery(provisionInput);
+  const comparedAcordaos = (comparisonIds || []).flatMap(id => acordaos.filter(a => a.id === id));
+  const readerAcordao = readerId ? acordaos.find(a => a.id === readerId) : undefined;
+  const provisionMatches = provision ? acordaos.filter(a => appliesProvision(a, provision)).length : 0;
 
   // Carregar dados da pasta
   const refreshData = useCallback(async () => {
     if (StorageService.isReady()) {
       const processed = await StorageService.listProcessedAcordaos();
       setAcordaos(processed);
+      setSessions(await StorageService.listSessions());
+      setCollections(await StorageService.listCollections());
+      setSavedSearches(await StorageService.listSavedSearches());
+      const report = StorageService.getLoadReport();
+      setLoadReport(report.problems.length ? report : null);
+      if (report.migrated) showNotification(`${report.migrated} registo(s) atualizados para o formato atual`);
     }
   }, []);
 
+  // Número de acórdãos abrangidos pelo âmbito escolhido (a pesquisa guardada é reexecutada)
+  useEffect(() => {
+    let cancelled = false;
+    resolveScope(scope, acordaos, collections, savedSearches)
+      .then(scoped => { if (!cancelled) setScopeCount(scoped.length); })
+      .catch(() => { if (!cancelled) setScopeCount(0); });
+    return () => { cancelled = true; };
+  }, [scope, acordaos, collections, savedSearches]);
+
+  // Um acórdão que muda de id (ex.: PROC:... passa a ECLI) continua nas mesmas coleções, gravadas e em memória
+  useEffect(() => StorageService.subscribe(event => {
+    if (event.type !== 'acordao-saved' || !event.previousId) return;
+    const { previousId, acordao } = event;
+    renameInStoredCollections(previousId, acordao.id)
+      .then(() => setCollections(prev => prev.map(c => renameInCollection(c, previousId, acordao.id))))
+      .catch(e => setError("Erro ao atualizar as coleções: " + (e as Error).message));
+  }), []);
+
   const showNotification = (msg: string) => {
     setNotification(msg);
     setTimeout(() => setNotification(null), 3000);
@@ -44,58 +126,88 @@ const App: React.FC = () => {
     setShowCaptureModal(true);
   };
 
-  // Processar o texto copiado (Ctrl+A / Ctrl+C) e colado no modal
+  // Processar o texto copiado (Ctrl+A / Ctrl+C) e colado no modal: o resultado segue para revisão
   const handleConfirmProcess = async () => {
     if (!capturedText.trim()) {
       setError("A área de captura está vazia. Cole o conteúdo do acórdão primeiro.");
       return;
     }
 
+    // O parser extrai metadados do texto colado
+    const result = parseAcordao(capturedText, targetUrl);
+    if (!result.success || !result.data) {
+      setError(`Erro ao processar: ${result.error || 'Não foi possível identificar a estrutura do acórdão'}. Verifique se copiou o texto completo.`);
+      return;
+    }
+
+    // Nome de ficheiro limpo baseado no processo ou timestamp
+    const procClean = rawFileNameFor(result.data, `acordao_${Date.now()}`);
+    let vocabulary: VocabularyIndex = new Map();
+    try {
+      vocabulary = await loadVocabularyIndex();
+    } catch (e) {
+      showNotification(`Vocabulário de descritores indisponível (${(e as Error).message}): os descritores ficam como foram extraídos.`);
+    }
+    // Na captura, o texto integral é todo o texto colado, como antes da importação em lote.
+    const record = { ...buildAcordaoRecord(result, capturedText, targetUrl, procClean, vocabulary), textoIntegral: capturedText };
+    setReview({
+      mode: 'capture',
+      record,
+      sourceText: capturedText,
+      lowConfidence: lowConfidenceFields(record, result.diagnostics),
+      warnings: result.diagnostics?.warnings || [],
+    });
+  };
+
+  // Abrir um acórdão do arquivo para correção, com o texto bruto guardado como referência
+  const handleEditAcordao = async (acordao: Acordao) => {
+    const raw = acordao.fileName ? await StorageService.readRawTxt(acordao.fileName) : null;
+    const diagnostics = acordao.originalParse?.diagnostics;
+    const lowConfidence = lowConfidenceFields(acordao, diagnostics).filter(f => !acordao.editedFields?.includes(f));
+    setReview({ mode: 'edit', record: acordao, sourceText: raw || acordao.textoIntegral, lowConfidence, warnings: diagnostics?.warnings || [] });
+  };
+
+  const handleSaveReview = async (record: Acordao) => {
+    if (!review) return;
     setIsLoading(true);
     try {
-      // O parser extrai metadados do texto colado
-      const result = parseCsmHtml(capturedText, targetUrl);
-      
-      if (result.success && result.data) {
-        const timestamp = Date.now();
-        // Nome de ficheiro limpo baseado no processo ou timestamp
-        const procClean = result.data.processo?.replace(/[/\\?%*:|"<>]/g, '_').replace(/\s+/g, '') || `acordao_${timestamp}`;
-        
-        const acordaoData: Acordao = {
-          ...result.data,
-          id: result.data.id || `ecli_${timestamp}`,
-          ecli: result.data.ecli || `ECLI:PT:UNKNOWN:${timestamp}`,
-          relator: result.data.relator || 'Desconhecido',
-          descritores: result.data.descritores || [],
-          processo: result.data.processo || 'Desconhecido',
-          data: result.data.data || 'Desconhecida',
-          sumario: result.data.sumario || '',
-          textoIntegral: capturedText,
-          adjuntos: result.data.adjuntos || [],
-          url: targetUrl,
-          fileName: procClean
-        } as Acordao;
+      if (review.mode === 'capture') {
+        // Se o processo foi corrigido, o nome dos ficheiros acompanha a correção
+        const procClean = rawFileNameFor(record, record.fileName || `acordao_${Date.now()}`);
 
         // 1. Gravar TXT (Texto bruto para consulta futura)
-        await StorageService.saveRawTxt(procClean, capturedText);
-        
-        // 2. Gravar JSON (Dados estruturados para IA)
-        await StorageService.saveProcessedAcordao(acordaoData);
-        
+        await StorageService.saveRawTxt(procClean, review.sourceText);
+
+        // 2. Gravar JSON (Dados estruturados para IA). Se o ECLI ou processo já existir, é fundido.
+        await StorageService.saveProcessedAcordao({ ...record, fileName: procClean });
+
         showNotification(`Sucesso! Criados ficheiros TXT e JSON para o processo ${procClean}.`);
         setShowCaptureModal(false);
         setTargetUrl('');
-        await refreshData();
       } else {
-        throw new Error("Não foi possível identificar a estrutura do acórdão. Verifique se copiou o texto completo.");
+        await StorageService.saveProcessedAcordao(record, 'edit');
+        showNotification(`Alterações gravadas para o processo ${record.processo}.`);
       }
+      setReview(null);
+      await refreshData();
     } catch (e) {
-      setError("Erro ao processar: " + (e as Error).message);
+      setError("Erro ao gravar: " + (e as Error).message);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleDeleteAcordao = async (acordao: Acordao) => {
+    if (!window.confirm(`Mover o processo ${acordao.processo} (e o respetivo TXT) para o lixo?`)) return;
+    try {
+      await StorageService.deleteAcordao(acordao.id);
+      showNotification(`Processo ${acordao.processo} movido para o lixo.`);
+      await refreshData();
+    } catch (e) {
+      setError("Erro ao apagar: " + (e as Error).message);
+    }
+  };
+
   const handleActivateFolder = async () => {
     try {
       const result = await StorageService.selectDirectory();
@@ -108,22 +220,162 @@ const App: React.FC = () => {
     }
   };
 
+  // Atualiza a sessão no estado e grava-a (pasta nativa ou IndexedDB)
+  const persistSession = (session: ResearchSession) => {
+    setSessions(prev => [session, ...prev.filter(s => s.id !== session.id)]);
+    StorageService.saveSession(session).catch(e => setError("Erro ao gravar a sessão: " + (e as Error).message));
+  };
+
   const handleSendMessage = async () => {
     if (!userInput.trim() || isLoading) return;
     const msg = userInput;
+    let scoped: Acordao[];
+    try {
+      scoped = await resolveScope(scope, acordaos, collections, savedSearches);
+    } catch (e) {
+      setError("Erro ao determinar o âmbito da análise: " + (e as Error).message);
+      return;
+    }
+    if (scoped.length === 0) {
+      setError(`O âmbito "${describeScope(scope, collections, savedSearches)}" não contém acórdãos.`);
+      return;
+    }
     setUserInput('');
-    setMessages(prev => [...prev, { role: 'user', content: msg, timestamp: new Date() }]);
     setIsLoading(true);
+    const scopeIds = scoped.map(a => a.id);
+    let session = activeSession || createSession(sessionNameFromQuestion(msg), scopeIds);
+    setActiveSessionId(session.id);
+    session = { ...appendMessages(session, [{ role: 'user', content: msg, timestamp: new Date().toISOString() }], scopeIds), scope };
+    persistSession(session);
+    setStreamingText('');
+    const controller = new AbortController();
+    analysisAbort.current = controller;
     try {
-      const response = await analyzeJurisprudence(msg, messages, acordaos);
-      setMessages(prev => [...prev, { role: 'assistant', content: response, timestamp: new Date() }]);
+      const response = await analyzeJurisprudence(msg, messages, scoped, {
+        client: createModelClient(modelSettings),
+        temperature: modelSettings.temperature,
+        maxOutputTokens: modelSettings.maxOutputTokens,
+        tokenBudget: modelSettings.tokenBudget,
+        dateRange,
+        provision: provision || undefined,
+        signal: controller.signal,
+        onText: setStreamingText,
+        onRetry: (attempt, delayMs) => showNotification(`Serviço indisponível. Nova tentativa (${attempt}) em ${Math.round(delayMs / 1000)}s`),
+      });
+      session = appendMessages(session, [{ role: 'assistant', content: response.text, timestamp: new Date().toISOString(), context: response.context, analysis: response.analysis }]);
+      persistSession(session);
     } catch (err) {
-      setError("Erro IA: " + (err as Error).message);
+      if (isAbortError(err)) showNotification("Análise cancelada");
+      else setError("Erro IA: " + (err as Error).message);
     } finally {
+      analysisAbort.current = null;
+      setStreamingText('');
       setIsLoading(false);
     }
   };
 
+  const handleCancelAnalysis = () => analysisAbort.current?.abort();
+
+  // Ao abrir uma sessão, a análise seguinte usa o âmbito com que a sessão foi feita
+  const handleSelectSession = (id: string | null) => {
+    setActiveSessionId(id);
+    const session = sessions.find(s => s.id === id);
+    setScope(session?.scope || ALL_SCOPE);
+  };
+
+  const handleAnnotate = async (acordao: Acordao, tags: string[], notas: string) => {
+    try {
+      const saved = await StorageService.annotateAcordao(acordao.id, { tags, notas });
+      setAcordaos(prev => prev.map(a => a.id === saved.id ? saved : a));
+      showNotification(`Etiquetas e notas gravadas para o processo ${saved.processo}.`);
+    } catch (e) {
+      setError("Erro ao gravar etiquetas: " + (e as Error).message);
+    }
+  };
+
+  // Sublinhados e notas de margem do leitor
+  const handleSaveAnnotations = async (acordao: Acordao, anotacoes: TextAnnotation[]) => {
+    const saved = await StorageService.annotateAcordao(acordao.id, { anotacoes });
+    setAcordaos(prev => prev.map(a => a.id === saved.id ? saved : a));
+  };
+
+  // Atualiza a coleção no estado e grava-a
+  const persistCollection = (collection: Collection) => {
+    setCollections(prev => [collection, ...prev.filter(c => c.id !== collection.id)]);
+    StorageService.saveCollection(collection).catch(e => setError("Erro ao gravar a coleção: " + (e as Error).message));
+  };
+
+  const handleToggleCollection = (collection: Collection, acordaoId: string) =>
+    persistCollection(collection.acordaoIds.includes(acordaoId)
+      ? removeFromCollection(collection, [acordaoId])
+      : addToCollection(collection, [acordaoId]));
+
+  const handleDeleteCollection = async (collection: Collection) => {
+    if (!window.confirm(`Apagar a coleção "${collection.name}"? Os acórdãos não são apagados.`)) return;
+    try {
+      await StorageService.deleteCollection(collection.id);
+      setCollections(prev => prev.filter(c => c.id !== collection.id));
+      if (scope.kind === 'collection' && scope.id === collection.id) setScope(ALL_SCOPE);
+    } catch (e) {
+      setError("Erro ao apagar a coleção: " + (e as Error).message);
+    }
+  };
+
+  const handleSaveSearch = async (search: SavedSearch) => {
+    try {
+      await StorageService.saveSavedSearch(search);
+      setSavedSearches(prev => [search, ...prev]);
+      showNotification(`Pesquisa "${search.name}" guardada.`);
+    } catch (e) {
+      setError("Erro ao guardar a pesquisa: " + (e as Error).message);
+    }
+  };
+
+  const handleAnalyzeSelection = (acordaoIds: string[]) => {
+    setScope({ kind: 'selection', acordaoIds });
+    setShowDbModal(false);
+    setActiveTab('analysis');
+  };
+
+  // Mapa de teses do âmbito atual, sem pergunta
+  const handleOpenThesisMap = async () => {
+    try {
+      const scoped = await resolveScope(scope, acordaos, collections, savedSearches);
+      if (scoped.length < 2) {
+        setError(`O âmbito "${describeScope(scope, collections, savedSearches)}" tem menos de dois acórdãos.`);
+        return;
+      }
+      setThesisMapAcordaos(scoped);
+    } catch (e) {
+      setError("Erro ao determinar o âmbito da análise: " + (e as Error).message);
+    }
+  };
+
+  const handleScopeChange = (value: string) => {
+    const [kind, id] = value.split(':');
+    if (kind === 'collection' || kind === 'search') setScope({ kind, id });
+    else if (kind === 'all') setScope(ALL_SCOPE);
+  };
+
+  const scopeValue = scope.kind === 'collection' || scope.kind === 'search' ? `${scope.kind}:${scope.id}` : scope.kind;
+
+  const handleSaveSettings = (settings: ModelSettings) => {
+    setModelSettings(settings);
+    saveModelSettings(settings);
+    setShowSettingsModal(false);
+  };
+
+  const handleDeleteSession = async (session: ResearchSession) => {
+    if (!window.confirm(`Apagar a sessão "${session.name}"?`)) return;
+    try {
+      await StorageService.deleteSession(session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+      if (activeSessionId === session.id) setActiveSessionId(null);
+    } catch (e) {
+      setError("Erro ao apagar a sessão: " + (e as Error).message);
+    }
+  };
+
   return (
     <div className="h-screen bg-slate-100 flex flex-col font-sans overflow-hidden">
       
@@ -155,6 +407,30 @@ const App: React.FC = () => {
         </nav>
 
         <div className="flex items-center gap-4">
+           {isFolderSelected && (
+             <button
+               onClick={() => setShowImportModal(true)}
+               className="bg-slate-800 hover:bg-slate-700 px-5 py-2.5 rounded-xl border border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-300 transition-colors"
+             >
+               Importar Lote
+             </button>
+           )}
+           {isFolderSelected && (
+             <button
+               onClick={() => setShowBackupModal(true)}
+               title="Exportar, importar ou migrar o arquivo"
+               className="bg-slate-800 hover:bg-slate-700 px-5 py-2.5 rounded-xl border border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-300 transition-colors"
+             >
+               Cópia
+             </button>
+           )}
+           <button
+             onClick={() => setShowSettingsModal(true)}
+             title="Definições do modelo"
+             className="bg-slate-800 hover:bg-slate-700 px-4 py-2.5 rounded-xl border border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-300 transition-colors"
+           >
+             Definições
+           </button>
            <button 
              onClick={() => setShowDbModal(true)} 
              className="bg-slate-800 hover:bg-slate-700 px-5 py-2.5 rounded-xl border border-slate-700 flex items-center gap-3 transition-colors"
@@ -173,6 +449,7 @@ const App: React.FC = () => {
 
       {/* ÁREA DE CONTEÚDO */}
       <main className="flex-1 overflow-hidden relative flex flex-col">
+        {loadReport && <LoadReportBanner report={loadReport} onDismiss={() => setLoadReport(null)} />}
         
         {/* NAVEGADOR ECLI INTEGRADO */}
         {activeTab === 'browser' && (
@@ -213,16 +490,104 @@ const App: React.FC = () => {
 
         {/* ÁREA DE ANÁLISE IA */}
         {activeTab === 'analysis' && (
-          <div className="flex-1 bg-slate-50 p-10 flex flex-col items-center">
+          <div className="flex-1 bg-slate-50 p-10 flex justify-center gap-8 overflow-hidden">
+             <SessionSidebar
+               sessions={sessions}
+               activeSessionId={activeSessionId}
+               onSelect={handleSelectSession}
+               onCreate={() => handleSelectSession(null)}
+               onRename={(session, name) => persistSession(renameSession(session, name))}
+               onDuplicate={(session) => {
+                 const copy = duplicateSession(session);
+                 persistSession(copy);
+                 setActiveSessionId(copy.id);
+               }}
+               onDelete={handleDeleteSession}
+             />
              <div className="w-full max-w-5xl h-full flex flex-col bg-white rounded-[40px] shadow-2xl border border-slate-200 overflow-hidden animate-in slide-in-from-bottom-5 duration-500">
                 <div className="p-8 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
                    <div className="flex items-center gap-3">
                       <div className="w-1.5 h-6 bg-indigo-600 rounded-full"></div>
-                      <h2 className="text-sm font-black uppercase tracking-widest text-slate-800">Motor de Análise Jurisprudencial</h2>
+                      <div>
+                        <h2 className="text-sm font-black uppercase tracking-widest text-slate-800">Motor de Análise Jurisprudencial</h2>
+                        <p className="text-[10px] font-bold text-slate-400 mt-0.5 truncate max-w-xs">{activeSession ? activeSession.name : 'Nova sessão'}</p>
+                      </div>
+                   </div>
+                   <div className="flex items-center gap-3">
+                     <div
+                       className={`flex items-center gap-1 text-[10px] font-black bg-white px-3 py-1 rounded-full border ${scope.kind === 'all' ? 'border-slate-100 text-slate-400' : 'border-indigo-200 text-indigo-600'}`}
+                       title={`Âmbito da análise: ${describeScope(scope, collections, savedSearches)}`}
+                     >
+                       <select value={scopeValue} onChange={(e) => handleScopeChange(e.target.value)} className="bg-transparent outline-none max-w-[10rem]">
+                         <option value="all">TODO O ARQUIVO</option>
+                         {scope.kind === 'selection' && <option value="selection">SELEÇÃO MANUAL</option>}
+                         {collections.length > 0 && (
+                           <optgroup label="Coleções">
+                             {collections.map(c => <option key={c.id} value={`collection:${c.id}`}>{c.name}</option>)}
+                           </optgroup>
+                         )}
+                         {savedSearches.length > 0 && (
+                           <optgroup label="Pesquisas guardadas">
+                             {savedSearches.map(s => <option key={s.id} value={`search:${s.id}`}>{s.name}</option>)}
+                           </optgroup>
+                         )}
+                       </select>
+                       {scopeCount}/{acordaos.length} DOCUMENTOS
+                     </div>
+                     <div className="flex items-center gap-1 text-[10px] font-black text-slate-400 bg-white px-3 py-1 rounded-full border border-slate-100" title="Limitar o contexto a acórdãos proferidos neste intervalo">
+                       DE
+                       <input type="date" value={dateRange.from || ''} onChange={(e) => setDateRange({ ...dateRange, from: e.target.value || undefined })} className="bg-transparent outline-none text-slate-500" />
+                       A
+                       <input type="date" value={dateRange.to || ''} onChange={(e) => setDateRange({ ...dateRange, to: e.target.value || undefined })} className="bg-transparent outline-none text-slate-500" />
+                     </div>
+                     <div
+                       className={`flex items-center gap-1 text-[10px] font-black bg-white px-3 py-1 rounded-full border ${provisionInput && !provision ? 'border-red-300 text-red-500' : 'border-slate-100 text-slate-400'}`}
+                       title={provision ? `${formatProvision(provision)}: ${provisionMatches} acórdãos` : 'Limitar o contexto aos acórdãos que aplicam uma disposição (ex.: art. 483.º CC)'}
+                     >
+                       ART.
+                       <input
+                         type="text"
+                         value={provisionInput}
+                         onChange={(e) => setProvisionInput(e.target.value)}
+                         placeholder="483 CC"
+                         className="w-28 bg-transparent outline-none text-slate-500"
+                       />
+                       {provision && <span className="text-indigo-500">{provisionMatches}</span>}
+                     </div>
+                     <button
+                       onClick={() => setShowSettingsModal(true)}
+                       title="Fornecedor e modelo usados na análise"
+                       className={`text-[10px] font-black bg-white px-3 py-1 rounded-full border border-slate-100 hover:border-indigo-300 transition-colors ${getProvider(modelSettings.provider).isLocal(modelSettings) ? 'text-emerald-600' : 'text-slate-400'}`}
+                     >
+                       {modelSettings.model.toUpperCase()}{getProvider(modelSettings.provider).isLocal(modelSettings) ? ' · LOCAL' : ''}
+                     </button>
+                     <select
+                       value={modelSettings.tokenBudget}
+                       onChange={(e) => handleSaveSettings({ ...modelSettings, tokenBudget: Number(e.target.value) })}
+                       title="Orçamento de tokens para os excertos enviados à IA"
+                       className="text-[10px] font-black text-slate-500 bg-white px-3 py-1 rounded-full border border-slate-100 outline-none"
+                     >
+                       {TOKEN_BUDGET_OPTIONS.map(b => (
+                         <option key={b} value={b}>{(b / 1000)}K TOKENS</option>
+                       ))}
+                     </select>
+                     <button
+                       onClick={handleOpenThesisMap}
+                       disabled={isLoading || scopeCount < 2}
+                       title="Agrupar os acórdãos do âmbito por tese, sem pergunta"
+                       className="text-[10px] font-black text-indigo-600 bg-white px-3 py-1 rounded-full border border-indigo-200 hover:bg-indigo-50 transition-colors disabled:opacity-40"
+                     >
+                       MAPA DE TESES
+                     </button>
+                     {activeSession && messages.length > 0 && (
+                       <button
+                         onClick={() => setShowExportModal(true)}
+                         className="text-[10px] font-black text-white bg-slate-900 px-3 py-1 rounded-full hover:bg-indigo-600 transition-colors"
+                       >
+                         EXPORTAR
+                       </button>
+                     )}
                    </div>
-                   <span className="text-[10px] font-black text-slate-400 bg-white px-3 py-1 rounded-full border border-slate-100">
-                     CONTEXTO: {acordaos.length} DOCUMENTOS
-                   </span>
                 </div>
                 
                 <div className="flex-1 overflow-y-auto p-10 space-y-10 custom-scrollbar">
@@ -235,11 +600,28 @@ const App: React.FC = () => {
                    {messages.map((msg, i) => (
                      <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                         <div className={`max-w-[85%] p-7 rounded-[35px] text-sm leading-relaxed shadow-sm ${msg.role === 'user' ? 'bg-slate-900 text-white rounded-tr-none' : 'bg-slate-50 border border-slate-200 text-slate-800 rounded-tl-none'}`}>
-                          <div className="whitespace-pre-wrap">{msg.content}</div>
+                          {msg.analysis
+                            ? <AnalysisView analysis={msg.analysis} acordaos={acordaos} onCompare={setComparisonIds} />
+                            : <div className="whitespace-pre-wrap">{msg.content}</div>}
+                          {msg.context && <ContextReportView report={msg.context} />}
                         </div>
                      </div>
                    ))}
-                   {isLoading && <div className="text-xs font-black text-indigo-600 animate-pulse tracking-[0.2em] uppercase">O Assistente está a analisar os acórdãos...</div>}
+                   {isLoading && (
+                     <div className="flex justify-start">
+                        <div className="max-w-[85%] p-7 rounded-[35px] rounded-tl-none text-sm leading-relaxed shadow-sm bg-slate-50 border border-slate-200 text-slate-800">
+                          {streamingText && <div className="whitespace-pre-wrap mb-4">{previewPartialAnalysis(streamingText)}</div>}
+                          <div className="flex items-center gap-4">
+                            <span className="text-xs font-black text-indigo-600 animate-pulse tracking-[0.2em] uppercase">
+                              {streamingText ? 'A receber resposta...' : 'O Assistente está a analisar os acórdãos...'}
+                            </span>
+                            <button onClick={handleCancelAnalysis} className="text-[10px] font-black text-red-500 border border-red-200 px-3 py-1 rounded-full hover:bg-red-50 transition-colors">
+                              CANCELAR
+                            </button>
+                          </div>
+                        </div>
+                     </div>
+                   )}
                 </div>
 
                 <div className="p-8 border-t border-slate-100 bg-white">
@@ -315,7 +697,7 @@ const App: React.FC = () => {
                        disabled={isLoading || !capturedText.trim()}
                        className="w-full bg-indigo-600 text-white py-7 rounded-[25px] font-black text-sm uppercase tracking-[0.3em] shadow-2xl hover:bg-indigo-700 transition-all flex items-center justify-center gap-4 disabled:opacity-50 active:scale-95 group"
                      >
-                       {isLoading ? 'A GERAR FICHEIROS...' : 'OK - CONFIRMAR ENVIO'}
+                       {isLoading ? 'A GERAR FICHEIROS...' : 'OK - REVER E GRAVAR'}
                        <svg className="w-6 h-6 transform group-hover:translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" /></svg>
                      </button>
                   </div>
@@ -327,42 +709,89 @@ const App: React.FC = () => {
 
       {/* MODAL DE LISTAGEM DE ARQUIVO */}
       {showDbModal && (
-        <div className="fixed inset-0 z-[110] flex items-center justify-center p-12 bg-slate-900/90 backdrop-blur-sm animate-in fade-in duration-300">
-           <div className="bg-white w-full max-w-7xl h-[85vh] rounded-[50px] shadow-2xl flex flex-col overflow-hidden">
-              <div className="p-10 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
-                 <div>
-                    <h2 className="text-3xl font-black uppercase tracking-tighter text-slate-900">Arquivo Jurisprudencial</h2>
-                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">Documentos processados e prontos para análise</p>
-                 </div>
-                 <button onClick={() => setShowDbModal(false)} className="w-16 h-16 rounded-3xl bg-white border border-slate-200 text-slate-400 hover:text-red-500 flex items-center justify-center transition-all shadow-sm">✕</button>
-              </div>
-              <div className="flex-1 overflow-y-auto p-12 custom-scrollbar bg-slate-100/50">
-                 {acordaos.length === 0 ? (
-                    <div className="h-full flex flex-col items-center justify-center opacity-30 text-center">
-                       <p className="text-xl font-black uppercase tracking-[0.2em]">Sem documentos no arquivo</p>
-                    </div>
-                 ) : (
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8">
-                      {acordaos.map((a, i) => (
-                        <div key={i} className="bg-white border border-slate-100 p-8 rounded-[40px] hover:border-indigo-500 transition-all shadow-lg group relative overflow-hidden">
-                           <div className="absolute top-0 right-0 p-4">
-                              <span className="bg-slate-100 text-[8px] font-black px-2 py-1 rounded-md text-slate-500">JSON+TXT</span>
-                           </div>
-                           <div className="text-[10px] font-black text-indigo-600 mb-4">{a.data}</div>
-                           <h4 className="text-sm font-black text-slate-800 mb-2 leading-tight h-10 line-clamp-2">{a.processo}</h4>
-                           <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{a.relator}</p>
-                           <div className="mt-8 pt-6 border-t border-slate-50 flex flex-wrap gap-2">
-                              {a.descritores.slice(0, 3).map((d, idx) => (
-                                <span key={idx} className="text-[8px] font-bold bg-indigo-50 text-indigo-500 px-2 py-1 rounded-full">{d}</span>
-                              ))}
-                           </div>
-                        </div>
-                      ))}
-                    </div>
-                 )}
-              </div>
-           </div>
-        </div>
+        <ArchiveModal
+          acordaos={acordaos}
+          onClose={() => setShowDbModal(false)}
+          onEdit={handleEditAcordao}
+          onCompare={setComparisonIds}
+          collections={collections}
+          onAnnotate={handleAnnotate}
+          onToggleCollection={handleToggleCollection}
+          onAddToCollection={(collection, ids) => {
+            persistCollection(addToCollection(collection, ids));
+            showNotification(`${ids.length} acórdãos adicionados a "${collection.name}".`);
+          }}
+          onCreateCollection={(name, ids) => persistCollection(createCollection(name, ids))}
+          onDeleteCollection={handleDeleteCollection}
+          onSaveSearch={handleSaveSearch}
+          onAnalyzeSelection={handleAnalyzeSelection}
+          onDelete={handleDeleteAcordao}
+          onRefresh={refreshData}
+          onRead={a => setReaderId(a.id)}
+        />
+      )}
+
+      {/* MODAL DE IMPORTAÇÃO EM LOTE */}
+      {showImportModal && (
+        <ImportModal onClose={() => setShowImportModal(false)} onFinished={refreshData} />
+      )}
+
+      {/* LEITOR */}
+      {readerAcordao && (
+        <AcordaoReader acordao={readerAcordao} onSaveAnnotations={handleSaveAnnotations} onClose={() => setReaderId(null)} />
+      )}
+
+      {/* CÓPIA DE SEGURANÇA / MIGRAÇÃO */}
+      {showBackupModal && (
+        <BackupModal onClose={() => setShowBackupModal(false)} onFinished={refreshData} />
+      )}
+
+      {/* COMPARAÇÃO LADO A LADO */}
+      {comparedAcordaos.length > 0 && (
+        <ComparisonView
+          acordaos={comparedAcordaos}
+          modelSettings={modelSettings}
+          onRemove={(id) => setComparisonIds(prev => (prev || []).filter(x => x !== id))}
+          onClose={() => setComparisonIds(null)}
+        />
+      )}
+
+      {/* MAPA AUTOMÁTICO DE TESES */}
+      {thesisMapAcordaos && (
+        <ThesisMapView
+          acordaos={thesisMapAcordaos}
+          scopeLabel={describeScope(scope, collections, savedSearches)}
+          modelSettings={modelSettings}
+          onAnalyze={(ids) => {
+            setScope({ kind: 'selection', acordaoIds: ids });
+            setThesisMapAcordaos(null);
+          }}
+          onClose={() => setThesisMapAcordaos(null)}
+        />
+      )}
+
+      {/* DEFINIÇÕES DO MODELO */}
+      {showSettingsModal && (
+        <SettingsModal settings={modelSettings} onSave={handleSaveSettings} onClose={() => setShowSettingsModal(false)} />
+      )}
+
+      {/* EXPORTAÇÃO DA SESSÃO COMO RELATÓRIO */}
+      {showExportModal && activeSession && (
+        <ReportExportModal session={activeSession} acordaos={acordaos} onClose={() => setShowExportModal(false)} />
+      )}
+
+      {/* REVISÃO / CORREÇÃO DE METADADOS */}
+      {review && (
+        <AcordaoEditor
+          title={review.mode === 'capture' ? targetUrl : `${review.record.processo} · ${review.record.ecli}`}
+          record={review.record}
+          sourceText={review.sourceText}
+          lowConfidence={review.lowConfidence}
+          warnings={review.warnings}
+          isSaving={isLoading}
+          onSave={handleSaveReview}
+          onCancel={() => setReview(null)}
+        />
       )}
 
       {/* FEEDBACKS (TOASTS) */}
@@ -0,0 +1,154 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Acordao, ReviewField } from '../types';
+import { applyReview, REVIEW_FIELD_LABELS, REVIEW_FIELDS } from '../services/reviewService';
+
+interface AcordaoEditorProps {
+  title: string;
+  record: Acordao;
+  sourceText: string;
+  lowConfidence: ReviewField[];
+  warnings: string[];
+  isSaving: boolean;
+  onSave: (record: Acordao) => void;
+  onCancel: () => void;
+}
+
+type FormState = Record<ReviewField, string>;
+
+const MULTILINE: ReviewField[] = ['adjuntos', 'sumario'];
+
+const toForm = (record: Acordao): FormState => ({
+  ecli: record.ecli,
+  processo: record.processo,
+  data: record.data,
+  relator: record.relator,
+  adjuntos: record.adjuntos.join('\n'),
+  descritores: record.descritores.join('; '),
+  sumario: record.sumario,
+});
+
+const fromForm = (form: FormState): Pick<Acordao, ReviewField> => ({
+  ecli: form.ecli.trim(),
+  processo: form.processo.trim(),
+  data: form.data.trim(),
+  relator: form.relator.trim(),
+  adjuntos: form.adjuntos.split('\n').map(l => l.trim()).filter(Boolean),
+  descritores: form.descritores.split(/[;\n]/).map(d => d.trim()).filter(Boolean),
+  sumario: form.sumario.trim(),
+});
+
+const formatOriginal = (value: unknown) => Array.isArray(value) ? value.join('; ') : String(value ?? '');
+
+/** Revisão dos metadados extraídos lado a lado com o texto de origem. */
+const AcordaoEditor: React.FC<AcordaoEditorProps> = ({ title, record, sourceText, lowConfidence, warnings, isSaving, onSave, onCancel }) => {
+  const [form, setForm] = useState<FormState>(() => toForm(record));
+  const [focused, setFocused] = useState<ReviewField | null>(null);
+  const markRef = useRef<HTMLElement>(null);
+
+  // Destacar no texto de origem o valor do campo em edição (primeira ocorrência).
+  const needle = focused ? form[focused].split('\n')[0].trim() : '';
+  const matchIndex = needle.length > 2 ? sourceText.indexOf(needle) : -1;
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [focused, matchIndex]);
+
+  const original = record.originalParse?.fields;
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center bg-slate-900/95 backdrop-blur-md p-6 animate-in fade-in duration-300">
+      <div className="bg-white w-full h-full max-w-[98%] max-h-[95%] rounded-[50px] shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-8 bg-slate-900 text-white flex justify-between items-center">
+          <div className="flex items-center gap-6">
+            <div className="bg-amber-500 text-slate-900 px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest">Revisão</div>
+            <div>
+              <h3 className="text-sm font-black truncate max-w-2xl opacity-80">{title}</h3>
+              <p className="text-[10px] text-slate-500 font-bold uppercase mt-1">
+                {lowConfidence.length > 0 ? `${lowConfidence.length} campo(s) a confirmar` : 'Confirme os dados extraídos antes de gravar'}
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="w-12 h-12 rounded-full hover:bg-white/10 flex items-center justify-center font-bold text-2xl transition-colors">✕</button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* TEXTO DE ORIGEM */}
+          <div className="flex-1 border-r border-slate-200 overflow-y-auto p-10 custom-scrollbar bg-slate-50">
+            <pre className="whitespace-pre-wrap text-[11px] font-mono leading-relaxed text-slate-600">
+              {matchIndex === -1 ? sourceText : (
+                <>
+                  {sourceText.slice(0, matchIndex)}
+                  <mark ref={markRef} className="bg-amber-200 text-slate-900 rounded">{sourceText.slice(matchIndex, matchIndex + needle.length)}</mark>
+                  {sourceText.slice(matchIndex + needle.length)}
+                </>
+              )}
+            </pre>
+          </div>
+
+          {/* CAMPOS EXTRAÍDOS */}
+          <div className="w-[560px] flex flex-col">
+            <div className="flex-1 overflow-y-auto p-10 space-y-6 custom-scrollbar">
+              {warnings.length > 0 && (
+                <ul className="bg-amber-50 border border-amber-200 rounded-2xl px-5 py-4 space-y-1">
+                  {warnings.map((w, i) => <li key={i} className="text-[11px] font-bold text-amber-700">⚠ {w}</li>)}
+                </ul>
+              )}
+              {REVIEW_FIELDS.map(field => {
+                const isLow = lowConfidence.includes(field);
+                const originalValue = original?.[field];
+                const showOriginal = originalValue !== undefined && formatOriginal(originalValue) !== formatOriginal(fromForm(form)[field]);
+                const inputClass = `w-full bg-white border-2 px-4 py-3 rounded-2xl text-xs outline-none focus:border-indigo-500 transition-all ${isLow ? 'border-amber-300 bg-amber-50/40' : 'border-slate-100'}`;
+                return (
+                  <div key={field}>
+                    <label className="flex items-center justify-between mb-2">
+                      <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{REVIEW_FIELD_LABELS[field]}</span>
+                      {isLow && <span className="text-[9px] font-black uppercase text-amber-600">⚠ Verificar</span>}
+                    </label>
+                    {MULTILINE.includes(field) ? (
+                      <textarea
+                        value={form[field]}
+                        rows={field === 'sumario' ? 8 : 4}
+                        onFocus={() => setFocused(field)}
+                        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                        className={`${inputClass} resize-y custom-scrollbar`}
+                      />
+                    ) : (
+                      <input
+                        type="text"
+                        value={form[field]}
+                        onFocus={() => setFocused(field)}
+                        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                        className={inputClass}
+                      />
+                    )}
+                    {field === 'adjuntos' && <p className="text-[9px] text-slate-400 mt-1">Um nome por linha.</p>}
+                    {showOriginal && (
+                      <p className="text-[9px] text-slate-400 mt-1 truncate" title={formatOriginal(originalValue)}>
+                        Extraído: {formatOriginal(originalValue) || '(vazio)'}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="p-8 border-t border-slate-200 flex gap-4">
+              <button onClick={onCancel} className="flex-1 bg-white border border-slate-200 py-5 rounded-[20px] font-black text-xs uppercase tracking-widest text-slate-500 hover:border-slate-400 transition-all">
+                Cancelar
+              </button>
+              <button
+                onClick={() => onSave(applyReview(record, fromForm(form)))}
+                disabled={isSaving}
+                className="flex-[2] bg-indigo-600 text-white py-5 rounded-[20px] font-black text-xs uppercase tracking-[0.2em] shadow-xl hover:bg-indigo-700 transition-all disabled:opacity-50 active:scale-95"
+              >
+                {isSaving ? 'A GRAVAR...' : 'Gravar'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AcordaoEditor;
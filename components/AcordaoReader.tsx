@@ -0,0 +1,299 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Acordao, AnnotatedField, TextAnnotation } from '../types';
+import {
+  anchorAnnotations, ANNOTATED_FIELD_LABELS, createAnnotation, findInText, segmentText, TextSegment, updateAnnotationNote,
+} from '../services/annotationService';
+import { sectionBounds, SECTION_LABELS } from '../services/retrievalService';
+import { courtCodeOf, courtName } from '../services/ecliService';
+import { acordaoDate, formatDate } from '../services/dateService';
+
+interface AcordaoReaderProps {
+  acordao: Acordao;
+  onSaveAnnotations: (acordao: Acordao, anotacoes: TextAnnotation[]) => Promise<void>;
+  onClose: () => void;
+}
+
+// Seleção de texto à espera de ser sublinhada, com a posição da barra flutuante.
+interface PendingSelection {
+  field: AnnotatedField;
+  start: number;
+  end: number;
+  top: number;
+  left: number;
+}
+
+// Posição no texto do campo a partir de um ponto da seleção do DOM (cada segmento guarda o seu início).
+const textPosition = (node: Node, offset: number): { field: AnnotatedField; pos: number } | null => {
+  const element = node.nodeType === Node.TEXT_NODE ? node.parentElement : node as Element;
+  const segment = element?.closest('[data-offset]') as HTMLElement | null;
+  const field = segment?.closest('[data-field]')?.getAttribute('data-field') as AnnotatedField | undefined;
+  if (!segment || !field) return null;
+  return { field, pos: Number(segment.dataset.offset) + (node.nodeType === Node.TEXT_NODE ? offset : 0) };
+};
+
+/** Leitor de um acórdão: metadados, sumário e texto integral por secções, pesquisa no texto, sublinhados e notas de margem. */
+const AcordaoReader: React.FC<AcordaoReaderProps> = ({ acordao, onSaveAnnotations, onClose }) => {
+  const [anotacoes, setAnotacoes] = useState<TextAnnotation[]>(acordao.anotacoes || []);
+  const [query, setQuery] = useState('');
+  const [currentMatch, setCurrentMatch] = useState(0);
+  const [selection, setSelection] = useState<PendingSelection | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const textRef = useRef<HTMLDivElement>(null);
+
+  const record = useMemo(() => ({ ...acordao, anotacoes }), [acordao, anotacoes]);
+  const { anchored, orphans } = useMemo(() => anchorAnnotations(record), [record]);
+  const sections = useMemo(() => sectionBounds(acordao.textoIntegral), [acordao.textoIntegral]);
+
+  // Ocorrências numeradas pela ordem de leitura: primeiro o sumário, depois o texto integral.
+  const matches = useMemo(() => {
+    const inSumario = findInText(acordao.sumario, query).map(m => ({ ...m, field: 'sumario' as AnnotatedField }));
+    const inTexto = findInText(acordao.textoIntegral, query).map(m => ({ ...m, field: 'textoIntegral' as AnnotatedField }));
+    return [...inSumario, ...inTexto].map((m, index) => ({ ...m, index }));
+  }, [acordao.sumario, acordao.textoIntegral, query]);
+
+  const segmentsOf = (field: AnnotatedField, breaks: number[] = []) => segmentText(
+    acordao[field],
+    anchored.filter(a => a.annotation.field === field),
+    matches.filter(m => m.field === field),
+    breaks
+  );
+  const sumarioSegments = useMemo(() => segmentsOf('sumario'), [acordao.sumario, anchored, matches]);
+  const textoSegments = useMemo(
+    () => segmentsOf('textoIntegral', sections.flatMap(s => [s.start, s.bodyStart])),
+    [acordao.textoIntegral, anchored, matches, sections]
+  );
+
+  useEffect(() => setCurrentMatch(0), [query]);
+
+  useEffect(() => {
+    if (matches.length === 0) return;
+    textRef.current?.querySelector(`[data-match="${currentMatch}"]`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [currentMatch, matches]);
+
+  const scrollTo = (selector: string) =>
+    textRef.current?.querySelector(selector)?.scrollIntoView({ block: 'start', behavior: 'smooth' });
+
+  const stepMatch = (delta: number) => {
+    if (matches.length > 0) setCurrentMatch((currentMatch + delta + matches.length) % matches.length);
+  };
+
+  const persist = (next: TextAnnotation[]) => {
+    setAnotacoes(next);
+    setSaveError(null);
+    onSaveAnnotations(acordao, next).catch(e => setSaveError((e as Error).message));
+  };
+
+  const handleMouseUp = () => {
+    const sel = window.getSelection();
+    if (!sel || sel.isCollapsed || sel.rangeCount === 0) {
+      setSelection(null);
+      return;
+    }
+    const from = textPosition(sel.anchorNode!, sel.anchorOffset);
+    const to = textPosition(sel.focusNode!, sel.focusOffset);
+    if (!from || !to || from.field !== to.field || from.pos === to.pos) {
+      setSelection(null);
+      return;
+    }
+    const rect = sel.getRangeAt(0).getBoundingClientRect();
+    setSelection({
+      field: from.field,
+      start: Math.min(from.pos, to.pos),
+      end: Math.max(from.pos, to.pos),
+      top: Math.max(rect.top - 48, 8),
+      left: rect.left,
+    });
+  };
+
+  const handleHighlight = (withNote: boolean) => {
+    if (!selection) return;
+    const annotation = createAnnotation(acordao, selection.field, selection.start, selection.end);
+    persist([...anotacoes, annotation]);
+    setActiveId(annotation.id);
+    if (withNote) setEditingId(annotation.id);
+    setSelection(null);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const handleNoteBlur = (annotation: TextAnnotation, note: string) => {
+    setEditingId(null);
+    if ((annotation.note || '') === note.trim()) return;
+    persist(anotacoes.map(a => a.id === annotation.id ? updateAnnotationNote(a, note) : a));
+  };
+
+  const handleRemove = (id: string) => persist(anotacoes.filter(a => a.id !== id));
+
+  const renderSegment = (segment: TextSegment, bold = false) => {
+    const highlighted = segment.annotationIds.length > 0;
+    const classes = [
+      bold && 'font-black text-slate-900',
+      highlighted && (segment.annotationIds.includes(activeId || '') ? 'bg-yellow-300' : 'bg-yellow-100 border-b-2 border-yellow-400'),
+      highlighted && 'cursor-pointer',
+      segment.match !== undefined && (segment.match === currentMatch ? 'bg-orange-400 text-white' : 'bg-amber-200'),
+    ].filter(Boolean).join(' ');
+    return (
+      <span
+        key={segment.start}
+        data-offset={segment.start}
+        data-match={segment.match}
+        data-annotations={highlighted ? segment.annotationIds.join(' ') : undefined}
+        onClick={highlighted ? () => setActiveId(segment.annotationIds[0]) : undefined}
+        className={classes || undefined}
+      >
+        {segment.text}
+      </span>
+    );
+  };
+
+  const iso = acordaoDate(acordao);
+  const metadata: [string, string | undefined][] = [
+    ['Tribunal', courtName(courtCodeOf(acordao))],
+    ['Data', iso ? formatDate(iso) : acordao.data],
+    ['Relator', acordao.relator],
+    ['Adjuntos', acordao.adjuntos.join(', ')],
+    ['Meio processual', acordao.meioProcessual],
+    ['Votação', acordao.votacao],
+    ['Decisão', acordao.decisao],
+    ['Área temática', acordao.areaTematica],
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-12 bg-slate-900/90 backdrop-blur-sm animate-in fade-in duration-300">
+       <div className="bg-white w-full max-w-7xl h-[90vh] rounded-[50px] shadow-2xl flex flex-col overflow-hidden">
+          <div className="p-10 border-b border-slate-100 flex justify-between items-center bg-slate-50/50 gap-8">
+             <div className="min-w-0">
+                <h2 className="text-3xl font-black uppercase tracking-tighter text-slate-900 truncate">{acordao.processo}</h2>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1 break-all">
+                  {acordao.ecli}
+                  {acordao.url && <> · <a href={acordao.url} target="_blank" rel="noreferrer" className="text-indigo-500 hover:text-indigo-700">Fonte</a></>}
+                </p>
+             </div>
+             <div className="flex items-center gap-3">
+                <input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') stepMatch(e.shiftKey ? -1 : 1); }}
+                  placeholder="Procurar no texto..."
+                  className="w-64 bg-white border border-slate-200 rounded-2xl px-5 py-3 text-sm outline-none focus:ring-4 focus:ring-indigo-500/10"
+                />
+                <span className="text-[10px] font-black text-slate-400 w-16 text-center">
+                  {query.trim().length >= 2 ? (matches.length ? `${currentMatch + 1}/${matches.length}` : '0/0') : ''}
+                </span>
+                <button onClick={() => stepMatch(-1)} disabled={!matches.length} className="w-10 h-10 rounded-xl border border-slate-200 text-slate-500 disabled:opacity-30">↑</button>
+                <button onClick={() => stepMatch(1)} disabled={!matches.length} className="w-10 h-10 rounded-xl border border-slate-200 text-slate-500 disabled:opacity-30">↓</button>
+                <button onClick={onClose} className="w-16 h-16 rounded-3xl bg-white border border-slate-200 text-slate-400 hover:text-red-500 flex items-center justify-center transition-all shadow-sm">✕</button>
+             </div>
+          </div>
+
+          <div className="flex-1 flex overflow-hidden">
+             {/* SECÇÕES */}
+             <nav className="w-48 border-r border-slate-100 p-6 space-y-1 overflow-y-auto custom-scrollbar">
+                <h5 className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-3">Secções</h5>
+                <button onClick={() => scrollTo('[data-section="metadata"]')} className="block w-full text-left text-xs font-bold text-slate-600 hover:text-indigo-600 py-1">Metadados</button>
+                <button onClick={() => scrollTo('[data-section="sumario"]')} className="block w-full text-left text-xs font-bold text-slate-600 hover:text-indigo-600 py-1">Sumário</button>
+                {sections.map((s, i) => (
+                  <button key={s.start} onClick={() => scrollTo(`[data-section="texto-${i}"]`)} className="block w-full text-left text-xs font-bold text-slate-600 hover:text-indigo-600 py-1">
+                    {SECTION_LABELS[s.section]}
+                  </button>
+                ))}
+             </nav>
+
+             {/* TEXTO */}
+             <div ref={textRef} onMouseUp={handleMouseUp} className="flex-1 overflow-y-auto p-10 custom-scrollbar space-y-10 text-sm leading-relaxed text-slate-700">
+                <section data-section="metadata" className="grid grid-cols-2 gap-x-8 gap-y-3 text-xs">
+                   {metadata.filter(([, value]) => value).map(([label, value]) => (
+                     <div key={label}>
+                        <div className="text-[9px] font-black uppercase tracking-widest text-slate-400">{label}</div>
+                        <div className="font-bold text-slate-800">{value}</div>
+                     </div>
+                   ))}
+                   <div className="col-span-2 flex flex-wrap gap-2">
+                      {(acordao.tags || []).map(t => <span key={`tag-${t}`} className="text-[10px] font-black bg-amber-100 text-amber-700 px-2 py-1 rounded-full">#{t}</span>)}
+                      {acordao.descritores.map(d => <span key={d} className="text-[10px] font-bold bg-indigo-50 text-indigo-500 px-2 py-1 rounded-full">{d}</span>)}
+                   </div>
+                   {acordao.notas && (
+                     <div className="col-span-2 p-4 rounded-2xl bg-slate-50 border border-slate-100 whitespace-pre-wrap">
+                        <div className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-1">Nota</div>
+                        {acordao.notas}
+                     </div>
+                   )}
+                </section>
+
+                <section data-section="sumario">
+                   <h3 className="text-[10px] font-black uppercase tracking-widest text-indigo-600 mb-3">Sumário</h3>
+                   {acordao.sumario
+                     ? <div data-field="sumario" className="whitespace-pre-wrap">{sumarioSegments.map(s => renderSegment(s))}</div>
+                     : <p className="text-slate-400 italic">Sem sumário.</p>}
+                </section>
+
+                <div data-field="textoIntegral" className="whitespace-pre-wrap">
+                   {sections.map((bounds, i) => (
+                     <section key={bounds.start} data-section={`texto-${i}`} className="mb-6">
+                        {textoSegments
+                          .filter(s => s.start >= bounds.start && s.start < bounds.end)
+                          .map(s => renderSegment(s, s.start < bounds.bodyStart))}
+                     </section>
+                   ))}
+                </div>
+             </div>
+
+             {/* NOTAS DE MARGEM */}
+             <aside className="w-80 border-l border-slate-100 bg-slate-50/50 p-6 overflow-y-auto custom-scrollbar space-y-4">
+                <h5 className="text-[9px] font-black uppercase tracking-widest text-slate-400">Sublinhados e notas ({anotacoes.length})</h5>
+                {saveError && <p className="text-[11px] text-red-600">Erro ao gravar: {saveError}</p>}
+                {anotacoes.length === 0 && (
+                  <p className="text-[11px] text-slate-400">Selecione uma passagem do sumário ou do texto para a sublinhar ou anotar. As notas seguem para a análise como contexto.</p>
+                )}
+                {[...anchored.map(a => a.annotation), ...orphans].map(annotation => {
+                  const isOrphan = orphans.includes(annotation);
+                  return (
+                    <div
+                      key={annotation.id}
+                      onClick={() => { setActiveId(annotation.id); if (!isOrphan) scrollTo(`[data-annotations~="${annotation.id}"]`); }}
+                      className={`p-4 rounded-2xl border bg-white cursor-pointer ${activeId === annotation.id ? 'border-yellow-400 ring-2 ring-yellow-200' : 'border-slate-200'}`}
+                    >
+                       <div className="flex justify-between items-start gap-2">
+                          <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+                            {ANNOTATED_FIELD_LABELS[annotation.field]}{isOrphan && ' · texto já não encontrado'}
+                          </span>
+                          <button onClick={(e) => { e.stopPropagation(); handleRemove(annotation.id); }} title="Apagar" className="text-slate-300 hover:text-red-500 font-bold text-xs">✕</button>
+                       </div>
+                       <p className="text-[11px] italic text-slate-600 mt-2 line-clamp-3">«{annotation.quote}»</p>
+                       {editingId === annotation.id ? (
+                         <textarea
+                           autoFocus
+                           defaultValue={annotation.note || ''}
+                           onBlur={(e) => handleNoteBlur(annotation, e.target.value)}
+                           onClick={(e) => e.stopPropagation()}
+                           rows={3}
+                           placeholder="Nota..."
+                           className="mt-2 w-full bg-slate-50 border border-slate-200 rounded-xl p-2 text-xs outline-none focus:ring-2 focus:ring-indigo-500/20"
+                         />
+                       ) : (
+                         <p
+                           onClick={(e) => { e.stopPropagation(); setEditingId(annotation.id); }}
+                           className={`mt-2 text-xs whitespace-pre-wrap ${annotation.note ? 'text-slate-800' : 'text-slate-300'}`}
+                         >
+                           {annotation.note || 'Adicionar nota...'}
+                         </p>
+                       )}
+                    </div>
+                  );
+                })}
+             </aside>
+          </div>
+       </div>
+
+       {selection && (
+         <div style={{ top: selection.top, left: selection.left }} className="fixed z-[130] flex gap-2 bg-slate-900 p-2 rounded-xl shadow-2xl">
+            <button onMouseDown={(e) => e.preventDefault()} onClick={() => handleHighlight(false)} className="text-[10px] font-black uppercase tracking-widest text-yellow-300 px-3 py-1.5 hover:bg-slate-800 rounded-lg">Sublinhar</button>
+            <button onMouseDown={(e) => e.preventDefault()} onClick={() => handleHighlight(true)} className="text-[10px] font-black uppercase tracking-widest text-white px-3 py-1.5 hover:bg-slate-800 rounded-lg">Anotar</button>
+         </div>
+       )}
+    </div>
+  );
+};
+
+export default AcordaoReader;
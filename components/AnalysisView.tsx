@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { Acordao, AnalysisCitation, StructuredAnalysis } from '../types';
+import { countUnverifiedCitations } from '../services/analysisService';
+import { divergingAcordaoIds, MIN_COMPARE } from '../services/comparisonService';
+import { judgeSpread, positionsFromAnalysis } from '../services/judgeService';
+
+interface AnalysisViewProps {
+  analysis: StructuredAnalysis;
+  acordaos: Acordao[];
+  onCompare?: (ids: string[]) => void;
+}
+
+const STATUS_STYLES: Record<AnalysisCitation['status'], { className: string; title: string }> = {
+  'verified': { className: 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100', title: 'Citação verificada no contexto enviado à IA' },
+  'outside-context': { className: 'bg-amber-50 text-amber-700 border border-amber-200', title: 'Acórdão existe no arquivo, mas não foi enviado no contexto desta pergunta' },
+  'mismatch': { className: 'bg-orange-50 text-orange-700 border border-orange-300', title: 'O processo ou o ECLI citados não coincidem com o acórdão do arquivo' },
+  'not-found': { className: 'bg-red-50 text-red-600 border border-red-200 line-through', title: 'Citação não encontrada no arquivo (possível alucinação)' },
+};
+
+const CitationChip: React.FC<{ citation: AnalysisCitation; record?: Acordao }> = ({ citation, record }) => {
+  const style = STATUS_STYLES[citation.status];
+  const label = `${citation.processo || citation.ecli || '?'} de ${citation.data || '?'}`;
+  const className = `inline-flex items-center gap-1 text-[10px] font-bold px-3 py-1 rounded-full transition-colors ${style.className}`;
+  return record?.url ? (
+    <a href={record.url} target="_blank" rel="noreferrer" title={`${style.title}\n${record.processo} · ${record.ecli}`} className={className}>{citation.status === 'mismatch' && '⚠ '}{label}</a>
+  ) : (
+    <span title={style.title} className={className}>{(citation.status === 'not-found' || citation.status === 'mismatch') && '⚠ '}{label}</span>
+  );
+};
+
+/** Resposta estruturada: uma ficha por posição, com argumentos e citações verificadas. */
+const AnalysisView: React.FC<AnalysisViewProps> = ({ analysis, acordaos, onCompare }) => {
+  const [openPositions, setOpenPositions] = useState<number[]>(analysis.posicoes.map((_, i) => i));
+  const unverified = countUnverifiedCitations(analysis);
+  const diverging = divergingAcordaoIds(analysis);
+  const [showJudges, setShowJudges] = useState(false);
+  const spread = useMemo(
+    () => showJudges ? judgeSpread(positionsFromAnalysis(analysis), acordaos) : [],
+    [showJudges, analysis, acordaos]
+  );
+
+  const togglePosition = (i: number) =>
+    setOpenPositions(prev => prev.includes(i) ? prev.filter(p => p !== i) : [...prev, i]);
+
+  return (
+    <div className="space-y-5">
+      {analysis.introducao && <p className="whitespace-pre-wrap">{analysis.introducao}</p>}
+
+      {unverified > 0 && (
+        <div className="text-[11px] font-bold text-red-600 bg-red-50 border border-red-200 px-4 py-3 rounded-2xl">
+          ⚠ {unverified} citação(ões) não correspondem a acórdãos enviados no contexto. Confirme antes de usar.
+        </div>
+      )}
+
+      {analysis.posicoes.map((position, i) => {
+        const isOpen = openPositions.includes(i);
+        return (
+          <div key={i} className="bg-white border border-slate-200 rounded-3xl overflow-hidden">
+            <button onClick={() => togglePosition(i)} className="w-full flex items-center justify-between gap-4 px-6 py-4 text-left hover:bg-slate-50 transition-colors">
+              <span className="text-xs font-black uppercase tracking-wider text-slate-800">{i + 1}. {position.titulo}</span>
+              <span className="text-[10px] font-black text-slate-400 whitespace-nowrap">{position.citacoes.length} ACÓRDÃOS {isOpen ? '▾' : '▸'}</span>
+            </button>
+            {isOpen && (
+              <div className="px-6 pb-6 space-y-4">
+                {position.resumo && <p className="whitespace-pre-wrap">{position.resumo}</p>}
+                {position.argumentos.length > 0 && (
+                  <ul className="list-disc pl-5 space-y-1 text-slate-600">
+                    {position.argumentos.map((arg, idx) => <li key={idx}>{arg}</li>)}
+                  </ul>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {position.citacoes.map((c, idx) => (
+                    <CitationChip key={idx} citation={c} record={acordaos.find(a => a.id === c.acordaoId)} />
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {analysis.divergencia && (
+        <div className="border-l-4 border-indigo-500 pl-4">
+          <h5 className="text-[10px] font-black uppercase tracking-widest text-indigo-600 mb-1">Núcleo da divergência</h5>
+          <p className="whitespace-pre-wrap">{analysis.divergencia}</p>
+          {onCompare && diverging.length >= MIN_COMPARE && (
+            <button
+              onClick={() => onCompare(diverging)}
+              className="mt-3 text-[10px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 px-3 py-1.5 rounded-full hover:bg-indigo-100 transition-colors"
+            >
+              Comparar lado a lado ({diverging.length} acórdãos)
+            </button>
+          )}
+        </div>
+      )}
+      {analysis.conclusao && <p className="whitespace-pre-wrap">{analysis.conclusao}</p>}
+
+      {analysis.posicoes.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowJudges(!showJudges)}
+            className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600"
+          >
+            {showJudges ? '▾' : '▸'} Juízes por posição
+          </button>
+          {showJudges && (
+            spread.length === 0 ? (
+              <p className="text-xs text-slate-400 mt-3">Nenhum juiz identificado nos acórdãos citados.</p>
+            ) : (
+              <table className="mt-3 w-full text-[11px] text-slate-600">
+                <thead>
+                  <tr className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+                    <th className="text-left py-2">Juiz</th>
+                    {analysis.posicoes.map((p, i) => <th key={i} className="text-center py-2 px-2" title={p.titulo}>Posição {i + 1}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {spread.map(judge => (
+                    <tr key={judge.key} className="border-t border-slate-100">
+                      <td className="py-2 font-bold text-slate-800">{judge.name}</td>
+                      {judge.byPosition.map((cell, i) => (
+                        <td key={i} className="text-center py-2 px-2" title="Como relator / como adjunto">
+                          {cell.asRelator + cell.asAdjunto === 0 ? <span className="text-slate-200">—</span> : (
+                            <>
+                              {cell.asRelator > 0 && <span className="font-black text-indigo-600">{cell.asRelator}R</span>}
+                              {cell.asRelator > 0 && cell.asAdjunto > 0 && ' '}
+                              {cell.asAdjunto > 0 && <span className="text-slate-400">{cell.asAdjunto}A</span>}
+                            </>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisView;
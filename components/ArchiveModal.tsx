@@ -0,0 +1,370 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Acordao, Collection, FacetKey, HighlightSegment, SavedSearch, SearchFilters } from '../types';
+import { archiveIndex, ensureArchiveIndex } from '../services/searchService';
+import { courtName } from '../services/ecliService';
+import TimelineView from './TimelineView';
+import CitationPanel from './CitationPanel';
+import MissingCitationsView from './MissingCitationsView';
+import LegislationIndexView from './LegislationIndexView';
+import JudgesView from './JudgesView';
+import TrashView from './TrashView';
+import VocabularyView from './VocabularyView';
+import WatchListsView from './WatchListsView';
+import VersionHistoryPanel from './VersionHistoryPanel';
+import { diplomaName } from '../services/legislationService';
+import { MAX_COMPARE, MIN_COMPARE } from '../services/comparisonService';
+import { buildCitationGraph } from '../services/citationService';
+import { createSavedSearch } from '../services/collectionService';
+import { buildJudgeIndex } from '../services/judgeService';
+import OrganizePanel from './OrganizePanel';
+
+interface ArchiveModalProps {
+  acordaos: Acordao[];
+  onClose: () => void;
+  onEdit: (acordao: Acordao) => void;
+  onCompare: (ids: string[]) => void;
+  collections: Collection[];
+  onAnnotate: (acordao: Acordao, tags: string[], notas: string) => Promise<void>;
+  onToggleCollection: (collection: Collection, acordaoId: string) => void;
+  onAddToCollection: (collection: Collection, acordaoIds: string[]) => void;
+  onCreateCollection: (name: string, acordaoIds: string[]) => void;
+  onDeleteCollection: (collection: Collection) => void;
+  onSaveSearch: (search: SavedSearch) => void;
+  onAnalyzeSelection: (acordaoIds: string[]) => void;
+  onDelete: (acordao: Acordao) => void;
+  onRefresh: () => void;
+  onRead: (acordao: Acordao) => void;
+}
+
+// Painel lateral aberto (um de cada vez)
+type SidePanel = { kind: 'citations' | 'organize' | 'history'; id: string };
+
+const FACET_LABELS: Record<FacetKey, string> = {
+  court: 'Tribunal',
+  year: 'Ano',
+  relator: 'Relator',
+  descritor: 'Descritor',
+  disposicao: 'Legislação',
+  tag: 'Etiqueta',
+};
+
+const FACET_LIMIT = 12;
+
+const VIEW_LABELS = { list: 'Lista', timeline: 'Cronologia', legislation: 'Legislação', judges: 'Juízes', descritores: 'Descritores', watch: 'Vigilância', missing: 'Por importar', trash: 'Lixo' };
+
+const facetTitle = (key: FacetKey, value: string): string =>
+  key === 'court' ? courtName(value) : key === 'disposicao' ? `${value} (${diplomaName(value.split(' art. ')[0])})` : value;
+
+export const Highlighted: React.FC<{ segments: HighlightSegment[] }> = ({ segments }) => (
+  <>
+    {segments.map((s, i) => s.match
+      ? <mark key={i} className="bg-amber-200 text-slate-900 rounded px-0.5">{s.text}</mark>
+      : <React.Fragment key={i}>{s.text}</React.Fragment>)}
+  </>
+);
+
+const ArchiveModal: React.FC<ArchiveModalProps> = ({
+  acordaos, onClose, onEdit, onCompare, collections, onAnnotate, onToggleCollection, onAddToCollection,
+  onCreateCollection, onDeleteCollection, onSaveSearch, onAnalyzeSelection, onDelete, onRefresh, onRead,
+}) => {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [isIndexReady, setIsIndexReady] = useState(false);
+  const [indexError, setIndexError] = useState<string | null>(null);
+  const [expandedFacets, setExpandedFacets] = useState<FacetKey[]>([]);
+  const [view, setView] = useState<keyof typeof VIEW_LABELS>('list');
+  const [panel, setPanel] = useState<SidePanel | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [collectionFilter, setCollectionFilter] = useState<string | null>(null);
+
+  useEffect(() => {
+    ensureArchiveIndex()
+      .then(() => setIsIndexReady(true))
+      .catch(e => setIndexError((e as Error).message));
+  }, []);
+
+  // `acordaos` muda sempre que o App recarrega o arquivo; o índice já foi atualizado pelo StorageService.
+  const result = useMemo(
+    () => archiveIndex.search(query, filters),
+    [isIndexReady, query, filters, acordaos]
+  );
+
+  const toggleFilter = (key: FacetKey, value: string) => {
+    setFilters(prev => {
+      const current = prev[key] || [];
+      const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+      return { ...prev, [key]: next };
+    });
+  };
+
+  // O grafo de citações só é calculado quando é preciso (painel de citações ou lista por importar).
+  const needsGraph = panel?.kind === 'citations' || view === 'missing';
+  const byId = useMemo(() => new Map(acordaos.map(a => [a.id, a])), [acordaos]);
+  const citationGraph = useMemo(() => needsGraph ? buildCitationGraph(acordaos) : null, [needsGraph, acordaos]);
+  const panelAcordao = panel ? byId.get(panel.id) : undefined;
+
+  // Acórdãos apagados (ou com novo id) saem da seleção.
+  useEffect(() => setSelectedIds(prev => prev.filter(id => byId.has(id))), [byId]);
+
+  // A faceta "Relator" agrupa pela chave normalizada; o nome mostrado é a variante mais completa.
+  const judgeNames = useMemo(() => new Map(buildJudgeIndex(acordaos).map(j => [j.key, j.name])), [acordaos]);
+
+  // A coleção ativa restringe os resultados da pesquisa (as facetas continuam a refletir todo o arquivo).
+  const activeCollection = collections.find(c => c.id === collectionFilter);
+  const hits = activeCollection ? result.hits.filter(h => activeCollection.acordaoIds.includes(h.acordao.id)) : result.hits;
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+
+  const openCitations = (id: string) => setPanel({ kind: 'citations', id });
+
+  const handleSaveSearch = () => {
+    const name = window.prompt('Nome da pesquisa guardada:', query);
+    if (name !== null) onSaveSearch(createSavedSearch(name, query, filters));
+  };
+
+  const handleAddSelection = (value: string) => {
+    if (value === '__new__') {
+      const name = window.prompt('Nome da nova coleção:');
+      if (name) onCreateCollection(name, selectedIds);
+    } else {
+      const collection = collections.find(c => c.id === value);
+      if (collection) onAddToCollection(collection, selectedIds);
+    }
+  };
+
+  const activeFilterCount = (Object.values(filters) as string[][]).reduce((sum, values) => sum + values.length, 0);
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-12 bg-slate-900/90 backdrop-blur-sm animate-in fade-in duration-300">
+       <div className="bg-white w-full max-w-7xl h-[85vh] rounded-[50px] shadow-2xl flex flex-col overflow-hidden">
+          <div className="p-10 border-b border-slate-100 flex justify-between items-center bg-slate-50/50 gap-8">
+             <div>
+                <h2 className="text-3xl font-black uppercase tracking-tighter text-slate-900">Arquivo Jurisprudencial</h2>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+                  {hits.length} de {acordaos.length} documentos{activeCollection && ` · coleção "${activeCollection.name}"`}
+                </p>
+             </div>
+             <input
+               type="text"
+               value={query}
+               onChange={(e) => setQuery(e.target.value)}
+               placeholder="Pesquisar no sumário, texto integral e descritores..."
+               className="flex-1 bg-white border border-slate-200 px-6 py-4 rounded-2xl text-xs font-bold outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all shadow-inner"
+             />
+             {(query.trim() || activeFilterCount > 0) && (
+               <button onClick={handleSaveSearch} title="Guardar esta pesquisa para usar como âmbito de análise" className="text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800 whitespace-nowrap">
+                 Guardar pesquisa
+               </button>
+             )}
+             <div className="flex bg-slate-100 p-1 rounded-2xl">
+               {(Object.keys(VIEW_LABELS) as (keyof typeof VIEW_LABELS)[]).map(v => (
+                 <button
+                   key={v}
+                   onClick={() => setView(v)}
+                   className={`px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${view === v ? 'bg-white shadow text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}
+                 >
+                   {VIEW_LABELS[v]}
+                 </button>
+               ))}
+             </div>
+             <button onClick={onClose} className="w-16 h-16 rounded-3xl bg-white border border-slate-200 text-slate-400 hover:text-red-500 flex items-center justify-center transition-all shadow-sm">✕</button>
+          </div>
+          {selectedIds.length > 0 && (
+            <div className="px-10 py-3 bg-indigo-50 border-b border-indigo-100 flex items-center gap-3">
+               <span className="text-[10px] font-black uppercase tracking-widest text-indigo-600 mr-auto">{selectedIds.length} selecionados</span>
+               <button
+                 onClick={() => onCompare(selectedIds)}
+                 disabled={selectedIds.length < MIN_COMPARE || selectedIds.length > MAX_COMPARE}
+                 title={`Selecione ${MIN_COMPARE} a ${MAX_COMPARE} acórdãos`}
+                 className="bg-white border border-indigo-200 text-indigo-600 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100 transition-all disabled:opacity-40"
+               >
+                 Comparar
+               </button>
+               <button
+                 onClick={() => onAnalyzeSelection(selectedIds)}
+                 className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition-all"
+               >
+                 Analisar só estes
+               </button>
+               <select
+                 value=""
+                 onChange={(e) => handleAddSelection(e.target.value)}
+                 className="bg-white border border-indigo-200 text-indigo-600 px-3 py-2 rounded-xl text-[10px] font-black uppercase outline-none"
+               >
+                 <option value="" disabled>Adicionar à coleção…</option>
+                 {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                 <option value="__new__">+ Nova coleção…</option>
+               </select>
+               <button onClick={() => setSelectedIds([])} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-600 px-2">Limpar</button>
+            </div>
+          )}
+          <div className="flex-1 flex overflow-hidden">
+             {/* FACETAS */}
+             <aside className="w-72 border-r border-slate-100 overflow-y-auto p-8 space-y-8 custom-scrollbar">
+                <div>
+                  <h5 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">Coleções</h5>
+                  <div className="space-y-1">
+                    {collections.map(c => (
+                      <div key={c.id} className={`group/col flex items-center gap-2 px-3 py-1.5 rounded-lg text-[11px] ${collectionFilter === c.id ? 'bg-indigo-600 text-white font-bold' : 'text-slate-600 hover:bg-slate-100'}`}>
+                        <button onClick={() => setCollectionFilter(collectionFilter === c.id ? null : c.id)} className="flex-1 flex justify-between items-center gap-2 text-left min-w-0">
+                          <span className="truncate">{c.name}</span>
+                          <span className={`text-[9px] font-black ${collectionFilter === c.id ? 'text-indigo-200' : 'text-slate-300'}`}>{c.acordaoIds.length}</span>
+                        </button>
+                        <button onClick={() => onDeleteCollection(c)} title="Apagar coleção" className="opacity-0 group-hover/col:opacity-100 text-[10px] hover:text-red-500">✕</button>
+                      </div>
+                    ))}
+                    {collections.length === 0 && (
+                      <p className="text-[10px] font-bold text-slate-300 px-3">Selecione acórdãos e adicione-os a uma coleção</p>
+                    )}
+                  </div>
+                </div>
+                {activeFilterCount > 0 && (
+                  <button onClick={() => setFilters({})} className="text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">
+                    Limpar filtros ({activeFilterCount})
+                  </button>
+                )}
+                {(Object.keys(FACET_LABELS) as FacetKey[]).map(key => {
+                  const values = result.facets[key];
+                  const visible = expandedFacets.includes(key) ? values : values.slice(0, FACET_LIMIT);
+                  return (
+                    <div key={key}>
+                      <h5 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">{FACET_LABELS[key]}</h5>
+                      <div className="space-y-1">
+                        {visible.map(({ value, count }) => {
+                          const selected = filters[key]?.includes(value) || false;
+                          const label = key === 'relator' ? judgeNames.get(value) || value : value;
+                          return (
+                            <button
+                              key={value}
+                              onClick={() => toggleFilter(key, value)}
+                              className={`w-full flex justify-between items-center gap-2 px-3 py-1.5 rounded-lg text-[11px] text-left transition-colors ${selected ? 'bg-indigo-600 text-white font-bold' : 'text-slate-600 hover:bg-slate-100'}`}
+                            >
+                              <span className="truncate" title={key === 'relator' ? label : facetTitle(key, value)}>{label}</span>
+                              <span className={`text-[9px] font-black ${selected ? 'text-indigo-200' : 'text-slate-300'}`}>{count}</span>
+                            </button>
+                          );
+                        })}
+                        {values.length > FACET_LIMIT && !expandedFacets.includes(key) && (
+                          <button onClick={() => setExpandedFacets(prev => [...prev, key])} className="text-[10px] font-bold text-indigo-500 px-3 py-1">
+                            + {values.length - FACET_LIMIT} mais
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+             </aside>
+
+             {/* RESULTADOS */}
+             <div className="flex-1 overflow-y-auto p-12 custom-scrollbar bg-slate-100/50">
+                {indexError ? (
+                   <div className="h-full flex items-center justify-center text-sm font-bold text-red-500">Erro ao indexar o arquivo: {indexError}</div>
+                ) : view === 'legislation' ? (
+                   <LegislationIndexView
+                     acordaos={hits.map(h => h.acordao)}
+                     onSelectArticle={(key) => { setFilters(prev => ({ ...prev, disposicao: [key] })); setView('list'); }}
+                   />
+                ) : view === 'judges' ? (
+                   <JudgesView
+                     acordaos={hits.map(h => h.acordao)}
+                     byId={byId}
+                     onFilterRelator={(key) => { setFilters(prev => ({ ...prev, relator: [key] })); setView('list'); }}
+                   />
+                ) : view === 'descritores' ? (
+                   <VocabularyView acordaos={acordaos} onChanged={onRefresh} />
+                ) : view === 'watch' ? (
+                   <WatchListsView acordaos={acordaos} onRead={onRead} onChanged={onRefresh} />
+                ) : view === 'trash' ? (
+                   <TrashView onChanged={onRefresh} />
+                ) : view === 'missing' ? (
+                   citationGraph && <MissingCitationsView missing={citationGraph.missing} byId={byId} onSelect={openCitations} />
+                ) : hits.length === 0 ? (
+                   <div className="h-full flex flex-col items-center justify-center opacity-30 text-center">
+                      <p className="text-xl font-black uppercase tracking-[0.2em]">{acordaos.length === 0 ? 'Sem documentos no arquivo' : 'Sem resultados'}</p>
+                   </div>
+                ) : view === 'timeline' ? (
+                   <TimelineView acordaos={hits.map(h => h.acordao)} />
+                ) : (
+                   <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-8">
+                     {hits.map(({ acordao: a, snippet }) => (
+                       <div key={a.id} className="bg-white border border-slate-100 p-8 rounded-[40px] hover:border-indigo-500 transition-all shadow-lg group relative overflow-hidden">
+                          <div className="absolute top-0 right-0 p-4 flex items-center gap-2">
+                             {a.editedFields && a.editedFields.length > 0 && (
+                               <span title={`Corrigido manualmente: ${a.editedFields.join(', ')}`} className="bg-amber-50 text-[8px] font-black px-2 py-1 rounded-md text-amber-600">REVISTO</span>
+                             )}
+                             <span className="bg-slate-100 text-[8px] font-black px-2 py-1 rounded-md text-slate-500">JSON+TXT</span>
+                             <button
+                               onClick={() => toggleSelected(a.id)}
+                               className={`${selectedIds.includes(a.id) ? 'bg-amber-500 text-white' : 'opacity-0 group-hover:opacity-100 bg-slate-100 text-slate-600'} text-[8px] font-black px-2 py-1 rounded-md transition-opacity`}
+                             >
+                               {selectedIds.includes(a.id) ? '✓ SELECIONADO' : 'SELECIONAR'}
+                             </button>
+                             <button onClick={() => onRead(a)} className="opacity-0 group-hover:opacity-100 bg-slate-100 text-slate-600 text-[8px] font-black px-2 py-1 rounded-md transition-opacity">LER</button>
+                             <button onClick={() => setPanel({ kind: 'organize', id: a.id })} className="opacity-0 group-hover:opacity-100 bg-slate-100 text-slate-600 text-[8px] font-black px-2 py-1 rounded-md transition-opacity">ORGANIZAR</button>
+                             <button onClick={() => setPanel({ kind: 'history', id: a.id })} className="opacity-0 group-hover:opacity-100 bg-slate-100 text-slate-600 text-[8px] font-black px-2 py-1 rounded-md transition-opacity">HISTÓRICO</button>
+                             <button onClick={() => openCitations(a.id)} className="opacity-0 group-hover:opacity-100 bg-slate-900 text-white text-[8px] font-black px-2 py-1 rounded-md transition-opacity">CITAÇÕES</button>
+                             <button onClick={() => onEdit(a)} className="opacity-0 group-hover:opacity-100 bg-indigo-600 text-white text-[8px] font-black px-2 py-1 rounded-md transition-opacity">EDITAR</button>
+                             <button onClick={() => onDelete(a)} title="Mover para o lixo" className="opacity-0 group-hover:opacity-100 bg-red-50 text-red-600 text-[8px] font-black px-2 py-1 rounded-md transition-opacity">APAGAR</button>
+                          </div>
+                          <div className="text-[10px] font-black text-indigo-600 mb-4">{a.data}</div>
+                          <h4 onClick={() => onRead(a)} className="text-sm font-black text-slate-800 mb-2 leading-tight line-clamp-2 cursor-pointer hover:text-indigo-600">{a.processo}</h4>
+                          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{a.relator}</p>
+                          {snippet.length > 0 && (
+                            <p className="mt-4 text-[11px] leading-relaxed text-slate-500 line-clamp-5">
+                              <Highlighted segments={snippet} />
+                            </p>
+                          )}
+                          <div className="mt-6 pt-6 border-t border-slate-50 flex flex-wrap gap-2">
+                             {(a.tags || []).map(t => (
+                               <span key={`tag-${t}`} className="text-[8px] font-black bg-amber-100 text-amber-700 px-2 py-1 rounded-full">#{t}</span>
+                             ))}
+                             {(a.anotacoes || []).length > 0 && (
+                               <span className="text-[8px] font-black bg-yellow-100 text-yellow-700 px-2 py-1 rounded-full">{a.anotacoes!.length} SUBLINHADOS</span>
+                             )}
+                             {a.notas && (
+                               <span title={a.notas} className="text-[8px] font-black bg-slate-100 text-slate-500 px-2 py-1 rounded-full">NOTA</span>
+                             )}
+                             {a.descritores.slice(0, 3).map((d, idx) => (
+                               <span key={idx} className="text-[8px] font-bold bg-indigo-50 text-indigo-500 px-2 py-1 rounded-full">{d}</span>
+                             ))}
+                          </div>
+                       </div>
+                     ))}
+                   </div>
+                )}
+             </div>
+
+             {panelAcordao && panel?.kind === 'citations' && citationGraph && (
+               <CitationPanel
+                 acordao={panelAcordao}
+                 graph={citationGraph}
+                 byId={byId}
+                 onSelect={openCitations}
+                 onClose={() => setPanel(null)}
+               />
+             )}
+             {panelAcordao && panel?.kind === 'organize' && (
+               <OrganizePanel
+                 acordao={panelAcordao}
+                 collections={collections}
+                 onSaveAnnotation={onAnnotate}
+                 onToggleCollection={onToggleCollection}
+                 onCreateCollection={onCreateCollection}
+                 onClose={() => setPanel(null)}
+               />
+             )}
+             {panelAcordao && panel?.kind === 'history' && (
+               <VersionHistoryPanel
+                 acordao={panelAcordao}
+                 onRestored={(record) => { setPanel({ kind: 'history', id: record.id }); onRefresh(); }}
+                 onClose={() => setPanel(null)}
+               />
+             )}
+          </div>
+       </div>
+    </div>
+  );
+};
+
+export default ArchiveModal;
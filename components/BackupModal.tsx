@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { StorageService } from '../services/storageService';
+import {
+  applyImport, ArchiveBundle, BUNDLE_ITEM_LABELS, BundleImportSummary, BundlePlanItem, bundleFileName,
+  bundleToZip, collectBundle, ConflictStrategy, migrateVirtualToFolder, planImport, readBundle,
+} from '../services/bundleService';
+
+interface BackupModalProps {
+  onClose: () => void;
+  onFinished: () => void;
+}
+
+const STRATEGY_LABELS: Record<ConflictStrategy, { label: string; description: string }> = {
+  merge: { label: 'Fundir', description: 'Completa os acórdãos existentes com os dados da cópia e junta os membros das coleções.' },
+  keep: { label: 'Manter o arquivo', description: 'Os elementos em conflito ficam como estão; só é importado o que é novo.' },
+  replace: { label: 'Substituir', description: 'A cópia prevalece. Os acórdãos substituídos ficam no histórico de versões.' },
+};
+
+/** Cópia de segurança (exportar / importar pacote ZIP) e migração do armazenamento virtual para uma pasta. */
+const BackupModal: React.FC<BackupModalProps> = ({ onClose, onFinished }) => {
+  const mode = StorageService.getMode();
+  const [bundle, setBundle] = useState<ArchiveBundle | null>(null);
+  const [plan, setPlan] = useState<BundlePlanItem[] | null>(null);
+  const [strategy, setStrategy] = useState<ConflictStrategy>('merge');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [summary, setSummary] = useState<BundleImportSummary | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (job: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await job();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsBusy(false);
+      setProgress(null);
+    }
+  };
+
+  const handleExport = () => run(async () => {
+    const current = await collectBundle();
+    StorageService.downloadFile(bundleToZip(current), bundleFileName());
+    setStatus(`Cópia exportada: ${current.manifest.counts.acordaos} acórdãos, ${current.manifest.counts.rawFiles} textos brutos.`);
+  });
+
+  const handleFile = (file: File | undefined) => file && run(async () => {
+    setSummary(null);
+    setStatus(null);
+    const read = await readBundle(file);
+    setBundle(read);
+    setPlan(await planImport(read));
+  });
+
+  const handleImport = () => bundle && plan && run(async () => {
+    setSummary(await applyImport(bundle, plan, strategy, (done, total) => setProgress({ done, total })));
+    setBundle(null);
+    setPlan(null);
+    onFinished();
+  });
+
+  // A pasta é pedida antes de qualquer leitura, ainda dentro do clique (exigência do seletor de pastas).
+  const handleMigrate = () => run(async () => {
+    const folder = await StorageService.pickNativeDirectory();
+    setSummary(await migrateVirtualToFolder(folder, (done, total) => setProgress({ done, total })));
+    setStatus('Arquivo migrado para a pasta selecionada. Os dados do navegador foram mantidos.');
+    onFinished();
+  });
+
+  const count = (status: BundlePlanItem['status']) => plan?.filter(i => i.status === status).length || 0;
+  const conflicts = plan?.filter(i => i.status === 'conflict') || [];
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-12 bg-slate-900/90 backdrop-blur-sm animate-in fade-in duration-300">
+       <div className="bg-white w-full max-w-4xl max-h-[85vh] rounded-[50px] shadow-2xl flex flex-col overflow-hidden">
+          <div className="p-10 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+             <div>
+                <h2 className="text-3xl font-black uppercase tracking-tighter text-slate-900">Cópia de segurança</h2>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+                  {mode === 'native' ? 'Arquivo numa pasta local' : 'Arquivo no armazenamento virtual do navegador (IndexedDB)'}
+                </p>
+             </div>
+             <button onClick={onClose} disabled={isBusy} className="w-16 h-16 rounded-3xl bg-white border border-slate-200 text-slate-400 hover:text-red-500 flex items-center justify-center transition-all shadow-sm disabled:opacity-30">✕</button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-10 space-y-8 custom-scrollbar">
+             {error && <div className="p-6 rounded-[30px] border bg-red-50 border-red-200 text-red-600 text-sm">{error}</div>}
+             {status && <div className="p-6 rounded-[30px] border bg-emerald-50 border-emerald-200 text-emerald-700 text-sm">{status}</div>}
+             {progress && (
+               <div className="text-xs font-black text-indigo-600 animate-pulse tracking-[0.2em] uppercase">A gravar {progress.done}/{progress.total}...</div>
+             )}
+             {summary && (
+               <div className="p-6 rounded-[30px] border bg-slate-50 border-slate-200 text-sm text-slate-700 space-y-2">
+                  <p><strong>{summary.added}</strong> novos · <strong>{summary.updated}</strong> atualizados · <strong>{summary.unchanged}</strong> iguais · <strong>{summary.skipped}</strong> mantidos</p>
+                  {summary.errors.length > 0 && (
+                    <ul className="text-xs text-red-600 list-disc pl-5">{summary.errors.map((e, i) => <li key={i}>{e}</li>)}</ul>
+                  )}
+               </div>
+             )}
+
+             <section className="flex items-center justify-between gap-6">
+                <div>
+                   <h3 className="text-sm font-black text-slate-800">Exportar</h3>
+                   <p className="text-xs text-slate-500 mt-1">Pacote ZIP com acórdãos, textos brutos, sessões, coleções, pesquisas guardadas e vocabulário de descritores.</p>
+                </div>
+                <button onClick={handleExport} disabled={isBusy} className="bg-indigo-600 text-white px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg hover:bg-indigo-700 transition-all disabled:opacity-30 whitespace-nowrap">
+                  Descarregar cópia
+                </button>
+             </section>
+
+             <section className="space-y-4">
+                <div className="flex items-center justify-between gap-6">
+                   <div>
+                      <h3 className="text-sm font-black text-slate-800">Importar</h3>
+                      <p className="text-xs text-slate-500 mt-1">Restaura uma cópia para o arquivo atual. Nada é gravado antes de confirmar.</p>
+                   </div>
+                   <label className={`bg-slate-900 text-white px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg hover:bg-slate-700 transition-all cursor-pointer whitespace-nowrap ${isBusy ? 'opacity-30 pointer-events-none' : ''}`}>
+                      Escolher cópia (.zip)
+                      <input type="file" accept=".zip,application/zip" className="hidden" onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }} />
+                   </label>
+                </div>
+
+                {bundle && plan && (
+                  <div className="p-6 rounded-[30px] border border-slate-200 space-y-4">
+                     <p className="text-xs text-slate-600">
+                       Cópia de {new Date(bundle.manifest.createdAt).toLocaleString('pt-PT')} ({bundle.manifest.source === 'native' ? 'pasta' : 'navegador'}):
+                       {' '}<strong>{count('new')}</strong> novos, <strong>{count('identical')}</strong> iguais, <strong className={conflicts.length ? 'text-amber-600' : ''}>{conflicts.length}</strong> em conflito.
+                     </p>
+                     {bundle.problems.length > 0 && (
+                       <p className="text-xs text-red-600">{bundle.problems.length} entrada(s) ilegível(is) serão ignoradas: {bundle.problems.slice(0, 3).join('; ')}{bundle.problems.length > 3 && '…'}</p>
+                     )}
+                     {conflicts.length > 0 && (
+                       <>
+                         <ul className="max-h-40 overflow-y-auto text-[11px] text-slate-600 space-y-1 custom-scrollbar">
+                            {conflicts.map(item => (
+                              <li key={`${item.kind}:${item.id}`}><span className="font-black text-slate-400 uppercase text-[9px]">{BUNDLE_ITEM_LABELS[item.kind]}</span> {item.label}</li>
+                            ))}
+                         </ul>
+                         <div className="grid grid-cols-3 gap-3">
+                            {(Object.keys(STRATEGY_LABELS) as ConflictStrategy[]).map(s => (
+                              <label key={s} className={`p-4 rounded-2xl border cursor-pointer ${strategy === s ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200'}`}>
+                                 <input type="radio" name="strategy" checked={strategy === s} onChange={() => setStrategy(s)} className="mr-2" />
+                                 <span className="text-xs font-black text-slate-800">{STRATEGY_LABELS[s].label}</span>
+                                 <p className="text-[10px] text-slate-500 mt-1">{STRATEGY_LABELS[s].description}</p>
+                              </label>
+                            ))}
+                         </div>
+                       </>
+                     )}
+                     <button onClick={handleImport} disabled={isBusy || count('new') + conflicts.length === 0} className="w-full bg-indigo-600 text-white py-3 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition-all disabled:opacity-30">
+                       Importar
+                     </button>
+                  </div>
+                )}
+             </section>
+
+             {mode === 'virtual' && (
+               <section className="flex items-center justify-between gap-6 p-6 rounded-[30px] bg-amber-50 border border-amber-200">
+                  <div>
+                     <h3 className="text-sm font-black text-slate-800">Migrar para uma pasta</h3>
+                     <p className="text-xs text-slate-600 mt-1">Copia todo o arquivo do navegador para uma pasta local (ficheiros JSON e TXT), que passa a ser o arquivo ativo.</p>
+                  </div>
+                  <button onClick={handleMigrate} disabled={isBusy} className="bg-amber-500 text-slate-900 px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg hover:bg-amber-600 transition-all disabled:opacity-30 whitespace-nowrap">
+                    Escolher pasta e migrar
+                  </button>
+               </section>
+             )}
+          </div>
+       </div>
+    </div>
+  );
+};
+
+export default BackupModal;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Acordao, CitationGraph } from '../types';
+import { describeReference } from '../services/citationService';
+
+interface CitationPanelProps {
+  acordao: Acordao;
+  graph: CitationGraph;
+  byId: Map<string, Acordao>;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+}
+
+const DecisionLink: React.FC<{ acordao: Acordao; onSelect: (id: string) => void }> = ({ acordao, onSelect }) => (
+  <button onClick={() => onSelect(acordao.id)} className="w-full text-left px-4 py-3 rounded-2xl bg-white border border-slate-100 hover:border-indigo-500 transition-colors">
+    <div className="text-[11px] font-black text-slate-800">{acordao.processo}</div>
+    <div className="text-[10px] font-bold text-slate-400">{acordao.data} · {acordao.relator}</div>
+  </button>
+);
+
+/** Citações de um acórdão: o que cita (no arquivo ou por importar) e por quem é citado. */
+const CitationPanel: React.FC<CitationPanelProps> = ({ acordao, graph, byId, onSelect, onClose }) => {
+  const node = graph.nodes.get(acordao.id);
+  const cited = (node?.cites || []).flatMap(e => e.targetId && byId.has(e.targetId) ? [byId.get(e.targetId)!] : []);
+  const notImported = (node?.cites || []).filter(e => !e.targetId);
+  const citedBy = (node?.citedBy || []).flatMap(id => byId.has(id) ? [byId.get(id)!] : []);
+
+  return (
+    <aside className="w-[420px] border-l border-slate-200 bg-slate-50 overflow-y-auto p-8 space-y-8 custom-scrollbar">
+       <div className="flex justify-between items-start gap-4">
+          <div>
+             <h3 className="text-[10px] font-black uppercase tracking-widest text-indigo-600">Citações</h3>
+             <p className="text-sm font-black text-slate-800 mt-1">{acordao.processo}</p>
+             <p className="text-[10px] font-bold text-slate-400">{acordao.data}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-red-500 font-bold">✕</button>
+       </div>
+
+       <section>
+          <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3">Cita ({cited.length})</h4>
+          <div className="space-y-2">
+             {cited.map(a => <DecisionLink key={a.id} acordao={a} onSelect={onSelect} />)}
+             {cited.length === 0 && <p className="text-[10px] font-bold text-slate-300 uppercase">Nenhum acórdão do arquivo</p>}
+          </div>
+       </section>
+
+       <section>
+          <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3">Citado por ({citedBy.length})</h4>
+          <div className="space-y-2">
+             {citedBy.map(a => <DecisionLink key={a.id} acordao={a} onSelect={onSelect} />)}
+             {citedBy.length === 0 && <p className="text-[10px] font-bold text-slate-300 uppercase">Nenhum acórdão do arquivo</p>}
+          </div>
+       </section>
+
+       {notImported.length > 0 && (
+         <section>
+            <h4 className="text-[10px] font-black uppercase tracking-widest text-amber-600 mb-3">Citados, não importados ({notImported.length})</h4>
+            <ul className="space-y-2">
+               {notImported.map(({ reference }) => (
+                 <li key={reference.key} className="px-4 py-3 rounded-2xl bg-amber-50 border border-amber-100">
+                    <div className="text-[11px] font-black text-slate-700">{describeReference(reference)}</div>
+                    <div className="text-[10px] text-slate-500 italic mt-1 line-clamp-2">"{reference.raw}"</div>
+                 </li>
+               ))}
+            </ul>
+         </section>
+       )}
+    </aside>
+  );
+};
+
+export default CitationPanel;
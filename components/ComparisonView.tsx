@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Acordao, ContextReport, ModelSettings } from '../types';
+import { compareAcordaos, MIN_COMPARE, normalizeDescritor } from '../services/comparisonService';
+import { articleKey, diplomaName, provisionsOf } from '../services/legislationService';
+import { courtCodeOf, courtName } from '../services/ecliService';
+import { acordaoDate, formatDate } from '../services/dateService';
+import { explainDisagreement } from '../services/geminiService';
+import { createModelClient } from '../services/providerService';
+import { isAbortError } from '../services/modelClient';
+import ContextReportView from './ContextReportView';
+
+interface ComparisonViewProps {
+  acordaos: Acordao[];
+  modelSettings: ModelSettings;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+const Chip: React.FC<{ shared: boolean; title?: string; children: React.ReactNode }> = ({ shared, title, children }) => (
+  <span
+    title={title}
+    className={`text-[10px] font-bold px-2 py-1 rounded-full ${shared ? 'bg-amber-100 text-amber-800 ring-1 ring-amber-300' : 'bg-slate-100 text-slate-500'}`}
+  >
+    {children}
+  </span>
+);
+
+/** Comparação lado a lado de 2 a 4 acórdãos, com metadados alinhados e elementos em comum destacados. */
+const ComparisonView: React.FC<ComparisonViewProps> = ({ acordaos, modelSettings, onRemove, onClose }) => {
+  const summary = useMemo(() => compareAcordaos(acordaos), [acordaos]);
+  const [answer, setAnswer] = useState<{ text: string; context?: ContextReport } | null>(null);
+  const [isAsking, setIsAsking] = useState(false);
+  const [askError, setAskError] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+  const comparedIds = acordaos.map(a => a.id).join('|');
+
+  // A explicação refere-se aos acórdãos em comparação: ao mudar a seleção, é descartada (e o pedido em curso cancelado).
+  useEffect(() => {
+    setAnswer(null);
+    setAskError(null);
+    return () => abort.current?.abort();
+  }, [comparedIds]);
+
+  const handleAsk = async () => {
+    const controller = new AbortController();
+    abort.current = controller;
+    setIsAsking(true);
+    setAskError(null);
+    setAnswer({ text: '' });
+    try {
+      const result = await explainDisagreement(acordaos, {
+        client: createModelClient(modelSettings),
+        temperature: modelSettings.temperature,
+        maxOutputTokens: modelSettings.maxOutputTokens,
+        tokenBudget: modelSettings.tokenBudget,
+        signal: controller.signal,
+        onText: text => { if (!controller.signal.aborted) setAnswer({ text }); },
+      });
+      if (!controller.signal.aborted) setAnswer(result);
+    } catch (e) {
+      setAnswer(null);
+      if (!isAbortError(e) && !controller.signal.aborted) setAskError((e as Error).message);
+    } finally {
+      if (abort.current === controller) abort.current = null;
+      setIsAsking(false);
+    }
+  };
+
+  const rows: { label: string; render: (a: Acordao) => React.ReactNode }[] = [
+    { label: 'Tribunal', render: a => courtName(courtCodeOf(a)) },
+    { label: 'Data', render: a => { const iso = acordaoDate(a); return iso ? formatDate(iso) : a.data; } },
+    { label: 'Relator', render: a => a.relator },
+    { label: 'Adjuntos', render: a => a.adjuntos.length > 0 ? a.adjuntos.join(', ') : '—' },
+    {
+      label: 'Descritores',
+      render: a => (
+        <div className="flex flex-wrap gap-1">
+          {a.descritores.map(d => <Chip key={d} shared={summary.sharedDescritores.has(normalizeDescritor(d))}>{d}</Chip>)}
+        </div>
+      ),
+    },
+    {
+      label: 'Legislação',
+      render: a => {
+        const keys = Array.from(new Set(provisionsOf(a).map(articleKey)));
+        return keys.length === 0 ? '—' : (
+          <div className="flex flex-wrap gap-1">
+            {keys.map(k => <Chip key={k} shared={summary.sharedArticles.has(k)} title={diplomaName(k.split(' art. ')[0])}>{k}</Chip>)}
+          </div>
+        );
+      },
+    },
+    { label: 'Sumário', render: a => <p className="whitespace-pre-wrap leading-relaxed">{a.sumario || 'Sem sumário.'}</p> },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-12 bg-slate-900/90 backdrop-blur-sm animate-in fade-in duration-300">
+       <div className="bg-white w-full max-w-7xl h-[90vh] rounded-[50px] shadow-2xl flex flex-col overflow-hidden">
+          <div className="p-10 border-b border-slate-100 flex justify-between items-center bg-slate-50/50 gap-8">
+             <div>
+                <h2 className="text-3xl font-black uppercase tracking-tighter text-slate-900">Comparação</h2>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+                  {acordaos.length} acórdãos · em comum: {summary.commonDescritores.length} descritores, {summary.commonArticles.length} disposições
+                </p>
+             </div>
+             <div className="flex items-center gap-3">
+                {isAsking ? (
+                  <button onClick={() => abort.current?.abort()} className="bg-red-50 text-red-600 border border-red-200 px-6 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest">Cancelar</button>
+                ) : (
+                  <button onClick={handleAsk} className="bg-indigo-600 text-white px-6 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition-all shadow-lg">
+                    Identificar o ponto de divergência
+                  </button>
+                )}
+                <button onClick={onClose} className="w-16 h-16 rounded-3xl bg-white border border-slate-200 text-slate-400 hover:text-red-500 flex items-center justify-center transition-all shadow-sm">✕</button>
+             </div>
+          </div>
+
+          <div className="flex-1 overflow-auto p-10 custom-scrollbar space-y-8">
+             {(answer || askError) && (
+               <div className={`p-8 rounded-[30px] border text-sm leading-relaxed ${askError ? 'bg-red-50 border-red-200 text-red-600' : 'bg-indigo-50/50 border-indigo-100 text-slate-800'}`}>
+                  <h5 className="text-[10px] font-black uppercase tracking-widest text-indigo-600 mb-3">Ponto de divergência</h5>
+                  {askError || (answer!.text
+                    ? <div className="whitespace-pre-wrap">{answer!.text}</div>
+                    : <div className="text-xs font-black text-indigo-600 animate-pulse tracking-[0.2em] uppercase">A analisar os acórdãos...</div>)}
+                  {answer?.context && <ContextReportView report={answer.context} />}
+               </div>
+             )}
+
+             <table className="w-full table-fixed border-separate border-spacing-x-4 text-xs text-slate-700">
+                <thead>
+                   <tr>
+                      <th className="w-32"></th>
+                      {acordaos.map(a => (
+                        <th key={a.id} className="text-left align-top pb-4">
+                           <div className="flex items-start justify-between gap-2">
+                              {a.url
+                                ? <a href={a.url} target="_blank" rel="noreferrer" className="text-sm font-black text-slate-900 hover:text-indigo-600">{a.processo}</a>
+                                : <span className="text-sm font-black text-slate-900">{a.processo}</span>}
+                              {acordaos.length > MIN_COMPARE && (
+                                <button onClick={() => onRemove(a.id)} title="Retirar da comparação" className="text-slate-300 hover:text-red-500 font-bold">✕</button>
+                              )}
+                           </div>
+                           <div className="text-[9px] font-bold text-slate-400 break-all">{a.ecli}</div>
+                        </th>
+                      ))}
+                   </tr>
+                </thead>
+                <tbody>
+                   {rows.map(row => (
+                     <tr key={row.label}>
+                        <td className="align-top py-4 border-t border-slate-100 text-[10px] font-black uppercase tracking-widest text-slate-400">{row.label}</td>
+                        {acordaos.map(a => (
+                          <td key={a.id} className="align-top py-4 border-t border-slate-100">{row.render(a)}</td>
+                        ))}
+                     </tr>
+                   ))}
+                </tbody>
+             </table>
+          </div>
+       </div>
+    </div>
+  );
+};
+
+export default ComparisonView;
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { ContextReport } from '../types';
+import { SECTION_LABELS } from '../services/retrievalService';
+import { formatDate } from '../services/dateService';
+
+/** Mostra que decisões e excertos foram efetivamente enviados à IA para uma resposta. */
+const ContextReportView: React.FC<{ report: ContextReport }> = ({ report }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const byAcordao = report.acordaoIds.map(id => ({
+    id,
+    passages: report.passages.filter(p => p.acordaoId === id),
+  }));
+
+  return (
+    <div className="mt-5 pt-4 border-t border-slate-200">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 transition-colors"
+      >
+        {isOpen ? '▾' : '▸'} Contexto: {report.acordaoIds.length} decisões · {report.passages.length} excertos · {report.usedTokens.toLocaleString('pt-PT')} / {report.tokenBudget.toLocaleString('pt-PT')} tokens
+        {(report.dateFrom || report.dateTo) && ` · ${report.dateFrom ? formatDate(report.dateFrom) : '…'} – ${report.dateTo ? formatDate(report.dateTo) : '…'}`}
+        {report.provision && ` · ${report.provision}`}
+      </button>
+      {isOpen && (
+        <ul className="mt-3 space-y-2">
+          {byAcordao.map(({ id, passages }) => (
+            <li key={id} className="text-[11px] text-slate-600">
+              <span className="font-bold text-slate-800">{passages[0]?.processo}</span>
+              <span className="ml-2 inline-flex flex-wrap gap-1">
+                {passages.map(p => (
+                  <span key={p.chunkIndex} title={`Relevância ${p.score} · ${p.tokens} tokens`} className="text-[9px] font-bold bg-indigo-50 text-indigo-500 px-2 py-0.5 rounded-full">
+                    {SECTION_LABELS[p.section]} #{p.chunkIndex}
+                  </span>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ContextReportView;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { ImportFileReport, ImportStatus } from '../types';
+import { IMPORT_EXTENSIONS, importSources, readImportFiles, reparseRawFiles } from '../services/importService';
+
+interface ImportModalProps {
+  onClose: () => void;
+  onFinished: () => void;
+}
+
+const STATUS_LABELS: Record<ImportStatus, { label: string; className: string }> = {
+  pending: { label: 'Pendente', className: 'bg-slate-100 text-slate-500' },
+  imported: { label: 'Importado', className: 'bg-emerald-50 text-emerald-600' },
+  updated: { label: 'Atualizado', className: 'bg-indigo-50 text-indigo-600' },
+  duplicate: { label: 'Duplicado', className: 'bg-amber-50 text-amber-600' },
+  error: { label: 'Erro', className: 'bg-red-50 text-red-600' },
+};
+
+// Seleção de uma pasta inteira: webkitdirectory não consta dos tipos do React.
+const DIRECTORY_INPUT_PROPS = { webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
+const ImportModal: React.FC<ImportModalProps> = ({ onClose, onFinished }) => {
+  const [reports, setReports] = useState<ImportFileReport[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const run = async (job: (onProgress: (report: ImportFileReport, index: number, total: number) => void) => Promise<unknown>) => {
+    setIsRunning(true);
+    setReports([]);
+    setTotal(0);
+    try {
+      await job((report, _index, count) => {
+        setTotal(count);
+        setReports(prev => [...prev, report]);
+      });
+    } catch (e) {
+      setReports(prev => [...prev, { name: '—', status: 'error', message: (e as Error).message }]);
+    } finally {
+      setIsRunning(false);
+      onFinished();
+    }
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const sources = await readImportFiles(files);
+    if (sources.length === 0) {
+      setReports([{ name: '—', status: 'error', message: `Nenhum ficheiro ${IMPORT_EXTENSIONS.join('/')} encontrado.` }]);
+      return;
+    }
+    run(onProgress => importSources(sources, { mode: 'import', onProgress }));
+  };
+
+  const counts = reports.reduce((acc, r) => ({ ...acc, [r.status]: (acc[r.status] || 0) + 1 }), {} as Partial<Record<ImportStatus, number>>);
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-12 bg-slate-900/90 backdrop-blur-sm animate-in fade-in duration-300">
+       <div className="bg-white w-full max-w-4xl h-[85vh] rounded-[50px] shadow-2xl flex flex-col overflow-hidden">
+          <div className="p-10 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+             <div>
+                <h2 className="text-3xl font-black uppercase tracking-tighter text-slate-900">Importação em Lote</h2>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">Ficheiros TXT / HTML (incluindo texto extraído de PDF)</p>
+             </div>
+             <button onClick={onClose} disabled={isRunning} className="w-16 h-16 rounded-3xl bg-white border border-slate-200 text-slate-400 hover:text-red-500 flex items-center justify-center transition-all shadow-sm disabled:opacity-30">✕</button>
+          </div>
+
+          <div className="p-10 border-b border-slate-100 space-y-6">
+             <div
+               onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+               onDragLeave={() => setIsDragging(false)}
+               onDrop={(e) => { e.preventDefault(); setIsDragging(false); if (!isRunning) handleFiles(e.dataTransfer.files); }}
+               className={`border-2 border-dashed rounded-[30px] p-10 text-center transition-all ${isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 bg-slate-50'}`}
+             >
+                <p className="text-xs font-black uppercase tracking-widest text-slate-400">Arraste para aqui os ficheiros dos acórdãos</p>
+                <div className="mt-6 flex justify-center gap-4">
+                   <label className={`bg-indigo-600 text-white px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg hover:bg-indigo-700 transition-all cursor-pointer ${isRunning ? 'opacity-30 pointer-events-none' : ''}`}>
+                      Escolher ficheiros
+                      <input type="file" multiple accept={IMPORT_EXTENSIONS.join(',')} className="hidden" onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }} />
+                   </label>
+                   <label className={`bg-slate-900 text-white px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg hover:bg-slate-700 transition-all cursor-pointer ${isRunning ? 'opacity-30 pointer-events-none' : ''}`}>
+                      Escolher pasta
+                      <input type="file" {...DIRECTORY_INPUT_PROPS} multiple className="hidden" onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }} />
+                   </label>
+                   <button
+                     onClick={() => run(onProgress => reparseRawFiles(onProgress))}
+                     disabled={isRunning}
+                     title="Volta a processar todos os textos brutos guardados com a versão atual dos parsers"
+                     className="bg-white border border-slate-200 text-slate-600 px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest hover:border-indigo-500 transition-all disabled:opacity-30"
+                   >
+                      Reprocessar arquivo
+                   </button>
+                </div>
+             </div>
+
+             {(isRunning || reports.length > 0) && (
+               <div>
+                  <div className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
+                     <span>{isRunning ? 'A processar...' : 'Concluído'} {reports.length}{total ? ` / ${total}` : ''}</span>
+                     <span className="flex gap-4">
+                        {(Object.keys(counts) as ImportStatus[]).map(status => (
+                          <span key={status}>{STATUS_LABELS[status].label}: {counts[status]}</span>
+                        ))}
+                     </span>
+                  </div>
+                  <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                     <div className="h-full bg-indigo-600 transition-all" style={{ width: `${total ? (reports.length / total) * 100 : 0}%` }} />
+                  </div>
+               </div>
+             )}
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-10 custom-scrollbar space-y-2">
+             {reports.map((r, i) => (
+               <div key={i} className="flex items-center gap-4 text-[11px] bg-slate-50 px-5 py-3 rounded-2xl">
+                  <span className={`text-[9px] font-black uppercase px-2 py-1 rounded-md ${STATUS_LABELS[r.status].className}`}>{STATUS_LABELS[r.status].label}</span>
+                  <span className="font-bold text-slate-700 truncate flex-1" title={r.name}>{r.name}</span>
+                  {r.processo && <span className="text-slate-500 font-mono">{r.processo}</span>}
+                  {r.warnings && r.warnings.length > 0 && (
+                    <span className="text-[9px] font-black text-amber-600" title={r.warnings.join('\n')}>⚠ {r.warnings.length}</span>
+                  )}
+                  {r.message && <span className="text-slate-400 truncate max-w-xs" title={r.message}>{r.message}</span>}
+               </div>
+             ))}
+          </div>
+       </div>
+    </div>
+  );
+};
+
+export default ImportModal;
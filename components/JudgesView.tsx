@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { Acordao } from '../types';
+import { buildJudgeIndex, JudgeProfile } from '../services/judgeService';
+import { formatDate } from '../services/dateService';
+import { normalizeText } from '../services/textService';
+
+interface JudgesViewProps {
+  acordaos: Acordao[];
+  byId: Map<string, Acordao>;
+  onFilterRelator: (key: string) => void;
+}
+
+const DECISION_LIMIT = 15;
+const DESCRITOR_LIMIT = 15;
+
+const DecisionList: React.FC<{ title: string; ids: string[]; byId: Map<string, Acordao> }> = ({ title, ids, byId }) => {
+  const [showAll, setShowAll] = useState(false);
+  const visible = showAll ? ids : ids.slice(0, DECISION_LIMIT);
+  return (
+    <div>
+      <h5 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">{title} ({ids.length})</h5>
+      {ids.length === 0 ? <p className="text-xs text-slate-300">—</p> : (
+        <ul className="space-y-1 text-[11px] text-slate-600">
+          {visible.map(id => {
+            const a = byId.get(id);
+            return a && (
+              <li key={id} className="truncate" title={a.sumario}>
+                {a.url
+                  ? <a href={a.url} target="_blank" rel="noreferrer" className="font-black text-slate-800 hover:text-indigo-600">{a.processo}</a>
+                  : <span className="font-black text-slate-800">{a.processo}</span>}
+                {' '}· {a.data} · {a.descritores.slice(0, 2).join(', ')}
+              </li>
+            );
+          })}
+          {!showAll && ids.length > DECISION_LIMIT && (
+            <li><button onClick={() => setShowAll(true)} className="text-[10px] font-bold text-indigo-500">+ {ids.length - DECISION_LIMIT} mais</button></li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const ProfileDetail: React.FC<{ judge: JudgeProfile; byId: Map<string, Acordao>; onFilterRelator: (key: string) => void }> = ({ judge, byId, onFilterRelator }) => (
+  <div className="bg-white border border-slate-100 p-10 rounded-[30px] shadow-lg space-y-8">
+    <div className="flex justify-between items-start gap-6">
+      <div>
+        <h3 className="text-2xl font-black text-slate-900 tracking-tight">{judge.name}</h3>
+        {judge.variants.length > 1 && (
+          <p className="text-[10px] font-bold text-slate-400 mt-1">Também grafado: {judge.variants.filter(v => v !== judge.name).join(' · ')}</p>
+        )}
+        {judge.firstDate && (
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mt-2">
+            {formatDate(judge.firstDate)}{judge.lastDate !== judge.firstDate && ` — ${formatDate(judge.lastDate!)}`}
+          </p>
+        )}
+      </div>
+      {judge.asRelator.length > 0 && (
+        <button
+          onClick={() => onFilterRelator(judge.key)}
+          className="text-[10px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 px-4 py-2 rounded-full hover:bg-indigo-100 whitespace-nowrap"
+        >
+          Filtrar arquivo →
+        </button>
+      )}
+    </div>
+
+    <div>
+      <h5 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">Tribunais</h5>
+      <div className="flex flex-wrap gap-2">
+        {judge.tribunais.map(t => (
+          <span key={t.name} className="text-[10px] font-bold bg-slate-100 text-slate-600 px-3 py-1 rounded-full">{t.name} <span className="text-slate-400">{t.count}</span></span>
+        ))}
+      </div>
+    </div>
+
+    <div>
+      <h5 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">Descritores mais frequentes</h5>
+      <div className="flex flex-wrap gap-2">
+        {judge.descritores.slice(0, DESCRITOR_LIMIT).map(d => (
+          <span key={d.name} className="text-[10px] font-bold bg-indigo-50 text-indigo-600 px-3 py-1 rounded-full">{d.name} <span className="opacity-50">{d.count}</span></span>
+        ))}
+        {judge.descritores.length === 0 && <span className="text-xs text-slate-300">—</span>}
+      </div>
+    </div>
+
+    <div className="grid grid-cols-2 gap-8">
+      <DecisionList title="Como relator" ids={judge.asRelator} byId={byId} />
+      <DecisionList title="Como adjunto" ids={judge.asAdjunto} byId={byId} />
+    </div>
+  </div>
+);
+
+/** Lista de juízes do arquivo (nomes normalizados) e perfil do juiz selecionado. */
+const JudgesView: React.FC<JudgesViewProps> = ({ acordaos, byId, onFilterRelator }) => {
+  const judges = useMemo(() => buildJudgeIndex(acordaos), [acordaos]);
+  const [filter, setFilter] = useState('');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const selected = judges.find(j => j.key === selectedKey) || judges[0];
+  const visible = filter.trim() ? judges.filter(j => j.variants.some(v => normalizeText(v).includes(normalizeText(filter.trim())))) : judges;
+
+  if (judges.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center opacity-30 text-center">
+         <p className="text-xl font-black uppercase tracking-[0.2em]">Nenhum juiz identificado</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-8 items-start">
+       <div className="w-72 shrink-0 bg-white border border-slate-100 rounded-[30px] shadow-lg p-6 space-y-3">
+          <input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filtrar juízes..."
+            className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-2 outline-none text-xs font-bold text-slate-700 focus:border-indigo-500"
+          />
+          <div className="space-y-0.5 max-h-[55vh] overflow-y-auto custom-scrollbar">
+             {visible.map(j => (
+               <button
+                 key={j.key}
+                 onClick={() => setSelectedKey(j.key)}
+                 className={`w-full flex justify-between items-center gap-2 px-3 py-1.5 rounded-lg text-[11px] text-left transition-colors ${selected?.key === j.key ? 'bg-indigo-600 text-white font-bold' : 'text-slate-600 hover:bg-slate-100'}`}
+               >
+                 <span className="truncate">{j.name}</span>
+                 <span className={`text-[9px] font-black whitespace-nowrap ${selected?.key === j.key ? 'text-indigo-200' : 'text-slate-300'}`} title="Relator / adjunto">
+                   {j.asRelator.length}R · {j.asAdjunto.length}A
+                 </span>
+               </button>
+             ))}
+          </div>
+       </div>
+       <div className="flex-1 min-w-0">
+          {selected && <ProfileDetail judge={selected} byId={byId} onFilterRelator={onFilterRelator} />}
+       </div>
+    </div>
+  );
+};
+
+export default JudgesView;
@@ -0,0 +1,62 @@
+import React, { useMemo, useState } from 'react';
+import { Acordao } from '../types';
+import { buildProvisionIndex, formatArticle } from '../services/legislationService';
+
+interface LegislationIndexViewProps {
+  acordaos: Acordao[];
+  onSelectArticle: (key: string) => void;
+}
+
+const ARTICLE_LIMIT = 40;
+
+/** Índice do arquivo por diploma e artigo; cada artigo abre a lista dos acórdãos que o aplicam. */
+const LegislationIndexView: React.FC<LegislationIndexViewProps> = ({ acordaos, onSelectArticle }) => {
+  const index = useMemo(() => buildProvisionIndex(acordaos), [acordaos]);
+  const [expanded, setExpanded] = useState<string[]>([]);
+
+  if (index.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center opacity-30 text-center">
+         <p className="text-xl font-black uppercase tracking-[0.2em]">Nenhuma disposição legal identificada</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+       {index.map(entry => {
+         const showAll = expanded.includes(entry.diploma);
+         const articles = showAll ? entry.articles : entry.articles.slice(0, ARTICLE_LIMIT);
+         return (
+           <div key={entry.diploma} className="bg-white border border-slate-100 p-8 rounded-[30px] shadow-lg">
+              <div className="flex items-baseline justify-between mb-4">
+                 <h4 className="text-sm font-black text-slate-800">
+                   {entry.name}
+                   {entry.name !== entry.diploma && <span className="ml-2 text-[10px] font-black text-indigo-500">{entry.diploma}</span>}
+                 </h4>
+                 <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{entry.acordaoIds.length} acórdãos · {entry.articles.length} artigos</span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                 {articles.map(article => (
+                   <button
+                     key={article.key}
+                     onClick={() => onSelectArticle(article.key)}
+                     className="text-[10px] font-bold bg-slate-50 border border-slate-100 text-slate-600 px-3 py-1.5 rounded-full hover:bg-indigo-600 hover:text-white hover:border-indigo-600 transition-colors"
+                   >
+                     art. {formatArticle(article.artigo)} <span className="opacity-50">{article.acordaoIds.length}</span>
+                   </button>
+                 ))}
+                 {!showAll && entry.articles.length > ARTICLE_LIMIT && (
+                   <button onClick={() => setExpanded(prev => [...prev, entry.diploma])} className="text-[10px] font-bold text-indigo-500 px-3 py-1.5">
+                     + {entry.articles.length - ARTICLE_LIMIT} mais
+                   </button>
+                 )}
+              </div>
+           </div>
+         );
+       })}
+    </div>
+  );
+};
+
+export default LegislationIndexView;
@@ -0,0 +1,38 @@
+import React, { useState } from 'react';
+import { LoadReport } from '../types';
+
+interface LoadReportBannerProps {
+  report: LoadReport;
+  onDismiss: () => void;
+}
+
+/** Aviso dos registos do arquivo que não foi possível carregar, com o motivo de cada um. */
+const LoadReportBanner: React.FC<LoadReportBannerProps> = ({ report, onDismiss }) => {
+  const [expanded, setExpanded] = useState(false);
+  const { problems } = report;
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200 px-10 py-3 text-amber-900">
+       <div className="flex items-center gap-6">
+          <span className="text-[10px] font-black uppercase tracking-widest">
+            {problems.length} {problems.length === 1 ? 'registo não foi carregado' : 'registos não foram carregados'}
+          </span>
+          <button onClick={() => setExpanded(!expanded)} className="text-[10px] font-black uppercase tracking-widest text-amber-700 hover:text-amber-900 underline">
+            {expanded ? 'Ocultar' : 'Ver detalhes'}
+          </button>
+          <button onClick={onDismiss} className="ml-auto font-bold text-amber-400 hover:text-amber-700 transition-colors">✕</button>
+       </div>
+       {expanded && (
+         <ul className="mt-3 max-h-48 overflow-y-auto space-y-1 text-[11px] custom-scrollbar">
+            {problems.map(problem => (
+              <li key={problem.source}>
+                <span className="font-mono font-bold">{problem.source}</span> — {problem.reason}
+              </li>
+            ))}
+         </ul>
+       )}
+    </div>
+  );
+};
+
+export default LoadReportBanner;
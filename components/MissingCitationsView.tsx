@@ -0,0 +1,64 @@
+import React from 'react';
+import { Acordao, MissingCitation } from '../types';
+import { describeReference } from '../services/citationService';
+import { StorageService } from '../services/storageService';
+
+interface MissingCitationsViewProps {
+  missing: MissingCitation[];
+  byId: Map<string, Acordao>;
+  onSelect: (id: string) => void;
+}
+
+const toCsvField = (value = '') => `"${value.replace(/"/g, '""')}"`;
+
+/** Decisões citadas no arquivo que ainda não foram importadas: a lista do que falta obter. */
+const MissingCitationsView: React.FC<MissingCitationsViewProps> = ({ missing, byId, onSelect }) => {
+  const exportCsv = () => {
+    const rows = [
+      ['Tribunal', 'Data', 'Processo', 'ECLI', 'Citado por', 'Excerto'],
+      ...missing.map(({ reference: r, citedBy }) => [
+        r.court || '', r.dateIso || '', r.processo || '', r.ecli || '',
+        citedBy.map(id => byId.get(id)?.processo || id).join('; '), r.raw,
+      ]),
+    ];
+    const csv = rows.map(row => row.map(toCsvField).join(',')).join('\n');
+    StorageService.downloadFile(new Blob([csv], { type: 'text/csv' }), 'acordaos_por_importar.csv');
+  };
+
+  if (missing.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center opacity-30 text-center">
+         <p className="text-xl font-black uppercase tracking-[0.2em]">Todas as decisões citadas estão no arquivo</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+       <div className="flex justify-between items-center">
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">{missing.length} decisões citadas por importar</p>
+          <button onClick={exportCsv} className="bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest px-4 py-2 rounded-xl hover:bg-slate-800 transition-colors">Exportar CSV</button>
+       </div>
+       <div className="bg-white rounded-[30px] border border-slate-100 shadow-lg divide-y divide-slate-50">
+          {missing.map(({ reference, citedBy }) => (
+            <div key={reference.key} className="p-6 flex gap-6 items-start">
+               <div className="flex-1 min-w-0">
+                  <div className="text-xs font-black text-slate-800">{describeReference(reference)}</div>
+                  <div className="text-[10px] text-slate-400 italic mt-1 truncate">"{reference.raw}"</div>
+               </div>
+               <div className="flex flex-wrap gap-1 justify-end max-w-xs">
+                  <span className="text-[9px] font-black text-slate-400 uppercase mr-1 self-center">Citado por {citedBy.length}:</span>
+                  {citedBy.map(id => (
+                    <button key={id} onClick={() => onSelect(id)} className="text-[9px] font-bold bg-indigo-50 text-indigo-600 px-2 py-1 rounded-full hover:bg-indigo-100">
+                      {byId.get(id)?.processo || id}
+                    </button>
+                  ))}
+               </div>
+            </div>
+          ))}
+       </div>
+    </div>
+  );
+};
+
+export default MissingCitationsView;
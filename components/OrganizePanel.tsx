@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { Acordao, Collection } from '../types';
+import { parseTags } from '../services/collectionService';
+
+interface OrganizePanelProps {
+  acordao: Acordao;
+  collections: Collection[];
+  onSaveAnnotation: (acordao: Acordao, tags: string[], notas: string) => Promise<void>;
+  onToggleCollection: (collection: Collection, acordaoId: string) => void;
+  onCreateCollection: (name: string, acordaoIds: string[]) => void;
+  onClose: () => void;
+}
+
+/** Etiquetas, notas e coleções de um acórdão. */
+const OrganizePanel: React.FC<OrganizePanelProps> = ({ acordao, collections, onSaveAnnotation, onToggleCollection, onCreateCollection, onClose }) => {
+  const [tagsInput, setTagsInput] = useState((acordao.tags || []).join(', '));
+  const [notas, setNotas] = useState(acordao.notas || '');
+  const [newCollection, setNewCollection] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setTagsInput((acordao.tags || []).join(', '));
+    setNotas(acordao.notas || '');
+  }, [acordao.id]);
+
+  const isDirty = tagsInput !== (acordao.tags || []).join(', ') || notas !== (acordao.notas || '');
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveAnnotation(acordao, parseTags(tagsInput), notas.trim());
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = () => {
+    if (!newCollection.trim()) return;
+    onCreateCollection(newCollection, [acordao.id]);
+    setNewCollection('');
+  };
+
+  return (
+    <aside className="w-[420px] border-l border-slate-200 bg-slate-50 overflow-y-auto p-8 space-y-8 custom-scrollbar">
+       <div className="flex justify-between items-start gap-4">
+          <div>
+             <h3 className="text-[10px] font-black uppercase tracking-widest text-indigo-600">Organizar</h3>
+             <p className="text-sm font-black text-slate-800 mt-1">{acordao.processo}</p>
+             <p className="text-[10px] font-bold text-slate-400">{acordao.data}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-red-500 font-bold">✕</button>
+       </div>
+
+       <section className="space-y-3">
+          <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500">Etiquetas (separadas por vírgulas)</label>
+          <input
+            value={tagsInput}
+            onChange={(e) => setTagsInput(e.target.value)}
+            placeholder="ex.: cliente X, favorável, rever"
+            className="w-full bg-white border border-slate-200 rounded-xl px-4 py-3 outline-none text-xs font-bold text-slate-700 focus:border-indigo-500"
+          />
+          <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500">Notas</label>
+          <textarea
+            value={notas}
+            onChange={(e) => setNotas(e.target.value)}
+            rows={6}
+            className="w-full bg-white border border-slate-200 rounded-xl px-4 py-3 outline-none text-xs text-slate-700 focus:border-indigo-500 resize-none"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="w-full bg-indigo-600 text-white py-3 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition-all disabled:opacity-40"
+          >
+            {isSaving ? 'A gravar...' : 'Gravar etiquetas e notas'}
+          </button>
+       </section>
+
+       <section>
+          <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3">Coleções</h4>
+          <div className="space-y-1">
+             {collections.map(c => (
+               <label key={c.id} className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white cursor-pointer text-xs text-slate-700">
+                  <input type="checkbox" checked={c.acordaoIds.includes(acordao.id)} onChange={() => onToggleCollection(c, acordao.id)} />
+                  <span className="flex-1 truncate">{c.name}</span>
+                  <span className="text-[9px] font-black text-slate-300">{c.acordaoIds.length}</span>
+               </label>
+             ))}
+          </div>
+          <div className="flex gap-2 mt-3">
+             <input
+               value={newCollection}
+               onChange={(e) => setNewCollection(e.target.value)}
+               onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+               placeholder="Nova coleção..."
+               className="flex-1 bg-white border border-slate-200 rounded-xl px-4 py-2 outline-none text-xs font-bold text-slate-700 focus:border-indigo-500"
+             />
+             <button onClick={handleCreate} disabled={!newCollection.trim()} className="bg-slate-900 text-white px-4 rounded-xl text-[10px] font-black disabled:opacity-30">+</button>
+          </div>
+       </section>
+    </aside>
+  );
+};
+
+export default OrganizePanel;
@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { Acordao, ResearchSession } from '../types';
+import { StorageService } from '../services/storageService';
+import {
+  CitationOptions,
+  DEFAULT_CITATION_OPTIONS,
+  formatCitation,
+  sessionToDocx,
+  sessionToHtml,
+  sessionToMarkdown,
+} from '../services/reportService';
+
+interface ReportExportModalProps {
+  session: ResearchSession;
+  acordaos: Acordao[];
+  onClose: () => void;
+}
+
+const fileBaseName = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60) || 'relatorio';
+
+const TOGGLES: { key: 'includeRelator' | 'includeEcli' | 'includeUrl'; label: string }[] = [
+  { key: 'includeRelator', label: 'Relator' },
+  { key: 'includeEcli', label: 'ECLI' },
+  { key: 'includeUrl', label: 'URL' },
+];
+
+/** Exportação da sessão de pesquisa como relatório (Markdown, HTML/PDF, DOCX). */
+const ReportExportModal: React.FC<ReportExportModalProps> = ({ session, acordaos, onClose }) => {
+  const [options, setOptions] = useState<CitationOptions>(DEFAULT_CITATION_OPTIONS);
+  const baseName = fileBaseName(session.name);
+  const sample = useMemo(() => {
+    const citedId = session.messages
+      .flatMap(m => m.analysis?.posicoes.flatMap(p => p.citacoes) || [])
+      .find(c => c.acordaoId)?.acordaoId;
+    return acordaos.find(a => a.id === citedId) || acordaos[0];
+  }, [session, acordaos]);
+
+  const exportMarkdown = () =>
+    StorageService.downloadFile(new Blob([sessionToMarkdown(session, acordaos, options)], { type: 'text/markdown' }), `${baseName}.md`);
+
+  const exportHtml = () =>
+    StorageService.downloadFile(new Blob([sessionToHtml(session, acordaos, options)], { type: 'text/html' }), `${baseName}.html`);
+
+  const exportDocx = () => StorageService.downloadFile(sessionToDocx(session, acordaos, options), `${baseName}.docx`);
+
+  const printReport = () => {
+    const win = window.open('', '_blank');
+    if (!win) return;
+    win.document.write(sessionToHtml(session, acordaos, options));
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-12 bg-slate-900/90 backdrop-blur-sm animate-in fade-in duration-300">
+       <div className="bg-white w-full max-w-2xl rounded-[50px] shadow-2xl flex flex-col overflow-hidden">
+          <div className="p-10 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+             <div>
+                <h2 className="text-3xl font-black uppercase tracking-tighter text-slate-900">Exportar Relatório</h2>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1 truncate max-w-md">{session.name}</p>
+             </div>
+             <button onClick={onClose} className="w-16 h-16 rounded-3xl bg-white border border-slate-200 text-slate-400 hover:text-red-500 flex items-center justify-center transition-all shadow-sm">✕</button>
+          </div>
+
+          <div className="p-10 space-y-6">
+             <div className="grid grid-cols-2 gap-6">
+                <label className="text-[10px] font-black uppercase tracking-widest text-slate-500 space-y-2">
+                   <span>Estilo de citação</span>
+                   <select
+                     value={options.style}
+                     onChange={(e) => setOptions({ ...options, style: e.target.value as CitationOptions['style'] })}
+                     className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 outline-none text-xs font-bold text-slate-700"
+                   >
+                     <option value="extenso">Por extenso</option>
+                     <option value="abreviado">Abreviado</option>
+                   </select>
+                </label>
+                <label className="text-[10px] font-black uppercase tracking-widest text-slate-500 space-y-2">
+                   <span>Formato da data</span>
+                   <select
+                     value={options.dateFormat}
+                     onChange={(e) => setOptions({ ...options, dateFormat: e.target.value as CitationOptions['dateFormat'] })}
+                     className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 outline-none text-xs font-bold text-slate-700"
+                   >
+                     <option value="numerica">27/01/2022</option>
+                     <option value="extenso">27 de janeiro de 2022</option>
+                   </select>
+                </label>
+             </div>
+
+             <div className="flex gap-6">
+                {TOGGLES.map(t => (
+                  <label key={t.key} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+                     <input type="checkbox" checked={options[t.key]} onChange={(e) => setOptions({ ...options, [t.key]: e.target.checked })} />
+                     {t.label}
+                  </label>
+                ))}
+             </div>
+
+             {sample && (
+               <div className="bg-slate-50 border border-slate-100 rounded-2xl p-5">
+                  <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-2">Pré-visualização da citação</p>
+                  <p className="text-xs font-serif text-slate-700 leading-relaxed">{formatCitation(sample, options)}</p>
+               </div>
+             )}
+          </div>
+
+          <div className="p-10 pt-0 grid grid-cols-4 gap-3">
+             <button onClick={exportMarkdown} className="bg-slate-900 text-white py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 transition-all">Markdown</button>
+             <button onClick={exportHtml} className="bg-slate-900 text-white py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 transition-all">HTML</button>
+             <button onClick={exportDocx} className="bg-slate-900 text-white py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 transition-all">DOCX</button>
+             <button onClick={printReport} className="bg-indigo-600 text-white py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition-all">Imprimir / PDF</button>
+          </div>
+       </div>
+    </div>
+  );
+};
+
+export default ReportExportModal;
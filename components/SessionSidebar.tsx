@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { ResearchSession } from '../types';
+import { sortSessions } from '../services/sessionService';
+
+interface SessionSidebarProps {
+  sessions: ResearchSession[];
+  activeSessionId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (session: ResearchSession, name: string) => void;
+  onDuplicate: (session: ResearchSession) => void;
+  onDelete: (session: ResearchSession) => void;
+}
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString('pt-PT', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/** Lista de sessões de pesquisa: retomar, criar, renomear, duplicar e apagar. */
+const SessionSidebar: React.FC<SessionSidebarProps> = ({ sessions, activeSessionId, onSelect, onCreate, onRename, onDuplicate, onDelete }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const commitRename = (session: ResearchSession) => {
+    onRename(session, draftName);
+    setRenamingId(null);
+  };
+
+  return (
+    <aside className="w-72 h-full flex flex-col bg-white rounded-[40px] shadow-2xl border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+        <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-500">Sessões</h3>
+        <button onClick={onCreate} className="bg-indigo-600 text-white text-[10px] font-black px-3 py-1.5 rounded-lg hover:bg-indigo-700 transition-colors">+ NOVA</button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-3 space-y-1 custom-scrollbar">
+        {sessions.length === 0 && (
+          <p className="text-[10px] font-bold text-slate-300 uppercase text-center mt-8 px-4">A primeira pergunta cria uma sessão</p>
+        )}
+        {sortSessions(sessions).map(session => {
+          const isActive = session.id === activeSessionId;
+          return (
+            <div
+              key={session.id}
+              onClick={() => renamingId !== session.id && onSelect(session.id)}
+              className={`group px-4 py-3 rounded-2xl cursor-pointer transition-colors ${isActive ? 'bg-indigo-50 border border-indigo-200' : 'hover:bg-slate-50 border border-transparent'}`}
+            >
+              {renamingId === session.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={() => commitRename(session)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename(session);
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="w-full text-xs font-bold bg-white border border-indigo-300 rounded-lg px-2 py-1 outline-none"
+                />
+              ) : (
+                <div className={`text-xs font-bold truncate ${isActive ? 'text-indigo-700' : 'text-slate-700'}`} title={session.name}>{session.name}</div>
+              )}
+              <div className="flex items-center justify-between mt-1">
+                <span className="text-[9px] font-bold text-slate-400">{formatTimestamp(session.updatedAt)} · {session.messages.length} msg</span>
+                <span className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity text-[9px] font-black">
+                  <button onClick={(e) => { e.stopPropagation(); setDraftName(session.name); setRenamingId(session.id); }} className="text-slate-400 hover:text-indigo-600">RENOMEAR</button>
+                  <button onClick={(e) => { e.stopPropagation(); onDuplicate(session); }} className="text-slate-400 hover:text-indigo-600">DUPLICAR</button>
+                  <button onClick={(e) => { e.stopPropagation(); onDelete(session); }} className="text-slate-400 hover:text-red-500">APAGAR</button>
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
+
+export default SessionSidebar;
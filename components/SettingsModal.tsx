@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { ModelSettings, ProviderKind } from '../types';
+import { createModelClient, getProvider, listProviders, switchProvider } from '../services/providerService';
+import { streamCompletion } from '../services/modelClient';
+import { TOKEN_BUDGET_OPTIONS } from '../services/retrievalService';
+
+interface SettingsModalProps {
+  settings: ModelSettings;
+  onSave: (settings: ModelSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 outline-none text-xs font-bold text-slate-700 focus:border-indigo-500';
+const labelClass = 'block text-[10px] font-black uppercase tracking-widest text-slate-500 space-y-2';
+
+/** Definições do modelo: fornecedor, modelo, temperatura e limites de contexto. */
+const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ModelSettings>(settings);
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const provider = getProvider(draft.provider);
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      const reply = await streamCompletion(createModelClient(draft), {
+        systemInstruction: 'Responda apenas "OK".',
+        contents: [{ role: 'user', text: 'Teste de ligação.' }],
+        temperature: 0,
+        maxOutputTokens: 16,
+      }, { retries: 0 });
+      setTestResult({ ok: true, message: `Ligação estabelecida: "${reply.trim().slice(0, 60)}"` });
+    } catch (e) {
+      setTestResult({ ok: false, message: (e as Error).message });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-12 bg-slate-900/90 backdrop-blur-sm animate-in fade-in duration-300">
+       <div className="bg-white w-full max-w-2xl rounded-[50px] shadow-2xl flex flex-col overflow-hidden">
+          <div className="p-10 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+             <div>
+                <h2 className="text-3xl font-black uppercase tracking-tighter text-slate-900">Definições do Modelo</h2>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">Fornecedor, modelo e limites de contexto</p>
+             </div>
+             <button onClick={onClose} className="w-16 h-16 rounded-3xl bg-white border border-slate-200 text-slate-400 hover:text-red-500 flex items-center justify-center transition-all shadow-sm">✕</button>
+          </div>
+
+          <div className="p-10 space-y-6 overflow-y-auto custom-scrollbar">
+             <label className={labelClass}>
+                <span>Fornecedor</span>
+                <select
+                  value={draft.provider}
+                  onChange={(e) => setDraft(switchProvider(draft, e.target.value as ProviderKind))}
+                  className={inputClass}
+                >
+                  {listProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+             </label>
+             <p className={`text-[10px] font-bold uppercase tracking-widest ${provider.isLocal(draft) ? 'text-emerald-600' : 'text-amber-600'}`}>
+                {provider.isLocal(draft)
+                  ? 'Os excertos dos acórdãos não saem deste computador / rede local.'
+                  : provider.needsBaseUrl
+                    ? 'Os excertos dos acórdãos são enviados para um servidor fora da rede local.'
+                    : 'Os excertos dos acórdãos são enviados para um serviço na nuvem.'}
+             </p>
+
+             <div className="grid grid-cols-2 gap-6">
+                <label className={labelClass}>
+                   <span>Modelo</span>
+                   <input value={draft.model} onChange={(e) => setDraft({ ...draft, model: e.target.value })} placeholder={provider.defaultModel} className={inputClass} />
+                </label>
+                <label className={labelClass}>
+                   <span>Temperatura: {draft.temperature.toFixed(2)}</span>
+                   <input
+                     type="range" min={0} max={1} step={0.05}
+                     value={draft.temperature}
+                     onChange={(e) => setDraft({ ...draft, temperature: Number(e.target.value) })}
+                     className="w-full accent-indigo-600"
+                   />
+                </label>
+             </div>
+
+             {provider.needsBaseUrl && (
+               <label className={labelClass}>
+                  <span>Endereço do servidor</span>
+                  <input value={draft.baseUrl || ''} onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={inputClass} />
+               </label>
+             )}
+             {draft.provider !== 'mock' && (
+               <label className={labelClass}>
+                  <span>Chave de API (opcional)</span>
+                  <input
+                    type="password"
+                    value={draft.apiKey || ''}
+                    onChange={(e) => setDraft({ ...draft, apiKey: e.target.value || undefined })}
+                    placeholder={draft.provider === 'gemini' ? 'Chave definida no build (GEMINI_API_KEY)' : 'Sem autenticação'}
+                    className={inputClass}
+                  />
+                  {draft.apiKey && (
+                    <span className="block normal-case tracking-normal font-bold text-amber-600">
+                      A chave fica guardada sem cifra no armazenamento local deste navegador (localStorage) e pode ser lida por qualquer script desta página.
+                    </span>
+                  )}
+               </label>
+             )}
+
+             <div className="grid grid-cols-2 gap-6">
+                <label className={labelClass}>
+                   <span>Orçamento de contexto</span>
+                   <select value={draft.tokenBudget} onChange={(e) => setDraft({ ...draft, tokenBudget: Number(e.target.value) })} className={inputClass}>
+                     {TOKEN_BUDGET_OPTIONS.map(b => <option key={b} value={b}>{b / 1000}K tokens</option>)}
+                   </select>
+                </label>
+                <label className={labelClass}>
+                   <span>Máximo de tokens na resposta</span>
+                   <input
+                     type="number" min={256} step={256}
+                     value={draft.maxOutputTokens ?? ''}
+                     onChange={(e) => setDraft({ ...draft, maxOutputTokens: e.target.value ? Number(e.target.value) : undefined })}
+                     placeholder="Limite do modelo"
+                     className={inputClass}
+                   />
+                </label>
+             </div>
+
+             {testResult && (
+               <p className={`text-[10px] font-bold p-4 rounded-xl ${testResult.ok ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-600'}`}>{testResult.message}</p>
+             )}
+          </div>
+
+          <div className="p-10 pt-0 flex gap-3">
+             <button onClick={handleTest} disabled={isTesting} className="flex-1 bg-slate-100 text-slate-700 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition-all disabled:opacity-50">
+                {isTesting ? 'A testar...' : 'Testar ligação'}
+             </button>
+             <button onClick={() => onSave(draft)} className="flex-1 bg-indigo-600 text-white py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition-all">
+                Guardar
+             </button>
+          </div>
+       </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Acordao, ModelSettings, ThesisMap } from '../types';
+import { buildThesisMap, DEFAULT_SIMILARITY_THRESHOLD, SIMILARITY_THRESHOLD_OPTIONS } from '../services/clusteringService';
+import { labelThesisClusters } from '../services/geminiService';
+import { createModelClient, getProvider } from '../services/providerService';
+import { isAbortError } from '../services/modelClient';
+
+interface ThesisMapViewProps {
+  acordaos: Acordao[];
+  scopeLabel: string;
+  modelSettings: ModelSettings;
+  onAnalyze: (acordaoIds: string[]) => void;
+  onClose: () => void;
+}
+
+const Profile: React.FC<{ title: string; entries: { name: string; count: number }[] }> = ({ title, entries }) => (
+  <div>
+    <h6 className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-2">{title}</h6>
+    <div className="flex flex-wrap gap-1">
+      {entries.map(e => (
+        <span key={e.name} className="text-[10px] font-bold bg-slate-100 text-slate-600 px-2 py-1 rounded-full">
+          {e.name} <span className="text-slate-400">{e.count}</span>
+        </span>
+      ))}
+    </div>
+  </div>
+);
+
+/** Mapa automático de teses: agrupamento dos acórdãos do âmbito sem pergunta prévia. */
+const ThesisMapView: React.FC<ThesisMapViewProps> = ({ acordaos, scopeLabel, modelSettings, onAnalyze, onClose }) => {
+  const [threshold, setThreshold] = useState(DEFAULT_SIMILARITY_THRESHOLD);
+  const [map, setMap] = useState<ThesisMap | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLabelling, setIsLabelling] = useState(false);
+  const abort = useRef<AbortController | null>(null);
+  const byId = useMemo(() => new Map(acordaos.map(a => [a.id, a])), [acordaos]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMap(null);
+    setError(null);
+    buildThesisMap(acordaos, { threshold })
+      .then(result => { if (!cancelled) setMap(result); })
+      .catch(e => { if (!cancelled) setError((e as Error).message); });
+    return () => { cancelled = true; };
+  }, [acordaos, threshold]);
+
+  const handleLabel = async () => {
+    if (!map) return;
+    const controller = new AbortController();
+    abort.current = controller;
+    setIsLabelling(true);
+    setError(null);
+    try {
+      const labelled = await labelThesisClusters(map, acordaos, {
+        client: createModelClient(modelSettings),
+        temperature: modelSettings.temperature,
+        maxOutputTokens: modelSettings.maxOutputTokens,
+        signal: controller.signal,
+      });
+      setMap(labelled);
+      if (labelled.clusters.every(c => c.labelSource === 'terms')) {
+        setError('O modelo não devolveu rótulos válidos; mantêm-se os termos característicos.');
+      }
+    } catch (e) {
+      if (!isAbortError(e)) setError((e as Error).message);
+    } finally {
+      abort.current = null;
+      setIsLabelling(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-12 bg-slate-900/90 backdrop-blur-sm animate-in fade-in duration-300">
+       <div className="bg-white w-full max-w-7xl h-[90vh] rounded-[50px] shadow-2xl flex flex-col overflow-hidden">
+          <div className="p-10 border-b border-slate-100 flex justify-between items-center bg-slate-50/50 gap-8">
+             <div>
+                <h2 className="text-3xl font-black uppercase tracking-tighter text-slate-900">Mapa de teses</h2>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+                  {scopeLabel} · {acordaos.length} acórdãos
+                  {map && ` · ${map.clusters.length} grupos · ${map.isolated.length} isolados`}
+                </p>
+             </div>
+             <div className="flex items-center gap-3">
+                <select
+                  value={threshold}
+                  onChange={(e) => setThreshold(Number(e.target.value))}
+                  title="Semelhança mínima para juntar acórdãos no mesmo grupo"
+                  className="bg-white border border-slate-200 px-4 py-4 rounded-2xl text-[10px] font-black uppercase text-slate-600 outline-none"
+                >
+                  {SIMILARITY_THRESHOLD_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+                {isLabelling ? (
+                  <button onClick={() => abort.current?.abort()} className="bg-red-50 text-red-600 border border-red-200 px-6 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest">Cancelar</button>
+                ) : (
+                  <button
+                    onClick={handleLabel}
+                    disabled={!map || map.clusters.length === 0}
+                    title={`Enunciar a tese de cada grupo com ${getProvider(modelSettings.provider).label}`}
+                    className="bg-indigo-600 text-white px-6 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition-all shadow-lg disabled:opacity-40"
+                  >
+                    Rotular com o modelo
+                  </button>
+                )}
+                <button onClick={onClose} className="w-16 h-16 rounded-3xl bg-white border border-slate-200 text-slate-400 hover:text-red-500 flex items-center justify-center transition-all shadow-sm">✕</button>
+             </div>
+          </div>
+
+          <div className="flex-1 overflow-auto p-10 custom-scrollbar space-y-6">
+             {error && <div className="p-6 rounded-[30px] border bg-red-50 border-red-200 text-red-600 text-sm">{error}</div>}
+             {!map && !error && (
+               <div className="text-xs font-black text-indigo-600 animate-pulse tracking-[0.2em] uppercase">A agrupar os acórdãos...</div>
+             )}
+             {map && map.clusters.length === 0 && (
+               <p className="text-sm text-slate-400">Nenhum par de acórdãos atinge a semelhança mínima. Experimente "Grupos largos".</p>
+             )}
+             {map && (
+               <div className="grid grid-cols-2 gap-6">
+                  {map.clusters.map(cluster => (
+                    <div key={cluster.id} className={`p-8 rounded-[30px] border ${isLabelling ? 'opacity-60' : ''} bg-slate-50/50 border-slate-200 space-y-5`}>
+                       <div className="flex justify-between items-start gap-4">
+                          <div>
+                             <span className={`text-[8px] font-black uppercase tracking-widest px-2 py-1 rounded-md ${cluster.labelSource === 'model' ? 'bg-indigo-100 text-indigo-600' : 'bg-slate-200 text-slate-500'}`}>
+                               {cluster.labelSource === 'model' ? 'Tese (modelo)' : 'Termos característicos'}
+                             </span>
+                             <h4 className="text-base font-black text-slate-900 mt-3 leading-snug">{cluster.label}</h4>
+                          </div>
+                          <span className="text-2xl font-black text-indigo-600" title={`Coesão ${Math.round(cluster.cohesion * 100)}%`}>{cluster.acordaoIds.length}</span>
+                       </div>
+                       {cluster.resumo && <p className="text-xs text-slate-600 leading-relaxed">{cluster.resumo}</p>}
+                       {cluster.labelSource === 'model' && cluster.keyTerms.length > 0 && (
+                         <p className="text-[10px] font-bold text-slate-400">Termos: {cluster.keyTerms.join(', ')}</p>
+                       )}
+                       <Profile title="Relatores" entries={cluster.relatores} />
+                       <Profile title="Tribunais" entries={cluster.tribunais} />
+                       <ul className="space-y-1 text-[11px] text-slate-600">
+                          {cluster.acordaoIds.map(id => {
+                            const a = byId.get(id);
+                            return a && (
+                              <li key={id} className="truncate" title={a.sumario}>
+                                 <span className="font-black text-slate-800">{a.processo}</span> · {a.data}
+                              </li>
+                            );
+                          })}
+                       </ul>
+                       <button
+                         onClick={() => onAnalyze(cluster.acordaoIds)}
+                         className="text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800"
+                       >
+                         Analisar só este grupo →
+                       </button>
+                    </div>
+                  ))}
+               </div>
+             )}
+             {map && map.isolated.length > 0 && (
+               <div>
+                  <h5 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">Isolados (sem semelhança suficiente)</h5>
+                  <div className="flex flex-wrap gap-2">
+                     {map.isolated.map(id => {
+                       const a = byId.get(id);
+                       return a && (
+                         <span key={id} title={a.sumario} className="text-[10px] font-bold bg-slate-100 text-slate-500 px-3 py-1 rounded-full">{a.processo}</span>
+                       );
+                     })}
+                  </div>
+               </div>
+             )}
+          </div>
+       </div>
+    </div>
+  );
+};
+
+export default ThesisMapView;
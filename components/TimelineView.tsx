@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import { Acordao } from '../types';
+import { acordaoYear } from '../services/dateService';
+
+const TOP_DESCRITORES = 8;
+
+/** Distribuição cronológica: acórdãos por ano e, para os descritores mais frequentes, por ano e descritor. */
+const TimelineView: React.FC<{ acordaos: Acordao[] }> = ({ acordaos }) => {
+  const { years, perYear, descritores, matrix, undated } = useMemo(() => {
+    const perYear = new Map<string, number>();
+    const perDescritor = new Map<string, number>();
+    const matrix = new Map<string, number>(); // "ano|descritor" -> n.º
+    let undated = 0;
+
+    acordaos.forEach(a => {
+      const year = acordaoYear(a);
+      a.descritores.forEach(d => perDescritor.set(d, (perDescritor.get(d) || 0) + 1));
+      if (!year) {
+        undated++;
+        return;
+      }
+      perYear.set(year, (perYear.get(year) || 0) + 1);
+      new Set(a.descritores).forEach(d => matrix.set(`${year}|${d}`, (matrix.get(`${year}|${d}`) || 0) + 1));
+    });
+
+    const years = Array.from(perYear.keys()).sort();
+    const descritores = Array.from(perDescritor.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_DESCRITORES)
+      .map(([d]) => d);
+    return { years, perYear, descritores, matrix, undated };
+  }, [acordaos]);
+
+  const maxYear = Math.max(1, ...Array.from<number>(perYear.values()));
+  const maxCell = Math.max(1, ...Array.from<number>(matrix.values()));
+
+  if (years.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center opacity-30 text-xl font-black uppercase tracking-[0.2em]">Sem datas reconhecidas</div>
+    );
+  }
+
+  return (
+    <div className="space-y-12">
+      <section className="bg-white rounded-[40px] p-10 shadow-lg">
+        <h5 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-8">Acórdãos por ano</h5>
+        <div className="flex items-end gap-3 h-48">
+          {years.map(year => (
+            <div key={year} className="flex-1 flex flex-col items-center justify-end h-full gap-2">
+              <span className="text-[10px] font-black text-indigo-600">{perYear.get(year)}</span>
+              <div className="w-full bg-indigo-500 rounded-t-xl" style={{ height: `${(perYear.get(year)! / maxYear) * 100}%` }} />
+              <span className="text-[9px] font-bold text-slate-400">{year}</span>
+            </div>
+          ))}
+        </div>
+        {undated > 0 && <p className="mt-6 text-[10px] font-bold text-slate-400">{undated} acórdão(s) sem data reconhecida.</p>}
+      </section>
+
+      {descritores.length > 0 && (
+        <section className="bg-white rounded-[40px] p-10 shadow-lg overflow-x-auto">
+          <h5 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-8">Descritores mais frequentes por ano</h5>
+          <table className="text-[10px] border-separate border-spacing-1">
+            <thead>
+              <tr>
+                <th />
+                {years.map(year => <th key={year} className="font-bold text-slate-400 px-1">{year}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {descritores.map(d => (
+                <tr key={d}>
+                  <td className="font-bold text-slate-600 pr-4 whitespace-nowrap max-w-[240px] truncate" title={d}>{d}</td>
+                  {years.map(year => {
+                    const count = matrix.get(`${year}|${d}`) || 0;
+                    return (
+                      <td
+                        key={year}
+                        title={`${d} · ${year}: ${count}`}
+                        className="w-9 h-9 text-center rounded-lg font-black"
+                        style={{ backgroundColor: count ? `rgba(79, 70, 229, ${0.15 + 0.85 * count / maxCell})` : '#f1f5f9', color: count / maxCell > 0.5 ? 'white' : '#334155' }}
+                      >
+                        {count || ''}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default TimelineView;
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { TrashEntry } from '../types';
+import { StorageService } from '../services/storageService';
+
+interface TrashViewProps {
+  onChanged: () => void;
+}
+
+/** Acórdãos apagados: restaurar para o arquivo ou apagar definitivamente. */
+const TrashView: React.FC<TrashViewProps> = ({ onChanged }) => {
+  const [entries, setEntries] = useState<TrashEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = () => StorageService.listTrash().then(setEntries).catch(e => setError((e as Error).message));
+
+  useEffect(() => { load(); }, []);
+
+  const run = async (id: string, action: () => Promise<unknown>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+      await load();
+      onChanged();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = (entry: TrashEntry) => {
+    if (!window.confirm(`Apagar definitivamente o processo ${entry.acordao.processo}? Esta operação não pode ser desfeita.`)) return;
+    run(entry.id, () => StorageService.purgeFromTrash(entry.id));
+  };
+
+  const handleEmpty = () => {
+    if (!entries || !window.confirm(`Apagar definitivamente ${entries.length} acórdão(s)? Esta operação não pode ser desfeita.`)) return;
+    run('*', async () => {
+      for (const entry of entries) await StorageService.purgeFromTrash(entry.id);
+    });
+  };
+
+  if (entries && entries.length === 0 && !error) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center opacity-30 text-center">
+         <p className="text-xl font-black uppercase tracking-[0.2em]">O lixo está vazio</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+       {error && <div className="p-6 rounded-[30px] border bg-red-50 border-red-200 text-red-600 text-sm">{error}</div>}
+       {entries && entries.length > 0 && (
+         <div className="flex justify-between items-center">
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">{entries.length} acórdão(s) no lixo</p>
+            <button onClick={handleEmpty} disabled={busyId !== null} className="text-[10px] font-black uppercase tracking-widest text-red-500 hover:text-red-700 disabled:opacity-40">
+              Esvaziar lixo
+            </button>
+         </div>
+       )}
+       {entries?.map(entry => (
+         <div key={entry.id} className={`bg-white border border-slate-100 px-8 py-5 rounded-[30px] shadow flex items-center gap-6 ${busyId === entry.id ? 'opacity-50' : ''}`}>
+            <div className="flex-1 min-w-0">
+               <div className="text-sm font-black text-slate-800">{entry.acordao.processo}</div>
+               <div className="text-[10px] font-bold text-slate-400 truncate">
+                 {entry.acordao.data} · {entry.acordao.relator} · apagado em {new Date(entry.deletedAt).toLocaleString('pt-PT')}
+                 {entry.rawText === undefined && ' · sem texto bruto'}
+               </div>
+            </div>
+            <button
+              onClick={() => run(entry.id, () => StorageService.restoreFromTrash(entry.id))}
+              disabled={busyId !== null}
+              className="text-[10px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 px-4 py-2 rounded-full hover:bg-indigo-100 disabled:opacity-40"
+            >
+              Restaurar
+            </button>
+            <button onClick={() => handlePurge(entry)} disabled={busyId !== null} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500 disabled:opacity-40">
+              Apagar definitivamente
+            </button>
+         </div>
+       ))}
+    </div>
+  );
+};
+
+export default TrashView;
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { Acordao, AcordaoVersion, ReviewField, VersionReason } from '../types';
+import { StorageService } from '../services/storageService';
+import { REVIEW_FIELD_LABELS, REVIEW_FIELDS } from '../services/reviewService';
+
+interface VersionHistoryPanelProps {
+  acordao: Acordao;
+  onRestored: (record: Acordao) => void;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<VersionReason, string> = {
+  reparse: 'Antes de reprocessar',
+  edit: 'Antes de editar',
+  restore: 'Antes de repor',
+  import: 'Antes de importar uma cópia',
+  vocabulary: 'Antes de aplicar o vocabulário',
+};
+
+const fieldValue = (record: Acordao, field: ReviewField): string => {
+  const value = record[field];
+  return Array.isArray(value) ? value.join('; ') : value || '';
+};
+
+const formatTimestamp = (iso: string) => new Date(iso).toLocaleString('pt-PT');
+
+/** Histórico de versões de um acórdão: campos alterados em relação ao registo atual e reposição. */
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ acordao, onRestored, onClose }) => {
+  const [versions, setVersions] = useState<AcordaoVersion[] | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    setVersions(null);
+    setError(null);
+    StorageService.listVersions(acordao.id)
+      .then(setVersions)
+      .catch(e => setError((e as Error).message));
+  }, [acordao]);
+
+  const handleRestore = async (version: AcordaoVersion) => {
+    if (!window.confirm(`Repor a versão de ${formatTimestamp(version.savedAt)}? O estado atual fica no histórico.`)) return;
+    setIsRestoring(true);
+    try {
+      onRestored(await StorageService.restoreVersion(version.acordaoId, version.id));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <aside className="w-[420px] border-l border-slate-200 bg-slate-50 overflow-y-auto p-8 space-y-6 custom-scrollbar">
+       <div className="flex justify-between items-start gap-4">
+          <div>
+             <h3 className="text-[10px] font-black uppercase tracking-widest text-indigo-600">Histórico</h3>
+             <p className="text-sm font-black text-slate-800 mt-1">{acordao.processo}</p>
+             <p className="text-[10px] font-bold text-slate-400">{acordao.data}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-red-500 font-bold">✕</button>
+       </div>
+
+       {error && <p className="text-xs font-bold text-red-600 bg-red-50 border border-red-200 p-4 rounded-xl">{error}</p>}
+       {!versions && !error && <p className="text-xs font-black text-indigo-600 animate-pulse uppercase tracking-widest">A carregar...</p>}
+       {versions && versions.length === 0 && (
+         <p className="text-xs text-slate-400">Sem versões anteriores. Uma versão é guardada sempre que o acórdão é reprocessado ou editado.</p>
+       )}
+
+       <div className="space-y-3">
+          {versions?.map(version => {
+            const changed = REVIEW_FIELDS.filter(f => fieldValue(version.record, f) !== fieldValue(acordao, f));
+            const isOpen = openId === version.id;
+            return (
+              <div key={version.id} className="bg-white border border-slate-200 rounded-2xl overflow-hidden">
+                 <button onClick={() => setOpenId(isOpen ? null : version.id)} className="w-full text-left px-5 py-4 hover:bg-slate-50">
+                    <div className="text-[11px] font-black text-slate-800">{formatTimestamp(version.savedAt)}</div>
+                    <div className="text-[10px] font-bold text-slate-400">
+                      {REASON_LABELS[version.reason]} · {changed.length === 0 ? 'metadados iguais aos atuais' : `${changed.length} campo(s) diferente(s)`}
+                    </div>
+                 </button>
+                 {isOpen && (
+                   <div className="px-5 pb-5 space-y-3">
+                      {changed.map(field => (
+                        <div key={field}>
+                           <div className="text-[9px] font-black uppercase tracking-widest text-slate-400">{REVIEW_FIELD_LABELS[field]}</div>
+                           <div className="text-[11px] text-red-600 line-through line-clamp-3">{fieldValue(version.record, field) || '—'}</div>
+                           <div className="text-[11px] text-emerald-700 line-clamp-3">{fieldValue(acordao, field) || '—'}</div>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() => handleRestore(version)}
+                        disabled={isRestoring}
+                        className="w-full bg-slate-900 text-white py-2 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-600 transition-all disabled:opacity-40"
+                      >
+                        Repor esta versão
+                      </button>
+                   </div>
+                 )}
+              </div>
+            );
+          })}
+       </div>
+    </aside>
+  );
+};
+
+export default VersionHistoryPanel;
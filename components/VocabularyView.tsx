@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Acordao, DescritorEntry } from '../types';
+import { StorageService } from '../services/storageService';
+import {
+  buildVocabularyIndex, createDescritorSuggester, descritorUsage, normalizeDescritores, removeSynonym, saveMerge, variantGroups,
+} from '../services/vocabularyService';
+import { suggestDescritoresWithModel } from '../services/geminiService';
+import { isAbortError } from '../services/modelClient';
+
+interface VocabularyViewProps {
+  acordaos: Acordao[]; // Todo o arquivo: renomear e fundir aplica-se a todos os acórdãos
+  onChanged: () => void;
+}
+
+const LIST_LIMIT = 150;
+const MODEL_BATCH = 20;
+
+/** Vocabulário controlado de descritores: variantes a fundir, renomeação, sinónimos e sugestões para acórdãos sem descritores. */
+const VocabularyView: React.FC<VocabularyViewProps> = ({ acordaos, onChanged }) => {
+  const [entries, setEntries] = useState<DescritorEntry[] | null>(null);
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [chosen, setChosen] = useState<Record<string, string[]>>({});
+  const [modelSuggestions, setModelSuggestions] = useState<Map<string, string[]>>(new Map());
+  const [isBusy, setIsBusy] = useState(false);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+
+  const load = () => StorageService.listVocabulary().then(setEntries).catch(e => setError((e as Error).message));
+
+  useEffect(() => { load(); }, []);
+  useEffect(() => () => abort.current?.abort(), []);
+
+  const vocabulary = entries || [];
+  const usage = useMemo(() => descritorUsage(acordaos, vocabulary), [acordaos, entries]);
+  const variants = useMemo(() => variantGroups(acordaos, vocabulary), [acordaos, entries]);
+  const undescribed = useMemo(() => acordaos.filter(a => a.descritores.length === 0), [acordaos]);
+  const suggest = useMemo(() => createDescritorSuggester(acordaos, vocabulary), [acordaos, entries]);
+  const localSuggestions = useMemo(
+    () => new Map(undescribed.map(a => [a.id, suggest(a).map(s => s.descritor)])),
+    [undescribed, suggest]
+  );
+
+  const normalizedFilter = filter.trim().toLowerCase();
+  const visible = usage.filter(u => !normalizedFilter
+    || u.label.toLowerCase().includes(normalizedFilter)
+    || u.entry?.synonyms.some(s => s.toLowerCase().includes(normalizedFilter)));
+
+  const run = async (action: () => Promise<string>) => {
+    setIsBusy(true);
+    setError(null);
+    setStatus(null);
+    try {
+      setStatus(await action());
+      await load();
+      onChanged();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsBusy(false);
+      setProgress(null);
+    }
+  };
+
+  const merge = (target: string, sources: string[]) => run(async () => {
+    const changed = await saveMerge(acordaos, vocabulary, target, sources, (done, total) => setProgress({ done, total }));
+    setSelected([]);
+    return `"${target}" gravado no vocabulário; ${changed} acórdão(s) atualizados.`;
+  });
+
+  const handleRename = (label: string) => {
+    const name = window.prompt(`Novo nome para "${label}":`, label);
+    if (name && name.trim() && name.trim() !== label) merge(name.trim(), [label]);
+  };
+
+  const handleMergeSelected = () => {
+    const target = window.prompt(`Fundir ${selected.length} descritores em:`, selected[0]);
+    if (target && target.trim()) merge(target.trim(), selected);
+  };
+
+  const handleRemoveSynonym = (entry: DescritorEntry, synonym: string) => run(async () => {
+    await StorageService.saveDescritorEntry(removeSynonym(entry, synonym));
+    return `"${synonym}" deixou de ser sinónimo de "${entry.label}". Os acórdãos já normalizados não são alterados.`;
+  });
+
+  const toggleChosen = (id: string, descritor: string) => setChosen(prev => {
+    const current = prev[id] || [];
+    return { ...prev, [id]: current.includes(descritor) ? current.filter(d => d !== descritor) : [...current, descritor] };
+  });
+
+  const handleApplySuggestions = (acordao: Acordao) => run(async () => {
+    const descritores = normalizeDescritores(chosen[acordao.id] || [], buildVocabularyIndex(vocabulary));
+    await StorageService.updateDescritores(acordao.id, descritores);
+    setChosen(prev => ({ ...prev, [acordao.id]: [] }));
+    return `Descritores gravados para o processo ${acordao.processo}.`;
+  });
+
+  const handleSuggestWithModel = async () => {
+    const controller = new AbortController();
+    abort.current = controller;
+    setIsSuggesting(true);
+    setError(null);
+    try {
+      const batch = undescribed.filter(a => !modelSuggestions.has(a.id)).slice(0, MODEL_BATCH);
+      const known = usage.filter(u => u.count > 0).map(u => u.label);
+      const result = await suggestDescritoresWithModel(batch, known, buildVocabularyIndex(vocabulary), { signal: controller.signal });
+      setModelSuggestions(prev => new Map([...prev, ...result]));
+    } catch (e) {
+      if (!isAbortError(e)) setError((e as Error).message);
+    } finally {
+      abort.current = null;
+      setIsSuggesting(false);
+    }
+  };
+
+  const chip = (active: boolean) =>
+    `text-[10px] font-bold px-3 py-1 rounded-full border transition-colors ${active ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-400'}`;
+
+  return (
+    <div className="space-y-10">
+       {error && <div className="p-6 rounded-[30px] border bg-red-50 border-red-200 text-red-600 text-sm">{error}</div>}
+       {status && <div className="p-6 rounded-[30px] border bg-emerald-50 border-emerald-200 text-emerald-700 text-sm">{status}</div>}
+       {progress && (
+         <div className="text-xs font-black text-indigo-600 animate-pulse tracking-[0.2em] uppercase">A atualizar acórdãos {progress.done}/{progress.total}...</div>
+       )}
+
+       {variants.length > 0 && (
+         <section className="space-y-3">
+            <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Variantes a fundir ({variants.length})</h4>
+            {variants.map(group => (
+              <div key={group.map(g => g.label).join('|')} className="bg-white border border-amber-200 px-8 py-4 rounded-[30px] shadow flex items-center gap-4 flex-wrap">
+                 {group.map(g => (
+                   <span key={g.label} className="text-xs font-bold text-slate-700">{g.label} <span className="text-slate-400">({g.count})</span></span>
+                 ))}
+                 <button
+                   onClick={() => merge(group[0].label, group.slice(1).map(g => g.label))}
+                   disabled={isBusy}
+                   className="ml-auto text-[10px] font-black uppercase tracking-widest text-amber-700 bg-amber-50 px-4 py-2 rounded-full hover:bg-amber-100 disabled:opacity-40"
+                 >
+                   Fundir em "{group[0].label}"
+                 </button>
+              </div>
+            ))}
+         </section>
+       )}
+
+       <section className="space-y-3">
+          <div className="flex items-center gap-4">
+             <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Descritores ({usage.length})</h4>
+             <input
+               value={filter}
+               onChange={(e) => setFilter(e.target.value)}
+               placeholder="Filtrar..."
+               className="bg-white border border-slate-200 rounded-xl px-4 py-2 text-xs outline-none focus:ring-2 focus:ring-indigo-500/20"
+             />
+             {selected.length >= 2 && (
+               <button onClick={handleMergeSelected} disabled={isBusy} className="ml-auto bg-indigo-600 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-40">
+                 Fundir {selected.length} selecionados
+               </button>
+             )}
+          </div>
+          <div className="bg-white rounded-[30px] shadow divide-y divide-slate-50">
+             {visible.slice(0, LIST_LIMIT).map(u => (
+               <div key={u.label} className="px-8 py-3 flex items-center gap-4">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(u.label)}
+                    onChange={() => setSelected(prev => prev.includes(u.label) ? prev.filter(l => l !== u.label) : [...prev, u.label])}
+                  />
+                  <span className="text-sm font-bold text-slate-800">{u.label}</span>
+                  <span className="text-[10px] font-black text-slate-400">{u.count}</span>
+                  {u.entry && <span className="text-[8px] font-black bg-indigo-50 text-indigo-500 px-2 py-0.5 rounded">VOCABULÁRIO</span>}
+                  <div className="flex flex-wrap gap-1">
+                     {u.entry?.synonyms.map(s => (
+                       <span key={s} className="text-[10px] bg-slate-100 text-slate-500 px-2 py-0.5 rounded-full">
+                         {s}
+                         <button onClick={() => handleRemoveSynonym(u.entry!, s)} disabled={isBusy} title="Retirar sinónimo" className="ml-1 text-slate-300 hover:text-red-500">✕</button>
+                       </span>
+                     ))}
+                  </div>
+                  <button onClick={() => handleRename(u.label)} disabled={isBusy} className="ml-auto text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 disabled:opacity-40">
+                    Renomear
+                  </button>
+               </div>
+             ))}
+             {visible.length > LIST_LIMIT && (
+               <p className="px-8 py-3 text-[10px] font-bold text-slate-400">… e mais {visible.length - LIST_LIMIT}. Use o filtro para encontrar outros descritores.</p>
+             )}
+          </div>
+       </section>
+
+       {undescribed.length > 0 && (
+         <section className="space-y-3">
+            <div className="flex items-center gap-4">
+               <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Sem descritores ({undescribed.length})</h4>
+               {isSuggesting ? (
+                 <button onClick={() => abort.current?.abort()} className="ml-auto text-[10px] font-black uppercase tracking-widest text-red-500 border border-red-200 px-4 py-2 rounded-full">Cancelar</button>
+               ) : (
+                 <button onClick={handleSuggestWithModel} disabled={isBusy} className="ml-auto text-[10px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 px-4 py-2 rounded-full hover:bg-indigo-100 disabled:opacity-40">
+                   Sugerir com IA (até {MODEL_BATCH})
+                 </button>
+               )}
+            </div>
+            {undescribed.map(a => {
+              const suggestions = Array.from(new Set([...(modelSuggestions.get(a.id) || []), ...(localSuggestions.get(a.id) || [])]));
+              const picked = chosen[a.id] || [];
+              return (
+                <div key={a.id} className="bg-white border border-slate-100 px-8 py-5 rounded-[30px] shadow space-y-3">
+                   <div className="flex items-baseline gap-3">
+                      <span className="text-sm font-black text-slate-800">{a.processo}</span>
+                      <span className="text-[10px] font-bold text-slate-400">{a.data}</span>
+                   </div>
+                   <p className="text-[11px] text-slate-500 line-clamp-2">{a.sumario || 'Sem sumário: não há sugestões locais.'}</p>
+                   <div className="flex flex-wrap items-center gap-2">
+                      {suggestions.map(d => (
+                        <button
+                          key={d}
+                          onClick={() => toggleChosen(a.id, d)}
+                          title={modelSuggestions.get(a.id)?.includes(d) ? 'Sugerido pelo modelo' : 'Sugestão local (sumário e acórdãos semelhantes)'}
+                          className={chip(picked.includes(d))}
+                        >
+                          {modelSuggestions.get(a.id)?.includes(d) && '✦ '}{d}
+                        </button>
+                      ))}
+                      {suggestions.length === 0 && <span className="text-[10px] text-slate-400">Sem sugestões.</span>}
+                      {picked.length > 0 && (
+                        <button onClick={() => handleApplySuggestions(a)} disabled={isBusy} className="ml-auto bg-indigo-600 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-40">
+                          Gravar {picked.length}
+                        </button>
+                      )}
+                   </div>
+                </div>
+              );
+            })}
+         </section>
+       )}
+    </div>
+  );
+};
+
+export default VocabularyView;
@@ -0,0 +1,320 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Acordao, WatchCheckItem, WatchCriterion, WatchKind, WatchList } from '../types';
+import { StorageService } from '../services/storageService';
+import {
+  applyFetchedRecord, checkWatchList, createCriterion, createWatchList, FetchedRecord, loadFetchSettings, markUpdated,
+  saveFetchSettings, WATCH_KIND_LABELS, watchedAcordaos,
+} from '../services/watchService';
+import { buildJudgeIndex } from '../services/judgeService';
+import { buildProvisionIndex } from '../services/legislationService';
+import { isAbortError } from '../services/modelClient';
+
+interface WatchListsViewProps {
+  acordaos: Acordao[]; // Todo o arquivo: as listas abrangem todos os acórdãos, não só os da pesquisa
+  onRead: (acordao: Acordao) => void;
+  onChanged: () => void;
+}
+
+const ITEM_STATUS: Record<WatchCheckItem['status'], { label: string; className: string }> = {
+  changed: { label: 'Alterado na fonte', className: 'bg-amber-50 text-amber-700' },
+  updated: { label: 'Arquivo atualizado', className: 'bg-emerald-50 text-emerald-700' },
+  failed: { label: 'Falhou', className: 'bg-red-50 text-red-600' },
+  'no-url': { label: 'Sem endereço', className: 'bg-slate-100 text-slate-500' },
+  unchanged: { label: 'Sem alterações', className: 'bg-slate-100 text-slate-500' },
+};
+
+const formatTimestamp = (iso: string) => new Date(iso).toLocaleString('pt-PT');
+
+/** Listas de vigilância: verificação manual dos acórdãos guardados contra a fonte e lista do que mudou. */
+const WatchListsView: React.FC<WatchListsViewProps> = ({ acordaos, onRead, onChanged }) => {
+  const [lists, setLists] = useState<WatchList[] | null>(null);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<WatchKind>('descritor');
+  const [value, setValue] = useState('');
+  const [criteria, setCriteria] = useState<WatchCriterion[]>([]);
+  const [proxyUrl, setProxyUrl] = useState(() => loadFetchSettings().proxyUrl);
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [fetched, setFetched] = useState<Map<string, FetchedRecord>>(new Map());
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+
+  const load = () => StorageService.listWatchLists()
+    .then(all => setLists(all.sort((a, b) => a.name.localeCompare(b.name, 'pt'))))
+    .catch(e => setError((e as Error).message));
+
+  useEffect(() => { load(); }, []);
+  useEffect(() => () => abort.current?.abort(), []);
+
+  const byId = useMemo(() => new Map(acordaos.map(a => [a.id, a])), [acordaos]);
+  const options = useMemo<Record<WatchKind, string[]>>(() => ({
+    descritor: Array.from(new Set<string>(acordaos.flatMap(a => a.descritores))).sort((a, b) => a.localeCompare(b, 'pt')),
+    relator: buildJudgeIndex(acordaos).filter(j => j.asRelator.length > 0).map(j => j.name),
+    disposicao: buildProvisionIndex(acordaos).flatMap(d => d.articles.map(a => a.key)),
+  }), [acordaos]);
+
+  const handleAddCriterion = () => {
+    const criterion = createCriterion(kind, value);
+    if (!criterion) {
+      setError(kind === 'disposicao' ? `Disposição não reconhecida: "${value}". Indique o artigo e o diploma (ex.: art. 483.º CC).` : 'Indique um valor.');
+      return;
+    }
+    setError(null);
+    if (!criteria.some(c => c.kind === criterion.kind && c.value === criterion.value)) setCriteria(prev => [...prev, criterion]);
+    setValue('');
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim() || criteria.length === 0) return;
+    try {
+      await StorageService.saveWatchList(createWatchList(name, criteria));
+      setName('');
+      setCriteria([]);
+      await load();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleDelete = async (list: WatchList) => {
+    if (!window.confirm(`Apagar a lista "${list.name}"? Os acórdãos não são afetados.`)) return;
+    try {
+      await StorageService.deleteWatchList(list.id);
+      await load();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleSaveProxy = () => {
+    saveFetchSettings({ proxyUrl: proxyUrl.trim() });
+    setStatus(proxyUrl.trim() ? 'As verificações passam a usar o proxy indicado.' : 'As verificações passam a aceder diretamente ao site.');
+  };
+
+  const handleCheck = async (list: WatchList) => {
+    const controller = new AbortController();
+    abort.current = controller;
+    setCheckingId(list.id);
+    setError(null);
+    setStatus(null);
+    try {
+      const run = await checkWatchList(list, acordaos, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      await StorageService.saveWatchList({ ...list, lastCheck: run.check, updatedAt: run.check.checkedAt });
+      // Registos de verificações anteriores desta lista deixam de valer.
+      setFetched(prev => {
+        const next = new Map(prev);
+        run.check.acordaoIds.forEach(id => next.delete(id));
+        run.fetched.forEach((record, id) => next.set(id, record));
+        return next;
+      });
+      await load();
+    } catch (e) {
+      if (!isAbortError(e)) setError((e as Error).message);
+    } finally {
+      abort.current = null;
+      setCheckingId(null);
+      setProgress(null);
+    }
+  };
+
+  const handleApply = async (list: WatchList, item: WatchCheckItem) => {
+    const stored = byId.get(item.acordaoId);
+    const record = fetched.get(item.acordaoId);
+    if (!stored || !record) return;
+    setBusyId(item.acordaoId);
+    setError(null);
+    try {
+      await applyFetchedRecord(stored, record);
+      await StorageService.saveWatchList(markUpdated(list, item.acordaoId));
+      setFetched(prev => { const next = new Map(prev); next.delete(item.acordaoId); return next; });
+      setStatus(`Processo ${item.processo} atualizado a partir da fonte; a versão anterior ficou no histórico.`);
+      await load();
+      onChanged();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const chip = 'text-[10px] font-bold px-3 py-1 rounded-full bg-indigo-50 text-indigo-600';
+
+  return (
+    <div className="space-y-10">
+       {error && <div className="p-6 rounded-[30px] border bg-red-50 border-red-200 text-red-600 text-sm">{error}</div>}
+       {status && <div className="p-6 rounded-[30px] border bg-emerald-50 border-emerald-200 text-emerald-700 text-sm">{status}</div>}
+
+       <section className="bg-white rounded-[30px] shadow px-8 py-6 space-y-4">
+          <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Nova lista</h4>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nome da lista (ex.: Responsabilidade médica no STJ)"
+            className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-indigo-500/20"
+          />
+          <div className="flex items-center gap-3">
+             <select
+               value={kind}
+               onChange={(e) => setKind(e.target.value as WatchKind)}
+               className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-xs font-bold outline-none"
+             >
+               {(Object.keys(WATCH_KIND_LABELS) as WatchKind[]).map(k => <option key={k} value={k}>{WATCH_KIND_LABELS[k]}</option>)}
+             </select>
+             <input
+               value={value}
+               onChange={(e) => setValue(e.target.value)}
+               onKeyDown={(e) => { if (e.key === 'Enter') handleAddCriterion(); }}
+               list="watch-options"
+               placeholder={kind === 'disposicao' ? 'art. 483.º CC' : kind === 'relator' ? 'Nome do relator' : 'Descritor'}
+               className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-indigo-500/20"
+             />
+             <datalist id="watch-options">
+               {options[kind].map(o => <option key={o} value={o} />)}
+             </datalist>
+             <button onClick={handleAddCriterion} className="text-[10px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 px-4 py-3 rounded-xl hover:bg-indigo-100">
+               Adicionar
+             </button>
+          </div>
+          {criteria.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+               {criteria.map(c => (
+                 <span key={`${c.kind}:${c.value}`} className={chip}>
+                   {WATCH_KIND_LABELS[c.kind]}: {c.value}
+                   <button onClick={() => setCriteria(prev => prev.filter(x => x !== c))} className="ml-1 text-indigo-300 hover:text-red-500">✕</button>
+                 </span>
+               ))}
+               <button
+                 onClick={handleCreate}
+                 disabled={!name.trim()}
+                 className="ml-auto bg-indigo-600 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-40"
+               >
+                 Criar lista
+               </button>
+            </div>
+          )}
+       </section>
+
+       {lists && lists.length === 0 && (
+         <p className="text-center text-xs font-bold text-slate-400">Sem listas de vigilância. Uma lista abrange os acórdãos do arquivo com qualquer um dos seus critérios.</p>
+       )}
+
+       {lists?.map(list => {
+         const watched = watchedAcordaos(list, acordaos);
+         const check = list.lastCheck;
+         const shown = check?.items.filter(item => item.status !== 'unchanged') || [];
+         const unchanged = (check?.items.length || 0) - shown.length;
+         const isChecking = checkingId === list.id;
+         return (
+           <section key={list.id} className="bg-white border border-slate-100 rounded-[30px] shadow px-8 py-6 space-y-4">
+              <div className="flex items-center gap-4 flex-wrap">
+                 <h4 className="text-lg font-black text-slate-800">{list.name}</h4>
+                 <span className="text-[10px] font-black text-slate-400">{watched.length} acórdão(s)</span>
+                 {isChecking ? (
+                   <>
+                     {progress && <span className="ml-auto text-xs font-black text-indigo-600 animate-pulse">A verificar {progress.done}/{progress.total}...</span>}
+                     <button onClick={() => abort.current?.abort()} className={`${progress ? '' : 'ml-auto '}text-[10px] font-black uppercase tracking-widest text-red-500 border border-red-200 px-4 py-2 rounded-full`}>Cancelar</button>
+                   </>
+                 ) : (
+                   <button
+                     onClick={() => handleCheck(list)}
+                     disabled={checkingId !== null || watched.length === 0}
+                     className="ml-auto bg-indigo-600 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-40"
+                   >
+                     Verificar agora
+                   </button>
+                 )}
+                 <button onClick={() => handleDelete(list)} disabled={isChecking} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500 disabled:opacity-40">
+                   Apagar
+                 </button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                 {list.criteria.map(c => <span key={`${c.kind}:${c.value}`} className={chip}>{WATCH_KIND_LABELS[c.kind]}: {c.value}</span>)}
+              </div>
+
+              {check ? (
+                <div className="space-y-3">
+                   <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                     Verificado em {formatTimestamp(check.checkedAt)} · {unchanged} sem alterações
+                   </p>
+                   {check.newIds.length > 0 && (
+                     <div className="bg-indigo-50/50 rounded-2xl px-6 py-4 space-y-1">
+                        <p className="text-[10px] font-black uppercase tracking-widest text-indigo-600" title="Acórdãos importados para o arquivo entretanto. A fonte não é pesquisada por acórdãos novos.">
+                          Novos no arquivo desde a verificação anterior
+                        </p>
+                        {check.newIds.map(id => byId.get(id)).filter((a): a is Acordao => !!a).map(a => (
+                          <button key={a.id} onClick={() => onRead(a)} className="block text-xs font-bold text-slate-700 hover:text-indigo-600">
+                            {a.processo} <span className="text-slate-400">· {a.data} · {a.relator}</span>
+                          </button>
+                        ))}
+                     </div>
+                   )}
+                   {shown.map(item => {
+                     const stored = byId.get(item.acordaoId);
+                     return (
+                       <div key={item.acordaoId} className="border border-slate-100 rounded-2xl px-6 py-4 space-y-2">
+                          <div className="flex items-center gap-3">
+                             <button onClick={() => stored && onRead(stored)} disabled={!stored} className="text-sm font-black text-slate-800 hover:text-indigo-600">{item.processo}</button>
+                             <span className={`text-[8px] font-black uppercase px-2 py-1 rounded ${ITEM_STATUS[item.status].className}`}>{ITEM_STATUS[item.status].label}</span>
+                             {item.url && <a href={item.url} target="_blank" rel="noreferrer" className="text-[10px] font-bold text-slate-400 hover:text-indigo-600 truncate">{item.url}</a>}
+                             {item.status === 'changed' && fetched.has(item.acordaoId) && stored && (
+                               <button
+                                 onClick={() => handleApply(list, item)}
+                                 disabled={busyId !== null}
+                                 title="Grava os dados da fonte; os campos corrigidos à mão mantêm-se"
+                                 className="ml-auto text-[10px] font-black uppercase tracking-widest text-amber-700 bg-amber-50 px-4 py-2 rounded-full hover:bg-amber-100 disabled:opacity-40"
+                               >
+                                 Atualizar arquivo
+                               </button>
+                             )}
+                          </div>
+                          {item.reason && <p className="text-xs text-red-600">{item.reason}</p>}
+                          {item.status === 'no-url' && <p className="text-xs text-slate-400">O registo não tem o endereço da fonte.</p>}
+                          {item.changes.map(change => (
+                            <div key={change.field} className="grid grid-cols-[140px_1fr_1fr] gap-4 text-xs">
+                               <span className="font-black text-slate-500">
+                                 {change.label}
+                                 {change.edited && <span title="Corrigido manualmente: a atualização não o substitui" className="block text-[8px] text-amber-600">CORRIGIDO À MÃO</span>}
+                               </span>
+                               <span className="text-slate-500 line-through decoration-red-300 break-words">{change.before || '—'}</span>
+                               <span className="text-slate-800 break-words">{change.after || '—'}</span>
+                            </div>
+                          ))}
+                       </div>
+                     );
+                   })}
+                </div>
+              ) : (
+                <p className="text-xs text-slate-400">Ainda não verificada.</p>
+              )}
+           </section>
+         );
+       })}
+
+       <section className="bg-white rounded-[30px] shadow px-8 py-6 space-y-3">
+          <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Acesso à fonte</h4>
+          <p className="text-xs text-slate-500">
+            Sem proxy, as páginas são pedidas diretamente ao site, o que o navegador pode bloquear (CORS).
+            Com um proxy local, <code>{'{url}'}</code> é substituído pelo endereço do acórdão; sem <code>{'{url}'}</code>, o endereço é acrescentado no fim.
+          </p>
+          <div className="flex items-center gap-3">
+             <input
+               value={proxyUrl}
+               onChange={(e) => setProxyUrl(e.target.value)}
+               placeholder="http://localhost:8080/?url={url}"
+               className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-mono outline-none focus:ring-2 focus:ring-indigo-500/20"
+             />
+             <button onClick={handleSaveProxy} className="text-[10px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 px-4 py-3 rounded-xl hover:bg-indigo-100">
+               Guardar
+             </button>
+          </div>
+       </section>
+    </div>
+  );
+};
+
+export default WatchListsView;
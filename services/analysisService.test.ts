@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { Acordao, AnalysisCitation, StructuredAnalysis } from '../types';
+import { parseStructuredAnalysis, verifyCitations } from './analysisService';
+
+const acordao = (processo: string, ecli: string): Acordao => ({
+  id: ecli, ecli, processo, data: '12/03/2020', relator: 'X', descritores: [], sumario: '', textoIntegral: '', adjuntos: [], url: '',
+});
+
+const STJ = acordao('1234/18.5T8LSB.L1.S1', 'ECLI:PT:STJ:2020:1234.18.5T8LSB.L1.S1');
+const TRL = acordao('4567/19.0T8LSB.L1-7', 'ECLI:PT:TRL:2021:4567.19.0T8LSB.L1.7');
+
+const verify = (citation: Partial<AnalysisCitation>, context: Acordao[] = [STJ], archive: Acordao[] = [STJ, TRL]) => {
+  const analysis: StructuredAnalysis = {
+    introducao: '', divergencia: '', conclusao: '',
+    posicoes: [{ titulo: '', resumo: '', argumentos: [], citacoes: [{ processo: '', data: '', status: 'not-found', ...citation }] }],
+  };
+  return verifyCitations(analysis, context, archive).posicoes[0].citacoes[0];
+};
+
+describe('verifyCitations', () => {
+  it('confirma a citação do contexto e completa-a com os dados do registo', () => {
+    expect(verify({ acordaoId: STJ.id, processo: '1234/18.5t8lsb.l1.s1' })).toEqual({
+      acordaoId: STJ.id, processo: STJ.processo, data: STJ.data, ecli: STJ.ecli, status: 'verified',
+    });
+  });
+
+  it('assinala, sem corrigir, um processo que não coincide com o acórdão indicado', () => {
+    expect(verify({ acordaoId: STJ.id, processo: '999/20.1T8PRT', data: '01/01/2021' })).toEqual({
+      acordaoId: STJ.id, processo: '999/20.1T8PRT', data: '01/01/2021', status: 'mismatch',
+    });
+  });
+
+  it('assinala um ECLI que não coincide com o acórdão indicado', () => {
+    const citation = verify({ acordaoId: STJ.id, processo: STJ.processo, ecli: 'ECLI:PT:STJ:2020:1.20.0T8LSB.S1' });
+    expect(citation.status).toBe('mismatch');
+    expect(citation.ecli).toBe('ECLI:PT:STJ:2020:1.20.0T8LSB.S1');
+  });
+
+  it('distingue acórdãos fora do contexto de citações inexistentes', () => {
+    expect(verify({ ecli: TRL.ecli }).status).toBe('outside-context');
+    expect(verify({ acordaoId: TRL.id, processo: '1/19' }).status).toBe('mismatch');
+    expect(verify({ processo: '1/99' })).toMatchObject({ status: 'not-found', acordaoId: undefined });
+  });
+});
+
+describe('parseStructuredAnalysis', () => {
+  it('lê a análise, com ou sem bloco ```json, ignorando entradas sem estrutura', () => {
+    const raw = '```json\n' + JSON.stringify({
+      introducao: 'Intro',
+      posicoes: [{ titulo: 'Tese A', argumentos: ['a', 3, ''], acordaos: [{ id: 'X', processo: '1/20' }, 'lixo'] }, null],
+      conclusao: 7,
+    }) + '\n```';
+    expect(parseStructuredAnalysis(raw)).toEqual({
+      introducao: 'Intro', divergencia: '', conclusao: '',
+      posicoes: [{ titulo: 'Tese A', resumo: '', argumentos: ['a'], citacoes: [{ acordaoId: 'X', processo: '1/20', data: '', ecli: undefined, status: 'not-found' }] }],
+    });
+  });
+
+  it('devolve null sem a lista de posições ou com JSON inválido', () => {
+    expect(parseStructuredAnalysis('{"posicoes": {}}')).toBeNull();
+    expect(parseStructuredAnalysis('{"posicoes": [')).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+import { Acordao, AnalysisCitation, AnalysisPosition, StructuredAnalysis } from '../types';
+import { isValidEcli } from './ecliService';
+import { isRecord, parseModelJson } from './jsonService';
+
+/**
+ * Pós-processamento da resposta estruturada da IA: leitura do JSON, verificação das
+ * citações contra os acórdãos que estiveram efetivamente no contexto e conversão para Markdown.
+ */
+
+export const MAX_CITATIONS_PER_POSITION = 12;
+
+const normalizeProcesso = (processo: string) => processo.replace(/\s+/g, '').toUpperCase();
+
+const asString = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+/** Lê o JSON devolvido pelo modelo. Devolve null se não respeitar a estrutura mínima. */
+export const parseStructuredAnalysis = (raw: string): StructuredAnalysis | null => {
+  const data = parseModelJson(raw);
+  if (!isRecord(data) || !Array.isArray(data.posicoes)) return null;
+
+  const posicoes: AnalysisPosition[] = data.posicoes.filter(isRecord).map(p => ({
+    titulo: asString(p.titulo),
+    resumo: asString(p.resumo),
+    argumentos: Array.isArray(p.argumentos) ? p.argumentos.map(asString).filter(Boolean) : [],
+    citacoes: (Array.isArray(p.acordaos) ? p.acordaos : []).filter(isRecord).map((c): AnalysisCitation => ({
+      acordaoId: asString(c.id) || undefined,
+      processo: asString(c.processo),
+      data: asString(c.data),
+      ecli: asString(c.ecli) || undefined,
+      status: 'not-found',
+    })),
+  }));
+
+  return {
+    introducao: asString(data.introducao),
+    posicoes,
+    divergencia: asString(data.divergencia),
+    conclusao: asString(data.conclusao),
+  };
+};
+
+const findRecord = (citation: AnalysisCitation, records: Acordao[]): Acordao | undefined => {
+  if (citation.acordaoId) {
+    const byId = records.find(a => a.id === citation.acordaoId);
+    if (byId) return byId;
+  }
+  if (citation.ecli) {
+    const ecli = citation.ecli.toUpperCase();
+    const byEcli = records.find(a => a.ecli.toUpperCase() === ecli);
+    if (byEcli) return byEcli;
+  }
+  if (citation.processo) {
+    const processo = normalizeProcesso(citation.processo);
+    return records.find(a => normalizeProcesso(a.processo) === processo);
+  }
+  return undefined;
+};
+
+// O processo ou o ECLI citados contradizem o registo encontrado (ex.: id certo com um processo inventado).
+const contradicts = (citation: AnalysisCitation, record: Acordao): boolean =>
+  (!!citation.processo && record.processo !== 'Desconhecido' && normalizeProcesso(citation.processo) !== normalizeProcesso(record.processo)) ||
+  (!!citation.ecli && isValidEcli(record.ecli) && citation.ecli.toUpperCase() !== record.ecli.toUpperCase());
+
+/**
+ * Confirma cada citação contra os acórdãos enviados no contexto. Uma citação que só exista
+ * no arquivo fica marcada como 'outside-context'; uma que não exista em lado nenhum, 'not-found'
+ * (provável alucinação). As citações verificadas passam a usar os dados do registo guardado.
+ * Se o processo ou o ECLI citados não coincidirem com o registo encontrado, a citação fica
+ * 'mismatch' com os dados tal como o modelo os deu.
+ */
+export const verifyCitations = (
+  analysis: StructuredAnalysis,
+  contextRecords: Acordao[],
+  archive: Acordao[]
+): StructuredAnalysis => ({
+  ...analysis,
+  posicoes: analysis.posicoes.map(position => ({
+    ...position,
+    citacoes: position.citacoes.slice(0, MAX_CITATIONS_PER_POSITION).map(citation => {
+      const inContext = findRecord(citation, contextRecords);
+      const record = inContext || findRecord(citation, archive);
+      if (record && contradicts(citation, record)) {
+        return { ...citation, acordaoId: record.id, status: 'mismatch' };
+      }
+      if (inContext) {
+        return { acordaoId: inContext.id, processo: inContext.processo, data: inContext.data, ecli: inContext.ecli, status: 'verified' };
+      }
+      if (record) {
+        return { acordaoId: record.id, processo: record.processo, data: record.data, ecli: record.ecli, status: 'outside-context' };
+      }
+      return { ...citation, acordaoId: undefined, status: 'not-found' };
+    }),
+  })),
+});
+
+export const countUnverifiedCitations = (analysis: StructuredAnalysis): number =>
+  analysis.posicoes.reduce((sum, p) => sum + p.citacoes.filter(c => c.status !== 'verified').length, 0);
+
+/** Versão Markdown da análise, usada no histórico da conversa enviado ao modelo. */
+export const analysisToMarkdown = (analysis: StructuredAnalysis, records: Acordao[] = []): string => {
+  const lines: string[] = [];
+  if (analysis.introducao) lines.push(analysis.introducao, '');
+  analysis.posicoes.forEach((p, i) => {
+    lines.push(`${i + 1}. ${p.titulo}`);
+    if (p.resumo) lines.push(`   ${p.resumo}`);
+    p.argumentos.forEach(arg => lines.push(`   - ${arg}`));
+    p.citacoes.forEach(c => {
+      const url = records.find(a => a.id === c.acordaoId)?.url;
+      const label = `${c.processo} de ${c.data}`;
+      const flag = c.status === 'verified' ? '' : c.status === 'outside-context' ? ' (fora do contexto)'
+        : c.status === 'mismatch' ? ' (processo ou ECLI não coincidem com o acórdão)' : ' (citação não verificada)';
+      lines.push(`   * ${url ? `[${label}](${url})` : label}${flag}`);
+    });
+    lines.push('');
+  });
+  if (analysis.divergencia) lines.push(`Núcleo da divergência: ${analysis.divergencia}`, '');
+  if (analysis.conclusao) lines.push(analysis.conclusao);
+  return lines.join('\n').trim();
+};
+
+const STRING_TOKEN = /"((?:[^"\\]|\\.)*)("\s*:|")?/g;
+
+const unescapeJson = (body: string) => {
+  try {
+    return JSON.parse(`"${body.replace(/\\u?[0-9a-fA-F]{0,3}$|\\$/, '')}"`) as string;
+  } catch {
+    return body;
+  }
+};
+
+/**
+ * Pré-visualização legível de uma resposta JSON ainda incompleta (durante o streaming):
+ * extrai os textos já recebidos de introdução, posições, argumentos, divergência e conclusão.
+ */
+export const previewPartialAnalysis = (raw: string): string => {
+  const json = raw.replace(/^\s*```(?:json)?\s*/, '');
+  if (!json.startsWith('{')) return raw;
+
+  const lines: string[] = [];
+  let key = '';
+  let positions = 0;
+  for (const match of json.matchAll(STRING_TOKEN)) {
+    const [, body, close] = match;
+    if (close?.trim().endsWith(':')) {
+      key = body;
+      continue;
+    }
+    if (close === undefined) {
+      // Fragmento final sem aspas de fecho: pode ainda ser uma chave a chegar.
+      const before = json.slice(0, match.index).trimEnd();
+      const prev = before.slice(-1);
+      const arrayItem = prev === '[' || (prev === ',' && before.trimEnd().slice(0, -1).trimEnd().endsWith('"'));
+      if (prev !== ':' && !(key === 'argumentos' && arrayItem)) continue;
+    }
+    const value = unescapeJson(body);
+    if (key === 'introducao') lines.push(value, '');
+    else if (key === 'titulo') lines.push(`${++positions}. ${value}`);
+    else if (key === 'resumo') lines.push(`   ${value}`);
+    else if (key === 'argumentos') lines.push(`   - ${value}`);
+    else if (key === 'divergencia') lines.push('', `Núcleo da divergência: ${value}`);
+    else if (key === 'conclusao') lines.push('', value);
+  }
+  return lines.join('\n').trim();
+};
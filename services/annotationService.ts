@@ -0,0 +1,122 @@
+import { Acordao, AnnotatedField, TextAnnotation } from '../types';
+import { foldAccents } from './textService';
+
+/**
+ * Sublinhados e notas de margem do leitor. Cada anotação guarda as posições no texto do campo
+ * e o texto sublinhado: se o texto for corrigido (edição, reimportação), a âncora é procurada
+ * de novo pelo texto, na ocorrência mais próxima da posição original.
+ */
+
+export const ANNOTATED_FIELD_LABELS: Record<AnnotatedField, string> = {
+  sumario: 'Sumário',
+  textoIntegral: 'Texto integral',
+};
+
+export const createAnnotation = (acordao: Acordao, field: AnnotatedField, start: number, end: number, note?: string): TextAnnotation => ({
+  id: `note_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  field,
+  start,
+  end,
+  quote: acordao[field].slice(start, end),
+  note: note?.trim() || undefined,
+  createdAt: new Date().toISOString(),
+});
+
+export const updateAnnotationNote = (annotation: TextAnnotation, note: string): TextAnnotation => ({
+  ...annotation,
+  note: note.trim() || undefined,
+  updatedAt: new Date().toISOString(),
+});
+
+export interface AnchoredAnnotation {
+  annotation: TextAnnotation;
+  start: number;
+  end: number;
+}
+
+/**
+ * Posições atuais de cada anotação. As que já não se encontram no texto ficam em `orphans`
+ * (continuam visíveis na margem, com o texto que tinham).
+ */
+export const anchorAnnotations = (acordao: Acordao): { anchored: AnchoredAnnotation[]; orphans: TextAnnotation[] } => {
+  const anchored: AnchoredAnnotation[] = [];
+  const orphans: TextAnnotation[] = [];
+  (acordao.anotacoes || []).forEach(annotation => {
+    const text = acordao[annotation.field] || '';
+    const { start, end, quote } = annotation;
+    if (text.slice(start, end) === quote) {
+      anchored.push({ annotation, start, end });
+      return;
+    }
+    let best = -1;
+    for (let i = text.indexOf(quote); quote && i !== -1; i = text.indexOf(quote, i + 1)) {
+      if (best === -1 || Math.abs(i - start) < Math.abs(best - start)) best = i;
+    }
+    if (best === -1) orphans.push(annotation);
+    else anchored.push({ annotation, start: best, end: best + quote.length });
+  });
+  anchored.sort((a, b) => a.annotation.field.localeCompare(b.annotation.field) || a.start - b.start);
+  return { anchored, orphans };
+};
+
+/** Ocorrências de `query` no texto, sem distinguir maiúsculas nem acentos. */
+export const findInText = (text: string, query: string): { start: number; end: number }[] => {
+  const needle = foldAccents(query.trim()).toLowerCase();
+  if (needle.length < 2) return [];
+  const haystack = foldAccents(text).toLowerCase();
+  const matches: { start: number; end: number }[] = [];
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + needle.length)) {
+    matches.push({ start: i, end: i + needle.length });
+  }
+  return matches;
+};
+
+export interface TextSegment {
+  start: number;
+  end: number;
+  text: string;
+  annotationIds: string[];
+  match?: number; // Índice da ocorrência da pesquisa
+}
+
+/**
+ * Corta o texto nos limites das anotações, das ocorrências da pesquisa e de `breaks`
+ * (ex.: inícios de secção), para que cada segmento tenha uma única marcação.
+ */
+export const segmentText = (
+  text: string,
+  annotations: AnchoredAnnotation[],
+  matches: { start: number; end: number; index: number }[],
+  breaks: number[] = []
+): TextSegment[] => {
+  const points = new Set<number>([0, text.length, ...breaks]);
+  annotations.forEach(a => { points.add(a.start); points.add(a.end); });
+  matches.forEach(m => { points.add(m.start); points.add(m.end); });
+  const sorted = Array.from(points).filter(p => p >= 0 && p <= text.length).sort((a, b) => a - b);
+
+  const segments: TextSegment[] = [];
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const [start, end] = [sorted[i], sorted[i + 1]];
+    if (start === end) continue;
+    segments.push({
+      start,
+      end,
+      text: text.slice(start, end),
+      annotationIds: annotations.filter(a => a.start <= start && a.end >= end).map(a => a.annotation.id),
+      match: matches.find(m => m.start <= start && m.end >= end)?.index,
+    });
+  }
+  return segments;
+};
+
+/** Notas do utilizador sobre o acórdão, no formato em que seguem para o modelo (vazio se não houver). */
+export const formatUserNotes = (acordao: Acordao): string => {
+  const lines: string[] = [];
+  if (acordao.notas?.trim()) lines.push(`- Nota geral: ${acordao.notas.trim()}`);
+  const { anchored, orphans } = anchorAnnotations(acordao);
+  [...anchored.map(a => a.annotation), ...orphans].forEach(annotation => {
+    const quote = annotation.quote.replace(/\s+/g, ' ').trim();
+    lines.push(annotation.note ? `- «${quote}» — ${annotation.note}` : `- Sublinhado: «${quote}»`);
+  });
+  return lines.join('\n');
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { BUNDLE_FORMAT, BUNDLE_VERSION, readBundle } from './bundleService';
+import { createZip } from './zipService';
+
+const encoder = new TextEncoder();
+const zip = (files: Record<string, unknown>) => createZip(Object.entries(files).map(([path, content]) => ({
+  path,
+  data: encoder.encode(typeof content === 'string' ? content : JSON.stringify(content)),
+})));
+
+const MANIFEST = {
+  format: BUNDLE_FORMAT, version: BUNDLE_VERSION, createdAt: '2024-01-01T00:00:00.000Z', source: 'virtual',
+  counts: { acordaos: 1, rawFiles: 0, sessions: 0, collections: 2, savedSearches: 0 },
+};
+
+describe('readBundle', () => {
+  it('lê os documentos válidos e lista os rejeitados', async () => {
+    const bundle = await readBundle(zip({
+      'manifest.json': MANIFEST,
+      'acordaos/PROC_1_20.json': { id: 'PROC:1/20', ecli: 'Desconhecido', processo: '1/20', data: '', textoIntegral: 't', descritores: [], adjuntos: [] },
+      'acordaos/mau.json': { id: 'x' },
+      'collections/c1.json': { id: 'c1', name: 'Dossiê', acordaoIds: ['PROC:1/20'], createdAt: '', updatedAt: '' },
+      'collections/c2.json': { id: 'c2', name: 'Sem membros' },
+      'sessions/s1.json': '{ inválido',
+    }));
+    expect(bundle.acordaos.map(a => a.id)).toEqual(['PROC:1/20']);
+    expect(bundle.collections.map(c => c.id)).toEqual(['c1']);
+    expect(bundle.sessions).toEqual([]);
+    expect(bundle.problems).toEqual([
+      expect.stringMatching(/^acordaos\/mau\.json: /),
+      'sessions/s1.json: JSON inválido',
+      'collections/c2.json: estrutura inválida',
+    ]);
+  });
+
+  it('recusa ficheiros sem o manifesto do arquivo ou de uma versão mais recente', async () => {
+    await expect(readBundle(zip({ 'manifest.json': { format: 'outro' } }))).rejects.toThrow('não é uma cópia do arquivo JurisAnalyzer');
+    await expect(readBundle(zip({ 'manifest.json': [] }))).rejects.toThrow('não é uma cópia do arquivo JurisAnalyzer');
+    await expect(readBundle(zip({ 'manifest.json': { ...MANIFEST, version: BUNDLE_VERSION + 1 } }))).rejects.toThrow('versão mais recente');
+  });
+});
@@ -0,0 +1,337 @@
+import { Acordao, Collection, DescritorEntry, ResearchSession, SavedSearch, WatchList } from '../types';
+import { StorageService, toFileKey } from './storageService';
+import { createZip, readZip, ZipEntry } from './zipService';
+import { isCollection, isDescritorEntry, isSavedSearch, isSession, isWatchList, loadAcordaoRecord } from './schemaService';
+import { isRecord } from './jsonService';
+
+/**
+ * Pacote portátil do arquivo: um ZIP com manifest.json, os acórdãos (JSON), os textos brutos
+ * (TXT), as sessões, as coleções, as pesquisas guardadas, o vocabulário e as listas de vigilância.
+ * Serve de cópia de segurança nos dois modos de armazenamento e de meio de migração do IndexedDB
+ * (modo virtual) para uma pasta.
+ * O histórico de versões e o lixo não são incluídos.
+ *
+ *   manifest.json
+ *   acordaos/<id>.json
+ *   raw/<nome>.txt
+ *   sessions/<id>.json
+ *   collections/<id>.json
+ *   saved-searches/<id>.json
+ *   vocabulary/<id>.json
+ *   watch-lists/<id>.json
+ */
+
+export const BUNDLE_FORMAT = 'jurisanalyzer-archive';
+export const BUNDLE_VERSION = 1;
+
+export interface BundleManifest {
+  format: string;
+  version: number;
+  createdAt: string;
+  source: 'native' | 'virtual';
+  counts: { acordaos: number; rawFiles: number; sessions: number; collections: number; savedSearches: number; vocabulary?: number; watchLists?: number };
+}
+
+export interface ArchiveBundle {
+  manifest: BundleManifest;
+  acordaos: Acordao[];
+  rawFiles: { name: string; content: string }[];
+  sessions: ResearchSession[];
+  collections: Collection[];
+  savedSearches: SavedSearch[];
+  vocabulary: DescritorEntry[];
+  watchLists: WatchList[];
+  problems: string[]; // Entradas ignoradas ao ler o pacote
+}
+
+const FOLDERS = {
+  acordaos: 'acordaos/',
+  rawFiles: 'raw/',
+  sessions: 'sessions/',
+  collections: 'collections/',
+  savedSearches: 'saved-searches/',
+  vocabulary: 'vocabulary/',
+  watchLists: 'watch-lists/',
+};
+
+/** Lê todo o arquivo atual (pasta ou IndexedDB). */
+export const collectBundle = async (): Promise<ArchiveBundle> => {
+  const [acordaos, rawFiles, sessions, collections, savedSearches, vocabulary, watchLists] = await Promise.all([
+    StorageService.listProcessedAcordaos(),
+    StorageService.listRawFiles(),
+    StorageService.listSessions(),
+    StorageService.listCollections(),
+    StorageService.listSavedSearches(),
+    StorageService.listVocabulary(),
+    StorageService.listWatchLists(),
+  ]);
+  return {
+    manifest: {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      createdAt: new Date().toISOString(),
+      source: StorageService.getMode() || 'virtual',
+      counts: { acordaos: acordaos.length, rawFiles: rawFiles.length, sessions: sessions.length, collections: collections.length, savedSearches: savedSearches.length, vocabulary: vocabulary.length, watchLists: watchLists.length },
+    },
+    acordaos,
+    rawFiles: rawFiles.map(({ name, content }) => ({ name, content })),
+    sessions,
+    collections,
+    savedSearches,
+    vocabulary,
+    watchLists,
+    problems: [],
+  };
+};
+
+const json = (data: unknown) => JSON.stringify(data, null, 2);
+
+export const bundleToZip = (bundle: ArchiveBundle): Blob => {
+  const entries: ZipEntry[] = [
+    { path: 'manifest.json', data: json(bundle.manifest) },
+    ...bundle.acordaos.map(a => ({ path: `${FOLDERS.acordaos}${toFileKey(a.id)}.json`, data: json(a) })),
+    ...bundle.rawFiles.map(f => ({ path: `${FOLDERS.rawFiles}${f.name}.txt`, data: f.content })),
+    ...bundle.sessions.map(s => ({ path: `${FOLDERS.sessions}${toFileKey(s.id)}.json`, data: json(s) })),
+    ...bundle.collections.map(c => ({ path: `${FOLDERS.collections}${toFileKey(c.id)}.json`, data: json(c) })),
+    ...bundle.savedSearches.map(s => ({ path: `${FOLDERS.savedSearches}${toFileKey(s.id)}.json`, data: json(s) })),
+    ...bundle.vocabulary.map(e => ({ path: `${FOLDERS.vocabulary}${toFileKey(e.id)}.json`, data: json(e) })),
+    ...bundle.watchLists.map(w => ({ path: `${FOLDERS.watchLists}${toFileKey(w.id)}.json`, data: json(w) })),
+  ];
+  return createZip(entries);
+};
+
+export const bundleFileName = (date = new Date()) => `jurisanalyzer_arquivo_${date.toISOString().slice(0, 10)}.zip`;
+
+const isManifest = (data: unknown): data is BundleManifest =>
+  isRecord(data) && data.format === BUNDLE_FORMAT && typeof data.version === 'number' && isRecord(data.counts);
+
+// Devolve o documento lido ou o motivo pelo qual foi rejeitado.
+const validDocument = <T>(guard: (data: unknown) => data is T) => (data: unknown): T | string => guard(data) ? data : 'estrutura inválida';
+
+const acordaoRecord = (data: unknown): Acordao | string => {
+  const loaded = loadAcordaoRecord(data);
+  return loaded.status === 'loaded' ? loaded.acordao : loaded.reason;
+};
+
+/** Lê e valida um pacote. Entradas ilegíveis são ignoradas e listadas em `problems`. */
+export const readBundle = async (file: Blob): Promise<ArchiveBundle> => {
+  const entries = await readZip(file);
+  const decoder = new TextDecoder();
+  const text = new Map(entries.map(e => [e.path, decoder.decode(e.data)]));
+
+  const manifestText = text.get('manifest.json');
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(manifestText || '');
+  } catch {
+    throw new Error('Este ficheiro não é uma cópia do arquivo (falta o manifest.json).');
+  }
+  if (!isManifest(manifest)) throw new Error('Este ficheiro não é uma cópia do arquivo JurisAnalyzer.');
+  if (!(manifest.version <= BUNDLE_VERSION)) {
+    throw new Error(`Cópia criada por uma versão mais recente da aplicação (formato ${manifest.version}). Atualize a aplicação.`);
+  }
+
+  const problems: string[] = [];
+  const readFolder = <T>(folder: string, load: (data: unknown) => T | string): T[] =>
+    Array.from(text.entries())
+      .filter(([path]) => path.startsWith(folder) && path.endsWith('.json'))
+      .flatMap(([path, content]) => {
+        try {
+          const loaded = load(JSON.parse(content));
+          if (typeof loaded !== 'string') return [loaded];
+          problems.push(`${path}: ${loaded}`);
+        } catch {
+          problems.push(`${path}: JSON inválido`);
+        }
+        return [];
+      });
+
+  return {
+    manifest,
+    acordaos: readFolder(FOLDERS.acordaos, acordaoRecord),
+    rawFiles: Array.from(text.entries())
+      .filter(([path]) => path.startsWith(FOLDERS.rawFiles) && path.endsWith('.txt'))
+      .map(([path, content]) => ({ name: path.slice(FOLDERS.rawFiles.length, -'.txt'.length), content })),
+    sessions: readFolder(FOLDERS.sessions, validDocument(isSession)),
+    collections: readFolder(FOLDERS.collections, validDocument(isCollection)),
+    savedSearches: readFolder(FOLDERS.savedSearches, validDocument(isSavedSearch)),
+    // Pacotes anteriores ao vocabulário não têm esta pasta.
+    vocabulary: readFolder(FOLDERS.vocabulary, validDocument(isDescritorEntry)),
+    watchLists: readFolder(FOLDERS.watchLists, validDocument(isWatchList)),
+    problems,
+  };
+};
+
+// --- Importação ---
+
+/**
+ * Em caso de conflito (o mesmo acórdão / documento já existe com conteúdo diferente):
+ * - merge: funde os acórdãos como numa reimportação, junta os membros das coleções e os
+ *   sinónimos do vocabulário e, nas sessões e pesquisas, fica a versão mais recente;
+ * - keep: mantém o que já está no arquivo;
+ * - replace: o pacote substitui o arquivo.
+ * Os acórdãos alterados ficam sempre com a versão anterior no histórico.
+ */
+export type ConflictStrategy = 'merge' | 'keep' | 'replace';
+
+export type BundleItemKind = 'acordao' | 'raw' | 'session' | 'collection' | 'savedSearch' | 'descritor' | 'watchList';
+export type BundleItemStatus = 'new' | 'identical' | 'conflict';
+
+export interface BundlePlanItem {
+  kind: BundleItemKind;
+  id: string;
+  label: string;
+  status: BundleItemStatus;
+}
+
+export const BUNDLE_ITEM_LABELS: Record<BundleItemKind, string> = {
+  acordao: 'Acórdão',
+  raw: 'Texto bruto',
+  session: 'Sessão',
+  collection: 'Coleção',
+  savedSearch: 'Pesquisa guardada',
+  descritor: 'Descritor',
+  watchList: 'Lista de vigilância',
+};
+
+const sameContent = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const statusOf = (incoming: unknown, existing: unknown): BundleItemStatus =>
+  existing === null || existing === undefined ? 'new' : sameContent(incoming, existing) ? 'identical' : 'conflict';
+
+/** Compara o pacote com o arquivo atual, sem gravar nada. */
+export const planImport = async (bundle: ArchiveBundle): Promise<BundlePlanItem[]> => {
+  const [sessions, collections, savedSearches, vocabulary, watchLists] = await Promise.all([
+    StorageService.listSessions(), StorageService.listCollections(), StorageService.listSavedSearches(), StorageService.listVocabulary(),
+    StorageService.listWatchLists(),
+  ]);
+  const byId = <T extends { id: string }>(list: T[]) => new Map(list.map(item => [item.id, item]));
+  const existingSessions = byId(sessions), existingCollections = byId(collections), existingSearches = byId(savedSearches);
+  const existingVocabulary = byId(vocabulary), existingWatchLists = byId(watchLists);
+
+  const items: BundlePlanItem[] = [];
+  for (const a of bundle.acordaos) {
+    items.push({ kind: 'acordao', id: a.id, label: a.processo || a.ecli, status: statusOf(a, await StorageService.findStoredAcordao(a)) });
+  }
+  for (const f of bundle.rawFiles) {
+    items.push({ kind: 'raw', id: f.name, label: `${f.name}.txt`, status: statusOf(f.content, await StorageService.readRawTxt(f.name)) });
+  }
+  bundle.sessions.forEach(s => items.push({ kind: 'session', id: s.id, label: s.name, status: statusOf(s, existingSessions.get(s.id)) }));
+  bundle.collections.forEach(c => items.push({ kind: 'collection', id: c.id, label: c.name, status: statusOf(c, existingCollections.get(c.id)) }));
+  bundle.savedSearches.forEach(s => items.push({ kind: 'savedSearch', id: s.id, label: s.name, status: statusOf(s, existingSearches.get(s.id)) }));
+  bundle.vocabulary.forEach(e => items.push({ kind: 'descritor', id: e.id, label: e.label, status: statusOf(e, existingVocabulary.get(e.id)) }));
+  bundle.watchLists.forEach(w => items.push({ kind: 'watchList', id: w.id, label: w.name, status: statusOf(w, existingWatchLists.get(w.id)) }));
+  return items;
+};
+
+export interface BundleImportSummary {
+  added: number;
+  updated: number;
+  unchanged: number;
+  skipped: number; // Conflitos mantidos como estavam (estratégia "keep")
+  errors: string[];
+}
+
+const newer = <T extends { createdAt: string; updatedAt?: string }>(a: T, b: T): T =>
+  (a.updatedAt || a.createdAt) >= (b.updatedAt || b.createdAt) ? a : b;
+
+/** Grava o pacote no arquivo atual segundo o plano e a estratégia de conflitos. */
+export const applyImport = async (
+  bundle: ArchiveBundle,
+  plan: BundlePlanItem[],
+  strategy: ConflictStrategy,
+  onProgress?: (done: number, total: number) => void
+): Promise<BundleImportSummary> => {
+  const summary: BundleImportSummary = { added: 0, updated: 0, unchanged: 0, skipped: 0, errors: [] };
+  const [sessions, collections, savedSearches, vocabulary, watchLists] = await Promise.all([
+    StorageService.listSessions(), StorageService.listCollections(), StorageService.listSavedSearches(), StorageService.listVocabulary(),
+    StorageService.listWatchLists(),
+  ]);
+
+  // Os textos brutos primeiro, para que os acórdãos importados encontrem o respetivo TXT.
+  const order: BundleItemKind[] = ['raw', 'acordao', 'collection', 'session', 'savedSearch', 'descritor', 'watchList'];
+  const items = [...plan].sort((a, b) => order.indexOf(a.kind) - order.indexOf(b.kind));
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    onProgress?.(i, items.length);
+    if (item.status === 'identical') { summary.unchanged++; continue; }
+    if (item.status === 'conflict' && strategy === 'keep') { summary.skipped++; continue; }
+    try {
+      switch (item.kind) {
+        case 'raw': {
+          // Em "merge", um TXT diferente já existente é mantido (o acórdão guarda o texto integral).
+          if (item.status === 'conflict' && strategy === 'merge') { summary.skipped++; continue; }
+          await StorageService.saveRawTxt(item.id, bundle.rawFiles.find(f => f.name === item.id)!.content);
+          break;
+        }
+        case 'acordao': {
+          const acordao = bundle.acordaos.find(a => a.id === item.id)!;
+          if (strategy === 'replace') await StorageService.replaceAcordao(acordao, 'import');
+          else await StorageService.saveProcessedAcordao(acordao, 'import');
+          break;
+        }
+        case 'collection': {
+          const incoming = bundle.collections.find(c => c.id === item.id)!;
+          const existing = collections.find(c => c.id === item.id);
+          await StorageService.saveCollection(existing && strategy === 'merge'
+            ? { ...existing, acordaoIds: Array.from(new Set([...existing.acordaoIds, ...incoming.acordaoIds])), updatedAt: new Date().toISOString() }
+            : incoming);
+          break;
+        }
+        case 'session': {
+          const incoming = bundle.sessions.find(s => s.id === item.id)!;
+          const existing = sessions.find(s => s.id === item.id);
+          await StorageService.saveSession(existing && strategy === 'merge' ? newer(existing, incoming) : incoming);
+          break;
+        }
+        case 'savedSearch': {
+          const incoming = bundle.savedSearches.find(s => s.id === item.id)!;
+          const existing = savedSearches.find(s => s.id === item.id);
+          await StorageService.saveSavedSearch(existing && strategy === 'merge' ? newer(existing, incoming) : incoming);
+          break;
+        }
+        case 'descritor': {
+          const incoming = bundle.vocabulary.find(e => e.id === item.id)!;
+          const existing = vocabulary.find(e => e.id === item.id);
+          await StorageService.saveDescritorEntry(existing && strategy === 'merge'
+            ? { ...newer(existing, incoming), synonyms: Array.from(new Set([...existing.synonyms, ...incoming.synonyms])) }
+            : incoming);
+          break;
+        }
+        case 'watchList': {
+          const incoming = bundle.watchLists.find(w => w.id === item.id)!;
+          const existing = watchLists.find(w => w.id === item.id);
+          await StorageService.saveWatchList(existing && strategy === 'merge' ? newer(existing, incoming) : incoming);
+          break;
+        }
+      }
+      if (item.status === 'new') summary.added++;
+      else summary.updated++;
+    } catch (e) {
+      summary.errors.push(`${BUNDLE_ITEM_LABELS[item.kind]} ${item.label}: ${(e as Error).message}`);
+    }
+  }
+  onProgress?.(items.length, items.length);
+  return summary;
+};
+
+/**
+ * Migração do armazenamento virtual (IndexedDB) para a pasta já escolhida (StorageService.pickNativeDirectory):
+ * lê todo o arquivo virtual, passa para a pasta e grava lá o conteúdo (fundindo com o que a pasta já tiver).
+ * A mudança de pasta só é anunciada no fim, para que a interface não recarregue um arquivo a meio da gravação.
+ * Os dados do IndexedDB não são apagados.
+ */
+export const migrateVirtualToFolder = async (
+  folder: FileSystemDirectoryHandle,
+  onProgress?: (done: number, total: number) => void
+): Promise<BundleImportSummary> => {
+  if (StorageService.getMode() !== 'virtual') throw new Error('O arquivo atual não está no armazenamento virtual do navegador.');
+  const bundle = await collectBundle();
+  StorageService.activateNativeDirectory(folder, false);
+  try {
+    return await applyImport(bundle, await planImport(bundle), 'merge', onProgress);
+  } finally {
+    StorageService.notifyDirectoryChanged();
+  }
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { extractCitations } from './citationService';
+
+const byKey = (text: string) => new Map(extractCitations(text).map(ref => [ref.key, ref]));
+
+describe('extractCitations', () => {
+  it('liga o tribunal e a data ao processo da mesma menção', () => {
+    const refs = extractCitations('Como se decidiu no Ac. do STJ de 12/03/2008, proc. 07B4528, a culpa presume-se.');
+    expect(refs).toHaveLength(1);
+    expect(refs[0]).toMatchObject({ key: 'PROC:07B4528', processo: '07B4528', court: 'STJ', dateIso: '2008-03-12' });
+  });
+
+  it('não junta duas menções seguidas numa só referência', () => {
+    const refs = byKey('Ac. do STJ de 12/03/2008, proc. 07B4528, e Ac. do STJ de 3/4/2019, proc. 123/15.0T8LSB.L1.S1');
+    expect(refs.size).toBe(2);
+    expect(refs.get('PROC:07B4528')).toMatchObject({ court: 'STJ', dateIso: '2008-03-12' });
+    expect(refs.get('PROC:123/15.0T8LSB.L1.S1')).toMatchObject({ court: 'STJ', dateIso: '2019-04-03' });
+  });
+
+  it('não atribui o ECLI de uma menção seguinte (sem data) à anterior', () => {
+    const refs = byKey(
+      'Seguiu-se o Ac. do STJ de 12/03/2019 e no Acórdão do Tribunal da Relação de Lisboa sobre a mesma questão (ECLI:PT:TRL:2020:456.18.2T8LSB.L1.6).'
+    );
+    expect(refs.get('DEC:STJ:2019-03-12')).toMatchObject({ court: 'STJ', dateIso: '2019-03-12' });
+    expect(refs.get('DEC:STJ:2019-03-12')!.ecli).toBeUndefined();
+    expect(refs.get('ECLI:PT:TRL:2020:456.18.2T8LSB.L1.6')).toMatchObject({ court: 'TRL' });
+    expect(refs.get('ECLI:PT:TRL:2020:456.18.2T8LSB.L1.6')!.dateIso).toBeUndefined();
+  });
+
+  it('usa o identificador mais próximo da menção', () => {
+    const refs = extractCitations('Ac. do STJ de 12/03/2008, proc. 07B4528 (cfr. também 123/15.0T8LSB.L1.S1)');
+    expect(refs.find(r => r.court === 'STJ')).toMatchObject({ processo: '07B4528', dateIso: '2008-03-12' });
+    expect(refs.find(r => r.processo === '123/15.0T8LSB.L1.S1')!.dateIso).toBeUndefined();
+  });
+
+  it('ignora um ECLI de outro tribunal na mesma frase', () => {
+    const refs = byKey('Ac. do STJ de 12/03/2019, ECLI:PT:TRP:2019:77.17.1T8PRT.P1');
+    expect(refs.get('DEC:STJ:2019-03-12')).toBeDefined();
+    expect(refs.get('ECLI:PT:TRP:2019:77.17.1T8PRT.P1')).toMatchObject({ court: 'TRP' });
+  });
+});
+
+describe('extractCitations (ECLI)', () => {
+  it('não reconhece um ECLI com número de ordem demasiado comprido', () => {
+    expect(extractCitations(`Ver ECLI:PT:STJ:2020:${'1'.repeat(30)}.`)).toEqual([]);
+  });
+
+  it('não inclui o ponto final da frase', () => {
+    expect(extractCitations('Ver ECLI:PT:TRP:2019:77.17.1T8PRT.P1.').map(r => r.key)).toEqual(['ECLI:PT:TRP:2019:77.17.1T8PRT.P1']);
+  });
+});
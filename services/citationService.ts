@@ -0,0 +1,249 @@
+import { Acordao, CitationGraph, CitationNode, CitationReference, MissingCitation } from '../types';
+import { COURTS, normalizeProcesso, parseEcli } from './ecliService';
+import { acordaoDate, formatDate, parseDate } from './dateService';
+import { foldAccents } from './textService';
+
+/**
+ * Citações entre acórdãos: extração das referências a outras decisões no texto integral
+ * (ECLI, números de processo e "Ac. do STJ de 12/03/2019") e grafo "cita / citado por"
+ * sobre o arquivo. As citações sem correspondência no arquivo formam a lista de decisões a importar.
+ */
+
+// Formas abreviadas usuais ("Ac. da RL de ...") além dos códigos e nomes de COURTS.
+const COURT_ALIASES: Record<string, string> = {
+  RL: 'TRL', RP: 'TRP', RC: 'TRC', RG: 'TRG', RE: 'TRE',
+  'RELACAO DE LISBOA': 'TRL', 'RELACAO DO PORTO': 'TRP', 'RELACAO DE COIMBRA': 'TRC',
+  'RELACAO DE GUIMARAES': 'TRG', 'RELACAO DE EVORA': 'TRE',
+};
+
+const courtLookup = new Map<string, string>([
+  ...Object.keys(COURTS).map(code => [code, code] as [string, string]),
+  ...Object.entries(COURTS).map(([code, name]) => [foldAccents(name).toUpperCase(), code] as [string, string]),
+  ...Object.entries(COURT_ALIASES),
+]);
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Nomes mais longos primeiro, para "Tribunal da Relação de Lisboa" ganhar a "RL".
+const COURT_PATTERN = Array.from(courtLookup.keys())
+  .sort((a, b) => b.length - a.length)
+  .map(name => escapeRegex(name).replace(/ /g, '\\s+'))
+  .join('|');
+
+const DATE_PATTERN = String.raw`\d{1,2}[./-]\d{1,2}[./-]\d{4}|\d{1,2}\.?[oº]?\s+de\s+[a-z]+\s+de\s+\d{4}`;
+
+const MENTION_PATTERN = String.raw`\b(?:acordaos?|acs?\.)\s+(?:(?:do|da|deste|desta)\s+)?(?:(?:venerando|colendo)\s+)?(${COURT_PATTERN})\b`;
+
+const DECISION_IN_TEXT = new RegExp(
+  String.raw`${MENTION_PATTERN}[,]?\s+(?:(?:de|proferido\s+em|datado\s+de)\s+)?(${DATE_PATTERN})`,
+  'gi'
+);
+// Qualquer menção a um acórdão de um tribunal, com ou sem data: delimita a janela da menção anterior.
+const DECISION_MENTION = new RegExp(MENTION_PATTERN, 'gi');
+// Processo com NUIPC: 123/15.0T8LSB.L1.S1
+const PROCESSO_IN_TEXT = /\b\d{1,6}\/\d{2}\.\d{1,2}[A-Z]{1,5}[A-Z0-9]*(?:[.-][A-Z0-9]+)*/g;
+// Formatos antigos, apenas após "proc." / "processo n.º": 07B4528, 0634567
+const PROCESSO_AFTER_KEYWORD = /\bproc(?:esso)?\.?\s*(?:n\.?\s*[oº]?\.?\s*)?(\d{2,7}[A-Z]?\d{2,}(?:\/\d{2,4})?)/gi;
+// Número de ordem até 25 caracteres, sem o ponto final da frase; um mais comprido não é reconhecido.
+const ECLI_IN_TEXT = /ECLI:PT:[A-Z0-9]{1,7}:\d{4}:[A-Z0-9.]{0,24}[A-Z0-9](?!\.?[A-Z0-9])/gi;
+
+// Uma menção a um acórdão e o processo/ECLI que a identificam costumam estar a poucas palavras,
+// na mesma frase.
+const NEARBY_WINDOW = 160;
+const SENTENCE_END = /;|\.\s+[A-Z]/g;
+
+const windowEnd = (text: string, from: number): number => {
+  SENTENCE_END.lastIndex = from;
+  const stop = SENTENCE_END.exec(text);
+  return Math.min(text.length, from + NEARBY_WINDOW, stop ? stop.index : Infinity);
+};
+
+const referenceKey = (ref: Omit<CitationReference, 'key' | 'raw'>): string | null => {
+  if (ref.ecli) return ref.ecli;
+  if (ref.processo) return `PROC:${normalizeProcesso(ref.processo)}`;
+  if (ref.court && ref.dateIso) return `DEC:${ref.court}:${ref.dateIso}`;
+  return null;
+};
+
+interface Match {
+  start: number;
+  end: number;
+  value: string;
+}
+
+const findAll = (pattern: RegExp, text: string, group = 0): Match[] =>
+  Array.from(text.matchAll(pattern), m => {
+    const value = m[group];
+    const start = m.index! + m[0].indexOf(value);
+    return { start, end: start + value.length, value };
+  });
+
+/** Referências a outras decisões num texto, sem duplicados. */
+export const extractCitations = (text: string): CitationReference[] => {
+  if (!text) return [];
+  const folded = foldAccents(text);
+  const refs = new Map<string, CitationReference>();
+  const consumed: [number, number][] = [];
+  const isConsumed = (m: Match) => consumed.some(([s, e]) => m.start < e && m.end > s);
+
+  const ecliMatches = findAll(ECLI_IN_TEXT, folded);
+  const processoMatches = [
+    ...findAll(PROCESSO_IN_TEXT, folded),
+    ...findAll(PROCESSO_AFTER_KEYWORD, folded, 1),
+  ].sort((a, b) => a.start - b.start);
+  const mentionStarts = findAll(DECISION_MENTION, folded).map(m => m.start);
+
+  const add = (ref: Omit<CitationReference, 'key' | 'raw'>, start: number, end: number) => {
+    const key = referenceKey(ref);
+    if (!key) return;
+    const existing = refs.get(key);
+    refs.set(key, { ...ref, ...existing, key, raw: existing?.raw || text.slice(start, end).replace(/\s+/g, ' ').trim() });
+  };
+
+  // 1. "Ac. do STJ de 12/03/2019, proc. ..." — tribunal, data e o identificador mais próximo,
+  // antes da menção seguinte (os identificadores desta não são atribuídos à anterior).
+  for (const m of folded.matchAll(DECISION_IN_TEXT)) {
+    const start = m.index!;
+    const end = start + m[0].length;
+    const nextMention = mentionStarts.find(s => s > start);
+    const limit = Math.min(windowEnd(folded, end), nextMention ?? Infinity);
+    const near = (matches: Match[]) => matches.find(x => x.start >= end && x.start < limit);
+    const court = courtLookup.get(m[1].toUpperCase().replace(/\s+/g, ' '));
+    // Um ECLI de outro tribunal não identifica esta decisão.
+    const ecliMatch = near(ecliMatches);
+    const parsedEcli = ecliMatch ? parseEcli(ecliMatch.value) : null;
+    const ecli = parsedEcli && (!court || parsedEcli.court === court) ? ecliMatch : undefined;
+    const processo = near(processoMatches);
+    const last = Math.max(end, ecli?.end || 0, processo?.end || 0);
+    add({
+      ecli: ecli ? parsedEcli!.ecli : undefined,
+      processo: processo?.value,
+      court,
+      dateIso: parseDate(m[2]) || undefined,
+    }, start, last);
+    consumed.push([start, last]);
+  }
+
+  // 2. ECLI e processos citados isoladamente.
+  ecliMatches.filter(m => !isConsumed(m)).forEach(m => {
+    const parsed = parseEcli(m.value);
+    if (parsed) add({ ecli: parsed.ecli, court: parsed.court }, m.start, m.end);
+  });
+  processoMatches.filter(m => !isConsumed(m)).forEach(m => {
+    consumed.push([m.start, m.end]);
+    add({ processo: m.value }, m.start, m.end);
+  });
+
+  return Array.from(refs.values());
+};
+
+const citationCache = new WeakMap<Acordao, CitationReference[]>();
+
+/** Citações de um acórdão (texto integral e campo "Jurisprudência Nacional" do DGSI), em cache. */
+export const citationsOf = (acordao: Acordao): CitationReference[] => {
+  let refs = citationCache.get(acordao);
+  if (!refs) {
+    refs = extractCitations([acordao.jurisprudenciaNacional, acordao.textoIntegral].filter(Boolean).join('\n'));
+    citationCache.set(acordao, refs);
+  }
+  return refs;
+};
+
+// Processo base (1.ª instância): "123/15.0T8LSB.L1.S1" -> "123/15.0T8LSB". Os recursos acrescentam sufixos.
+const processoBase = (processo: string): string =>
+  normalizeProcesso(processo).match(/^\d+\/\d{2}\.\d+[A-Z0-9]+/)?.[0] || normalizeProcesso(processo);
+
+const pushTo = <K, V>(map: Map<K, V[]>, key: K, value: V) => map.set(key, [...(map.get(key) || []), value]);
+
+/** Resolve referências contra o arquivo: ECLI, processo exato, processo base + data, ou tribunal + data. */
+export const createCitationResolver = (acordaos: Acordao[]) => {
+  const byEcli = new Map<string, string>();
+  const byProcesso = new Map<string, Acordao[]>();
+  const byBase = new Map<string, Acordao[]>();
+  const byCourtDate = new Map<string, Acordao[]>();
+  acordaos.forEach(a => {
+    const ecli = parseEcli(a.ecli)?.ecli;
+    if (ecli) byEcli.set(ecli, a.id);
+    if (a.processo && a.processo !== 'Desconhecido') {
+      pushTo(byProcesso, normalizeProcesso(a.processo), a);
+      pushTo(byBase, processoBase(a.processo), a);
+    }
+    const date = acordaoDate(a);
+    const court = parseEcli(a.ecli)?.court || a.tribunal;
+    if (date && court) pushTo(byCourtDate, `${court}:${date}`, a);
+  });
+
+  const pick = (candidates: Acordao[] | undefined, ref: CitationReference): string | undefined => {
+    if (!candidates || candidates.length === 0) return undefined;
+    if (candidates.length === 1) return candidates[0].id;
+    return candidates.find(a => ref.dateIso && acordaoDate(a) === ref.dateIso)?.id;
+  };
+
+  return (ref: CitationReference): string | undefined => {
+    if (ref.ecli && byEcli.has(ref.ecli)) return byEcli.get(ref.ecli);
+    if (ref.processo) {
+      const exact = pick(byProcesso.get(normalizeProcesso(ref.processo)), ref);
+      if (exact) return exact;
+      // O mesmo processo base com a mesma data é a mesma decisão, citada sem os sufixos do recurso.
+      return ref.dateIso
+        ? byBase.get(processoBase(ref.processo))?.find(a => acordaoDate(a) === ref.dateIso)?.id
+        : undefined;
+    }
+    if (ref.court && ref.dateIso) {
+      const sameDay = byCourtDate.get(`${ref.court}:${ref.dateIso}`);
+      return sameDay?.length === 1 ? sameDay[0].id : undefined;
+    }
+    return undefined;
+  };
+};
+
+const isSelfReference = (acordao: Acordao, ref: CitationReference, targetId?: string) =>
+  targetId === acordao.id ||
+  (!!ref.ecli && ref.ecli === parseEcli(acordao.ecli)?.ecli) ||
+  (!!ref.processo && normalizeProcesso(ref.processo) === normalizeProcesso(acordao.processo));
+
+/** Grafo de citações do arquivo e lista das decisões citadas que ainda não foram importadas. */
+export const buildCitationGraph = (acordaos: Acordao[]): CitationGraph => {
+  const resolve = createCitationResolver(acordaos);
+  const nodes = new Map<string, CitationNode>(
+    acordaos.map(a => [a.id, { acordaoId: a.id, cites: [], citedBy: [] }])
+  );
+  const missing = new Map<string, MissingCitation>();
+
+  acordaos.forEach(a => {
+    const node = nodes.get(a.id)!;
+    const seenTargets = new Set<string>();
+    citationsOf(a).forEach(reference => {
+      const targetId = resolve(reference);
+      if (isSelfReference(a, reference, targetId)) return;
+      if (targetId) {
+        // O mesmo acórdão pode ser citado pelo ECLI e pelo processo: uma só aresta.
+        if (seenTargets.has(targetId)) return;
+        seenTargets.add(targetId);
+        node.cites.push({ reference, targetId });
+        nodes.get(targetId)!.citedBy.push(a.id);
+        return;
+      }
+      node.cites.push({ reference });
+      const entry = missing.get(reference.key) || { reference, citedBy: [] };
+      if (!entry.citedBy.includes(a.id)) entry.citedBy.push(a.id);
+      entry.reference = { ...reference, ...entry.reference };
+      missing.set(reference.key, entry);
+    });
+  });
+
+  return {
+    nodes,
+    missing: Array.from(missing.values()).sort((x, y) => y.citedBy.length - x.citedBy.length),
+  };
+};
+
+/** Linha legível de uma referência: "STJ 12/03/2019 · proc. 123/15.0T8LSB.L1.S1". */
+export const describeReference = (ref: CitationReference): string => {
+  const parts: string[] = [];
+  if (ref.court) parts.push(ref.court);
+  if (ref.dateIso) parts.push(formatDate(ref.dateIso));
+  if (ref.processo) parts.push(`proc. ${ref.processo}`);
+  if (ref.ecli) parts.push(ref.ecli);
+  return parts.join(' · ') || ref.raw;
+};
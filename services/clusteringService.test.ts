@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Acordao } from '../types';
+import { agglomerate, buildThesisMap, parseClusterLabels, SparseVector } from './clusteringService';
+
+const acordao = (id: string, sumario: string, descritores: string[] = []): Acordao => ({
+  id, ecli: 'Desconhecido', processo: id, data: '12/03/2020', relator: 'Ana Silva', descritores,
+  sumario, textoIntegral: '', adjuntos: [], url: '',
+});
+
+const unit = (entries: [string, number][]): SparseVector => {
+  const norm = Math.sqrt(entries.reduce((sum, [, w]) => sum + w * w, 0));
+  return new Map(entries.map(([k, w]) => [k, w / norm]));
+};
+
+describe('agglomerate', () => {
+  it('funde os vetores semelhantes e para abaixo do limiar', () => {
+    const vectors = [
+      unit([['a', 1], ['b', 0.2]]),
+      unit([['x', 1]]),
+      unit([['a', 1], ['b', 0.3]]),
+      unit([['a', 0.8], ['c', 0.6]]),
+      unit([['y', 1]]),
+    ];
+    expect(agglomerate(vectors, 0.5)).toEqual([[0, 2, 3], [1], [4]]);
+    expect(agglomerate(vectors, 0.99)).toEqual([[0, 2], [1], [3], [4]]);
+    expect(agglomerate([], 0.2)).toEqual([]);
+  });
+});
+
+describe('buildThesisMap', () => {
+  const acordaos = [
+    acordao('A', 'A responsabilidade médica depende da culpa do médico na intervenção cirúrgica.', ['RESPONSABILIDADE MÉDICA']),
+    acordao('B', 'Na responsabilidade médica, a culpa do médico presume-se na intervenção cirúrgica.', ['RESPONSABILIDADE MÉDICA']),
+    acordao('C', 'O despedimento com justa causa exige a impossibilidade da relação laboral.', ['JUSTA CAUSA']),
+    acordao('D', 'A justa causa de despedimento torna impossível a subsistência da relação laboral.', ['JUSTA CAUSA']),
+    acordao('E', 'O usufruto extingue-se pela morte do usufrutuário.', ['USUFRUTO']),
+  ];
+
+  it('agrupa os sumários semelhantes e rotula os grupos pelos termos característicos', async () => {
+    const map = await buildThesisMap(acordaos);
+    expect(map.clusters.map(c => c.acordaoIds.sort())).toEqual(expect.arrayContaining([['A', 'B'], ['C', 'D']]));
+    expect(map.clusters).toHaveLength(2);
+    const medical = map.clusters.find(c => c.acordaoIds.includes('A'))!;
+    expect(medical.keyTerms[0]).toBe('RESPONSABILIDADE MÉDICA');
+    expect(medical.relatores).toEqual([{ name: expect.any(String), count: 2 }]);
+  });
+
+  it('indica os acórdãos que não se juntaram a nenhum grupo', async () => {
+    expect((await buildThesisMap(acordaos)).isolated).toEqual(['E']);
+    expect((await buildThesisMap(acordaos, { threshold: 0.99 })).isolated.sort()).toEqual(['A', 'B', 'C', 'D', 'E']);
+  });
+});
+
+describe('parseClusterLabels', () => {
+  it('lê os rótulos, com ou sem bloco ```json', () => {
+    const raw = '```json\n{"grupos": [{"grupo": 1, "titulo": " Culpa presumida ", "resumo": "Tese A."}, {"grupo": "2", "titulo": "Outra"}]}\n```';
+    expect(parseClusterLabels(raw)).toEqual([
+      { grupo: 1, titulo: 'Culpa presumida', resumo: 'Tese A.' },
+      { grupo: 2, titulo: 'Outra', resumo: '' },
+    ]);
+  });
+
+  it('ignora entradas sem estrutura e rejeita respostas sem a lista de grupos', () => {
+    expect(parseClusterLabels('{"grupos": [null, "x", 3, {"grupo": 1.5, "titulo": "a"}, {"grupo": 4, "titulo": 7}]}')).toEqual([]);
+    expect(parseClusterLabels('{"grupos": {}}')).toBeNull();
+    expect(parseClusterLabels('[]')).toBeNull();
+    expect(parseClusterLabels('não é JSON')).toBeNull();
+  });
+});
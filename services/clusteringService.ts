@@ -0,0 +1,276 @@
+import { Acordao, ProfileCount, ThesisCluster, ThesisMap } from '../types';
+import { normalizeText, splitWords, toTerm, tokenize } from './textService';
+import { courtCodeOf, courtName } from './ecliService';
+import { normalizeDescritor } from './comparisonService';
+import { buildJudgeIndex } from './judgeService';
+import { isRecord, parseModelJson } from './jsonService';
+
+/**
+ * Mapa automático de teses: agrupa os acórdãos de um conjunto pela semelhança do sumário
+ * e dos descritores, sem pergunta. A representação vetorial está atrás da interface
+ * Vectorizer (TF-IDF local por omissão; um modelo de embeddings pode implementá-la
+ * usando as posições do vetor denso como chaves). O agrupamento é hierárquico
+ * aglomerativo com ligação média, parando quando a semelhança cai abaixo do limiar.
+ */
+
+/** Vetor esparso normalizado (norma L2 = 1): característica -> peso. */
+export type SparseVector = Map<string, number>;
+
+export interface Vectorizer {
+  id: string;
+  label: string;
+  vectorize(acordaos: Acordao[]): Promise<SparseVector[]>;
+}
+
+export const MAX_CLUSTER_DOCUMENTS = 600;
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.2;
+export const SIMILARITY_THRESHOLD_OPTIONS = [
+  { value: 0.1, label: 'Grupos largos' },
+  { value: 0.2, label: 'Equilibrado' },
+  { value: 0.35, label: 'Grupos estreitos' },
+];
+
+const DESCRITOR_WEIGHT = 2;
+const KEY_TERMS = 4;
+
+const normalize = (vector: SparseVector): SparseVector => {
+  let norm = 0;
+  vector.forEach(w => { norm += w * w; });
+  norm = Math.sqrt(norm);
+  if (norm > 0) vector.forEach((w, k) => vector.set(k, w / norm));
+  return vector;
+};
+
+export const cosine = (a: SparseVector, b: SparseVector): number => {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((w, k) => { dot += w * (large.get(k) || 0); });
+  return dot;
+};
+
+// Termos do sumário (com stemming) e descritores inteiros, estes com peso reforçado
+const featureCounts = (acordao: Acordao): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const add = (feature: string, n: number) => counts.set(feature, (counts.get(feature) || 0) + n);
+  tokenize(acordao.sumario).forEach(term => add(term, 1));
+  acordao.descritores.forEach(d => {
+    add(`d:${normalizeDescritor(d)}`, DESCRITOR_WEIGHT);
+    tokenize(d).forEach(term => add(term, 1));
+  });
+  return counts;
+};
+
+export const tfidfVectorizer: Vectorizer = {
+  id: 'tfidf',
+  label: 'TF-IDF local (sumário e descritores)',
+  async vectorize(acordaos) {
+    const docs = acordaos.map(featureCounts);
+    const df = new Map<string, number>();
+    docs.forEach(doc => doc.forEach((_, feature) => df.set(feature, (df.get(feature) || 0) + 1)));
+    const n = docs.length;
+    return docs.map(doc => {
+      const vector: SparseVector = new Map();
+      doc.forEach((tf, feature) => {
+        const idf = Math.log((1 + n) / (1 + (df.get(feature) || 0))) + 1;
+        vector.set(feature, (1 + Math.log(tf)) * idf);
+      });
+      return normalize(vector);
+    });
+  },
+};
+
+/**
+ * Agrupamento aglomerativo (ligação média, atualização de Lance-Williams). Devolve grupos de índices.
+ * Cada grupo guarda o vizinho mais semelhante, recalculado só quando esse vizinho é fundido:
+ * cada fusão custa O(n) em vez de uma nova procura em toda a matriz (O(n²) no total, não O(n³)).
+ */
+export const agglomerate = (vectors: SparseVector[], threshold: number): number[][] => {
+  const n = vectors.length;
+  const sim = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const s = cosine(vectors[i], vectors[j]);
+      sim[i * n + j] = s;
+      sim[j * n + i] = s;
+    }
+  }
+  const members: (number[] | null)[] = vectors.map((_, i) => [i]);
+  const nearest = new Int32Array(n).fill(-1);
+  const nearestSim = new Float64Array(n).fill(-Infinity);
+
+  const findNearest = (i: number) => {
+    nearest[i] = -1;
+    nearestSim[i] = -Infinity;
+    for (let k = 0; k < n; k++) {
+      if (k !== i && members[k] && sim[i * n + k] > nearestSim[i]) { nearestSim[i] = sim[i * n + k]; nearest[i] = k; }
+    }
+  };
+  for (let i = 0; i < n; i++) findNearest(i);
+
+  while (true) {
+    let from = -1;
+    for (let i = 0; i < n; i++) {
+      if (members[i] && nearest[i] >= 0 && (from < 0 || nearestSim[i] > nearestSim[from])) from = i;
+    }
+    if (from < 0 || nearestSim[from] < threshold) break;
+    // O grupo resultante fica na posição mais baixa, para a ordem dos grupos seguir a dos acórdãos.
+    const bi = Math.min(from, nearest[from]), bj = Math.max(from, nearest[from]);
+
+    const ni = members[bi]!.length, nj = members[bj]!.length;
+    for (let k = 0; k < n; k++) {
+      if (!members[k] || k === bi || k === bj) continue;
+      const s = (ni * sim[bi * n + k] + nj * sim[bj * n + k]) / (ni + nj);
+      sim[bi * n + k] = s;
+      sim[k * n + bi] = s;
+    }
+    members[bi] = [...members[bi]!, ...members[bj]!];
+    members[bj] = null;
+
+    findNearest(bi);
+    for (let k = 0; k < n; k++) {
+      if (!members[k] || k === bi) continue;
+      if (nearest[k] === bi || nearest[k] === bj) findNearest(k);
+      else if (sim[k * n + bi] > nearestSim[k]) { nearestSim[k] = sim[k * n + bi]; nearest[k] = bi; }
+    }
+  }
+  return members.filter((m): m is number[] => m !== null);
+};
+
+const centroid = (vectors: SparseVector[]): SparseVector => {
+  const sum: SparseVector = new Map();
+  vectors.forEach(v => v.forEach((w, k) => sum.set(k, (sum.get(k) || 0) + w)));
+  return normalize(sum);
+};
+
+const countBy = (values: string[]): ProfileCount[] => {
+  const counts = new Map<string, number>();
+  values.filter(Boolean).forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
+
+interface LabelTerm {
+  term: string; // Grafia apresentada
+  descritor: boolean;
+}
+
+// Descritores (com a grafia original) e palavras do sumário com pelo menos 4 letras, por forma normalizada
+const labelFeatures = (acordao: Acordao): Map<string, LabelTerm> => {
+  const features = new Map<string, LabelTerm>();
+  splitWords(acordao.sumario).forEach(({ word }) => {
+    if (word.length >= 4 && toTerm(word)) features.set(normalizeText(word), { term: word.toLowerCase(), descritor: false });
+  });
+  acordao.descritores.map(d => d.trim()).filter(Boolean)
+    .forEach(d => features.set(normalizeDescritor(d), { term: d, descritor: true }));
+  return features;
+};
+
+/**
+ * Termos que distinguem o grupo do resto do conjunto: frequência no grupo × raridade no conjunto.
+ * Os descritores têm prioridade sobre as palavras soltas do sumário.
+ */
+const distinctiveTerms = (group: Map<string, LabelTerm>[], all: Map<string, LabelTerm>[]): string[] => {
+  const overall = new Map<string, number>();
+  all.forEach(f => f.forEach((_, key) => overall.set(key, (overall.get(key) || 0) + 1)));
+  const inGroup = new Map<string, LabelTerm & { count: number }>();
+  group.forEach(f => f.forEach((label, key) => {
+    const entry = inGroup.get(key) || { ...label, count: 0 };
+    entry.count++;
+    inGroup.set(key, entry);
+  }));
+  return Array.from(inGroup.entries())
+    .filter(([, { count }]) => count >= Math.min(2, group.length))
+    .map(([key, { term, descritor, count }]) => ({
+      term,
+      score: (count / group.length) * Math.log(1 + all.length / (overall.get(key) || 1)) * (descritor ? 2 : 1),
+    }))
+    .sort((a, b) => b.score - a.score)
+    // Palavras já contidas num termo escolhido (ex.: "causa" em "Justa causa") não acrescentam nada
+    .reduce((chosen: string[], { term }) => {
+      const key = normalizeText(term);
+      if (chosen.length < KEY_TERMS && !chosen.some(c => normalizeText(c).split(' ').includes(key))) chosen.push(term);
+      return chosen;
+    }, []);
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+export const termsLabel = (keyTerms: string[]): string =>
+  keyTerms.length > 0 ? capitalize(keyTerms.slice(0, 3).join(' · ')) : 'Grupo sem termos característicos';
+
+export interface ClusterOptions {
+  vectorizer?: Vectorizer;
+  threshold?: number;
+}
+
+/** Agrupa os acórdãos e rotula cada grupo pelos termos característicos. */
+export const buildThesisMap = async (
+  acordaos: Acordao[],
+  { vectorizer = tfidfVectorizer, threshold = DEFAULT_SIMILARITY_THRESHOLD }: ClusterOptions = {}
+): Promise<ThesisMap> => {
+  if (acordaos.length > MAX_CLUSTER_DOCUMENTS) {
+    throw new Error(`O mapa automático está limitado a ${MAX_CLUSTER_DOCUMENTS} acórdãos (o âmbito tem ${acordaos.length}). Escolha uma coleção ou pesquisa mais restrita.`);
+  }
+  const vectors = await vectorizer.vectorize(acordaos);
+  const groups = agglomerate(vectors, threshold);
+  const features = acordaos.map(labelFeatures);
+
+  const clusters: ThesisCluster[] = groups
+    .filter(g => g.length > 1)
+    .sort((a, b) => b.length - a.length)
+    .map((group, index) => {
+      const members = group.map(i => acordaos[i]);
+      const center = centroid(group.map(i => vectors[i]));
+      const keyTerms = distinctiveTerms(group.map(i => features[i]), features);
+      return {
+        id: `cluster_${index + 1}`,
+        acordaoIds: members.map(a => a.id),
+        keyTerms,
+        label: termsLabel(keyTerms),
+        labelSource: 'terms' as const,
+        cohesion: group.reduce((sum, i) => sum + cosine(vectors[i], center), 0) / group.length,
+        relatores: buildJudgeIndex(members)
+          .filter(j => j.asRelator.length > 0)
+          .map(j => ({ name: j.name, count: j.asRelator.length }))
+          .sort((x, y) => y.count - x.count),
+        tribunais: countBy(members.map(a => courtName(courtCodeOf(a)))),
+      };
+    });
+
+  return {
+    clusters,
+    isolated: groups.filter(g => g.length === 1).map(([i]) => acordaos[i].id),
+    vectorizer: vectorizer.label,
+    threshold,
+  };
+};
+
+export interface ClusterLabel {
+  grupo: number; // Número do grupo (1..n), pela ordem enviada ao modelo
+  titulo: string;
+  resumo: string;
+}
+
+/** Lê os rótulos devolvidos pelo modelo. Devolve null se o JSON não tiver a estrutura esperada. */
+export const parseClusterLabels = (raw: string): ClusterLabel[] | null => {
+  const data = parseModelJson(raw);
+  if (!isRecord(data) || !Array.isArray(data.grupos)) return null;
+  return data.grupos
+    .filter(isRecord)
+    .map(g => ({
+      grupo: Number(g.grupo),
+      titulo: typeof g.titulo === 'string' ? g.titulo.trim() : '',
+      resumo: typeof g.resumo === 'string' ? g.resumo.trim() : '',
+    }))
+    .filter(g => Number.isInteger(g.grupo) && g.titulo);
+};
+
+/** Substitui os rótulos por termos pelos do modelo; os grupos sem rótulo válido mantêm os termos. */
+export const applyClusterLabels = (map: ThesisMap, labels: ClusterLabel[]): ThesisMap => ({
+  ...map,
+  clusters: map.clusters.map((cluster, index) => {
+    const label = labels.find(l => l.grupo === index + 1);
+    return label ? { ...cluster, label: label.titulo, resumo: label.resumo || undefined, labelSource: 'model' as const } : cluster;
+  }),
+});
@@ -0,0 +1,93 @@
+import { Acordao, AnalysisScope, Collection, SavedSearch, SearchFilters } from '../types';
+import { StorageService } from './storageService';
+import { archiveIndex, ensureArchiveIndex } from './searchService';
+
+/**
+ * Coleções (dossiês), pesquisas guardadas e âmbito da análise: a pergunta corre sobre
+ * todo o arquivo, uma coleção, o resultado de uma pesquisa guardada ou uma seleção manual.
+ */
+
+const newId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const createCollection = (name: string, acordaoIds: string[] = []): Collection => {
+  const now = new Date().toISOString();
+  return { id: newId('collection'), name: name.trim() || 'Nova coleção', acordaoIds: Array.from(new Set(acordaoIds)), createdAt: now, updatedAt: now };
+};
+
+export const addToCollection = (collection: Collection, ids: string[]): Collection => ({
+  ...collection,
+  acordaoIds: Array.from(new Set([...collection.acordaoIds, ...ids])),
+  updatedAt: new Date().toISOString(),
+});
+
+export const removeFromCollection = (collection: Collection, ids: string[]): Collection => ({
+  ...collection,
+  acordaoIds: collection.acordaoIds.filter(id => !ids.includes(id)),
+  updatedAt: new Date().toISOString(),
+});
+
+export const createSavedSearch = (name: string, query: string, filters: SearchFilters): SavedSearch => ({
+  id: newId('search'),
+  name: name.trim() || query || 'Pesquisa guardada',
+  query,
+  filters,
+  createdAt: new Date().toISOString(),
+});
+
+/** "Responsabilidade médica, urgente ,  " -> ['Responsabilidade médica', 'urgente'] (sem repetidos). */
+export const parseTags = (input: string): string[] => {
+  const seen = new Set<string>();
+  return input.split(/[,;\n]/).map(t => t.trim()).filter(t => {
+    const key = t.toLowerCase();
+    if (!t || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const ALL_SCOPE: AnalysisScope = { kind: 'all' };
+
+/** Acórdãos abrangidos pelo âmbito. Uma coleção ou pesquisa que já não existe abrange zero acórdãos. */
+export const resolveScope = async (
+  scope: AnalysisScope,
+  acordaos: Acordao[],
+  collections: Collection[],
+  savedSearches: SavedSearch[]
+): Promise<Acordao[]> => {
+  if (scope.kind === 'all') return acordaos;
+  if (scope.kind === 'selection') return acordaos.filter(a => scope.acordaoIds.includes(a.id));
+  if (scope.kind === 'collection') {
+    const ids = new Set(collections.find(c => c.id === scope.id)?.acordaoIds || []);
+    return acordaos.filter(a => ids.has(a.id));
+  }
+  const search = savedSearches.find(s => s.id === scope.id);
+  if (!search) return [];
+  await ensureArchiveIndex();
+  const ids = new Set(archiveIndex.search(search.query, search.filters).hits.map(h => h.acordao.id));
+  return acordaos.filter(a => ids.has(a.id));
+};
+
+export const describeScope = (scope: AnalysisScope, collections: Collection[], savedSearches: SavedSearch[]): string => {
+  if (scope.kind === 'all') return 'Todo o arquivo';
+  if (scope.kind === 'selection') return `Seleção manual (${scope.acordaoIds.length})`;
+  if (scope.kind === 'collection') return `Coleção: ${collections.find(c => c.id === scope.id)?.name || '(apagada)'}`;
+  return `Pesquisa: ${savedSearches.find(s => s.id === scope.id)?.name || '(apagada)'}`;
+};
+
+/** A coleção com o acórdão previousId passa a referir acordaoId (a mesma coleção se não o contiver). */
+export const renameInCollection = (collection: Collection, previousId: string, acordaoId: string): Collection =>
+  collection.acordaoIds.includes(previousId)
+    ? { ...collection, acordaoIds: Array.from(new Set(collection.acordaoIds.map(id => id === previousId ? acordaoId : id))) }
+    : collection;
+
+/**
+ * Quando um acórdão muda de identificador (ex.: PROC:... passa a ECLI após correção), as coleções
+ * gravadas passam a referir o novo id. Devolve as coleções alteradas.
+ */
+export const renameInStoredCollections = async (previousId: string, acordaoId: string): Promise<Collection[]> => {
+  const changed = (await StorageService.listCollections())
+    .filter(c => c.acordaoIds.includes(previousId))
+    .map(c => renameInCollection(c, previousId, acordaoId));
+  await Promise.all(changed.map(c => StorageService.saveCollection(c)));
+  return changed;
+};
@@ -0,0 +1,50 @@
+import { Acordao, StructuredAnalysis } from '../types';
+import { normalizeText } from './textService';
+import { articleKey, provisionsOf } from './legislationService';
+
+/**
+ * Comparação lado a lado de 2 a 4 acórdãos: descritores e disposições legais em comum.
+ * "Partilhado" = presente em pelo menos dois dos acórdãos; "comum" = presente em todos.
+ */
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+export interface ComparisonSummary {
+  sharedDescritores: Set<string>; // normalizados (normalizeDescritor)
+  commonDescritores: string[];
+  sharedArticles: Set<string>; // articleKey
+  commonArticles: string[];
+}
+
+export const normalizeDescritor = (descritor: string): string => normalizeText(descritor).trim();
+
+const overlap = (sets: Set<string>[]) => {
+  const counts = new Map<string, number>();
+  sets.forEach(set => set.forEach(v => counts.set(v, (counts.get(v) || 0) + 1)));
+  const entries = Array.from(counts.entries());
+  return {
+    shared: new Set(entries.filter(([, n]) => n >= 2).map(([v]) => v)),
+    common: entries.filter(([, n]) => n === sets.length).map(([v]) => v),
+  };
+};
+
+export const compareAcordaos = (acordaos: Acordao[]): ComparisonSummary => {
+  const descritores = overlap(acordaos.map(a => new Set(a.descritores.map(normalizeDescritor))));
+  const articles = overlap(acordaos.map(a => new Set(provisionsOf(a).map(articleKey))));
+  // Os descritores em comum são mostrados com a grafia do primeiro acórdão.
+  const spelling = new Map(acordaos.flatMap(a => a.descritores.map(d => [normalizeDescritor(d), d] as [string, string])).reverse());
+  return {
+    sharedDescritores: descritores.shared,
+    commonDescritores: descritores.common.map(d => spelling.get(d) || d),
+    sharedArticles: articles.shared,
+    commonArticles: articles.common,
+  };
+};
+
+/** Acórdãos a comparar a partir de uma análise: o primeiro acórdão verificado de cada posição. */
+export const divergingAcordaoIds = (analysis: StructuredAnalysis): string[] =>
+  Array.from(new Set(analysis.posicoes.flatMap(p => {
+    const first = p.citacoes.find(c => (c.status === 'verified' || c.status === 'outside-context') && c.acordaoId);
+    return first?.acordaoId ? [first.acordaoId] : [];
+  }))).slice(0, MAX_COMPARE);
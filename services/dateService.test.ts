@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { compareByDateDesc, isWithinRange, parseDate } from './dateService';
+
+describe('parseDate', () => {
+  it('aceita dd-mm-aaaa, dd/mm/aaaa, aaaa-mm-dd e a data por extenso', () => {
+    expect(parseDate('27-01-2022')).toBe('2022-01-27');
+    expect(parseDate('27/01/2022')).toBe('2022-01-27');
+    expect(parseDate('2022-01-27')).toBe('2022-01-27');
+    expect(parseDate('Lisboa, 3 de Março de 2020')).toBe('2020-03-03');
+    expect(parseDate('1.º de janeiro de 2021')).toBe('2021-01-01');
+  });
+
+  it('rejeita datas impossíveis em vez de as corrigir', () => {
+    expect(parseDate('31/02/2022')).toBeNull();
+    expect(parseDate('29-02-2023')).toBeNull();
+    expect(parseDate('29-02-2024')).toBe('2024-02-29');
+    expect(parseDate('12/13/2020')).toBeNull();
+    expect(parseDate('32 de maio de 2020')).toBeNull();
+  });
+
+  it('devolve null para valores sem data', () => {
+    expect(parseDate('')).toBeNull();
+    expect(parseDate('Desconhecida')).toBeNull();
+  });
+});
+
+describe('compareByDateDesc', () => {
+  it('ordena da mais recente para a mais antiga, com os registos sem data no fim', () => {
+    const records = [
+      { data: 'Desconhecida' },
+      { data: '12/03/2020' },
+      { data: '2021-06-01', dataIso: '2021-06-01' },
+      { data: '5 de maio de 2019' },
+    ];
+    expect([...records].sort(compareByDateDesc).map(r => r.data)).toEqual(['2021-06-01', '12/03/2020', '5 de maio de 2019', 'Desconhecida']);
+  });
+});
+
+describe('isWithinRange', () => {
+  it('exclui os registos sem data quando há intervalo', () => {
+    expect(isWithinRange({ data: '12/03/2020' }, { from: '2020-01-01', to: '2020-12-31' })).toBe(true);
+    expect(isWithinRange({ data: '12/03/2020' }, { from: '2021-01-01' })).toBe(false);
+    expect(isWithinRange({ data: 'Desconhecida' }, {})).toBe(true);
+    expect(isWithinRange({ data: 'Desconhecida' }, { to: '2020-12-31' })).toBe(false);
+  });
+});
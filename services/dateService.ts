@@ -0,0 +1,76 @@
+import { Acordao } from '../types';
+import { normalizeText } from './textService';
+
+/**
+ * Normalização das datas dos acórdãos. O texto original fica em `data`; a forma ISO (AAAA-MM-DD)
+ * em `dataIso`, para ordenar, filtrar e agrupar cronologicamente.
+ */
+
+const MONTHS: Record<string, number> = {
+  janeiro: 1, fevereiro: 2, marco: 3, abril: 4, maio: 5, junho: 6,
+  julho: 7, agosto: 8, setembro: 9, outubro: 10, novembro: 11, dezembro: 12,
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toIso = (year: number, month: number, day: number): string | null => {
+  if (month < 1 || month > 12 || day < 1 || day > 31 || year < 1900 || year > 2100) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejeita datas impossíveis como 31-02-2022 (que o Date "corrige" para março).
+  if (date.getUTCMonth() !== month - 1) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/** Converte "27-01-2022", "27/01/2022", "2022-01-27" ou "27 de janeiro de 2022" para ISO. */
+export const parseDate = (raw: string): string | null => {
+  if (!raw) return null;
+  const text = normalizeText(raw);
+
+  const iso = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (iso) return toIso(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const numeric = text.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})\b/);
+  if (numeric) return toIso(Number(numeric[3]), Number(numeric[2]), Number(numeric[1]));
+
+  const written = text.match(/\b(\d{1,2})(?:\.?[ºo°])?\s+de\s+([a-z]+)\s+de\s+(\d{4})\b/);
+  if (written && MONTHS[written[2]]) return toIso(Number(written[3]), MONTHS[written[2]], Number(written[1]));
+
+  return null;
+};
+
+/** Data ISO de um acórdão (calculada no momento para registos antigos sem `dataIso`). */
+export const acordaoDate = (acordao: Pick<Acordao, 'data' | 'dataIso'>): string | null =>
+  acordao.dataIso || parseDate(acordao.data);
+
+export const acordaoYear = (acordao: Pick<Acordao, 'data' | 'dataIso'>): string | null =>
+  acordaoDate(acordao)?.slice(0, 4) || acordao.data.match(/\b(19|20)\d{2}\b/)?.[0] || null;
+
+/** dd/mm/aaaa, a forma usual nas citações. */
+export const formatDate = (iso: string): string => {
+  const [year, month, day] = iso.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+const MONTH_NAMES = Object.keys(MONTHS).map(m => m === 'marco' ? 'março' : m);
+
+/** "27 de janeiro de 2022" */
+export const formatDateLong = (iso: string): string => {
+  const [year, month, day] = iso.split('-').map(Number);
+  return `${day} de ${MONTH_NAMES[month - 1]} de ${year}`;
+};
+
+export interface DateRange {
+  from?: string; // ISO, inclusive
+  to?: string;   // ISO, inclusive
+}
+
+/** Se um intervalo estiver definido, acórdãos sem data reconhecível ficam de fora. */
+export const isWithinRange = (acordao: Pick<Acordao, 'data' | 'dataIso'>, range: DateRange): boolean => {
+  if (!range.from && !range.to) return true;
+  const date = acordaoDate(acordao);
+  if (!date) return false;
+  return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+};
+
+export const compareByDateDesc = (a: Pick<Acordao, 'data' | 'dataIso'>, b: Pick<Acordao, 'data' | 'dataIso'>): number =>
+  (acordaoDate(b) || '').localeCompare(acordaoDate(a) || '');
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { assertSameDecision, canonicalAcordaoId, findEcli, mergeAcordao, normalizeEcli, parseEcli } from './ecliService';
+
+describe('canonicalAcordaoId', () => {
+  it('prefere o ECLI, depois o processo', () => {
+    expect(canonicalAcordaoId({ ecli: 'ecli:pt:stj:2020:1234.18.5t8lsb.l1.s1', processo: '1/20' })).toBe('ECLI:PT:STJ:2020:1234.18.5T8LSB.L1.S1');
+    expect(canonicalAcordaoId({ ecli: 'Desconhecido', processo: '1234/18.5t8lsb' })).toBe('PROC:1234/18.5T8LSB');
+  });
+
+  it('sem ECLI nem processo, mantém o identificador temporário já atribuído', () => {
+    const id = canonicalAcordaoId({ ecli: 'Desconhecido', processo: 'Desconhecido' });
+    expect(id).toMatch(/^proc_desconhecido_\d+$/);
+    expect(canonicalAcordaoId({ id, ecli: 'Desconhecido', processo: 'Desconhecido' })).toBe(id);
+    expect(canonicalAcordaoId({ id, ecli: 'Desconhecido', processo: '1/20' })).toBe('PROC:1/20');
+  });
+});
+
+describe('parseEcli', () => {
+  it('aceita as formas codificadas da URL e o ponto final da frase', () => {
+    expect(parseEcli('ECLI%3APT%3ASTJ%3A2020%3A1234.18.5T8LSB.L1.S1')?.ecli).toBe('ECLI:PT:STJ:2020:1234.18.5T8LSB.L1.S1');
+    expect(parseEcli('ecli_pt_trl_2021_4567.19.0t8lsb.l1.7')?.ecli).toBe('ECLI:PT:TRL:2021:4567.19.0T8LSB.L1.7');
+    expect(parseEcli('ECLI:PT:STJ:2020:1234.18.5T8LSB.L1.S1.')?.court).toBe('STJ');
+  });
+
+  it('rejeita um valor com lixo no fim em vez de o cortar', () => {
+    expect(normalizeEcli('ECLI:PT:STJ:2020:1234.18.5T8LSB.L1.S1/extra')).toBe('ECLI:PT:STJ:2020:1234.18.5T8LSB.L1.S1/EXTRA');
+    expect(parseEcli('ECLI:PT:STJ:2020:1234.18.5T8LSB.L1.S1/extra')).toBeNull();
+    expect(parseEcli('ECLI:PT:STJ:2020:1234.18?x=1')).toBeNull();
+  });
+});
+
+describe('findEcli', () => {
+  it('encontra o ECLI numa URL ou no meio do texto', () => {
+    expect(findEcli('https://jurisprudencia.csm.org.pt/ecli/ECLI:PT:TRL:2021:4567.19.0T8LSB.L1.7/')).toBe('ECLI:PT:TRL:2021:4567.19.0T8LSB.L1.7');
+    expect(findEcli('(ECLI:PT:STJ:2020:1234.18.5T8LSB.L1.S1).')).toBe('ECLI:PT:STJ:2020:1234.18.5T8LSB.L1.S1');
+  });
+
+  it('não trunca um número de ordem demasiado comprido', () => {
+    expect(findEcli(`ECLI:PT:STJ:2020:${'1'.repeat(25)}`)).toBe(`ECLI:PT:STJ:2020:${'1'.repeat(25)}`);
+    expect(findEcli(`ECLI:PT:STJ:2020:${'1'.repeat(26)}`)).toBeNull();
+  });
+});
+
+describe('mergeAcordao', () => {
+  const stored = {
+    id: 'PROC:1/20', ecli: 'Desconhecido', processo: '1/20', data: '01-01-2020', relator: 'A', descritores: ['X'],
+    sumario: 'corrigido', textoIntegral: 't', adjuntos: [], url: '', editedFields: ['sumario' as const],
+  };
+
+  it('mantém os campos corrigidos e os valores guardados quando os novos estão vazios', () => {
+    const merged = mergeAcordao(stored, { ...stored, ecli: 'ECLI:PT:STJ:2020:1.20', relator: 'Desconhecido', sumario: 'parse', editedFields: undefined });
+    expect(merged).toMatchObject({ id: 'ECLI:PT:STJ:2020:1.20', relator: 'A', sumario: 'corrigido', editedFields: ['sumario'] });
+  });
+});
+
+describe('assertSameDecision', () => {
+  const stored = { id: 'ECLI:PT:STJ:2019:123.15.0T8LSB.L1.S1', processo: '123/15.0T8LSB.L1.S1' };
+
+  it('recusa fundir um acórdão de outro processo encontrado pelo ECLI', () => {
+    expect(() => assertSameDecision(stored, { ecli: stored.id, processo: '999/19.0T8PRT.P1.S1' })).toThrow(/Fusão recusada/);
+  });
+
+  it('aceita o mesmo processo escrito de outra forma, um processo desconhecido ou corrigido à mão', () => {
+    expect(() => assertSameDecision(stored, { processo: '123/15.0t8lsb.l1.s1 ' })).not.toThrow();
+    expect(() => assertSameDecision(stored, { processo: 'Desconhecido' })).not.toThrow();
+    expect(() => assertSameDecision(stored, { processo: '124/15.0T8LSB.L1.S1', editedFields: ['processo'] })).not.toThrow();
+  });
+});
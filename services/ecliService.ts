@@ -0,0 +1,141 @@
+import { Acordao } from '../types';
+
+/**
+ * ECLI (European Case Law Identifier) para Portugal: ECLI:PT:<tribunal>:<ano>:<número de ordem>.
+ * Validação, decomposição, nomes dos tribunais e identidade canónica dos acórdãos no arquivo.
+ */
+
+export interface EcliParts {
+  ecli: string;
+  country: string;
+  court: string;
+  year: number;
+  ordinal: string;
+}
+
+export const COURTS: Record<string, string> = {
+  STJ: 'Supremo Tribunal de Justiça',
+  STA: 'Supremo Tribunal Administrativo',
+  TC: 'Tribunal Constitucional',
+  TRL: 'Tribunal da Relação de Lisboa',
+  TRP: 'Tribunal da Relação do Porto',
+  TRC: 'Tribunal da Relação de Coimbra',
+  TRG: 'Tribunal da Relação de Guimarães',
+  TRE: 'Tribunal da Relação de Évora',
+  TCAS: 'Tribunal Central Administrativo Sul',
+  TCAN: 'Tribunal Central Administrativo Norte',
+  TCONF: 'Tribunal dos Conflitos',
+};
+
+// O número de ordem tem no máximo 25 caracteres: letras, dígitos e pontos. No texto, um número de
+// ordem mais comprido não é reconhecido (em vez de ser truncado aos 25 caracteres).
+const ECLI_PATTERN = /^ECLI:PT:([A-Z0-9]{1,7}):(\d{4}):([A-Z0-9.]{1,25})$/;
+const ECLI_IN_TEXT = /ECLI(?::|%3A|_)PT(?::|%3A|_)[A-Z0-9]{1,7}(?::|%3A|_)\d{4}(?::|%3A|_)[A-Z0-9.]{1,25}(?![A-Z0-9.])/i;
+
+/**
+ * Forma canónica de um ECLI: descodifica a versão da URL ("ECLI%3APT%3A..." ou "ECLI_PT_..."),
+ * remove espaços e prefixos repetidos e passa a maiúsculas. Não valida nem corta o que vier a
+ * seguir (ex.: "/", "?"): um valor com lixo no fim é rejeitado por parseEcli.
+ */
+export const normalizeEcli = (raw: string): string => {
+  let value = raw.trim();
+  try {
+    value = decodeURIComponent(value);
+  } catch {
+    // Sequência % inválida: usa-se o valor tal como está.
+  }
+  value = value.replace(/^ECLI:\s*(?=ECLI)/i, '').replace(/\s+/g, '');
+  if (/^ECLI_PT_/i.test(value)) value = value.replace(/_/g, ':');
+  return value.toUpperCase().replace(/\.$/, '');
+};
+
+export const parseEcli = (raw: string): EcliParts | null => {
+  const ecli = normalizeEcli(raw);
+  const match = ecli.match(ECLI_PATTERN);
+  if (!match) return null;
+  return { ecli, country: 'PT', court: match[1], year: Number(match[2]), ordinal: match[3] };
+};
+
+export const isValidEcli = (raw: string): boolean => parseEcli(raw) !== null;
+
+/** Procura um ECLI numa URL ou texto (incluindo a forma codificada da URL). */
+export const findEcli = (text: string): string | null => {
+  const match = text.match(ECLI_IN_TEXT);
+  return match ? parseEcli(match[0])?.ecli || null : null;
+};
+
+export const courtName = (code: string): string => COURTS[code.toUpperCase()] || code;
+
+/** Código do tribunal: do ECLI, ou do campo `tribunal` preenchido pelo parser (ex.: base do DGSI). */
+export const courtCodeOf = (acordao: Pick<Acordao, 'ecli' | 'tribunal'>): string =>
+  parseEcli(acordao.ecli)?.court || acordao.tribunal || 'Desconhecido';
+
+export const normalizeProcesso = (processo: string): string =>
+  processo.replace(/\s+/g, '').toUpperCase();
+
+const hasProcesso = (processo?: string) => !!processo && processo !== 'Desconhecido';
+
+const UNKNOWN_ID_PREFIX = 'proc_desconhecido_';
+
+/**
+ * Identidade canónica: o ECLI, quando válido; senão o número do processo.
+ * Só na falta de ambos se gera um identificador temporário, que o registo mantém daí em diante
+ * (um registo já gravado com esse identificador não recebe outro ao ser reprocessado).
+ */
+export const canonicalAcordaoId = (data: Partial<Acordao>): string => {
+  const parsed = data.ecli ? parseEcli(data.ecli) : null;
+  if (parsed) return parsed.ecli;
+  if (hasProcesso(data.processo)) return `PROC:${normalizeProcesso(data.processo!)}`;
+  return data.id?.startsWith(UNKNOWN_ID_PREFIX) ? data.id : `${UNKNOWN_ID_PREFIX}${Date.now()}`;
+};
+
+/** Chaves pelas quais um acórdão já guardado é reconhecido numa nova importação. */
+export const identityKeys = (data: Partial<Acordao>): string[] => {
+  const keys: string[] = [];
+  const parsed = data.ecli ? parseEcli(data.ecli) : null;
+  if (parsed) keys.push(`ECLI:${parsed.ecli}`);
+  if (hasProcesso(data.processo)) keys.push(`PROC:${normalizeProcesso(data.processo!)}`);
+  return keys;
+};
+
+/**
+ * Garante que o registo encontrado por uma das chaves de identidade é a mesma decisão: um ECLI
+ * errado (ex.: o de um acórdão citado) não pode fundir duas decisões com processos diferentes.
+ * Um processo corrigido à mão no novo registo é aceite.
+ */
+export const assertSameDecision = (existing: Partial<Acordao>, incoming: Partial<Acordao>): void => {
+  if (!hasProcesso(existing.processo) || !hasProcesso(incoming.processo)) return;
+  if (incoming.editedFields?.includes('processo')) return;
+  if (normalizeProcesso(existing.processo!) === normalizeProcesso(incoming.processo!)) return;
+  throw new Error(
+    `Fusão recusada: o registo ${existing.id} tem o processo ${existing.processo}, mas o acórdão importado é do processo ${incoming.processo}. Verifique o ECLI.`
+  );
+};
+
+const copyField = <K extends keyof Acordao>(target: Acordao, source: Acordao, key: K) => {
+  target[key] = source[key];
+};
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' ||
+  value === 'Desconhecido' || value === 'Desconhecida' ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Funde uma nova importação com o registo existente: os valores novos prevalecem,
+ * exceto quando vazios ou por defeito ('Desconhecido'), caso em que se mantém o guardado.
+ * Campos corrigidos manualmente no registo guardado não são substituídos por um novo parse.
+ */
+export const mergeAcordao = (existing: Acordao, incoming: Acordao): Acordao => {
+  const merged: Acordao = { ...existing };
+  const keptEdits = new Set<string>(existing.editedFields || []);
+  const newEdits = new Set<string>(incoming.editedFields || []);
+  (Object.keys(incoming) as (keyof Acordao)[]).forEach(key => {
+    if (newEdits.has(key)) copyField(merged, incoming, key);
+    else if (!keptEdits.has(key) && !isEmptyValue(incoming[key])) copyField(merged, incoming, key);
+  });
+  const editedFields = Array.from(new Set([...(existing.editedFields || []), ...(incoming.editedFields || [])]));
+  if (editedFields.length > 0) merged.editedFields = editedFields;
+  merged.id = canonicalAcordaoId(merged);
+  return merged;
+};
@@ -1,80 +1,309 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { Acordao, ChatMessage } from "../types";
+import { Type } from "@google/genai";
+import { Acordao, AnalysisResult, ChatMessage, ThesisMap } from "../types";
+import { formatContext, RetrievalOptions, selectContext } from "./retrievalService";
+import { analysisToMarkdown, MAX_CITATIONS_PER_POSITION, parseStructuredAnalysis, verifyCitations } from "./analysisService";
+import { isAbortError, ModelClient, streamCompletion, StreamOptions } from "./modelClient";
+import { createModelClient, loadModelSettings } from "./providerService";
+import { applyClusterLabels, parseClusterLabels } from "./clusteringService";
+import { normalizeDescritores, parseDescritorSuggestions, VocabularyIndex } from "./vocabularyService";
 
-// Always initialize GoogleGenAI with { apiKey: process.env.API_KEY } directly.
-// The model 'gemini-3-pro-preview' is used for complex jurisprudence analysis.
+// The model call goes through ModelClient, created by the provider chosen in the settings panel
+// (Gemini, OpenAI-compatible endpoint or mock), streamed and retried on transient errors.
+
+// JSON schema the model must follow, so positions and citations can be verified and rendered.
+const analysisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    introducao: { type: Type.STRING },
+    posicoes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          titulo: { type: Type.STRING },
+          resumo: { type: Type.STRING },
+          argumentos: { type: Type.ARRAY, items: { type: Type.STRING } },
+          acordaos: {
+            type: Type.ARRAY,
+            maxItems: String(MAX_CITATIONS_PER_POSITION),
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING },
+                processo: { type: Type.STRING },
+                data: { type: Type.STRING },
+                ecli: { type: Type.STRING },
+              },
+              required: ['id', 'processo', 'data'],
+            },
+          },
+        },
+        required: ['titulo', 'resumo', 'argumentos', 'acordaos'],
+      },
+    },
+    divergencia: { type: Type.STRING },
+    conclusao: { type: Type.STRING },
+  },
+  required: ['introducao', 'posicoes', 'divergencia', 'conclusao'],
+};
+
+export interface AnalyzeOptions extends RetrievalOptions, Omit<StreamOptions, 'retries' | 'baseDelayMs'> {
+  client?: ModelClient;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
 
 export const analyzeJurisprudence = async (
   question: string,
   history: ChatMessage[],
-  acordaos: Acordao[]
-): Promise<string> => {
-  // CRITICAL: Must use process.env.API_KEY directly in the named parameter.
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  // Context preparation: Only send metadata and summaries if the text is too long
-  // We limit the full text part to avoid token overflow while maintaining depth.
-  const context = acordaos.map(a => `
-DOCUMENTO:
-ECLI: ${a.ecli}
-Processo: ${a.processo}
-Data: ${a.data}
-Relator: ${a.relator}
-Descritores: ${a.descritores.join(', ')}
-URL: ${a.url}
-SUMÁRIO: ${a.sumario}
-TEXTO INTEGRAL: ${a.textoIntegral.substring(0, 15000)}
----
-`).join('\n\n');
+  acordaos: Acordao[],
+  { client, temperature, maxOutputTokens, signal, onText, onRetry, ...retrieval }: AnalyzeOptions = {}
+): Promise<AnalysisResult> => {
+  // Context preparation: only the passages most relevant to the question are sent,
+  // selected locally (BM25) within the configured token budget.
+  const { chunks, report } = selectContext(question, acordaos, retrieval);
+  const context = formatContext(chunks);
 
   const systemInstruction = `
 Você é um assistente jurídico especializado em jurisprudência portuguesa.
 Sua tarefa é analisar o conjunto de acórdãos fornecido no contexto e responder à pergunta do utilizador de forma estruturada.
+O contexto contém apenas os excertos mais relevantes de cada acórdão (sumário, relatório, fundamentação ou decisão), não o texto integral.
+Alguns documentos trazem "NOTAS DO UTILIZADOR" (passagens sublinhadas e comentários do investigador): tenha-as em conta na análise, mas nunca as atribua ao tribunal.
 
 REGRAS DE RESPOSTA:
 1. Identifique as diferentes posições (teses) jurisprudenciais ou doutrinárias sobre o assunto.
 2. Para cada posição encontrada:
-   - Explique os argumentos utilizados.
-   - Identifique os acórdãos que seguem essa posição (máximo de 12).
-   - A identificação dos acórdãos DEVE ser feita no formato: "[Número do Processo] de [Data]" (Exemplo: 167/15.9T9GRD.C1.S1 de 27/01/2022).
-   - Inclua o link (URL) do acórdão como um link Markdown.
-3. Se houver divergência, explique o núcleo central da discórdia.
+   - Resuma a tese e explique os argumentos utilizados.
+   - Identifique os acórdãos que seguem essa posição (máximo de ${MAX_CITATIONS_PER_POSITION}).
+   - Cada acórdão DEVE ser identificado pelo "ID", "Processo", "Data" e "ECLI" exatamente como constam no contexto.
+   - Cite APENAS acórdãos presentes no contexto. Nunca invente processos ou ECLIs.
+3. Se houver divergência, explique o núcleo central da discórdia no campo "divergencia" (vazio se não houver).
 4. Utilize uma linguagem jurídica formal e precisa (Português de Portugal).
-5. Se a informação não estiver nos documentos fornecidos, indique claramente.
+5. Se a informação não estiver nos documentos fornecidos, indique-o claramente na "introducao" e devolva "posicoes" vazio.
 
-ESTRUTURA DA RESPOSTA:
-- Introdução breve sobre a discussão.
-- Lista numerada de Posições (1. Posição X, 2. Posição Y...).
-- Conclusão sobre a divergência.
+FORMATO: responda exclusivamente em JSON, com "introducao", "posicoes" (titulo, resumo, argumentos, acordaos), "divergencia" e "conclusao".
 `;
 
   try {
     // Construct valid message history with strictly alternating roles.
     const contents = [
-      ...history.map(msg => ({ 
-        role: (msg.role === 'user' ? 'user' : 'model') as 'user' | 'model', 
-        parts: [{ text: msg.content }] 
+      ...history.map(msg => ({
+        role: (msg.role === 'user' ? 'user' : 'model') as 'user' | 'model',
+        text: msg.content
       })),
-      { 
-        role: 'user' as const, 
-        parts: [{ text: `CONTEXTO DE JURISPRUDÊNCIA:\n${context}\n\nPERGUNTA: ${question}` }] 
+      {
+        role: 'user' as const,
+        text: `CONTEXTO DE JURISPRUDÊNCIA:\n${context}\n\nPERGUNTA: ${question}`
       }
     ];
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
+    const settings = loadModelSettings();
+    const raw = await streamCompletion(client || createModelClient(settings), {
+      systemInstruction,
       contents,
-      config: {
-        systemInstruction,
-        temperature: 0.1, // Precision and consistency are required for legal tasks.
+      temperature: temperature ?? settings.temperature,
+      maxOutputTokens: maxOutputTokens ?? settings.maxOutputTokens,
+      responseSchema: analysisSchema,
+    }, { signal, onText, onRetry });
+    const parsed = parseStructuredAnalysis(raw);
+    if (!parsed) {
+      return { text: raw || "Não foi possível gerar uma resposta.", context: report };
+    }
+
+    const contextRecords = acordaos.filter(a => report.acordaoIds.includes(a.id));
+    const analysis = verifyCitations(parsed, contextRecords, acordaos);
+    return { text: analysisToMarkdown(analysis, acordaos), context: report, analysis };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Model Error:", error);
+    throw new Error("Erro na análise da IA: " + (error as Error).message);
+  }
+};
+
+/**
+ * Pergunta dirigida ao motor de análise: qual o ponto de divergência entre exatamente estes acórdãos.
+ * O contexto inclui apenas os acórdãos indicados, com os excertos mais próximos dos respetivos sumários.
+ */
+export const explainDisagreement = async (
+  acordaos: Acordao[],
+  { client, temperature, maxOutputTokens, signal, onText, onRetry, ...retrieval }: AnalyzeOptions = {}
+): Promise<AnalysisResult> => {
+  const probe = acordaos.map(a => [a.sumario, a.descritores.join(' ')].join(' ')).join('\n');
+  const { chunks, report } = selectContext(probe, acordaos, { maxChunksPerAcordao: 6, ...retrieval });
+  const ids = acordaos.map(a => `- ${a.processo} (${a.data}), ID ${a.id}`).join('\n');
+
+  const systemInstruction = `
+Você é um assistente jurídico especializado em jurisprudência portuguesa.
+Compare APENAS os acórdãos indicados e identifique com precisão o ponto de divergência entre eles.
+
+REGRAS DE RESPOSTA:
+1. Comece por uma frase que enuncie a questão jurídica comum.
+2. Indique, para cada acórdão (pelo número do processo e data), a solução adotada e o fundamento decisivo.
+3. Identifique o ponto exato de divergência: interpretação de norma, apreciação de facto, ou enquadramento diferente.
+4. Se os acórdãos não divergirem verdadeiramente (ex.: factos diferentes), diga-o e explique porquê.
+5. Use apenas o contexto fornecido; não cite outros acórdãos. Português de Portugal, linguagem jurídica formal.
+`;
+
+  try {
+    const settings = loadModelSettings();
+    const text = await streamCompletion(client || createModelClient(settings), {
+      systemInstruction,
+      contents: [{
+        role: 'user',
+        text: `ACÓRDÃOS A COMPARAR:\n${ids}\n\nCONTEXTO:\n${formatContext(chunks)}\n\nPERGUNTA: Qual o ponto de divergência entre estes acórdãos?`,
+      }],
+      temperature: temperature ?? settings.temperature,
+      maxOutputTokens: maxOutputTokens ?? settings.maxOutputTokens,
+    }, { signal, onText, onRetry });
+    return { text: text.trim() || "Não foi possível gerar uma resposta.", context: report };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Model Error:", error);
+    throw new Error("Erro na análise da IA: " + (error as Error).message);
+  }
+};
+
+const clusterLabelSchema = {
+  type: Type.OBJECT,
+  properties: {
+    grupos: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          grupo: { type: Type.INTEGER },
+          titulo: { type: Type.STRING },
+          resumo: { type: Type.STRING },
+        },
+        required: ['grupo', 'titulo', 'resumo'],
       },
+    },
+  },
+  required: ['grupos'],
+};
+
+const LABEL_SAMPLES_PER_CLUSTER = 5;
+const LABEL_SUMARIO_CHARS = 600;
+
+/**
+ * Rótulos do mapa automático de teses: o modelo recebe, por grupo, os termos característicos
+ * e alguns sumários, e enuncia a posição comum. Se a resposta não for JSON válido,
+ * o mapa é devolvido com os rótulos por termos.
+ */
+export const labelThesisClusters = async (
+  map: ThesisMap,
+  acordaos: Acordao[],
+  { client, temperature, maxOutputTokens, signal, onText, onRetry }: AnalyzeOptions = {}
+): Promise<ThesisMap> => {
+  const byId = new Map(acordaos.map(a => [a.id, a]));
+  const groups = map.clusters.map((cluster, index) => {
+    const samples = cluster.acordaoIds.slice(0, LABEL_SAMPLES_PER_CLUSTER).flatMap(id => {
+      const a = byId.get(id);
+      return a ? [`- ${a.processo} (${a.data}): ${(a.sumario || a.descritores.join('; ')).slice(0, LABEL_SUMARIO_CHARS)}`] : [];
     });
+    return `GRUPO ${index + 1} (${cluster.acordaoIds.length} acórdãos; termos: ${cluster.keyTerms.join(', ')})\n${samples.join('\n')}`;
+  });
 
-    // Access the .text property directly as a string (not a method).
-    return response.text || "Não foi possível gerar uma resposta.";
+  const systemInstruction = `
+Você é um assistente jurídico especializado em jurisprudência portuguesa.
+Os acórdãos foram agrupados automaticamente pela semelhança dos sumários. Para cada grupo, enuncie a posição (tese) que os acórdãos do grupo partilham.
+
+REGRAS DE RESPOSTA:
+1. "titulo": a tese numa frase curta (máximo 15 palavras), na forma de uma proposição jurídica.
+2. "resumo": duas ou três frases com o fundamento comum.
+3. Se o grupo não partilhar uma tese (ex.: apenas o mesmo tema), diga-o no título.
+4. Use apenas os sumários fornecidos. Português de Portugal, linguagem jurídica formal.
+
+FORMATO: responda exclusivamente em JSON, com "grupos" (grupo, titulo, resumo), indicando o número de cada grupo.
+`;
+
+  try {
+    const settings = loadModelSettings();
+    const raw = await streamCompletion(client || createModelClient(settings), {
+      systemInstruction,
+      contents: [{ role: 'user', text: groups.join('\n\n') }],
+      temperature: temperature ?? settings.temperature,
+      maxOutputTokens: maxOutputTokens ?? settings.maxOutputTokens,
+      responseSchema: clusterLabelSchema,
+    }, { signal, onText, onRetry });
+    const labels = parseClusterLabels(raw);
+    return labels ? applyClusterLabels(map, labels) : map;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Model Error:", error);
+    throw new Error("Erro na análise da IA: " + (error as Error).message);
+  }
+};
+
+const descritorSuggestionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    sugestoes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          acordao: { type: Type.INTEGER },
+          descritores: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ['acordao', 'descritores'],
+      },
+    },
+  },
+  required: ['sugestoes'],
+};
+
+const SUGGESTION_VOCABULARY_SIZE = 300;
+const SUGGESTION_SUMARIO_CHARS = 1200;
+
+/**
+ * Descritores sugeridos pelo modelo para acórdãos sem descritores, a partir do sumário.
+ * O modelo recebe os descritores já usados no arquivo e deve preferi-los; as respostas são
+ * normalizadas pelo vocabulário. Devolve id do acórdão -> descritores sugeridos.
+ */
+export const suggestDescritoresWithModel = async (
+  acordaos: Acordao[],
+  knownDescritores: string[],
+  vocabulary: VocabularyIndex,
+  { client, temperature, maxOutputTokens, signal, onText, onRetry }: AnalyzeOptions = {}
+): Promise<Map<string, string[]>> => {
+  const documents = acordaos.map((a, index) =>
+    `ACÓRDÃO ${index + 1} (${a.processo})\n${(a.sumario || a.textoIntegral).slice(0, SUGGESTION_SUMARIO_CHARS)}`);
+
+  const systemInstruction = `
+Você é um documentalista jurídico especializado em jurisprudência portuguesa.
+Para cada acórdão, proponha de 2 a 5 descritores (conceitos jurídicos curtos, como nas bases de dados do DGSI) a partir do sumário.
+
+REGRAS DE RESPOSTA:
+1. Prefira sempre os descritores já usados no arquivo, escritos exatamente como constam da lista "DESCRITORES DO ARQUIVO".
+2. Só crie um descritor novo se nenhum dos existentes servir.
+3. Português de Portugal, sem frases: apenas o conceito (ex.: "Responsabilidade civil", "Dano moral").
+
+FORMATO: responda exclusivamente em JSON, com "sugestoes" (acordao, descritores), indicando o número de cada acórdão.
+`;
+
+  try {
+    const settings = loadModelSettings();
+    const raw = await streamCompletion(client || createModelClient(settings), {
+      systemInstruction,
+      contents: [{
+        role: 'user',
+        text: `DESCRITORES DO ARQUIVO: ${knownDescritores.slice(0, SUGGESTION_VOCABULARY_SIZE).join('; ')}\n\n${documents.join('\n\n')}`,
+      }],
+      temperature: temperature ?? settings.temperature,
+      maxOutputTokens: maxOutputTokens ?? settings.maxOutputTokens,
+      responseSchema: descritorSuggestionSchema,
+    }, { signal, onText, onRetry });
+    const suggestions = new Map<string, string[]>();
+    (parseDescritorSuggestions(raw) || []).forEach(s => {
+      const acordao = acordaos[s.acordao - 1];
+      if (acordao) suggestions.set(acordao.id, normalizeDescritores(s.descritores, vocabulary));
+    });
+    return suggestions;
   } catch (error) {
-    console.error("Gemini Error:", error);
+    if (isAbortError(error)) throw error;
+    console.error("Model Error:", error);
     throw new Error("Erro na análise da IA: " + (error as Error).message);
   }
 };
@@ -0,0 +1,136 @@
+import { Acordao, ExtractionResult, ImportFileReport } from '../types';
+import { parseAcordao } from './parserService';
+import { assertSameDecision, canonicalAcordaoId } from './ecliService';
+import { StorageService } from './storageService';
+import { snapshotParse } from './reviewService';
+import { loadVocabularyIndex, normalizeDescritores, VocabularyIndex } from './vocabularyService';
+
+/**
+ * Importação em lote: ficheiros TXT/HTML (incluindo texto extraído de PDF) escolhidos numa pasta
+ * ou arrastados para a janela, e reprocessamento de todos os textos brutos já guardados.
+ */
+
+export interface ImportSource {
+  name: string;
+  content: string;
+  url?: string;
+}
+
+export interface ImportOptions {
+  // 'import' ignora acórdãos já existentes; 'reparse' volta a processá-los e funde o resultado.
+  mode: 'import' | 'reparse';
+  onProgress?: (report: ImportFileReport, index: number, total: number) => void;
+}
+
+export const IMPORT_EXTENSIONS = ['.txt', '.html', '.htm'];
+
+const isImportable = (name: string) => IMPORT_EXTENSIONS.some(ext => name.toLowerCase().endsWith(ext));
+
+/** Os ficheiros gravados a partir do browser costumam conter a URL de origem algures no texto. */
+const findSourceUrl = (content: string): string =>
+  content.match(/https?:\/\/(?:www\.)?(?:dgsi\.pt|jurisprudencia\.csm\.org\.pt)[^\s"'<>]*/i)?.[0] || '';
+
+/** Nome de ficheiro limpo baseado no processo (o mesmo critério da janela de captura). */
+export const rawFileNameFor = (data: Partial<Acordao>, fallback: string): string => {
+  const processo = data.processo && data.processo !== 'Desconhecido' ? data.processo : '';
+  return processo.replace(/[/\\?%*:|"<>]/g, '_').replace(/\s+/g, '') || fallback;
+};
+
+/**
+ * Completa o resultado do parser com os valores por defeito de um Acordao gravável.
+ * Os descritores passam à forma preferida do vocabulário (os da fonte ficam em originalParse).
+ */
+export const buildAcordaoRecord = (
+  result: ExtractionResult,
+  rawContent: string,
+  url: string,
+  fileName: string,
+  vocabulary: VocabularyIndex = new Map()
+): Acordao => {
+  const data = result.data || {};
+  return {
+    ...data,
+    id: data.id || canonicalAcordaoId(data),
+    ecli: data.ecli || 'Desconhecido',
+    relator: data.relator || 'Desconhecido',
+    descritores: normalizeDescritores(data.descritores || [], vocabulary),
+    processo: data.processo || 'Desconhecido',
+    data: data.data || 'Desconhecida',
+    sumario: data.sumario || '',
+    textoIntegral: data.textoIntegral || rawContent,
+    adjuntos: data.adjuntos || [],
+    url: url || data.url || '',
+    fileName,
+    originalParse: snapshotParse(result),
+  };
+};
+
+export const readImportFiles = async (files: FileList | File[]): Promise<ImportSource[]> => {
+  const sources: ImportSource[] = [];
+  for (const file of Array.from(files)) {
+    if (!isImportable(file.name)) continue;
+    sources.push({ name: file.webkitRelativePath || file.name, content: await file.text() });
+  }
+  return sources;
+};
+
+// Acórdãos do arquivo pelo nome do texto bruto de onde foram lidos (reprocessamento).
+type StoredByFile = Map<string, Acordao>;
+
+const importOne = async (
+  source: ImportSource,
+  mode: ImportOptions['mode'],
+  vocabulary: VocabularyIndex,
+  storedByFile: StoredByFile
+): Promise<ImportFileReport> => {
+  const url = source.url || findSourceUrl(source.content);
+  const result = parseAcordao(source.content, url);
+  if (!result.success || !result.data) {
+    return { name: source.name, status: 'error', message: result.error || 'Estrutura do acórdão não reconhecida' };
+  }
+
+  const { processo, ecli } = result.data;
+  // Ao reprocessar, o registo lido deste ficheiro é reencontrado pelo nome do ficheiro, mesmo sem
+  // ECLI nem processo (que de outro modo receberia um novo identificador temporário a cada vez).
+  const fromFile = mode === 'reparse' ? storedByFile.get(source.name) : undefined;
+  const existing = fromFile || await StorageService.findStoredAcordao(result.data);
+  if (existing) assertSameDecision(existing, result.data);
+  if (existing && mode === 'import') {
+    return { name: source.name, status: 'duplicate', processo, ecli, message: `Já existe no arquivo (${existing.id})` };
+  }
+
+  const baseName = source.name.split('/').pop()!.replace(/\.[^.]+$/, '');
+  const fileName = mode === 'reparse' ? source.name : rawFileNameFor(result.data, baseName);
+  if (mode === 'import') await StorageService.saveRawTxt(fileName, source.content);
+  const record = buildAcordaoRecord(result, source.content, url, fileName, vocabulary);
+  await StorageService.saveProcessedAcordao(fromFile ? { ...record, id: fromFile.id } : record);
+
+  const warnings = result.diagnostics?.warnings || [];
+  return { name: source.name, status: existing ? 'updated' : 'imported', processo, ecli, warnings };
+};
+
+/** Processa as fontes uma a uma (para não bloquear o browser) e devolve o relatório por ficheiro. */
+export const importSources = async (sources: ImportSource[], options: ImportOptions): Promise<ImportFileReport[]> => {
+  const reports: ImportFileReport[] = [];
+  const vocabulary = await loadVocabularyIndex();
+  const storedByFile: StoredByFile = options.mode === 'reparse'
+    ? new Map((await StorageService.listProcessedAcordaos()).filter(a => a.fileName).map(a => [a.fileName!, a]))
+    : new Map();
+  for (let i = 0; i < sources.length; i++) {
+    let report: ImportFileReport;
+    try {
+      report = await importOne(sources[i], options.mode, vocabulary, storedByFile);
+    } catch (e) {
+      report = { name: sources[i].name, status: 'error', message: (e as Error).message };
+    }
+    reports.push(report);
+    options.onProgress?.(report, i, sources.length);
+  }
+  return reports;
+};
+
+/** Volta a passar todos os textos brutos (raw_files / *.txt) pelo parser, p.ex. após melhorias. */
+export const reparseRawFiles = async (onProgress?: ImportOptions['onProgress']): Promise<ImportFileReport[]> => {
+  const rawFiles = await StorageService.listRawFiles();
+  return importSources(rawFiles, { mode: 'reparse', onProgress });
+};
@@ -0,0 +1,16 @@
+/**
+ * JSON de origem externa (respostas do modelo, ficheiros de uma cópia de segurança): é lido como
+ * `unknown` e estreitado com estas verificações antes de ser usado.
+ */
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** JSON devolvido pelo modelo, sem o bloco ```json ... ``` com que alguns modelos o envolvem. undefined se for inválido. */
+export const parseModelJson = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,142 @@
+import { Acordao, ProfileCount, StructuredAnalysis } from '../types';
+import { normalizeText } from './textService';
+import { courtCodeOf, courtName } from './ecliService';
+import { acordaoDate } from './dateService';
+
+/**
+ * Juízes (relatores e adjuntos): normalização dos nomes e perfil de cada juiz.
+ * O mesmo juiz aparece com e sem acentos, com e sem nomes intermédios ("Maria dos Prazeres
+ * Pizarro Beleza" / "Maria Beleza"), por isso a chave é o primeiro e o último nome,
+ * sem acentos nem partículas. Dois juízes com o mesmo primeiro e último nome ficam fundidos;
+ * as variantes encontradas são mostradas no perfil.
+ */
+
+const TITLES = /^(?:(?:o|a)\s+)?(?:ju[ií]z(?:a)?|conselheir[oa]|desembargador(?:a)?|relator(?:a)?|adjunt[oa]|dr\.?|dra\.?|exm[oa]\.?)\s+/i;
+const PARTICLES = new Set(['de', 'da', 'das', 'do', 'dos', 'e', 'd']);
+
+export const UNKNOWN_JUDGE = 'Desconhecido';
+
+/** Remove títulos ("Juiz Desembargador", "Dr.") e espaços a mais, mantendo a grafia. */
+export const cleanJudgeName = (name: string): string => {
+  let cleaned = name.replace(/\s+/g, ' ').replace(/[.,;:]+$/, '').trim();
+  let previous: string;
+  do {
+    previous = cleaned;
+    cleaned = cleaned.replace(TITLES, '');
+  } while (cleaned !== previous);
+  return cleaned;
+};
+
+/** "Juíza Desembargadora Maria dos Prazeres Beleza" -> "maria beleza". Vazio se não for um nome. */
+export const judgeKey = (name: string): string => {
+  const words = normalizeText(cleanJudgeName(name)).split(/[^a-z'-]+/).filter(w => w && !PARTICLES.has(w));
+  if (words.length === 0 || (words.length === 1 && normalizeText(name) === normalizeText(UNKNOWN_JUDGE))) return '';
+  return words.length === 1 ? words[0] : `${words[0]} ${words[words.length - 1]}`;
+};
+
+export interface JudgeProfile {
+  key: string;
+  name: string; // Variante mais completa (ver preferredName)
+  variants: string[];
+  asRelator: string[]; // ids dos acórdãos
+  asAdjunto: string[];
+  descritores: ProfileCount[];
+  tribunais: ProfileCount[];
+  firstDate?: string; // ISO
+  lastDate?: string;
+}
+
+const countBy = (values: string[]): ProfileCount[] => {
+  const counts = new Map<string, { name: string; count: number }>();
+  values.filter(Boolean).forEach(v => {
+    const key = normalizeText(v.trim());
+    const entry = counts.get(key) || { name: v.trim(), count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  });
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
+
+const isUpperCase = (name: string) => name === name.toUpperCase();
+const hasAccents = (name: string) => normalizeText(name) !== name.toLowerCase();
+
+// Mais palavras primeiro; em caso de empate, maiúsculas/minúsculas e depois acentos
+const preferredName = (variants: string[]): string =>
+  [...variants].sort((a, b) =>
+    b.split(' ').length - a.split(' ').length
+    || Number(isUpperCase(a)) - Number(isUpperCase(b))
+    || Number(hasAccents(b)) - Number(hasAccents(a))
+    || a.localeCompare(b)
+  )[0];
+
+/** Lista de juízes do arquivo, ordenada pelo número de acórdãos em que intervieram. */
+export const buildJudgeIndex = (acordaos: Acordao[]): JudgeProfile[] => {
+  const judges = new Map<string, { variants: Set<string>; relator: Acordao[]; adjunto: Acordao[] }>();
+  const add = (name: string, acordao: Acordao, role: 'relator' | 'adjunto') => {
+    const key = judgeKey(name);
+    if (!key) return;
+    if (!judges.has(key)) judges.set(key, { variants: new Set(), relator: [], adjunto: [] });
+    const entry = judges.get(key)!;
+    entry.variants.add(cleanJudgeName(name));
+    if (!entry[role].includes(acordao)) entry[role].push(acordao);
+  };
+  acordaos.forEach(a => {
+    add(a.relator, a, 'relator');
+    a.adjuntos.forEach(name => add(name, a, 'adjunto'));
+  });
+
+  return Array.from(judges.entries())
+    .map(([key, entry]) => {
+      const all = Array.from(new Set([...entry.relator, ...entry.adjunto]));
+      const dates = all.map(a => acordaoDate(a)).filter((d): d is string => !!d).sort();
+      const variants = Array.from(entry.variants);
+      return {
+        key,
+        name: preferredName(variants),
+        variants,
+        asRelator: entry.relator.map(a => a.id),
+        asAdjunto: entry.adjunto.map(a => a.id),
+        descritores: countBy(all.flatMap(a => a.descritores)),
+        tribunais: countBy(all.map(a => courtName(courtCodeOf(a)))),
+        firstDate: dates[0],
+        lastDate: dates[dates.length - 1],
+      };
+    })
+    .sort((a, b) => (b.asRelator.length + b.asAdjunto.length) - (a.asRelator.length + a.asAdjunto.length) || a.name.localeCompare(b.name));
+};
+
+/** Conjunto de acórdãos que corresponde a uma posição (tese). */
+export interface PositionGroup {
+  label: string;
+  acordaoIds: string[];
+}
+
+export const positionsFromAnalysis = (analysis: StructuredAnalysis): PositionGroup[] =>
+  analysis.posicoes.map(p => ({
+    label: p.titulo,
+    acordaoIds: Array.from(new Set(p.citacoes.flatMap(c => (c.status === 'verified' || c.status === 'outside-context') && c.acordaoId ? [c.acordaoId] : []))),
+  }));
+
+export interface JudgeSpread {
+  key: string;
+  name: string;
+  byPosition: { asRelator: number; asAdjunto: number }[]; // Pela ordem das posições
+}
+
+/**
+ * Distribuição dos acórdãos de cada juiz pelas posições identificadas para um tema.
+ * Só inclui os juízes que intervieram em pelo menos um acórdão das posições.
+ */
+export const judgeSpread = (positions: PositionGroup[], acordaos: Acordao[]): JudgeSpread[] => {
+  const byId = new Map(acordaos.map(a => [a.id, a]));
+  const cited = positions.flatMap(p => p.acordaoIds).flatMap(id => byId.get(id) || []);
+  return buildJudgeIndex(Array.from(new Set(cited)))
+    .map(judge => ({
+      key: judge.key,
+      name: judge.name,
+      byPosition: positions.map(p => ({
+        asRelator: p.acordaoIds.filter(id => judge.asRelator.includes(id)).length,
+        asAdjunto: p.acordaoIds.filter(id => judge.asAdjunto.includes(id)).length,
+      })),
+    }));
+};
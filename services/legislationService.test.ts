@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { Acordao } from '../types';
+import { appliesProvision, extractProvisions, formatProvision, parseProvisionQuery, provisionsFromDgsi } from './legislationService';
+
+const acordao = (fields: Partial<Acordao>): Acordao => ({
+  id: 'PROC:1/20', ecli: 'Desconhecido', processo: '1/20', data: '12/03/2020', relator: 'X', descritores: [],
+  sumario: '', textoIntegral: '', adjuntos: [], url: '', ...fields,
+});
+
+describe('extractProvisions', () => {
+  it('reconhece o artigo e o diploma por extenso', () => {
+    expect(extractProvisions('Nos termos do art. 483.º do Código Civil, há obrigação de indemnizar.'))
+      .toEqual([{ diploma: 'CC', artigo: '483' }]);
+  });
+
+  it('lê o número e a alínea', () => {
+    expect(extractProvisions('vício do artigo 410.º, n.º 2, al. c) do CPP')).toEqual([
+      { diploma: 'CPP', artigo: '410', numero: '2', alinea: 'c' },
+    ]);
+  });
+
+  it('reconhece decretos-leis e leis pelo número', () => {
+    expect(extractProvisions('o art. 4.º do Decreto-Lei n.º 291/2007 e o artigo 2.º da Lei n.º 23/96')).toEqual([
+      { diploma: 'DL 291/2007', artigo: '4' },
+      { diploma: 'Lei 23/96', artigo: '2' },
+    ]);
+    expect(extractProvisions('art. 64.º do DL 291/2007')).toEqual([{ diploma: 'DL 291/2007', artigo: '64' }]);
+  });
+
+  it('associa uma lista de artigos ao diploma que a segue', () => {
+    expect(extractProvisions('arts. 483.º e 496.º, n.º 4, do CC')).toEqual([
+      { diploma: 'CC', artigo: '483' },
+      { diploma: 'CC', artigo: '496', numero: '4' },
+    ]);
+  });
+
+  it('ignora referências sem diploma identificável', () => {
+    expect(extractProvisions('conforme o art. 12.º acima referido')).toEqual([]);
+  });
+});
+
+describe('provisionsFromDgsi', () => {
+  it('lê as siglas do campo "Legislação Nacional"', () => {
+    expect(provisionsFromDgsi('CCIV66 ART483 N1 ART487\nCPC13 ART615 N1 AL D')).toEqual([
+      { diploma: 'CC', artigo: '483', numero: '1' },
+      { diploma: 'CC', artigo: '487' },
+      { diploma: 'CPC', artigo: '615', numero: '1', alinea: 'd' },
+    ]);
+  });
+});
+
+describe('parseProvisionQuery', () => {
+  it('aceita as formas curtas "483 CC" e "CC 483"', () => {
+    expect(parseProvisionQuery('483 CC')).toEqual({ diploma: 'CC', artigo: '483' });
+    expect(parseProvisionQuery('CC 483')).toEqual({ diploma: 'CC', artigo: '483' });
+    expect(parseProvisionQuery('CPP 410.º')).toEqual({ diploma: 'CPP', artigo: '410' });
+  });
+
+  it('aceita a forma por extenso, com número e alínea', () => {
+    expect(parseProvisionQuery('art. 483.º do Código Civil')).toEqual({ diploma: 'CC', artigo: '483' });
+    expect(parseProvisionQuery('artigo 410, n.º 2, al. c) do CPP')).toEqual({ diploma: 'CPP', artigo: '410', numero: '2', alinea: 'c' });
+  });
+
+  it('devolve null sem diploma reconhecível', () => {
+    expect(parseProvisionQuery('')).toBeNull();
+    expect(parseProvisionQuery('483')).toBeNull();
+    expect(parseProvisionQuery('XYZ 483')).toBeNull();
+  });
+});
+
+describe('appliesProvision', () => {
+  const record = acordao({ sumario: 'Violação do artigo 410.º, n.º 2, al. c) do CPP e do art. 483.º do Código Civil.' });
+
+  it('o número e a alínea só restringem quando indicados na pesquisa', () => {
+    expect(appliesProvision(record, { diploma: 'CPP', artigo: '410' })).toBe(true);
+    expect(appliesProvision(record, { diploma: 'CPP', artigo: '410', numero: '2', alinea: 'c' })).toBe(true);
+    expect(appliesProvision(record, { diploma: 'CPP', artigo: '410', numero: '3' })).toBe(false);
+    expect(appliesProvision(record, parseProvisionQuery('483 CC')!)).toBe(true);
+    expect(appliesProvision(record, parseProvisionQuery('CP 483')!)).toBe(false);
+  });
+});
+
+describe('formatProvision', () => {
+  it('escreve a disposição na forma usual das citações', () => {
+    expect(formatProvision({ diploma: 'CPP', artigo: '410', numero: '2', alinea: 'c' })).toBe('art. 410.º, n.º 2, al. c) do CPP');
+    expect(formatProvision({ diploma: 'Lei 23/96', artigo: '2' })).toBe('art. 2.º da Lei 23/96');
+  });
+});
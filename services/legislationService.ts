@@ -0,0 +1,219 @@
+import { Acordao, LegalProvision } from '../types';
+import { foldAccents } from './textService';
+
+/**
+ * Referências a legislação ("art. 483.º do Código Civil", "artigo 410.º, n.º 2, al. c) do CPP"):
+ * extração normalizada (diploma, artigo, número, alínea) e índice do arquivo por diploma e artigo.
+ */
+
+interface DiplomaDef {
+  name: string;
+  // Formas por extenso e abreviadas, já sem acentos e em minúsculas (fontes de RegExp).
+  aliases: string[];
+}
+
+export const DIPLOMAS: Record<string, DiplomaDef> = {
+  CRP: { name: 'Constituição da República Portuguesa', aliases: ['constituicao da republica portuguesa', 'constituicao', 'crp'] },
+  CC: { name: 'Código Civil', aliases: ['codigo civil', 'c\\.\\s?civil', 'c\\.\\s?c\\.', 'cc'] },
+  CPC: { name: 'Código de Processo Civil', aliases: ['codigo de processo civil', 'c\\.\\s?p\\.\\s?c\\.', 'ncpc', 'cpc'] },
+  CP: { name: 'Código Penal', aliases: ['codigo penal', 'c\\.\\s?penal', 'c\\.\\s?p\\.', 'cp'] },
+  CPP: { name: 'Código de Processo Penal', aliases: ['codigo de processo penal', 'c\\.\\s?p\\.\\s?p\\.', 'cpp'] },
+  CT: { name: 'Código do Trabalho', aliases: ['codigo do trabalho', 'ct'] },
+  CPT: { name: 'Código de Processo do Trabalho', aliases: ['codigo de processo do trabalho', 'cpt'] },
+  CPTA: { name: 'Código de Processo nos Tribunais Administrativos', aliases: ['codigo de processo nos tribunais administrativos', 'cpta'] },
+  CPA: { name: 'Código do Procedimento Administrativo', aliases: ['codigo do procedimento administrativo', 'cpa'] },
+  CSC: { name: 'Código das Sociedades Comerciais', aliases: ['codigo das sociedades comerciais', 'csc'] },
+  CIRE: { name: 'Código da Insolvência e da Recuperação de Empresas', aliases: ['codigo da insolvencia e da recuperacao de empresas', 'cire'] },
+  CPPT: { name: 'Código de Procedimento e de Processo Tributário', aliases: ['codigo de procedimento e de processo tributario', 'cppt'] },
+  CCom: { name: 'Código Comercial', aliases: ['codigo comercial', 'c\\.\\s?com\\.'] },
+  CE: { name: 'Código da Estrada', aliases: ['codigo da estrada'] },
+  CExp: { name: 'Código das Expropriações', aliases: ['codigo das expropriacoes'] },
+};
+
+// Siglas do campo "Legislação Nacional" do DGSI (ex.: "CCIV66 ART483 N1").
+const DGSI_DIPLOMAS: Record<string, string> = {
+  CCIV66: 'CC', CCIV: 'CC', CPC13: 'CPC', CPC61: 'CPC', CPC95: 'CPC', CPP87: 'CPP', CPP29: 'CPP',
+  CP82: 'CP', CP95: 'CP', CONST76: 'CRP', CONST: 'CRP', CT09: 'CT', CT03: 'CT', CPT99: 'CPT', CPT09: 'CPT',
+  CPTA02: 'CPTA', CPA91: 'CPA', CPA15: 'CPA', CSC86: 'CSC', CIRE04: 'CIRE', CPPTRIB99: 'CPPT', CCOM888: 'CCom',
+  CEST94: 'CE', CEXP99: 'CExp',
+};
+
+const LEGISLATIVE_ACTS: Record<string, string> = {
+  'decreto-lei': 'DL', 'decreto lei': 'DL', 'lei': 'Lei', 'portaria': 'Portaria', 'decreto regulamentar': 'DR',
+};
+
+// Formas mais longas primeiro, para "c. p. p." ganhar a "c. p.".
+const ALIASES: [string, string][] = Object.entries(DIPLOMAS)
+  .flatMap(([code, def]) => def.aliases.map(alias => [alias, code] as [string, string]))
+  .sort((a, b) => b[0].length - a[0].length);
+
+const ACT_PATTERN = String.raw`(decreto[- ]lei|d\.\s?l\.|dl|lei|portaria|decreto regulamentar)\s*(?:n\.?\s*[oº°]\.?\s*)?(\d+(?:-[A-Z])?\/\d{2,4})`;
+const CODE_PATTERN = ALIASES.map(([alias]) => alias).join('|');
+
+// O diploma só conta como tal se não continuar numa palavra ("cc" não pode ser o início de "ccb").
+const DIPLOMA_LINK = new RegExp(
+  String.raw`\s*,?\s*(?:(?:do|da|dos|das)\s+(?:referid[oa]\s+|citad[oa]\s+|mesmo\s+)?)?(?:${ACT_PATTERN}|(${CODE_PATTERN}))(?![a-z])`,
+  'iy'
+);
+const ARTICLE_START = /\bart(?:igo|\.)?s?\.?\s*(?=\d)/gi;
+const ITEM = /\s*(\d+)(?:\s*\.?\s*[oº°](?![a-z]))?(?:\s*-\s*([A-Z])\b)?(?:\s*,?\s*n\.?\s*[oº°]s?\.?\s*(\d+))?(?:\s*,?\s*al(?:ineas?|s?\.)?\s*([a-z])\))?/iy;
+const SEPARATOR = /\s*(?:,\s*|\s+e\s+)(?=\d)/iy;
+
+const diplomaFromMatch = (match: RegExpExecArray): string | null => {
+  // "DL" e "D.L." não constam do mapa: são a forma por omissão.
+  if (match[1]) return `${LEGISLATIVE_ACTS[match[1].toLowerCase()] || 'DL'} ${match[2]}`;
+  return ALIASES.find(([alias]) => new RegExp(`^(?:${alias})$`, 'i').test(match[3]))?.[1] || null;
+};
+
+export const provisionKey = (p: LegalProvision): string =>
+  [p.diploma, p.artigo, p.numero || '', p.alinea || ''].join('|');
+
+/** "483" -> "483.º", "1-A" -> "1.º-A" */
+export const formatArticle = (artigo: string): string => artigo.replace(/^(\d+)/, '$1.º');
+
+/** Chave do índice por artigo (ignora número e alínea): "CC art. 483.º". */
+export const articleKey = (p: Pick<LegalProvision, 'diploma' | 'artigo'>): string => `${p.diploma} art. ${formatArticle(p.artigo)}`;
+
+const dedupe = (provisions: LegalProvision[]): LegalProvision[] =>
+  Array.from(new Map(provisions.map(p => [provisionKey(p), p])).values());
+
+/** Disposições legais citadas num texto. Referências sem diploma identificável são ignoradas. */
+export const extractProvisions = (text: string): LegalProvision[] => {
+  if (!text) return [];
+  const folded = foldAccents(text);
+  const found: LegalProvision[] = [];
+
+  for (const start of folded.matchAll(ARTICLE_START)) {
+    const items: Omit<LegalProvision, 'diploma'>[] = [];
+    let cursor = start.index! + start[0].length;
+    while (true) {
+      ITEM.lastIndex = cursor;
+      const item = ITEM.exec(folded);
+      if (!item) break;
+      items.push({
+        artigo: item[2] ? `${item[1]}-${item[2].toUpperCase()}` : item[1],
+        ...(item[3] ? { numero: item[3] } : {}),
+        ...(item[4] ? { alinea: item[4].toLowerCase() } : {}),
+      });
+      cursor = ITEM.lastIndex;
+      SEPARATOR.lastIndex = cursor;
+      if (!SEPARATOR.exec(folded)) break;
+      cursor = SEPARATOR.lastIndex;
+    }
+    DIPLOMA_LINK.lastIndex = cursor;
+    const link = DIPLOMA_LINK.exec(folded);
+    const diploma = link && diplomaFromMatch(link);
+    if (!diploma) continue;
+    items.forEach(item => found.push({ diploma, ...item }));
+  }
+  return dedupe(found);
+};
+
+/** Lê o campo "Legislação Nacional" do DGSI: "CCIV66 ART483 N1 ART487\nCPC13 ART615 N1 AL D". */
+export const provisionsFromDgsi = (raw?: string): LegalProvision[] => {
+  if (!raw) return [];
+  const found: LegalProvision[] = [];
+  raw.split(/[\n;]+/).forEach(line => {
+    const code = line.trim().match(/^([A-Z]+\d*)\s/)?.[1];
+    if (!code) return;
+    const diploma = DGSI_DIPLOMAS[code] || code;
+    for (const m of line.matchAll(/\bART(\d+)(?:-([A-Z]))?(?:\s+N(\d+))?(?:\s+AL\s?([A-Z])\b)?/g)) {
+      found.push({
+        diploma,
+        artigo: m[2] ? `${m[1]}-${m[2]}` : m[1],
+        ...(m[3] ? { numero: m[3] } : {}),
+        ...(m[4] ? { alinea: m[4].toLowerCase() } : {}),
+      });
+    }
+  });
+  return found;
+};
+
+/** Todas as disposições de um registo: campo do DGSI, sumário e texto integral. */
+export const collectProvisions = (data: Partial<Acordao>): LegalProvision[] => dedupe([
+  ...provisionsFromDgsi(data.legislacaoNacional),
+  ...extractProvisions([data.sumario, data.textoIntegral].filter(Boolean).join('\n')),
+]);
+
+const provisionCache = new WeakMap<Acordao, LegalProvision[]>();
+
+/** Disposições guardadas no registo ou, para registos antigos, extraídas no momento (em cache). */
+export const provisionsOf = (acordao: Acordao): LegalProvision[] => {
+  if (acordao.disposicoes) return acordao.disposicoes;
+  let provisions = provisionCache.get(acordao);
+  if (!provisions) {
+    provisions = collectProvisions(acordao);
+    provisionCache.set(acordao, provisions);
+  }
+  return provisions;
+};
+
+export const diplomaName = (code: string): string => DIPLOMAS[code]?.name || code;
+
+const isFeminine = (diploma: string) => diploma === 'CRP' || /^(Lei|Portaria) /.test(diploma);
+
+/** "art. 410.º, n.º 2, al. c) do CPP" */
+export const formatProvision = (p: LegalProvision): string =>
+  [`art. ${formatArticle(p.artigo)}`, p.numero && `n.º ${p.numero}`, p.alinea && `al. ${p.alinea})`].filter(Boolean).join(', ') +
+  ` ${isFeminine(p.diploma) ? 'da' : 'do'} ${p.diploma}`;
+
+/**
+ * Interpreta o que o utilizador escreve no filtro: "art. 483.º CC", "artigo 410, n.º 2 do CPP",
+ * ou a forma curta "CC 483" / "483 CC".
+ */
+export const parseProvisionQuery = (input: string): LegalProvision | null => {
+  const text = input.trim();
+  if (!text) return null;
+  const direct = extractProvisions(/^art/i.test(text) ? text : `art. ${text}`)[0];
+  if (direct) return direct;
+  const short = text.match(/^(.+?)\s+(?:art(?:igo|\.)?s?\.?\s*)?(\d+(?:-[A-Z])?)\s*\.?\s*[oº°]?$/i);
+  return short ? extractProvisions(`art. ${short[2]} do ${short[1]}`)[0] || null : null;
+};
+
+/** A disposição `p` satisfaz a pesquisa `query` (número e alínea só contam se indicados na pesquisa). */
+export const matchesProvision = (p: LegalProvision, query: LegalProvision): boolean =>
+  p.diploma === query.diploma && p.artigo === query.artigo &&
+  (!query.numero || p.numero === query.numero) &&
+  (!query.alinea || p.alinea === query.alinea);
+
+export const appliesProvision = (acordao: Acordao, query: LegalProvision): boolean =>
+  provisionsOf(acordao).some(p => matchesProvision(p, query));
+
+export interface ArticleEntry {
+  artigo: string;
+  key: string;
+  acordaoIds: string[];
+}
+
+export interface DiplomaEntry {
+  diploma: string;
+  name: string;
+  acordaoIds: string[];
+  articles: ArticleEntry[];
+}
+
+const compareArticles = (a: string, b: string) => parseInt(a, 10) - parseInt(b, 10) || a.localeCompare(b);
+
+/** Índice do arquivo por diploma e artigo, ordenado pelo número de acórdãos. */
+export const buildProvisionIndex = (acordaos: Acordao[]): DiplomaEntry[] => {
+  const diplomas = new Map<string, { ids: Set<string>; articles: Map<string, Set<string>> }>();
+  acordaos.forEach(a => {
+    provisionsOf(a).forEach(p => {
+      if (!diplomas.has(p.diploma)) diplomas.set(p.diploma, { ids: new Set(), articles: new Map() });
+      const entry = diplomas.get(p.diploma)!;
+      entry.ids.add(a.id);
+      if (!entry.articles.has(p.artigo)) entry.articles.set(p.artigo, new Set());
+      entry.articles.get(p.artigo)!.add(a.id);
+    });
+  });
+  return Array.from(diplomas.entries())
+    .map(([diploma, entry]) => ({
+      diploma,
+      name: diplomaName(diploma),
+      acordaoIds: Array.from(entry.ids),
+      articles: Array.from(entry.articles.entries())
+        .sort((x, y) => compareArticles(x[0], y[0]))
+        .map(([artigo, ids]) => ({ artigo, key: articleKey({ diploma, artigo }), acordaoIds: Array.from(ids) })),
+    }))
+    .sort((x, y) => y.acordaoIds.length - x.acordaoIds.length);
+};
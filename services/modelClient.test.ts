@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ModelRequest, streamCompletion } from './modelClient';
+import { createFakeModelClient } from './providers/mockProvider';
+
+const REQUEST: ModelRequest = { systemInstruction: '', contents: [{ role: 'user', text: 'pergunta' }] };
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+describe('streamCompletion', () => {
+  it('junta os fragmentos no texto completo e comunica o texto acumulado', async () => {
+    const onText = vi.fn();
+    const text = await streamCompletion(createFakeModelClient(['Os ', 'acórdãos ', 'divergem.']), REQUEST, { onText });
+    expect(text).toBe('Os acórdãos divergem.');
+    expect(onText.mock.calls.map(([t]) => t)).toEqual(['Os ', 'Os acórdãos ', 'Os acórdãos divergem.']);
+  });
+
+  it('repete o pedido após um erro transitório', async () => {
+    const onRetry = vi.fn();
+    const client = createFakeModelClient(['ok'], 0, [httpError(503)]);
+    const text = await streamCompletion(client, REQUEST, { onRetry, baseDelayMs: 1 });
+    expect(text).toBe('ok');
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(onRetry.mock.calls[0][0]).toBe(1);
+  });
+
+  it('cancela durante a espera entre tentativas com AbortError', async () => {
+    const controller = new AbortController();
+    const client = createFakeModelClient(['ok'], 0, [httpError(429)]);
+    const pending = streamCompletion(client, REQUEST, {
+      signal: controller.signal,
+      baseDelayMs: 60_000,
+      onRetry: () => { setTimeout(() => controller.abort(), 5); },
+    });
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('relança um erro não transitório sem repetir', async () => {
+    const onRetry = vi.fn();
+    const error = httpError(400);
+    const client = createFakeModelClient(['ok'], 0, [error]);
+    await expect(streamCompletion(client, REQUEST, { onRetry, baseDelayMs: 1 })).rejects.toBe(error);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+import { ModelSettings, ProviderKind } from "../types";
+
+/**
+ * Interface mínima para chamadas ao modelo em streaming. A análise depende apenas de ModelClient;
+ * cada fornecedor (services/providers) cria o seu cliente a partir das definições do utilizador.
+ */
+
+export interface ModelTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ModelRequest {
+  systemInstruction: string;
+  contents: ModelTurn[];
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Esquema JSON da resposta (formato @google/genai). */
+  responseSchema?: object;
+}
+
+export interface ModelClient {
+  /** Devolve os fragmentos de texto à medida que o modelo os produz. */
+  stream(request: ModelRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+export interface ModelProvider {
+  id: ProviderKind;
+  label: string;
+  defaultModel: string;
+  /** true para fornecedores que exigem o endereço do servidor (baseUrl). */
+  needsBaseUrl: boolean;
+  /** true se, com estas definições, os documentos não saem da máquina/rede local. */
+  isLocal(settings: ModelSettings): boolean;
+  createClient(settings: ModelSettings): ModelClient;
+}
+
+export const abortError = () => new DOMException('Pedido cancelado.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  (error as Error)?.name === 'AbortError';
+
+const TRANSIENT_STATUS = [408, 429, 500, 502, 503, 504];
+
+/** Erros de rede, limite de pedidos e indisponibilidade temporária do serviço. */
+export const isTransientError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  const status = (error as { status?: number })?.status;
+  if (typeof status === 'number') return TRANSIENT_STATUS.includes(status);
+  return /\b(408|429|500|502|503|504)\b|UNAVAILABLE|RESOURCE_EXHAUSTED|DEADLINE_EXCEEDED|overloaded|fetch failed|network/i
+    .test((error as Error)?.message || '');
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  /** Texto acumulado até ao momento (recomeça do zero quando há nova tentativa). */
+  onText?: (text: string) => void;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+  retries?: number;
+  baseDelayMs?: number;
+}
+
+/**
+ * Executa o pedido em streaming e devolve o texto completo. Erros transitórios são repetidos
+ * com backoff exponencial (1s, 2s, 4s… com variação aleatória); o cancelamento é imediato.
+ */
+export const streamCompletion = async (
+  client: ModelClient,
+  request: ModelRequest,
+  { signal, onText, onRetry, retries = 3, baseDelayMs = 1000 }: StreamOptions = {}
+): Promise<string> => {
+  for (let attempt = 0; ; attempt++) {
+    let text = '';
+    try {
+      for await (const chunk of client.stream(request, signal)) {
+        if (signal?.aborted) throw abortError();
+        text += chunk;
+        onText?.(text);
+      }
+      return text;
+    } catch (error) {
+      if (signal?.aborted) throw abortError();
+      if (attempt >= retries || !isTransientError(error)) throw error;
+      const delay = baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      onRetry?.(attempt + 1, delay, error);
+      onText?.('');
+      await sleep(delay, signal);
+    }
+  }
+};
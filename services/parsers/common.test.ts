@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { Acordao } from '../../types';
+import { extractAdjuntos, finishExtraction, looksLikeName } from './common';
+
+const LONG_TEXT = 'Acordam no Supremo Tribunal de Justiça. '.repeat(10);
+
+const complete = (): Partial<Acordao> => ({
+  ecli: 'ECLI:PT:STJ:2020:1234.18.5T8LSB.L1.S1',
+  processo: '1234/18.5T8LSB.L1.S1',
+  data: '12/03/2020',
+  relator: 'Maria dos Prazeres Pizarro Beleza',
+  adjuntos: ['Fátima Gomes'],
+  descritores: ['Responsabilidade civil'],
+  sumario: 'I - A culpa do lesante deve ser provada pelo lesado (art. 487.º do CC).',
+  textoIntegral: LONG_TEXT,
+});
+
+describe('finishExtraction', () => {
+  it('calcula a confiança a partir da estratégia e do formato de cada campo', () => {
+    const result = finishExtraction('teste', complete(), {
+      ecli: 'css-selector', processo: 'labelled-regex', data: 'table-row', relator: 'url-fallback', adjuntos: 'heuristic',
+    }, `Cabeçalho\n${LONG_TEXT}`);
+    expect(result.success).toBe(true);
+    expect(result.parser).toBe('teste');
+    expect(result.diagnostics!.fields).toEqual({
+      ecli: { strategy: 'css-selector', confidence: 0.95 },
+      processo: { strategy: 'labelled-regex', confidence: 0.85 },
+      data: { strategy: 'table-row', confidence: 0.95 },
+      relator: { strategy: 'url-fallback', confidence: 0.6 },
+      adjuntos: { strategy: 'heuristic', confidence: 0.5 },
+      descritores: { strategy: 'default', confidence: 0 },
+      sumario: { strategy: 'default', confidence: 0 },
+      textoIntegral: { strategy: 'default', confidence: 0 },
+    });
+    expect(result.diagnostics!.quality).toBe(0.48);
+    expect(result.diagnostics!.warnings).toEqual([]);
+  });
+
+  it('acrescenta a data ISO e as disposições legais', () => {
+    const result = finishExtraction('teste', complete(), { data: 'table-row' }, LONG_TEXT);
+    expect(result.data!.dataIso).toBe('2020-03-12');
+    expect(result.data!.disposicoes).toEqual([{ diploma: 'CC', artigo: '487' }]);
+  });
+
+  it('reduz a metade a confiança de valores com formato inesperado e avisa', () => {
+    const result = finishExtraction('teste', {
+      ...complete(),
+      ecli: 'ECLI:PT:STJ:20',
+      data: 'no outono',
+      adjuntos: ['Lisboa, 12 de março de 2020'],
+    }, { ecli: 'heuristic', data: 'labelled-regex', adjuntos: 'heuristic' }, LONG_TEXT);
+    const { fields, warnings } = result.diagnostics!;
+    expect(fields.ecli!.confidence).toBe(0.25);
+    expect(fields.data!.confidence).toBe(0.425);
+    expect(fields.adjuntos!.confidence).toBe(0.25);
+    expect(warnings).toEqual([
+      'ECLI com formato inválido: "ECLI:PT:STJ:20"',
+      'Data em formato não reconhecido: "no outono"',
+      'Texto integral igual à página inteira',
+      'Adjuntos com linhas que não parecem nomes',
+    ]);
+  });
+
+  it('avisa dos campos em falta', () => {
+    const result = finishExtraction('teste', {
+      ecli: 'Desconhecido', processo: '1/20', data: 'Desconhecida', relator: 'Desconhecido', descritores: [], sumario: '', textoIntegral: 'x',
+    }, { processo: 'labelled-regex', textoIntegral: 'whole-page' }, 'x');
+    expect(result.success).toBe(true);
+    expect(result.diagnostics!.warnings).toEqual([
+      'ECLI não encontrado',
+      'Data do acórdão não encontrada',
+      'Relator não encontrado',
+      'Sem descritores',
+      'Sumário vazio',
+      'Texto integral igual à página inteira',
+    ]);
+  });
+
+  it('falha quando nenhum metadado essencial foi encontrado', () => {
+    const result = finishExtraction('teste', { sumario: 'Um texto qualquer sem metadados.' }, { sumario: 'heuristic' }, '');
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Nenhum metadado reconhecido (ECLI, processo, data ou relator)');
+    expect(result.diagnostics).toBeDefined();
+  });
+});
+
+describe('extractAdjuntos', () => {
+  it('procura o relator sem distinguir maiúsculas nem acentos e guarda só linhas com nomes', () => {
+    const text = 'Texto do acórdão.\nLisboa, 12 de março de 2020\nJOSE ANTONIO SILVA (Relator)\nAna Luísa Marques\nNota: texto revisto.\nRui Pedro Costa\n';
+    expect(extractAdjuntos(text, 'José António Silva')).toEqual(['Ana Luísa Marques', 'Rui Pedro Costa']);
+  });
+
+  it('sem o relator no texto, não devolve adjuntos', () => {
+    expect(extractAdjuntos('Ana Luísa Marques', 'José António Silva')).toEqual([]);
+    expect(extractAdjuntos('Ana Luísa Marques', 'Desconhecido')).toEqual([]);
+  });
+
+  it('looksLikeName rejeita frases e linhas com datas', () => {
+    expect(looksLikeName('Ana Luísa Marques')).toBe(true);
+    expect(looksLikeName('Lisboa, 12 de março de 2020')).toBe(false);
+    expect(looksLikeName('(Relator)')).toBe(false);
+  });
+});
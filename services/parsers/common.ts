@@ -0,0 +1,120 @@
+import { Acordao, DiagnosedField, ExtractionDiagnostics, ExtractionResult, ExtractionStrategy } from '../../types';
+import { findEcli, isValidEcli } from '../ecliService';
+import { parseDate } from '../dateService';
+import { collectProvisions } from '../legislationService';
+import { foldAccents } from '../textService';
+
+/**
+ * Interface comum a todos os parsers de fontes de jurisprudência.
+ * `matches` decide, pela URL ou por uma "impressão digital" do conteúdo, se o parser serve.
+ */
+export interface SourceParser {
+  id: string;
+  label: string;
+  matches: (content: string, url: string) => boolean;
+  parse: (content: string, url: string) => ExtractionResult;
+}
+
+/** Se parece HTML (em vez de texto colado com Ctrl+A / Ctrl+V). */
+export const looksLikeHtml = (content: string): boolean =>
+  content.includes('<div') || content.includes('<span') || content.includes('<p') || content.includes('<td');
+
+export const splitDescritores = (raw: string): string[] =>
+  raw.split(/[,;\n]/).map(d => d.trim()).filter(Boolean);
+
+// REGRA PARA ADJUNTOS: Estão na parte final do acórdão logo a seguir ao nome do relator (que se repete no fim)
+export const extractAdjuntos = (normalizedText: string, relator: string): string[] => {
+  if (relator === 'Desconhecido' || relator.length <= 3) return [];
+  // Última ocorrência do nome do relator, sem distinguir maiúsculas nem acentos (o DGSI mostra-o em maiúsculas).
+  // foldAccents preserva as posições, por isso o índice serve no texto original.
+  const fold = (text: string) => foldAccents(text).toLowerCase();
+  const lastRelatorIndex = fold(normalizedText).lastIndexOf(fold(relator));
+  if (lastRelatorIndex === -1) return [];
+  // Pegar o texto após o último nome do relator
+  const footer = normalizedText.substring(lastRelatorIndex + relator.length);
+  const potentialLines = footer.split('\n')
+    .map(l => l.trim())
+    .filter(l => l.length > 2 && !l.toLowerCase().includes('nota') && !l.toLowerCase().includes('http') && looksLikeName(l));
+  // Os primeiros nomes que aparecem costumam ser os adjuntos
+  return potentialLines.slice(0, 5);
+};
+
+// Se o ECLI ainda for desconhecido, tentamos tirar da URL (incluindo a forma codificada "ECLI%3APT%3A...")
+export const ecliFromUrl = (url: string): string | null => url ? findEcli(url) : null;
+
+/** ECLI na forma canónica quando válido; caso contrário, o valor extraído tal como está. */
+export const cleanEcli = (raw: string): string => findEcli(raw) || raw;
+
+// Um nome de juiz: poucas palavras, sem dígitos nem pontuação de frase.
+export const looksLikeName = (line: string): boolean =>
+  line.length <= 60 && line.split(/\s+/).length <= 7 && !/[0-9:;?!()]/.test(line);
+
+const isDefault = (value?: string) => !value || !value.trim() || value === 'Desconhecido' || value === 'Desconhecida';
+
+const STRATEGY_CONFIDENCE: Record<ExtractionStrategy, number> = {
+  'css-selector': 0.95,
+  'table-row': 0.95,
+  'labelled-regex': 0.85,
+  'url-fallback': 0.6,
+  'heuristic': 0.5,
+  'whole-page': 0.3,
+  'default': 0,
+};
+
+// Validação do valor extraído: um valor com formato inesperado vale metade da confiança.
+const VALIDATORS: Record<DiagnosedField, (data: Partial<Acordao>) => boolean> = {
+  ecli: d => !!d.ecli && isValidEcli(d.ecli),
+  processo: d => !!d.processo && /\d/.test(d.processo),
+  data: d => !!d.data && parseDate(d.data) !== null,
+  relator: d => !!d.relator && looksLikeName(d.relator),
+  adjuntos: d => !!d.adjuntos?.length && d.adjuntos.every(looksLikeName),
+  descritores: d => !!d.descritores?.length,
+  sumario: d => (d.sumario?.trim().length || 0) > 20,
+  textoIntegral: d => (d.textoIntegral?.trim().length || 0) > 200,
+};
+
+const CORE_FIELDS: DiagnosedField[] = ['ecli', 'processo', 'data', 'relator'];
+
+/**
+ * Fecha a extração: calcula a confiança por campo a partir da estratégia usada e do formato
+ * do valor, gera avisos e só declara sucesso se pelo menos um metadado essencial foi encontrado.
+ */
+export const finishExtraction = (
+  parser: string,
+  data: Partial<Acordao>,
+  strategies: Partial<Record<DiagnosedField, ExtractionStrategy>>,
+  pageText: string
+): ExtractionResult => {
+  if (data.data) data.dataIso = parseDate(data.data) || undefined;
+  data.disposicoes = collectProvisions(data);
+
+  const fields: ExtractionDiagnostics['fields'] = {};
+  (Object.keys(VALIDATORS) as DiagnosedField[]).forEach(field => {
+    const strategy = strategies[field] || 'default';
+    const base = STRATEGY_CONFIDENCE[strategy];
+    fields[field] = { strategy, confidence: VALIDATORS[field](data) ? base : base / 2 };
+  });
+
+  const warnings: string[] = [];
+  if (isDefault(data.ecli)) warnings.push('ECLI não encontrado');
+  else if (!VALIDATORS.ecli(data)) warnings.push(`ECLI com formato inválido: "${data.ecli}"`);
+  if (isDefault(data.processo)) warnings.push('Número de processo não encontrado');
+  if (isDefault(data.data)) warnings.push('Data do acórdão não encontrada');
+  else if (!VALIDATORS.data(data)) warnings.push(`Data em formato não reconhecido: "${data.data}"`);
+  if (isDefault(data.relator)) warnings.push('Relator não encontrado');
+  if (!data.descritores?.length) warnings.push('Sem descritores');
+  if (!data.sumario?.trim()) warnings.push('Sumário vazio');
+  if (strategies.textoIntegral === 'whole-page' || (data.textoIntegral || '').trim() === pageText.trim()) {
+    warnings.push('Texto integral igual à página inteira');
+  }
+  if (data.adjuntos?.length && !VALIDATORS.adjuntos(data)) warnings.push('Adjuntos com linhas que não parecem nomes');
+
+  const confidences = Object.values(fields).map(f => f!.confidence);
+  const quality = Math.round(confidences.reduce((a, b) => a + b, 0) / confidences.length * 100) / 100;
+  const diagnostics: ExtractionDiagnostics = { fields, warnings, quality };
+
+  if (CORE_FIELDS.every(field => fields[field]!.strategy === 'default')) {
+    return { success: false, data, parser, diagnostics, error: 'Nenhum metadado reconhecido (ECLI, processo, data ou relator)' };
+  }
+  return { success: true, data, parser, diagnostics };
+};
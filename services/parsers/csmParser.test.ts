@@ -0,0 +1,79 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { csmParser, parseCsmHtml } from './csmParser';
+
+const fixture = (name: string) => readFileSync(resolve(__dirname, '__fixtures__', name), 'utf8');
+
+const URL_CSM = 'https://jurisprudencia.csm.org.pt/ecli/ECLI:PT:TRL:2021:4567.19.0T8LSB.L1.7/';
+
+const EXPECTED_FIELDS = {
+  ecli: 'ECLI:PT:TRL:2021:4567.19.0T8LSB.L1.7',
+  id: 'ECLI:PT:TRL:2021:4567.19.0T8LSB.L1.7',
+  processo: '4567/19.0T8LSB.L1-7',
+  data: '09-02-2021',
+  dataIso: '2021-02-09',
+  relator: 'Luís Filipe Pires de Sousa',
+  adjuntos: ['Carla Câmara', 'José Capacete'],
+  descritores: ['Contrato de arrendamento', 'Resolução', 'Falta de pagamento de rendas'],
+  sumario: 'I - A falta de pagamento de rendas por período superior a três meses torna inexigível ao senhorio a manutenção do arrendamento (art. 1083.º, n.º 3, do CC).',
+  fonte: 'csm',
+  disposicoes: [{ diploma: 'CC', artigo: '1083', numero: '3' }, { diploma: 'CC', artigo: '1083' }],
+};
+
+describe.each([
+  ['HTML da página', 'csm.html', 'css-selector', 0.95],
+  ['texto copiado', 'csm.txt', 'labelled-regex', 0.85],
+])('parseCsmHtml (%s)', (_label, file, strategy, confidence) => {
+  const result = parseCsmHtml(fixture(file), URL_CSM);
+
+  it('preenche todos os campos do acórdão', () => {
+    expect(result.success).toBe(true);
+    expect(result.parser).toBe('csm');
+    expect(result.data).toMatchObject({ ...EXPECTED_FIELDS, url: URL_CSM });
+  });
+
+  it('delimita o texto integral', () => {
+    const texto = result.data!.textoIntegral!;
+    expect(texto.startsWith('Acordam os juízes do Tribunal da Relação de Lisboa:')).toBe(true);
+    expect(texto).toContain('Julga-se a apelação improcedente.');
+    expect(texto).not.toContain('Descritores');
+  });
+
+  it('regista a estratégia e a confiança de cada campo', () => {
+    const { fields, warnings } = result.diagnostics!;
+    (['ecli', 'processo', 'data', 'relator', 'descritores', 'sumario', 'textoIntegral'] as const).forEach(field => {
+      expect(fields[field]).toEqual({ strategy, confidence });
+    });
+    expect(fields.adjuntos).toEqual({ strategy: 'heuristic', confidence: 0.5 });
+    expect(warnings).toEqual([]);
+  });
+});
+
+describe('parseCsmHtml', () => {
+  it('encontra os adjuntos mesmo com o nome do relator em maiúsculas no fim', () => {
+    expect(fixture('csm.txt')).toContain('LUÍS FILIPE PIRES DE SOUSA');
+    expect(parseCsmHtml(fixture('csm.txt'), '').data!.adjuntos).toEqual(['Carla Câmara', 'José Capacete']);
+  });
+
+  it('usa o ECLI da URL quando a página não o mostra', () => {
+    const content = fixture('csm.txt').replace(/^ECLI:.*\n/m, '');
+    const result = parseCsmHtml(content, URL_CSM);
+    expect(result.data!.ecli).toBe('ECLI:PT:TRL:2021:4567.19.0T8LSB.L1.7');
+    expect(result.diagnostics!.fields.ecli!.strategy).toBe('url-fallback');
+  });
+
+  it('sem texto integral delimitado, usa a página inteira e avisa', () => {
+    const content = fixture('csm.txt').replace('Decisão Texto Integral: ', '');
+    const result = parseCsmHtml(content, '');
+    expect(result.diagnostics!.fields.textoIntegral!.strategy).toBe('whole-page');
+    expect(result.diagnostics!.warnings).toContain('Texto integral igual à página inteira');
+  });
+
+  it('é escolhido pela URL ou pelas classes do site', () => {
+    expect(csmParser.matches('', URL_CSM)).toBe(true);
+    expect(csmParser.matches(fixture('csm.html'), '')).toBe(true);
+    expect(csmParser.matches(fixture('dgsi.txt'), '')).toBe(false);
+  });
+});
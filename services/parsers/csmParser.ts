@@ -0,0 +1,109 @@
+
+import { ExtractionResult, Acordao, DiagnosedField, ExtractionStrategy } from '../../types';
+import { canonicalAcordaoId } from '../ecliService';
+import { cleanEcli, ecliFromUrl, extractAdjuntos, finishExtraction, looksLikeHtml, SourceParser, splitDescritores } from './common';
+
+/**
+ * Service to parse content from https://jurisprudencia.csm.org.pt/
+ * Supports both HTML and Plain Text (pasted via Ctrl+A / Ctrl+V)
+ */
+export const parseCsmHtml = (content: string, url: string): ExtractionResult => {
+  try {
+    // 1. Verificar se parece HTML. Se não, tratamos como texto simples.
+    const isHtml = looksLikeHtml(content);
+    
+    let ecli = 'Desconhecido';
+    let processo = 'Desconhecido';
+    let data = 'Desconhecida';
+    let relator = 'Desconhecido';
+    let descritores: string[] = [];
+    let sumario = '';
+    let textoIntegral = '';
+    let adjuntos: string[] = [];
+    // Estratégia que encontrou cada campo (diagnóstico)
+    const strategies: Partial<Record<DiagnosedField, ExtractionStrategy>> = {};
+    const found = (field: DiagnosedField, value: string | null | undefined, strategy: ExtractionStrategy) => {
+      if (value && !strategies[field]) strategies[field] = strategy;
+      return value;
+    };
+
+    // Normalizar texto bruto para extração
+    const textContent = isHtml ? 
+      new DOMParser().parseFromString(content, 'text/html').body.textContent || '' : 
+      content;
+    
+    const normalizedText = textContent.replace(/\r\n/g, '\n');
+
+    if (isHtml) {
+      const parser = new DOMParser();
+      const doc = parser.parseFromString(content, 'text/html');
+
+      ecli = found('ecli', doc.querySelector('.ecli-id, .field-name-ecli')?.textContent?.trim(), 'css-selector') || 
+             found('ecli', Array.from(doc.querySelectorAll('h2, div, span')).find(el => el.textContent?.startsWith('ECLI:'))?.textContent?.trim(), 'heuristic') || 'Desconhecido';
+
+      processo = found('processo', doc.querySelector('.field-name-processo .field-item, .process-number')?.textContent?.trim(), 'css-selector') || 'Desconhecido';
+      data = found('data', doc.querySelector('.field-name-data-do-acordao .field-item, .judgment-date')?.textContent?.trim(), 'css-selector') || 'Desconhecida';
+      relator = found('relator', doc.querySelector('.field-name-relator .field-item, .judge-name')?.textContent?.trim(), 'css-selector') || 'Desconhecido';
+      
+      const descRaw = found('descritores', doc.querySelector('.field-name-descritores .field-items')?.textContent, 'css-selector') || '';
+      descritores = splitDescritores(descRaw);
+
+      sumario = found('sumario', doc.querySelector('.field-name-sumario .field-item, #sumario')?.textContent?.trim(), 'css-selector') || '';
+      textoIntegral = found('textoIntegral', doc.querySelector('.field-name-texto-integral .field-item, #texto-integral')?.textContent?.trim(), 'css-selector') ||
+                      found('textoIntegral', doc.body?.textContent?.trim(), 'whole-page') || '';
+    } else {
+      // 2. EXTRAÇÃO POR TEXTO SIMPLES (Ctrl+V)
+      const extract = (pattern: RegExp, field?: DiagnosedField) => {
+        const match = normalizedText.match(pattern);
+        return match ? field ? found(field, match[1].trim(), 'labelled-regex') : match[1].trim() : null;
+      };
+
+      ecli = extract(/ECLI:\s*(ECLI:PT:[A-Z]+:[0-9]+:[^ \n]+)/i, 'ecli') || 
+             found('ecli', extract(/(ECLI:PT:[A-Z]+:[0-9]+:[^ \n]+)/i), 'heuristic') || 'Desconhecido';
+
+      processo = extract(/(?:Processo:|N\.[º°] do Processo:)\s*([^\n]+)/i, 'processo') || 'Desconhecido';
+      data = extract(/(?:Data do Acórdão:|Data:)\s*([^\n]+)/i, 'data') || 'Desconhecida';
+      relator = extract(/Relator:\s*([^\n]+)/i, 'relator') || 'Desconhecido';
+      
+      const descRaw = extract(/Descritores:\s*([^\n]+)/i, 'descritores') || '';
+      descritores = splitDescritores(descRaw);
+
+      // REGRA: Sumário surge depois de "sumário:" e vai até "Decisão Texto Parcial", "Decisão Texto Integral" ou "Texto integral"
+      const sumarioMatch = normalizedText.match(/Sumário:\s*([\s\S]*?)(?=Decisão Texto Parcial|Decisão Texto Integral|Texto integral|Texto Integral|$)/i);
+      sumario = found('sumario', sumarioMatch ? sumarioMatch[1].trim() : '', 'labelled-regex') || '';
+
+      const textoMatch = normalizedText.match(/(?:Texto Integral:|Texto integral:|Decisão Texto Integral:)\s*([\s\S]*)/i);
+      textoIntegral = textoMatch ? found('textoIntegral', textoMatch[1].trim(), 'labelled-regex') || '' : found('textoIntegral', normalizedText, 'whole-page') || '';
+    }
+
+    adjuntos = extractAdjuntos(normalizedText, relator);
+    if (adjuntos.length > 0) strategies.adjuntos = 'heuristic';
+
+    ecli = ecli === 'Desconhecido' ? found('ecli', ecliFromUrl(url), 'url-fallback') || ecli : cleanEcli(ecli);
+
+    const dataObj: Partial<Acordao> = {
+      ecli,
+      processo,
+      data,
+      relator,
+      descritores,
+      sumario,
+      textoIntegral,
+      adjuntos,
+      url,
+      fonte: 'csm',
+    };
+    dataObj.id = canonicalAcordaoId(dataObj);
+
+    return finishExtraction('csm', dataObj, strategies, normalizedText);
+  } catch (error) {
+    return { success: false, error: (error as Error).message, parser: 'csm' };
+  }
+};
+
+export const csmParser: SourceParser = {
+  id: 'csm',
+  label: 'CSM (jurisprudencia.csm.org.pt)',
+  matches: (content, url) => url.includes('csm.org.pt') || content.includes('field-name-'),
+  parse: parseCsmHtml,
+};
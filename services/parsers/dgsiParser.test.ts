@@ -0,0 +1,101 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { dgsiCourtFromUrl, dgsiParser, parseDgsiHtml } from './dgsiParser';
+
+const fixture = (name: string) => readFileSync(resolve(__dirname, '__fixtures__', name), 'utf8');
+
+const URL_STJ = 'http://www.dgsi.pt/jstj.nsf/954f0ce6ad9dd8b980256b5f003fa814/0a1b2c3d?OpenDocument';
+
+const EXPECTED_FIELDS = {
+  ecli: 'ECLI:PT:STJ:2020:1234.18.5T8LSB.L1.S1',
+  id: 'ECLI:PT:STJ:2020:1234.18.5T8LSB.L1.S1',
+  processo: '1234/18.5T8LSB.L1.S1',
+  data: '12/03/2020',
+  dataIso: '2020-03-12',
+  relator: 'MARIA DOS PRAZERES PIZARRO BELEZA',
+  adjuntos: ['Olindo dos Santos Geraldes', 'Fátima Gomes'],
+  descritores: ['RESPONSABILIDADE CIVIL', 'ACIDENTE DE VIAÇÃO', 'DANOS NÃO PATRIMONIAIS'],
+  sumario: 'I - A compensação por danos não patrimoniais deve ser fixada equitativamente, nos termos do art. 496.º, n.º 4, do CC.\n'
+    + 'II - O tribunal atende à gravidade do dano e à culpa do lesante.',
+  fonte: 'dgsi',
+  numeroConvencional: '2ª SECÇÃO',
+  numeroDocumento: 'SJ',
+  votacao: 'UNANIMIDADE',
+  meioProcessual: 'REVISTA',
+  decisao: 'NEGADA A REVISTA.',
+  areaTematica: 'DIREITO CIVIL - DIREITO DAS OBRIGAÇÕES',
+  tribunalRecurso: 'TRIBUNAL DA RELAÇÃO DE LISBOA',
+  legislacaoNacional: 'CÓDIGO CIVIL (CC): - ARTIGOS 483.º, 496.º',
+  jurisprudenciaNacional: 'ACÓRDÃO DO SUPREMO TRIBUNAL DE JUSTIÇA DE 07/05/2014, PROC. N.º 436/07.6TBVRL.P1.S1',
+  disposicoes: [{ diploma: 'CC', artigo: '496', numero: '4' }, { diploma: 'CC', artigo: '483' }],
+};
+
+describe.each([
+  ['HTML da página', 'dgsi.html', 'table-row', 0.95],
+  ['texto copiado', 'dgsi.txt', 'labelled-regex', 0.85],
+])('parseDgsiHtml (%s)', (_label, file, strategy, confidence) => {
+  const result = parseDgsiHtml(fixture(file), URL_STJ);
+
+  it('preenche todos os campos do acórdão', () => {
+    expect(result.success).toBe(true);
+    expect(result.parser).toBe('dgsi');
+    expect(result.data).toMatchObject({ ...EXPECTED_FIELDS, url: URL_STJ, tribunal: 'STJ' });
+  });
+
+  it('delimita o texto integral, sem os metadados da tabela', () => {
+    const texto = result.data!.textoIntegral!;
+    expect(texto.startsWith('Acordam no Supremo Tribunal de Justiça:')).toBe(true);
+    expect(texto).toContain('Pelo exposto, nega-se a revista.');
+    expect(texto).not.toContain('Meio Processual');
+    expect(texto.trim().endsWith('Fátima Gomes')).toBe(true);
+  });
+
+  it('regista a estratégia e a confiança de cada campo', () => {
+    const { fields, warnings, quality } = result.diagnostics!;
+    (['processo', 'data', 'relator', 'descritores', 'sumario', 'textoIntegral'] as const).forEach(field => {
+      expect(fields[field]).toEqual({ strategy, confidence });
+    });
+    expect(fields.ecli).toEqual({ strategy, confidence });
+    expect(fields.adjuntos).toEqual({ strategy: 'heuristic', confidence: 0.5 });
+    expect(warnings).toEqual([]);
+    expect(quality).toBeGreaterThan(0.7);
+  });
+});
+
+describe('parseDgsiHtml', () => {
+  it('usa o ECLI da URL quando não está na tabela', () => {
+    const content = fixture('dgsi.txt').replace(/^ECLI:.*\n/m, '');
+    const result = parseDgsiHtml(content, 'http://www.dgsi.pt/jstj.nsf/x/y?OpenDocument&ecli=ECLI%3APT%3ASTJ%3A2020%3A1234.18.5T8LSB.L1.S1');
+    expect(result.data!.ecli).toBe('ECLI:PT:STJ:2020:1234.18.5T8LSB.L1.S1');
+    expect(result.diagnostics!.fields.ecli!.strategy).toBe('url-fallback');
+  });
+
+  it('não toma como seu o ECLI de um acórdão citado no texto', () => {
+    const result = parseDgsiHtml(fixture('dgsi-citacao.html'), URL_STJ);
+    expect(result.data!.processo).toBe('999/19.0T8PRT.P1.S1');
+    expect(result.data!.ecli).toBe('Desconhecido');
+    expect(result.data!.id).toBe('PROC:999/19.0T8PRT.P1.S1');
+    expect(result.diagnostics!.fields.ecli).toEqual({ strategy: 'default', confidence: 0 });
+  });
+
+  it('lê o ECLI de uma linha "ECLI:" antes do texto integral', () => {
+    const content = fixture('dgsi-citacao.html').replace('<table>', '<p>ECLI: ECLI:PT:STJ:2020:999.19.0T8PRT.P1.S1</p>\n<table>');
+    const result = parseDgsiHtml(content, URL_STJ);
+    expect(result.data!.ecli).toBe('ECLI:PT:STJ:2020:999.19.0T8PRT.P1.S1');
+    expect(result.diagnostics!.fields.ecli!.strategy).toBe('labelled-regex');
+  });
+
+  it('deduz o tribunal da base de dados da URL', () => {
+    expect(dgsiCourtFromUrl(URL_STJ)).toBe('STJ');
+    expect(dgsiCourtFromUrl('http://www.dgsi.pt/jtrl.nsf/abc/def')).toBe('TRL');
+    expect(dgsiCourtFromUrl('https://jurisprudencia.csm.org.pt/')).toBeNull();
+  });
+
+  it('é escolhido pela URL ou pelas etiquetas próprias do DGSI', () => {
+    expect(dgsiParser.matches('', URL_STJ)).toBe(true);
+    expect(dgsiParser.matches(fixture('dgsi.txt'), '')).toBe(true);
+    expect(dgsiParser.matches(fixture('csm.txt'), '')).toBe(false);
+  });
+});
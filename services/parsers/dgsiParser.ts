@@ -0,0 +1,190 @@
+import { Acordao, DiagnosedField, ExtractionResult, ExtractionStrategy } from '../../types';
+import { normalizeText } from '../textService';
+import { canonicalAcordaoId, findEcli } from '../ecliService';
+import { ecliFromUrl, extractAdjuntos, finishExtraction, looksLikeHtml, SourceParser, splitDescritores } from './common';
+
+/**
+ * Parser para as bases jurídico-documentais do ITIJ (https://www.dgsi.pt/).
+ * As páginas apresentam os metadados numa tabela "Etiqueta: | Valor" (Processo, Nº Convencional,
+ * Relator, Descritores, Data do Acordão, Votação, Meio Processual, Decisão, Área Temática, ...).
+ * Suporta o HTML da página e o texto copiado com Ctrl+A / Ctrl+C, que mantém a mesma ordem.
+ */
+
+type DgsiField =
+  | 'ecli' | 'processo' | 'numeroConvencional' | 'relator' | 'descritores' | 'numeroDocumento' | 'data'
+  | 'votacao' | 'meioProcessual' | 'decisao' | 'areaTematica' | 'tribunalRecurso'
+  | 'legislacaoNacional' | 'jurisprudenciaNacional' | 'sumario' | 'textoIntegral' | 'ignorado';
+
+// Etiquetas normalizadas (sem acentos, "º" nem pontuação final) -> campo
+const LABELS: Record<string, DgsiField> = {
+  'ecli': 'ecli',
+  'processo': 'processo',
+  'n convencional': 'numeroConvencional',
+  'relator': 'relator',
+  'descritores': 'descritores',
+  'n do documento': 'numeroDocumento',
+  'data do acordao': 'data',
+  'votacao': 'votacao',
+  'meio processual': 'meioProcessual',
+  'decisao': 'decisao',
+  'area tematica': 'areaTematica',
+  'tribunal recurso': 'tribunalRecurso',
+  'legislacao nacional': 'legislacaoNacional',
+  'jurisprudencia nacional': 'jurisprudenciaNacional',
+  'sumario': 'sumario',
+  'decisao texto integral': 'textoIntegral',
+  'decisao texto parcial': 'textoIntegral',
+  // Campos conhecidos sem correspondência no Acordao: reconhecidos apenas para delimitar os outros.
+  'texto integral': 'ignorado',
+  'privacidade': 'ignorado',
+  'apenso': 'ignorado',
+  'data do apenso': 'ignorado',
+  'processo no tribunal recurso': 'ignorado',
+  'data dec recorrida': 'ignorado',
+  'referencia de publicacao': 'ignorado',
+  'indicacoes eventuais': 'ignorado',
+  'recorrente': 'ignorado',
+  'recorrido': 'ignorado',
+  'recorrido 1': 'ignorado',
+  'aditamento': 'ignorado',
+  'parecer ministerio publico': 'ignorado',
+};
+
+// Base de dados do DGSI (primeiro segmento da URL) -> código de tribunal
+export const DGSI_DATABASES: Record<string, string> = {
+  'jstj.nsf': 'STJ',
+  'jsta.nsf': 'STA',
+  'jtrl.nsf': 'TRL',
+  'jtrp.nsf': 'TRP',
+  'jtrc.nsf': 'TRC',
+  'jtrg.nsf': 'TRG',
+  'jtre.nsf': 'TRE',
+  'jtca.nsf': 'TCAS',
+  'jtcn.nsf': 'TCAN',
+  'jcon.nsf': 'TCONF',
+};
+
+const normalizeLabel = (label: string): string =>
+  normalizeText(label).replace(/[º°ª.:]/g, '').replace(/\s+/g, ' ').trim();
+
+export const dgsiCourtFromUrl = (url: string): string | null => {
+  const match = url.toLowerCase().match(/dgsi\.pt\/([a-z0-9]+\.nsf)/);
+  return match ? DGSI_DATABASES[match[1]] || null : null;
+};
+
+/** HTML: cada linha da tabela com duas células é um par etiqueta/valor. */
+const readHtmlFields = (content: string): Map<DgsiField, string> => {
+  const fields = new Map<DgsiField, string>();
+  // <br> separa descritores e parágrafos; sem isto o textContent junta tudo na mesma linha.
+  const doc = new DOMParser().parseFromString(content.replace(/<br\s*\/?>/gi, '\n'), 'text/html');
+  doc.querySelectorAll('tr').forEach(row => {
+    const cells = Array.from(row.children).filter(c => c.tagName === 'TD' || c.tagName === 'TH');
+    if (cells.length < 2) return;
+    const field = LABELS[normalizeLabel(cells[0].textContent || '')];
+    if (!field || field === 'ignorado' || fields.has(field)) return;
+    const value = cells.slice(1).map(c => c.textContent || '').join('\n').trim();
+    if (value) fields.set(field, value);
+  });
+  return fields;
+};
+
+/** Texto colado: uma etiqueta no início da linha abre um campo que continua até à etiqueta seguinte. */
+const readTextFields = (text: string): Map<DgsiField, string> => {
+  const collected = new Map<DgsiField, string[]>();
+  let current: DgsiField | null = null;
+
+  for (const line of text.split('\n')) {
+    // O texto integral é sempre o último campo: a partir daí, "Decisão:" já é conteúdo do acórdão.
+    const labelMatch = current === 'textoIntegral' ? null : line.match(/^\s*([^:\t]{2,45}?)\s*(?::|\t)\s*(.*)$/);
+    const field = labelMatch ? LABELS[normalizeLabel(labelMatch[1])] : undefined;
+    if (field && !collected.has(field)) {
+      current = field;
+      collected.set(field, labelMatch![2] ? [labelMatch![2]] : []);
+    } else if (current) {
+      collected.get(current)!.push(line);
+    }
+  }
+
+  const fields = new Map<DgsiField, string>();
+  collected.forEach((lines, field) => {
+    const value = lines.join('\n').trim();
+    if (field !== 'ignorado' && value) fields.set(field, value);
+  });
+  return fields;
+};
+
+/** Valor da etiqueta "ECLI": numa linha que começa pelo próprio ECLI, a etiqueta lida é o prefixo "ECLI". */
+const labelledEcli = (value?: string): string | null =>
+  value ? findEcli(value) || findEcli(`ECLI:${value}`) : null;
+
+export const parseDgsiHtml = (content: string, url: string): ExtractionResult => {
+  try {
+    const isHtml = looksLikeHtml(content);
+    const fields = isHtml ? readHtmlFields(content) : readTextFields(content.replace(/\r\n/g, '\n'));
+
+    const textContent = isHtml
+      ? new DOMParser().parseFromString(content, 'text/html').body.textContent || ''
+      : content;
+    const normalizedText = textContent.replace(/\r\n/g, '\n');
+
+    const oneLine = (field: DgsiField) => fields.get(field)?.split('\n')[0].trim();
+    const relator = oneLine('relator') || 'Desconhecido';
+    const textoIntegral = fields.get('textoIntegral') || normalizedText.trim();
+
+    // O ECLI só se lê da tabela, de uma linha "ECLI:" antes do texto integral ou da URL: o texto do
+    // acórdão cita outras decisões pelo ECLI, e um ECLI citado tomaria a identidade da decisão citada.
+    const ecliInTable = labelledEcli(fields.get('ecli'));
+    const ecliInLine = ecliInTable || !isHtml ? null : labelledEcli(readTextFields(normalizedText).get('ecli'));
+    const ecliInUrl = ecliInTable || ecliInLine ? null : ecliFromUrl(url);
+    const ecli = ecliInTable || ecliInLine || ecliInUrl || 'Desconhecido';
+
+    // Diagnóstico: os campos da tabela vêm da linha "Etiqueta | Valor" (HTML) ou "Etiqueta:" (texto)
+    const fieldStrategy: ExtractionStrategy = isHtml ? 'table-row' : 'labelled-regex';
+    const strategies: Partial<Record<DiagnosedField, ExtractionStrategy>> = {};
+    (['processo', 'data', 'relator', 'descritores', 'sumario', 'textoIntegral'] as const).forEach(field => {
+      if (fields.has(field)) strategies[field] = fieldStrategy;
+    });
+    if (!fields.has('textoIntegral')) strategies.textoIntegral = 'whole-page';
+    if (ecliInTable) strategies.ecli = fieldStrategy;
+    else if (ecliInLine) strategies.ecli = 'labelled-regex';
+    else if (ecliInUrl) strategies.ecli = 'url-fallback';
+
+    const dataObj: Partial<Acordao> = {
+      ecli,
+      processo: oneLine('processo') || 'Desconhecido',
+      data: oneLine('data') || 'Desconhecida',
+      relator,
+      descritores: splitDescritores(fields.get('descritores') || ''),
+      sumario: fields.get('sumario') || '',
+      textoIntegral,
+      adjuntos: extractAdjuntos(textoIntegral, relator),
+      url,
+      fonte: 'dgsi',
+      tribunal: dgsiCourtFromUrl(url) || undefined,
+      numeroConvencional: oneLine('numeroConvencional'),
+      numeroDocumento: oneLine('numeroDocumento'),
+      meioProcessual: oneLine('meioProcessual'),
+      votacao: oneLine('votacao'),
+      decisao: fields.get('decisao'),
+      areaTematica: fields.get('areaTematica'),
+      tribunalRecurso: oneLine('tribunalRecurso'),
+      legislacaoNacional: fields.get('legislacaoNacional'),
+      jurisprudenciaNacional: fields.get('jurisprudenciaNacional'),
+    };
+    dataObj.id = canonicalAcordaoId(dataObj);
+    if (dataObj.adjuntos!.length > 0) strategies.adjuntos = 'heuristic';
+
+    return finishExtraction('dgsi', dataObj, strategies, normalizedText);
+  } catch (error) {
+    return { success: false, error: (error as Error).message, parser: 'dgsi' };
+  }
+};
+
+export const dgsiParser: SourceParser = {
+  id: 'dgsi',
+  label: 'DGSI (www.dgsi.pt)',
+  matches: (content, url) =>
+    url.toLowerCase().includes('dgsi.pt') ||
+    (/N[º°]\s*Convencional/i.test(content) && /Meio\s+Processual/i.test(content)),
+  parse: parseDgsiHtml,
+};
@@ -0,0 +1,58 @@
+import { ModelSettings, ProviderKind } from '../types';
+import { ModelClient, ModelProvider } from './modelClient';
+import { geminiProvider } from './providers/geminiProvider';
+import { DEFAULT_OPENAI_BASE_URL, openAiProvider } from './providers/openAiProvider';
+import { mockProvider } from './providers/mockProvider';
+import { DEFAULT_TOKEN_BUDGET } from './retrievalService';
+
+export { createFakeModelClient } from './providers/mockProvider';
+export type { ModelProvider } from './modelClient';
+
+/**
+ * Registo de fornecedores de modelos e definições do utilizador (fornecedor, modelo,
+ * temperatura, limites de contexto). As definições ficam no localStorage deste navegador.
+ */
+const providers: Record<ProviderKind, ModelProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  mock: mockProvider,
+};
+
+export const listProviders = (): ModelProvider[] => Object.values(providers);
+
+export const getProvider = (id: ProviderKind): ModelProvider => providers[id] || geminiProvider;
+
+export const createModelClient = (settings: ModelSettings): ModelClient =>
+  getProvider(settings.provider).createClient(settings);
+
+const SETTINGS_KEY = 'jurisanalyzer.modelSettings';
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  provider: 'gemini',
+  model: geminiProvider.defaultModel,
+  temperature: 0.1, // Precision and consistency are required for legal tasks.
+  tokenBudget: DEFAULT_TOKEN_BUDGET,
+};
+
+/** Definições ao mudar de fornecedor: modelo e endereço por omissão do novo fornecedor. */
+export const switchProvider = (settings: ModelSettings, id: ProviderKind): ModelSettings => ({
+  ...settings,
+  provider: id,
+  model: getProvider(id).defaultModel,
+  baseUrl: getProvider(id).needsBaseUrl ? settings.baseUrl || DEFAULT_OPENAI_BASE_URL : undefined,
+});
+
+export const loadModelSettings = (): ModelSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    const settings = { ...DEFAULT_MODEL_SETTINGS, ...stored };
+    return settings.provider in providers ? settings : DEFAULT_MODEL_SETTINGS;
+  } catch {
+    return DEFAULT_MODEL_SETTINGS;
+  }
+};
+
+// A chave de API, se existir, é gravada tal como está: o localStorage não é cifrado (aviso nas definições).
+export const saveModelSettings = (settings: ModelSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
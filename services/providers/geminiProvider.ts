@@ -0,0 +1,32 @@
+import { GoogleGenAI } from "@google/genai";
+import { abortError, ModelProvider } from "../modelClient";
+
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-3-pro-preview',
+  needsBaseUrl: false,
+  isLocal: () => false,
+  createClient: settings => ({
+    async *stream(request, signal) {
+      // Sem chave nas definições, usa a chave configurada no build (process.env.API_KEY).
+      const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+      const response = await ai.models.generateContentStream({
+        model: settings.model || geminiProvider.defaultModel,
+        contents: request.contents.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+        config: {
+          systemInstruction: request.systemInstruction,
+          temperature: request.temperature,
+          maxOutputTokens: request.maxOutputTokens,
+          abortSignal: signal,
+          ...(request.responseSchema ? { responseMimeType: 'application/json', responseSchema: request.responseSchema } : {}),
+        },
+      });
+      for await (const chunk of response) {
+        // O SDK não interrompe o iterador por si; o sinal é verificado a cada fragmento.
+        if (signal?.aborted) throw abortError();
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  }),
+};
@@ -0,0 +1,89 @@
+import { ModelClient, ModelProvider, ModelRequest, abortError, sleep } from "../modelClient";
+
+/**
+ * Cliente local que devolve fragmentos pré-definidos, com atraso opcional entre eles.
+ * `failures` são lançados, um por pedido, antes de qualquer fragmento (para testar as novas tentativas).
+ */
+export const createFakeModelClient = (chunks: string[], delayMs = 0, failures: unknown[] = []): ModelClient => {
+  let calls = 0;
+  return {
+    async *stream(_request, signal) {
+      if (calls < failures.length) throw failures[calls++];
+      calls++;
+      for (const chunk of chunks) {
+        if (delayMs > 0) await sleep(delayMs, signal);
+        if (signal?.aborted) throw abortError();
+        yield chunk;
+      }
+    },
+  };
+};
+
+const CHUNK_SIZE = 48;
+
+/**
+ * Resposta determinística construída a partir dos documentos presentes no contexto
+ * (cabeçalhos "ID:", "Processo:", "Data:" gerados por formatContext).
+ */
+export const mockAnalysisFor = (request: ModelRequest): string => {
+  const prompt = request.contents[request.contents.length - 1]?.text || '';
+  const documents = prompt.split('DOCUMENTO:').slice(1).map(block => ({
+    id: block.match(/^ID: (.*)$/m)?.[1] || '',
+    processo: block.match(/^Processo: (.*)$/m)?.[1] || '',
+    data: block.match(/^Data: (.*)$/m)?.[1] || '',
+  }));
+  const question = prompt.match(/PERGUNTA: ([\s\S]*)$/)?.[1]?.trim() || '';
+
+  return JSON.stringify({
+    introducao: `Resposta simulada (fornecedor de teste) para: "${question}". ${documents.length} acórdão(s) no contexto.`,
+    posicoes: documents.length === 0 ? [] : [{
+      titulo: 'Posição simulada',
+      resumo: 'Texto gerado localmente, sem envio de dados para qualquer serviço.',
+      argumentos: ['Os acórdãos citados são os primeiros do contexto.'],
+      acordaos: documents.slice(0, 3),
+    }],
+    divergencia: '',
+    conclusao: 'Fim da resposta simulada.',
+  });
+};
+
+/** Rótulos simulados para o mapa de teses: um por cada "GRUPO n (...; termos: ...)" do pedido. */
+const mockClusterLabelsFor = (prompt: string): string | null => {
+  const groups = Array.from(prompt.matchAll(/^GRUPO (\d+) \(.*?termos: (.*)\)$/gm));
+  if (groups.length === 0) return null;
+  return JSON.stringify({
+    grupos: groups.map(([, n, terms]) => ({
+      grupo: Number(n),
+      titulo: `Tese simulada: ${terms}`,
+      resumo: 'Rótulo gerado localmente pelo fornecedor de teste.',
+    })),
+  });
+};
+
+/** Descritores simulados: os dois primeiros descritores do arquivo para cada "ACÓRDÃO n (...)" do pedido. */
+const mockDescritoresFor = (prompt: string): string | null => {
+  const acordaos = Array.from(prompt.matchAll(/^ACÓRDÃO (\d+) \(/gm));
+  if (acordaos.length === 0) return null;
+  const known = (prompt.match(/^DESCRITORES DO ARQUIVO: (.*)$/m)?.[1] || '').split('; ').filter(Boolean);
+  return JSON.stringify({
+    sugestoes: acordaos.map(([, n]) => ({ acordao: Number(n), descritores: known.length ? known.slice(0, 2) : ['Descritor simulado'] })),
+  });
+};
+
+export const mockProvider: ModelProvider = {
+  id: 'mock',
+  label: 'Simulado (testes, sem rede)',
+  defaultModel: 'mock',
+  needsBaseUrl: false,
+  isLocal: () => true,
+  createClient: () => ({
+    async *stream(request, signal) {
+      const prompt = request.contents[request.contents.length - 1]?.text || '';
+      const text = mockClusterLabelsFor(prompt) ?? mockDescritoresFor(prompt) ?? mockAnalysisFor(request);
+      for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+        if (signal?.aborted) throw abortError();
+        yield text.slice(i, i + CHUNK_SIZE);
+      }
+    },
+  }),
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { isLocalEndpoint, openAiProvider } from './openAiProvider';
+
+describe('isLocalEndpoint', () => {
+  it('aceita a própria máquina e as redes privadas', () => {
+    [
+      'http://localhost:11434/v1', 'http://127.0.0.1:8080/v1', 'http://[::1]:8000/v1', 'http://10.0.0.5/v1',
+      'http://172.16.3.4:8000/v1', 'http://172.31.255.1/v1', 'http://192.168.1.20:11434/v1', 'http://gpu-box.local:8000/v1',
+    ].forEach(url => expect(isLocalEndpoint(url), url).toBe(true));
+  });
+
+  it('trata como remotos os restantes endereços e os inválidos', () => {
+    [
+      'https://api.openai.com/v1', 'http://172.32.0.1/v1', 'http://8.8.8.8/v1', 'http://192.169.0.1/v1',
+      'https://localhost.example.com/v1', 'http://10.0.0.5.nip.io/v1', 'não é um endereço',
+    ].forEach(url => expect(isLocalEndpoint(url), url).toBe(false));
+  });
+
+  it('decide o fornecedor a partir do endereço configurado', () => {
+    const settings = { provider: 'openai' as const, model: 'x', temperature: 0, tokenBudget: 1000 };
+    expect(openAiProvider.isLocal(settings)).toBe(true);
+    expect(openAiProvider.isLocal({ ...settings, baseUrl: 'https://api.openai.com/v1' })).toBe(false);
+  });
+});
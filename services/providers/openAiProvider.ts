@@ -0,0 +1,89 @@
+import { ModelProvider } from "../modelClient";
+
+/**
+ * Qualquer servidor com a API /chat/completions da OpenAI: Ollama (http://localhost:11434/v1),
+ * llama.cpp server (http://localhost:8080/v1), vLLM, etc. A resposta é lida em streaming (SSE).
+ */
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+const PRIVATE_IPV4 = /^(?:127\.\d+|10\.\d+|172\.(?:1[6-9]|2\d|3[01])|192\.168)\.\d+\.\d+$/;
+
+/**
+ * true se o endereço aponta para esta máquina ou para a rede local: localhost, 127.x, ::1,
+ * 10/8, 172.16/12, 192.168/16 e nomes .local. Um endereço inválido conta como remoto.
+ */
+export const isLocalEndpoint = (baseUrl: string): boolean => {
+  let host: string;
+  try {
+    host = new URL(baseUrl).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local')
+    || host === '[::1]' || PRIVATE_IPV4.test(host);
+};
+
+const httpError = (status: number, message: string) =>
+  Object.assign(new Error(`HTTP ${status}: ${message}`), { status });
+
+/** Extrai o texto de cada evento "data: {...}" de um stream SSE de chat completions. */
+async function* readSse(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.trim().startsWith('data:') || !data || data === '[DONE]') continue;
+        const text = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export const openAiProvider: ModelProvider = {
+  id: 'openai',
+  label: 'Compatível com OpenAI (Ollama, llama.cpp, vLLM)',
+  defaultModel: 'llama3.1',
+  needsBaseUrl: true,
+  isLocal: settings => isLocalEndpoint(settings.baseUrl || DEFAULT_OPENAI_BASE_URL),
+  createClient: settings => ({
+    async *stream(request, signal) {
+      const baseUrl = (settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: settings.model || openAiProvider.defaultModel,
+          stream: true,
+          temperature: request.temperature,
+          max_tokens: request.maxOutputTokens,
+          // O esquema Gemini não é portável; pede-se apenas JSON, descrito no prompt de sistema.
+          ...(request.responseSchema ? { response_format: { type: 'json_object' } } : {}),
+          messages: [
+            { role: 'system', content: request.systemInstruction },
+            ...request.contents.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+          ],
+        }),
+      });
+      if (!response.ok || !response.body) {
+        throw httpError(response.status, (await response.text().catch(() => '')) || response.statusText);
+      }
+      yield* readSse(response.body);
+    },
+  }),
+};
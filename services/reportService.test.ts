@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { ResearchSession } from '../types';
+import { sessionToDocx } from './reportService';
+import { readZip } from './zipService';
+
+const session = (content: string): ResearchSession => ({
+  id: 's1', name: 'Sessão\u0007 <teste>', scopeAcordaoIds: [], createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-01T00:00:00.000Z',
+  messages: [{ role: 'assistant', content, timestamp: '2024-01-01T00:00:00.000Z' }],
+});
+
+const documentXml = async (blob: Blob) => {
+  const entry = (await readZip(blob)).find(e => e.path === 'word/document.xml')!;
+  return new TextDecoder().decode(entry.data);
+};
+
+describe('sessionToDocx', () => {
+  it('remove os caracteres de controlo que o XML não admite e escapa os restantes', async () => {
+    const xml = await documentXml(sessionToDocx(session('Texto\u0000 colado\u000B de\u000C um\u001F PDF\u0008 & mais\tcom tabulação'), []));
+    expect(xml).not.toMatch(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/);
+    expect(xml).toContain('Texto colado de um PDF &amp; mais\tcom tabulação');
+    expect(xml).toContain('Sessão &lt;teste&gt;');
+  });
+});
@@ -0,0 +1,203 @@
+import { Acordao, ResearchSession, StructuredAnalysis } from '../types';
+import { courtCodeOf, courtName, COURTS } from './ecliService';
+import { acordaoDate, formatDate, formatDateLong } from './dateService';
+import { createZip } from './zipService';
+
+/**
+ * Exportação de uma sessão de pesquisa para peças processuais e pareceres: Markdown, HTML pronto
+ * a imprimir (PDF) e DOCX, com citações em estilo português e um anexo com as decisões citadas.
+ */
+
+export interface CitationOptions {
+  style: 'extenso' | 'abreviado';
+  dateFormat: 'numerica' | 'extenso';
+  includeRelator: boolean;
+  includeEcli: boolean;
+  includeUrl: boolean;
+}
+
+export const DEFAULT_CITATION_OPTIONS: CitationOptions = {
+  style: 'extenso',
+  dateFormat: 'numerica',
+  includeRelator: true,
+  includeEcli: true,
+  includeUrl: true,
+};
+
+type ReportBlock =
+  | { kind: 'heading'; level: 1 | 2 | 3; text: string }
+  | { kind: 'paragraph'; text: string; muted?: boolean }
+  | { kind: 'list'; items: string[] };
+
+const known = (value?: string) => !!value && value !== 'Desconhecido' && value !== 'Desconhecida';
+
+/** Ex.: "Acórdão do Supremo Tribunal de Justiça de 27/01/2022, proc. n.º 167/15.9T9GRD.C1.S1, Relator: …" */
+export const formatCitation = (a: Acordao, options: CitationOptions = DEFAULT_CITATION_OPTIONS): string => {
+  const code = courtCodeOf(a);
+  const iso = acordaoDate(a);
+  const date = iso ? (options.dateFormat === 'extenso' ? formatDateLong(iso) : formatDate(iso)) : a.data;
+  const hasCourt = code in COURTS;
+  const abbreviated = options.style === 'abreviado';
+
+  const parts = [
+    abbreviated
+      ? `Ac. ${hasCourt ? `do ${code} ` : ''}de ${date}`
+      : `Acórdão ${hasCourt ? `do ${courtName(code)} ` : ''}de ${date}`,
+    abbreviated ? `proc. ${a.processo}` : `proc. n.º ${a.processo}`,
+  ];
+  if (options.includeRelator && known(a.relator)) parts.push(abbreviated ? `rel. ${a.relator}` : `Relator: ${a.relator}`);
+  if (options.includeEcli && known(a.ecli)) parts.push(a.ecli);
+  if (options.includeUrl && a.url) parts.push(abbreviated ? a.url : `disponível em ${a.url}`);
+  return parts.join(', ');
+};
+
+const analysisBlocks = (
+  analysis: StructuredAnalysis,
+  byId: Map<string, Acordao>,
+  cited: Map<string, Acordao>,
+  options: CitationOptions
+): ReportBlock[] => {
+  const blocks: ReportBlock[] = [];
+  if (analysis.introducao) blocks.push({ kind: 'paragraph', text: analysis.introducao });
+  analysis.posicoes.forEach((position, i) => {
+    blocks.push({ kind: 'heading', level: 3, text: `Posição ${i + 1}: ${position.titulo}` });
+    if (position.resumo) blocks.push({ kind: 'paragraph', text: position.resumo });
+    if (position.argumentos.length > 0) blocks.push({ kind: 'list', items: position.argumentos });
+    const citations = position.citacoes.map(c => {
+      const record = c.acordaoId ? byId.get(c.acordaoId) : undefined;
+      if (!record) return `${c.processo} de ${c.data} [citação não verificada]`;
+      cited.set(record.id, record);
+      return formatCitation(record, options);
+    });
+    if (citations.length > 0) {
+      blocks.push({ kind: 'paragraph', text: 'Jurisprudência neste sentido:', muted: true });
+      blocks.push({ kind: 'list', items: citations });
+    }
+  });
+  if (analysis.divergencia) {
+    blocks.push({ kind: 'heading', level: 3, text: 'Núcleo da divergência' });
+    blocks.push({ kind: 'paragraph', text: analysis.divergencia });
+  }
+  if (analysis.conclusao) blocks.push({ kind: 'paragraph', text: analysis.conclusao });
+  return blocks;
+};
+
+const buildReport = (session: ResearchSession, acordaos: Acordao[], options: CitationOptions): ReportBlock[] => {
+  const byId = new Map(acordaos.map(a => [a.id, a]));
+  const cited = new Map<string, Acordao>();
+  const body: ReportBlock[] = [];
+  let question = 0;
+
+  session.messages.forEach(msg => {
+    if (msg.role === 'user') {
+      question++;
+      body.push({ kind: 'heading', level: 2, text: `Questão ${question}` });
+      body.push({ kind: 'paragraph', text: msg.content });
+    } else if (msg.analysis) {
+      body.push(...analysisBlocks(msg.analysis, byId, cited, options));
+    } else {
+      msg.content.split(/\n\s*\n/).filter(p => p.trim()).forEach(text => body.push({ kind: 'paragraph', text: text.trim() }));
+    }
+  });
+
+  const today = new Date().toISOString().slice(0, 10);
+  const blocks: ReportBlock[] = [
+    { kind: 'heading', level: 1, text: session.name },
+    { kind: 'paragraph', text: `Relatório de pesquisa jurisprudencial, ${formatDateLong(today)}. ${cited.size} decisão(ões) citada(s).`, muted: true },
+    ...body,
+  ];
+
+  if (cited.size > 0) {
+    blocks.push({ kind: 'heading', level: 2, text: 'Anexo: decisões citadas' });
+    Array.from(cited.values()).forEach((a, i) => {
+      blocks.push({ kind: 'heading', level: 3, text: `${i + 1}. ${formatCitation(a, { ...options, includeUrl: false })}` });
+      if (options.includeUrl && a.url) blocks.push({ kind: 'paragraph', text: a.url, muted: true });
+      blocks.push({ kind: 'paragraph', text: a.sumario ? `Sumário: ${a.sumario}` : 'Sem sumário disponível.' });
+    });
+  }
+  return blocks;
+};
+
+export const sessionToMarkdown = (session: ResearchSession, acordaos: Acordao[], options = DEFAULT_CITATION_OPTIONS): string =>
+  buildReport(session, acordaos, options).map(block => {
+    if (block.kind === 'heading') return `${'#'.repeat(block.level)} ${block.text}`;
+    if (block.kind === 'list') return block.items.map(item => `- ${item}`).join('\n');
+    return block.muted ? `_${block.text}_` : block.text;
+  }).join('\n\n') + '\n';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Documento HTML autónomo, com estilos de impressão A4 (Imprimir → Guardar como PDF). */
+export const sessionToHtml = (session: ResearchSession, acordaos: Acordao[], options = DEFAULT_CITATION_OPTIONS): string => {
+  const body = buildReport(session, acordaos, options).map(block => {
+    if (block.kind === 'heading') return `<h${block.level}>${escapeHtml(block.text)}</h${block.level}>`;
+    if (block.kind === 'list') return `<ul>${block.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+    return `<p${block.muted ? ' class="muted"' : ''}>${escapeHtml(block.text).replace(/\n/g, '<br>')}</p>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="pt">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(session.name)}</title>
+<style>
+  @page { size: A4; margin: 2.5cm 2cm; }
+  body { font-family: 'Times New Roman', Georgia, serif; font-size: 12pt; line-height: 1.5; color: #111; max-width: 17cm; margin: 0 auto; }
+  h1 { font-size: 18pt; text-align: center; margin-bottom: 0.2cm; }
+  h2 { font-size: 14pt; margin-top: 1cm; border-bottom: 1px solid #999; }
+  h3 { font-size: 12pt; margin-top: 0.6cm; }
+  p { text-align: justify; margin: 0.25cm 0; }
+  li { margin-bottom: 0.15cm; }
+  .muted { color: #555; font-style: italic; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+};
+
+// O XML 1.0 não admite caracteres de controlo (exceto tabulação e mudanças de linha), frequentes em texto colado
+// de PDFs; o Word recusa abrir um documento que os contenha.
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+const escapeXml = (text: string) => escapeHtml(text.replace(INVALID_XML_CHARS, ''));
+
+const docxRun = (text: string, props = '') =>
+  text.split('\n').map((line, i) =>
+    `${i > 0 ? '<w:r><w:br/></w:r>' : ''}<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`
+  ).join('');
+
+const HEADING_SIZES = { 1: 36, 2: 28, 3: 24 };
+
+/** DOCX mínimo (WordprocessingML) gerado localmente. */
+export const sessionToDocx = (session: ResearchSession, acordaos: Acordao[], options = DEFAULT_CITATION_OPTIONS): Blob => {
+  const paragraphs = buildReport(session, acordaos, options).map(block => {
+    if (block.kind === 'heading') {
+      const align = block.level === 1 ? '<w:jc w:val="center"/>' : '';
+      return `<w:p><w:pPr>${align}<w:spacing w:before="240" w:after="120"/></w:pPr>${docxRun(block.text, `<w:b/><w:sz w:val="${HEADING_SIZES[block.level]}"/>`)}</w:p>`;
+    }
+    if (block.kind === 'list') {
+      return block.items.map(item => `<w:p><w:pPr><w:ind w:left="567" w:hanging="283"/></w:pPr>${docxRun(`• ${item}`)}</w:p>`).join('');
+    }
+    return `<w:p><w:pPr><w:jc w:val="both"/></w:pPr>${docxRun(block.text, block.muted ? '<w:i/><w:color w:val="555555"/>' : '')}</w:p>`;
+  }).join('');
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${paragraphs}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1417" w:right="1134" w:bottom="1417" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  return createZip([
+    {
+      path: '[Content_Types].xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`,
+    },
+    {
+      path: '_rels/.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`,
+    },
+    { path: 'word/document.xml', data: document },
+  ]);
+};
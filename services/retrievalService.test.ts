@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { Acordao } from '../types';
+import { chunkAcordao, estimateTokens, scoreChunks, selectContext } from './retrievalService';
+
+const acordao = (id: string, fields: Partial<Acordao> = {}): Acordao => ({
+  id, ecli: 'Desconhecido', processo: id, data: '12/03/2020', relator: 'X', descritores: [],
+  sumario: '', textoIntegral: '', adjuntos: [], url: '', ...fields,
+});
+
+const TEXTO = [
+  'Acordam no Supremo Tribunal de Justiça:',
+  'I - RELATÓRIO',
+  'AA intentou ação contra BB pedindo indemnização por acidente de viação.',
+  'II. Fundamentação de Direito:',
+  'A prescrição do direito de indemnização ocorre no prazo de três anos.',
+  'III. Decisão',
+  'Nega-se a revista.',
+].join('\n');
+
+// Parágrafos de ~2000 caracteres: cada um fica num excerto próprio.
+const longParagraphs = (n: number, term: string) =>
+  Array.from({ length: n }, (_, i) => `Parágrafo ${i}: ${term}. ${'texto neutro '.repeat(150)}`).join('\n\n');
+
+describe('chunkAcordao', () => {
+  it('divide o acórdão em sumário, preâmbulo, relatório, fundamentação e decisão', () => {
+    const chunks = chunkAcordao(acordao('A', { sumario: 'I - A prescrição é de três anos.', textoIntegral: TEXTO }));
+    expect(chunks.map(c => [c.section, c.chunkIndex])).toEqual([
+      ['sumario', 0], ['texto', 1], ['relatorio', 2], ['fundamentacao', 3], ['decisao', 4],
+    ]);
+    expect(chunks[3].text).toBe('A prescrição do direito de indemnização ocorre no prazo de três anos.');
+    expect(chunks[4].text).toBe('Nega-se a revista.');
+  });
+
+  it('sem cabeçalhos, o texto integral fica numa única secção', () => {
+    expect(chunkAcordao(acordao('A', { textoIntegral: 'Texto sem secções.' })).map(c => c.section)).toEqual(['texto']);
+  });
+});
+
+describe('scoreChunks', () => {
+  it('pontua apenas os excertos com termos da pergunta, sem distinguir acentos nem plurais', () => {
+    const scored = scoreChunks('prescricoes', chunkAcordao(acordao('A', { textoIntegral: TEXTO })));
+    const bySection = Object.fromEntries(scored.map(c => [c.section, c.score]));
+    expect(bySection.fundamentacao).toBeGreaterThan(0);
+    expect(bySection.relatorio).toBe(0);
+    expect(bySection.decisao).toBe(0);
+    scored.forEach(c => expect(c.tokens).toBe(estimateTokens(c.text)));
+  });
+});
+
+describe('selectContext', () => {
+  it('ordena pela pontuação e respeita o orçamento de tokens', () => {
+    const acordaos = ['A', 'B', 'C'].map(id => acordao(id, { textoIntegral: longParagraphs(2, 'prescrição') }));
+    const { chunks, report } = selectContext('prescrição', acordaos, { tokenBudget: 1200 });
+    expect(chunks).toHaveLength(2);
+    expect(report.usedTokens).toBeLessThanOrEqual(1200);
+    expect(report.candidateCount).toBe(6);
+    const scores = chunks.map(c => c.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it('limita o número de excertos por acórdão', () => {
+    const { chunks, report } = selectContext('prescrição', [acordao('A', { textoIntegral: longParagraphs(6, 'prescrição') })], { maxChunksPerAcordao: 2 });
+    expect(chunks).toHaveLength(2);
+    expect(report.acordaoIds).toEqual(['A']);
+  });
+
+  it('recorre aos sumários quando nenhum excerto corresponde à pergunta', () => {
+    const acordaos = [
+      acordao('A', { sumario: 'Sumário A', textoIntegral: TEXTO }),
+      acordao('B', { sumario: 'Sumário B', textoIntegral: TEXTO }),
+    ];
+    const { chunks } = selectContext('resuma o arquivo', acordaos);
+    expect(chunks.map(c => [c.acordao.id, c.section])).toEqual([['A', 'sumario'], ['B', 'sumario']]);
+  });
+
+  it('descreve o contexto escolhido no relatório', () => {
+    const acordaos = [
+      acordao('A', { textoIntegral: TEXTO, data: '12/03/2020' }),
+      acordao('B', { textoIntegral: TEXTO, data: '01/02/2015' }),
+    ];
+    const { chunks, report } = selectContext('prescrição', acordaos, { tokenBudget: 5000, dateRange: { from: '2018-01-01' } });
+    expect(report).toEqual({
+      passages: [{ acordaoId: 'A', processo: 'A', section: 'fundamentacao', chunkIndex: 2, score: expect.any(Number), tokens: chunks[0].tokens }],
+      acordaoIds: ['A'],
+      usedTokens: chunks[0].tokens + 80,
+      tokenBudget: 5000,
+      candidateCount: 4,
+      dateFrom: '2018-01-01',
+      dateTo: undefined,
+      provision: undefined,
+    });
+    expect(report.passages[0].score).toBe(Math.round(chunks[0].score * 100) / 100);
+  });
+});
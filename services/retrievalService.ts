@@ -0,0 +1,240 @@
+import { Acordao, ChunkSection, ContextPassage, ContextReport, LegalProvision } from '../types';
+import { bm25, tokenize } from './textService';
+import { DateRange, isWithinRange } from './dateService';
+import { appliesProvision, formatProvision } from './legislationService';
+import { formatUserNotes } from './annotationService';
+
+/**
+ * Seleção de contexto para a IA (retrieval).
+ * Cada acórdão é dividido em excertos por secção (relatório, fundamentação, decisão);
+ * os excertos são pontuados localmente com BM25 contra a pergunta e apenas os melhores
+ * seguem para o prompt, dentro de um orçamento de tokens.
+ */
+
+export const DEFAULT_TOKEN_BUDGET = 32000;
+export const TOKEN_BUDGET_OPTIONS = [8000, 16000, 32000, 64000, 128000];
+
+const MAX_CHUNK_CHARS = 2400;
+const MAX_CHUNKS_PER_ACORDAO = 4;
+// Custo aproximado do cabeçalho de metadados de cada documento no prompt.
+const HEADER_TOKENS = 80;
+
+export interface AcordaoChunk {
+  acordao: Acordao;
+  section: ChunkSection;
+  chunkIndex: number;
+  text: string;
+}
+
+export interface RetrievedChunk extends AcordaoChunk {
+  score: number;
+  tokens: number;
+}
+
+export interface RetrievalOptions {
+  tokenBudget?: number;
+  maxChunksPerAcordao?: number;
+  // Limita o contexto aos acórdãos proferidos neste intervalo (ex.: a linha jurisprudencial mais recente)
+  dateRange?: DateRange;
+  // Limita o contexto aos acórdãos que aplicam esta disposição (ex.: art. 483.º do CC)
+  provision?: LegalProvision;
+}
+
+export interface RetrievalResult {
+  chunks: RetrievedChunk[];
+  report: ContextReport;
+}
+
+export const SECTION_LABELS: Record<ChunkSection, string> = {
+  sumario: 'Sumário',
+  relatorio: 'Relatório',
+  fundamentacao: 'Fundamentação',
+  decisao: 'Decisão',
+  texto: 'Texto',
+};
+
+/** Estimativa grosseira (≈4 caracteres por token), suficiente para gerir o orçamento. */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Cabeçalhos de secção numa linha própria: "I - RELATÓRIO", "Fundamentação de Direito:", "III. Decisão"
+const SECTION_HEADER = /^[ \t]*(?:[IVX]+[ \t]*[-–.)][ \t]*|\d+[ \t]*[-–.)][ \t]*)?(relat[óo]rio|fundamenta[çc][ãa]o(?:[ \t]+de[ \t]+(?:facto|direito))?|(?:o[ \t]+)?direito|decis[ãa]o|dispositivo)[ \t]*:?[ \t]*$/gim;
+
+const sectionOf = (header: string): ChunkSection => {
+  const h = header.toLowerCase();
+  if (h.startsWith('relat')) return 'relatorio';
+  if (h.startsWith('decis') || h.startsWith('dispositivo')) return 'decisao';
+  return 'fundamentacao';
+};
+
+/** Divide um texto em blocos de até MAX_CHUNK_CHARS, respeitando os parágrafos sempre que possível. */
+const splitPassages = (text: string): string[] => {
+  const paragraphs = text.split(/\n\s*\n|\n(?=\s{2,})/).map(p => p.trim()).filter(Boolean);
+  const passages: string[] = [];
+  let current = '';
+  for (const paragraph of paragraphs) {
+    if (paragraph.length > MAX_CHUNK_CHARS) {
+      if (current) passages.push(current);
+      current = '';
+      for (let i = 0; i < paragraph.length; i += MAX_CHUNK_CHARS) {
+        passages.push(paragraph.slice(i, i + MAX_CHUNK_CHARS));
+      }
+      continue;
+    }
+    if (current && current.length + paragraph.length + 2 > MAX_CHUNK_CHARS) {
+      passages.push(current);
+      current = paragraph;
+    } else {
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+  }
+  if (current) passages.push(current);
+  return passages;
+};
+
+export interface SectionBounds {
+  section: ChunkSection;
+  start: number; // Início do cabeçalho (ou do texto, no preâmbulo)
+  bodyStart: number; // Início do texto depois do cabeçalho
+  end: number;
+}
+
+/** Posições das secções do texto integral; o que precede o primeiro cabeçalho fica como 'texto'. */
+export const sectionBounds = (texto: string): SectionBounds[] => {
+  const headers = Array.from(texto.matchAll(SECTION_HEADER));
+  if (headers.length === 0) return [{ section: 'texto', start: 0, bodyStart: 0, end: texto.length }];
+
+  const bounds: SectionBounds[] = [];
+  if (texto.slice(0, headers[0].index).trim()) bounds.push({ section: 'texto', start: 0, bodyStart: 0, end: headers[0].index! });
+  headers.forEach((match, i) => bounds.push({
+    section: sectionOf(match[1]),
+    start: match.index!,
+    bodyStart: match.index! + match[0].length,
+    end: i + 1 < headers.length ? headers[i + 1].index! : texto.length,
+  }));
+  return bounds;
+};
+
+const splitSections = (texto: string): { section: ChunkSection; text: string }[] =>
+  sectionBounds(texto)
+    .map(({ section, bodyStart, end }) => ({ section, text: texto.slice(bodyStart, end).trim() }))
+    .filter(s => s.text);
+
+export const chunkAcordao = (acordao: Acordao): AcordaoChunk[] => {
+  const chunks: AcordaoChunk[] = [];
+  if (acordao.sumario.trim()) {
+    chunks.push({ acordao, section: 'sumario', chunkIndex: 0, text: acordao.sumario.trim() });
+  }
+  splitSections(acordao.textoIntegral.replace(/\r\n/g, '\n')).forEach(({ section, text }) => {
+    splitPassages(text).forEach(passage => {
+      chunks.push({ acordao, section, chunkIndex: chunks.length, text: passage });
+    });
+  });
+  return chunks;
+};
+
+/** Pontua os excertos de todos os acórdãos contra a pergunta (BM25 local, sem modelo). */
+export const scoreChunks = (question: string, chunks: AcordaoChunk[]): RetrievedChunk[] => {
+  const queryTerms = Array.from(new Set(tokenize(question)));
+  const termCounts = chunks.map(chunk => {
+    const counts = new Map<string, number>();
+    tokenize(chunk.text).forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+    return counts;
+  });
+  const lengths = termCounts.map(counts => Array.from(counts.values()).reduce((a, b) => a + b, 0));
+  const avgLength = lengths.reduce((a, b) => a + b, 0) / (chunks.length || 1);
+  const df = new Map<string, number>();
+  queryTerms.forEach(term => df.set(term, termCounts.filter(c => c.has(term)).length));
+
+  return chunks.map((chunk, i) => ({
+    ...chunk,
+    score: queryTerms.reduce((sum, term) => {
+      const tf = termCounts[i].get(term) || 0;
+      return tf > 0 ? sum + bm25(tf, lengths[i], avgLength, df.get(term)!, chunks.length) : sum;
+    }, 0),
+    tokens: estimateTokens(chunk.text),
+  }));
+};
+
+/**
+ * Escolhe os excertos mais relevantes dentro do orçamento de tokens.
+ * Se nenhum excerto corresponder à pergunta (ex.: "resuma o arquivo"), recorre aos sumários.
+ */
+export const selectContext = (question: string, acordaos: Acordao[], options: RetrievalOptions = {}): RetrievalResult => {
+  const tokenBudget = options.tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+  const maxPerAcordao = options.maxChunksPerAcordao ?? MAX_CHUNKS_PER_ACORDAO;
+
+  const dateRange = options.dateRange || {};
+  const inRange = acordaos.filter(a =>
+    isWithinRange(a, dateRange) && (!options.provision || appliesProvision(a, options.provision))
+  );
+
+  const scored = scoreChunks(question, inRange.flatMap(chunkAcordao));
+  const relevant = scored.filter(c => c.score > 0).sort((a, b) => b.score - a.score);
+  const candidates = relevant.length > 0 ? relevant : scored.filter(c => c.section === 'sumario');
+
+  const selected: RetrievedChunk[] = [];
+  const perAcordao = new Map<string, number>();
+  let usedTokens = 0;
+
+  for (const chunk of candidates) {
+    const id = chunk.acordao.id;
+    const count = perAcordao.get(id) || 0;
+    if (count >= maxPerAcordao) continue;
+    // O cabeçalho (com as notas do utilizador) só conta no primeiro excerto de cada acórdão.
+    const cost = chunk.tokens + (count === 0 ? HEADER_TOKENS + estimateTokens(formatUserNotes(chunk.acordao)) : 0);
+    if (usedTokens + cost > tokenBudget) continue;
+    selected.push(chunk);
+    perAcordao.set(id, count + 1);
+    usedTokens += cost;
+  }
+
+  const passages: ContextPassage[] = selected.map(c => ({
+    acordaoId: c.acordao.id,
+    processo: c.acordao.processo,
+    section: c.section,
+    chunkIndex: c.chunkIndex,
+    score: Math.round(c.score * 100) / 100,
+    tokens: c.tokens,
+  }));
+
+  return {
+    chunks: selected,
+    report: {
+      passages,
+      acordaoIds: Array.from(perAcordao.keys()),
+      usedTokens,
+      tokenBudget,
+      candidateCount: scored.length,
+      dateFrom: dateRange.from,
+      dateTo: dateRange.to,
+      provision: options.provision ? formatProvision(options.provision) : undefined,
+    },
+  };
+};
+
+/** Agrupa os excertos por acórdão (pela ordem original do texto) e formata-os para o prompt. */
+export const formatContext = (chunks: RetrievedChunk[]): string => {
+  const groups = new Map<string, RetrievedChunk[]>();
+  chunks.forEach(c => groups.set(c.acordao.id, [...(groups.get(c.acordao.id) || []), c]));
+
+  return Array.from(groups.values()).map(group => {
+    const a = group[0].acordao;
+    const excerpts = group
+      .sort((x, y) => x.chunkIndex - y.chunkIndex)
+      .map(c => `[${SECTION_LABELS[c.section].toUpperCase()} — excerto ${c.chunkIndex}]\n${c.text}`)
+      .join('\n\n');
+    const notes = formatUserNotes(a);
+    return `
+DOCUMENTO:
+ID: ${a.id}
+ECLI: ${a.ecli}
+Processo: ${a.processo}
+Data: ${a.data}
+Relator: ${a.relator}
+Descritores: ${a.descritores.join(', ')}
+URL: ${a.url}
+${notes ? `NOTAS DO UTILIZADOR (não fazem parte do acórdão):\n${notes}\n` : ''}${excerpts}
+---
+`;
+  }).join('\n\n');
+};
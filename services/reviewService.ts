@@ -0,0 +1,74 @@
+import { Acordao, ExtractionDiagnostics, ExtractionResult, OriginalParse, ReviewField } from '../types';
+import { looksLikeName } from './parsers/common';
+import { parseDate } from './dateService';
+import { collectProvisions } from './legislationService';
+
+/**
+ * Revisão manual dos metadados extraídos: deteção de campos duvidosos, registo do resultado
+ * original do parser (auditoria) e dos campos corrigidos à mão.
+ */
+
+export const REVIEW_FIELDS: ReviewField[] = ['ecli', 'processo', 'data', 'relator', 'adjuntos', 'descritores', 'sumario'];
+
+export const REVIEW_FIELD_LABELS: Record<ReviewField, string> = {
+  ecli: 'ECLI',
+  processo: 'Processo',
+  data: 'Data',
+  relator: 'Relator',
+  adjuntos: 'Adjuntos',
+  descritores: 'Descritores',
+  sumario: 'Sumário',
+};
+
+// Abaixo deste valor, a confiança do parser num campo obriga a confirmação manual.
+export const LOW_CONFIDENCE = 0.7;
+
+const isDefault = (value: string) => !value.trim() || value === 'Desconhecido' || value === 'Desconhecida';
+
+/**
+ * Campos cujo valor extraído deve ser confirmado antes de gravar: os que o parser marcou com
+ * pouca confiança e, em qualquer caso, os que têm valor por defeito ou formato inesperado.
+ */
+export const lowConfidenceFields = (data: Partial<Acordao>, diagnostics?: ExtractionDiagnostics): ReviewField[] => {
+  const fields: ReviewField[] = REVIEW_FIELDS.filter(field => {
+    const diagnostic = diagnostics?.fields[field];
+    return diagnostic !== undefined && diagnostic.confidence < LOW_CONFIDENCE;
+  });
+  const add = (field: ReviewField) => { if (!fields.includes(field)) fields.push(field); };
+  if (!data.ecli || isDefault(data.ecli) || !/^ECLI:PT:/i.test(data.ecli)) add('ecli');
+  if (!data.processo || isDefault(data.processo) || !/\d/.test(data.processo)) add('processo');
+  if (!data.data || isDefault(data.data) || !parseDate(data.data)) add('data');
+  if (!data.relator || isDefault(data.relator) || !looksLikeName(data.relator)) add('relator');
+  if (!data.adjuntos?.length || data.adjuntos.some(a => !looksLikeName(a))) add('adjuntos');
+  if (!data.descritores?.length) add('descritores');
+  if (!data.sumario?.trim()) add('sumario');
+  return fields;
+};
+
+// Copia o campo (as listas por cópia, para não partilharem o array com o registo).
+const copyField = <K extends ReviewField>(target: Partial<Pick<Acordao, ReviewField>>, source: Partial<Acordao>, field: K) => {
+  const value = source[field];
+  if (value !== undefined) target[field] = (Array.isArray(value) ? [...value] : value) as Acordao[K];
+};
+
+export const snapshotParse = (result: ExtractionResult): OriginalParse => {
+  const fields: OriginalParse['fields'] = {};
+  REVIEW_FIELDS.forEach(field => copyField(fields, result.data || {}, field));
+  return { parser: result.parser, parsedAt: new Date().toISOString(), fields, diagnostics: result.diagnostics };
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** Aplica as correções do formulário, registando quais os campos alterados manualmente. */
+export const applyReview = (record: Acordao, edited: Pick<Acordao, ReviewField>): Acordao => {
+  const changed = REVIEW_FIELDS.filter(field => !sameValue(record[field], edited[field]));
+  if (changed.length === 0) return record;
+  return {
+    ...record,
+    ...edited,
+    dataIso: parseDate(edited.data) || undefined,
+    disposicoes: changed.includes('sumario') ? collectProvisions({ ...record, ...edited }) : record.disposicoes,
+    editedFields: Array.from(new Set([...(record.editedFields || []), ...changed])),
+    editedAt: new Date().toISOString(),
+  };
+};
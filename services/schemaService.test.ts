@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, isAcordaoVersion, isTrashEntry, loadAcordaoRecord, validateAcordao } from './schemaService';
+
+const legacy = {
+  id: 'PROC:1/20', ecli: 'Desconhecido', processo: '1/20', data: '12/03/2020', textoIntegral: 'Violação do art. 483.º do CC.',
+  descritores: 'Culpa; Dano',
+};
+
+describe('loadAcordaoRecord', () => {
+  it('migra um registo anterior ao versionamento para o esquema atual', () => {
+    const loaded = loadAcordaoRecord(legacy);
+    expect(loaded.status).toBe('loaded');
+    if (loaded.status !== 'loaded') return;
+    expect(loaded.migrated).toBe(true);
+    expect(loaded.acordao).toMatchObject({
+      schemaVersion: CURRENT_SCHEMA_VERSION, relator: '', sumario: '', descritores: ['Culpa', 'Dano'], adjuntos: [],
+      dataIso: '2020-03-12', disposicoes: [{ diploma: 'CC', artigo: '483' }],
+    });
+  });
+
+  it('rejeita o que não é um registo de acórdão', () => {
+    expect(loadAcordaoRecord([legacy])).toEqual({ status: 'failed', reason: 'não é um objeto JSON' });
+    expect(loadAcordaoRecord({ ...legacy, schemaVersion: CURRENT_SCHEMA_VERSION + 1 }).status).toBe('failed');
+    expect(loadAcordaoRecord({ ...legacy, textoIntegral: 7 })).toMatchObject({ status: 'failed', reason: expect.stringContaining('textoIntegral') });
+  });
+});
+
+describe('validateAcordao', () => {
+  it('valida os campos opcionais quando presentes', () => {
+    const loaded = loadAcordaoRecord(legacy);
+    if (loaded.status !== 'loaded') throw new Error(loaded.reason);
+    expect(validateAcordao(loaded.acordao)).toEqual([]);
+    expect(validateAcordao({ ...loaded.acordao, dataIso: 20200312, anotacoes: [{ id: 'a', field: 'sumario', start: 2, end: 1, quote: '' }] })).toEqual([
+      'dataIso inválida: "20200312"',
+      'campo "anotacoes" com anotações inválidas',
+    ]);
+    expect(validateAcordao('texto')).toEqual(['não é um objeto JSON']);
+  });
+});
+
+describe('isTrashEntry / isAcordaoVersion', () => {
+  const record = { id: 'PROC:1/20', processo: '1/20' };
+
+  it('aceitam os documentos com a estrutura mínima', () => {
+    expect(isTrashEntry({ id: 'PROC:1/20@2024-01-01T00:00:00Z', acordaoId: 'PROC:1/20', acordao: record, deletedAt: '2024-01-01T00:00:00Z' })).toBe(true);
+    expect(isTrashEntry({ id: 'PROC:1/20', acordao: record, deletedAt: '2024-01-01T00:00:00Z' })).toBe(true);
+    expect(isAcordaoVersion({ id: 'v1', acordaoId: 'PROC:1/20', savedAt: '2024-01-01T00:00:00Z', reason: 'edit', record })).toBe(true);
+  });
+
+  it('rejeitam documentos sem id, sem registo ou com campos de outro tipo', () => {
+    expect(isTrashEntry({ acordao: record, deletedAt: '2024-01-01' })).toBe(false);
+    expect(isTrashEntry({ id: 'x', acordao: 'texto', deletedAt: '2024-01-01' })).toBe(false);
+    expect(isTrashEntry({ id: 'x', acordao: record, deletedAt: '2024-01-01', rawText: 42 })).toBe(false);
+    expect(isTrashEntry({ id: 'x', acordaoId: 7, acordao: record, deletedAt: '2024-01-01' })).toBe(false);
+    expect(isAcordaoVersion({ id: 'v1', savedAt: '2024-01-01', record })).toBe(false);
+    expect(isAcordaoVersion(null)).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import { Acordao, AcordaoVersion, Collection, DescritorEntry, ResearchSession, SavedSearch, TextAnnotation, TrashEntry, WatchList } from '../types';
+import { parseDate } from './dateService';
+import { collectProvisions } from './legislationService';
+import { isRecord } from './jsonService';
+
+/**
+ * Versões do formato dos registos de acórdãos guardados. Registos anteriores ao versionamento
+ * não têm `schemaVersion` e são tratados como versão 0. Uma alteração ao formato gravado
+ * acrescenta uma migração no fim da lista; a versão atual é a da última migração.
+ */
+
+// Registo tal como foi lido (JSON), antes de validado.
+type StoredRecord = Record<string, unknown>;
+
+export interface SchemaMigration {
+  version: number; // Versão a que o registo fica depois da migração
+  description: string;
+  migrate: (record: StoredRecord) => StoredRecord;
+}
+
+const asText = (value: unknown): string => typeof value === 'string' ? value : '';
+
+const toList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+  if (typeof value === 'string') return value.split(/[;\n]/).map(v => v.trim()).filter(Boolean);
+  return [];
+};
+
+const migrations: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Listas e textos em falta passam a valores vazios',
+    migrate: record => ({
+      ...record,
+      relator: record.relator ?? '',
+      data: record.data ?? '',
+      sumario: record.sumario ?? '',
+      url: record.url ?? '',
+      descritores: toList(record.descritores),
+      adjuntos: toList(record.adjuntos),
+      ...(record.tags !== undefined && { tags: toList(record.tags) }),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Data em formato ISO (dataIso)',
+    migrate: record => record.dataIso ? record : { ...record, dataIso: parseDate(asText(record.data)) || undefined },
+  },
+  {
+    version: 3,
+    description: 'Disposições legais extraídas do sumário e do texto integral',
+    migrate: record => Array.isArray(record.disposicoes) ? record : {
+      ...record,
+      disposicoes: collectProvisions({
+        sumario: asText(record.sumario),
+        textoIntegral: asText(record.textoIntegral),
+        legislacaoNacional: asText(record.legislacaoNacional) || undefined,
+      }),
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+const STRING_FIELDS = ['id', 'ecli', 'relator', 'processo', 'data', 'sumario', 'textoIntegral', 'url'] as const;
+const LIST_FIELDS = ['descritores', 'adjuntos', 'tags'] as const;
+
+const isAnnotation = (a: unknown): a is TextAnnotation =>
+  isRecord(a) && typeof a.id === 'string' && (a.field === 'sumario' || a.field === 'textoIntegral') &&
+  typeof a.start === 'number' && typeof a.end === 'number' && Number.isInteger(a.start) && Number.isInteger(a.end) &&
+  a.start <= a.end && typeof a.quote === 'string';
+
+/** Problemas de estrutura de um registo já migrado; lista vazia se for válido. */
+export const validateAcordao = (record: unknown): string[] => {
+  if (!isRecord(record)) return ['não é um objeto JSON'];
+  const issues: string[] = [];
+  STRING_FIELDS.forEach(field => {
+    if (typeof record[field] !== 'string') issues.push(`campo "${field}" em falta ou não é texto`);
+  });
+  if (typeof record.id === 'string' && !record.id.trim()) issues.push('identificador vazio');
+  LIST_FIELDS.forEach(field => {
+    const value = record[field];
+    if (value !== undefined && !(Array.isArray(value) && value.every(v => typeof v === 'string'))) {
+      issues.push(`campo "${field}" não é uma lista de textos`);
+    }
+  });
+  if (record.dataIso !== undefined && !(typeof record.dataIso === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(record.dataIso))) issues.push(`dataIso inválida: "${record.dataIso}"`);
+  if (record.disposicoes !== undefined && !Array.isArray(record.disposicoes)) issues.push('campo "disposicoes" não é uma lista');
+  if (record.notas !== undefined && typeof record.notas !== 'string') issues.push('campo "notas" não é texto');
+  if (record.anotacoes !== undefined && !(Array.isArray(record.anotacoes) && record.anotacoes.every(isAnnotation))) {
+    issues.push('campo "anotacoes" com anotações inválidas');
+  }
+  return issues;
+};
+
+export type LoadResult =
+  | { status: 'loaded'; acordao: Acordao; migrated: boolean }
+  | { status: 'failed'; reason: string };
+
+/** Migra um registo lido do arquivo (ou de uma cópia) para o esquema atual e valida-o. */
+export const loadAcordaoRecord = (data: unknown): LoadResult => {
+  if (!isRecord(data)) return { status: 'failed', reason: 'não é um objeto JSON' };
+  const from = data.schemaVersion ?? 0;
+  if (typeof from !== 'number' || from < 0) return { status: 'failed', reason: `versão de esquema inválida: ${JSON.stringify(from)}` };
+  if (from > CURRENT_SCHEMA_VERSION) {
+    return { status: 'failed', reason: `criado por uma versão mais recente da aplicação (esquema ${from}; esta versão lê até ao ${CURRENT_SCHEMA_VERSION})` };
+  }
+
+  let record: StoredRecord = data;
+  for (const migration of migrations.filter(m => m.version > from)) {
+    try {
+      record = { ...migration.migrate(record), schemaVersion: migration.version };
+    } catch (e) {
+      return { status: 'failed', reason: `falha na migração para o esquema ${migration.version} (${migration.description}): ${(e as Error).message}` };
+    }
+  }
+
+  const issues = validateAcordao(record);
+  if (issues.length) return { status: 'failed', reason: issues.join('; ') };
+  // Sem problemas de estrutura, o registo tem a forma de um Acordao.
+  return { status: 'loaded', acordao: record as StoredRecord & Acordao, migrated: from < CURRENT_SCHEMA_VERSION };
+};
+
+const hasId = (data: unknown): data is StoredRecord & { id: string } => isRecord(data) && typeof data.id === 'string';
+
+// Estrutura mínima dos outros documentos do arquivo: o id e os campos de que o resto da aplicação depende.
+export const isSession = (d: unknown): d is ResearchSession => hasId(d) && Array.isArray(d.messages);
+export const isCollection = (d: unknown): d is Collection => hasId(d) && Array.isArray(d.acordaoIds);
+export const isSavedSearch = (d: unknown): d is SavedSearch => hasId(d) && typeof d.query === 'string';
+export const isDescritorEntry = (d: unknown): d is DescritorEntry => hasId(d) && typeof d.label === 'string' && Array.isArray(d.synonyms);
+export const isWatchList = (d: unknown): d is WatchList => hasId(d) && typeof d.name === 'string' && Array.isArray(d.criteria);
+// O registo guardado no histórico e no lixo é validado (e migrado) só quando é reposto.
+export const isAcordaoVersion = (d: unknown): d is AcordaoVersion =>
+  hasId(d) && typeof d.acordaoId === 'string' && typeof d.savedAt === 'string' && isRecord(d.record);
+// As entradas do lixo anteriores não têm acordaoId (o id da entrada era o do acórdão).
+export const isTrashEntry = (d: unknown): d is TrashEntry =>
+  hasId(d) && (d.acordaoId === undefined || typeof d.acordaoId === 'string') && typeof d.deletedAt === 'string' && isRecord(d.acordao) && (d.rawText === undefined || typeof d.rawText === 'string');
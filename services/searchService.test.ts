@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { Acordao } from '../types';
+import { highlightText, SearchIndex } from './searchService';
+import { judgeKey } from './judgeService';
+import { tokenize } from './textService';
+
+const acordao = (id: string, fields: Partial<Acordao> = {}): Acordao => ({
+  id, ecli: 'Desconhecido', processo: id, data: '12/03/2020', relator: 'Ana Silva', descritores: [],
+  sumario: '', textoIntegral: '', adjuntos: [], url: '', ...fields,
+});
+
+const ARCHIVE = [
+  acordao('ECLI:PT:STJ:2020:1.20', {
+    ecli: 'ECLI:PT:STJ:2020:1.20', descritores: ['RESPONSABILIDADE MÉDICA'],
+    sumario: 'A responsabilidade médica exige culpa do médico.', tags: ['ler'],
+  }),
+  acordao('ECLI:PT:TRL:2021:2.21', {
+    ecli: 'ECLI:PT:TRL:2021:2.21', data: '01/02/2021', relator: 'Rui Costa',
+    sumario: 'Acidente de viação.', textoIntegral: 'A clínica alegou que os médicos agiram sem culpa.',
+  }),
+  acordao('ECLI:PT:TRL:2019:3.19', {
+    ecli: 'ECLI:PT:TRL:2019:3.19', data: '05/06/2019', descritores: ['DIREITO DE PROPRIEDADE'],
+    sumario: 'Ação de reivindicação de um prédio, com violação do art. 483.º do CC.',
+  }),
+];
+
+const indexOf = (acordaos: Acordao[]) => {
+  const index = new SearchIndex();
+  index.reset(acordaos);
+  return index;
+};
+
+describe('SearchIndex.search', () => {
+  const index = indexOf(ARCHIVE);
+
+  it('ignora acentos, maiúsculas e variações de número e género', () => {
+    expect(tokenize('MÉDICAS')).toEqual(tokenize('medico'));
+    const ids = index.search('MEDICAS').hits.map(h => h.acordao.id);
+    expect(ids).toHaveLength(2);
+    expect(ids).toContain('ECLI:PT:TRL:2021:2.21');
+  });
+
+  it('ordena por BM25, com mais peso nos descritores e no sumário do que no texto integral', () => {
+    const { hits } = index.search('responsabilidade médica');
+    expect(hits.map(h => h.acordao.id)).toEqual(['ECLI:PT:STJ:2020:1.20', 'ECLI:PT:TRL:2021:2.21']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('sem pesquisa, devolve todo o arquivo do mais recente para o mais antigo', () => {
+    expect(index.search('').hits.map(h => h.acordao.data)).toEqual(['01/02/2021', '12/03/2020', '05/06/2019']);
+  });
+
+  it('conta as facetas dos resultados e mantém disjuntiva a faceta filtrada', () => {
+    const { facets, total } = index.search('', { court: ['TRL'] });
+    expect(total).toBe(2);
+    // A faceta filtrada continua a mostrar os outros tribunais; as restantes contam só os resultados.
+    expect(facets.court).toEqual([{ value: 'TRL', count: 2 }, { value: 'STJ', count: 1 }]);
+    expect(facets.year).toEqual([{ value: '2021', count: 1 }, { value: '2019', count: 1 }]);
+    expect(facets.relator).toEqual([{ value: judgeKey('Ana Silva'), count: 1 }, { value: judgeKey('Rui Costa'), count: 1 }]);
+    expect(facets.disposicao).toEqual([{ value: 'CC art. 483.º', count: 1 }]);
+    expect(facets.tag).toEqual([]);
+  });
+
+  it('combina filtros de facetas diferentes', () => {
+    expect(index.search('', { court: ['TRL'], year: ['2019'] }).hits.map(h => h.acordao.id)).toEqual(['ECLI:PT:TRL:2019:3.19']);
+    expect(index.search('', { tag: ['ler'], court: ['TRL'] }).total).toBe(0);
+  });
+
+  it('atualiza o índice ao gravar e ao remover um acórdão', () => {
+    const live = indexOf(ARCHIVE);
+    live.remove('ECLI:PT:STJ:2020:1.20');
+    expect(live.search('culpa').hits.map(h => h.acordao.id)).toEqual(['ECLI:PT:TRL:2021:2.21']);
+    live.upsert({ ...ARCHIVE[1], textoIntegral: 'Sem relação.' });
+    expect(live.search('culpa').total).toBe(0);
+  });
+
+  it('recorta o excerto à volta da primeira ocorrência e marca as palavras encontradas', () => {
+    const { hits } = index.search('médicos');
+    const snippet = hits.find(h => h.acordao.id === 'ECLI:PT:TRL:2021:2.21')!.snippet;
+    expect(snippet.filter(s => s.match).map(s => s.text)).toEqual(['médicos']);
+    expect(snippet.map(s => s.text).join('')).toBe('A clínica alegou que os médicos agiram sem culpa.');
+  });
+});
+
+describe('highlightText', () => {
+  it('marca as palavras pelo radical, preservando o texto original', () => {
+    const segments = highlightText('Os Médicos e a médica.', new Set(tokenize('medico')));
+    expect(segments).toEqual([
+      { text: 'Os ', match: false },
+      { text: 'Médicos', match: true },
+      { text: ' e a ', match: false },
+      { text: 'médica', match: true },
+      { text: '.', match: false },
+    ]);
+  });
+});
@@ -0,0 +1,211 @@
+import { Acordao, FacetKey, FacetValue, HighlightSegment, SearchFilters, SearchHit, SearchResult } from '../types';
+import { StorageService } from './storageService';
+import { courtCodeOf } from './ecliService';
+import { acordaoYear, compareByDateDesc } from './dateService';
+import { articleKey, provisionsOf } from './legislationService';
+import { judgeKey, UNKNOWN_JUDGE } from './judgeService';
+import { bm25, splitWords, toTerm, tokenize } from './textService';
+
+/**
+ * Índice de pesquisa local sobre o arquivo ("Meu Arquivo").
+ * Pesquisa por relevância (BM25) em sumário, texto integral e descritores, com facetas
+ * por relator (nome normalizado, ver judgeKey), tribunal (código do ECLI), ano, descritor, disposição legal (diploma e artigo)
+ * e etiquetas do utilizador.
+ */
+
+const FACET_KEYS: FacetKey[] = ['relator', 'court', 'year', 'descritor', 'disposicao', 'tag'];
+
+// Um termo nos descritores pesa mais do que no sumário, e este mais do que no texto integral.
+const FIELD_WEIGHTS = { descritores: 3, sumario: 2, textoIntegral: 1 };
+
+const SNIPPET_LENGTH = 260;
+
+interface IndexedDoc {
+  acordao: Acordao;
+  terms: Map<string, number>;
+  length: number;
+  facets: Record<FacetKey, string[]>;
+}
+
+const getYear = (acordao: Acordao): string => acordaoYear(acordao) || 'Desconhecido';
+
+const facetsOf = (acordao: Acordao): Record<FacetKey, string[]> => ({
+  relator: [judgeKey(acordao.relator) || UNKNOWN_JUDGE],
+  court: [courtCodeOf(acordao)],
+  year: [getYear(acordao)],
+  descritor: acordao.descritores,
+  disposicao: Array.from(new Set(provisionsOf(acordao).map(articleKey))),
+  tag: acordao.tags || [],
+});
+
+/** Divide o texto em segmentos, marcando as palavras cujo radical pertence à pesquisa. */
+export const highlightText = (text: string, queryTerms: Set<string>): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  for (const { word, start, end } of splitWords(text)) {
+    const term = toTerm(word);
+    if (!term || !queryTerms.has(term)) continue;
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false });
+    segments.push({ text: text.slice(start, end), match: true });
+    cursor = end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+  return segments;
+};
+
+const buildSnippet = (acordao: Acordao, queryTerms: Set<string>): HighlightSegment[] => {
+  const sources = [acordao.sumario, acordao.textoIntegral].filter(Boolean);
+  for (const source of sources) {
+    const first = splitWords(source).find(({ word }) => {
+      const term = toTerm(word);
+      return term !== null && queryTerms.has(term);
+    });
+    if (!first) continue;
+    const start = Math.max(0, first.start - SNIPPET_LENGTH / 3);
+    const end = Math.min(source.length, start + SNIPPET_LENGTH);
+    const window = (start > 0 ? '…' : '') + source.slice(start, end) + (end < source.length ? '…' : '');
+    return highlightText(window, queryTerms);
+  }
+  const fallback = (acordao.sumario || acordao.textoIntegral).slice(0, SNIPPET_LENGTH);
+  return fallback ? [{ text: fallback, match: false }] : [];
+};
+
+export class SearchIndex {
+  private docs = new Map<string, IndexedDoc>();
+  private postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  reset(acordaos: Acordao[]) {
+    this.docs.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+    acordaos.forEach(a => this.upsert(a));
+  }
+
+  upsert(acordao: Acordao) {
+    this.remove(acordao.id);
+
+    const terms = new Map<string, number>();
+    const addField = (text: string, weight: number) => {
+      tokenize(text).forEach(term => terms.set(term, (terms.get(term) || 0) + weight));
+    };
+    addField(acordao.descritores.join(' '), FIELD_WEIGHTS.descritores);
+    addField(acordao.sumario, FIELD_WEIGHTS.sumario);
+    addField(acordao.textoIntegral, FIELD_WEIGHTS.textoIntegral);
+
+    let length = 0;
+    terms.forEach((tf, term) => {
+      length += tf;
+      if (!this.postings.has(term)) this.postings.set(term, new Set());
+      this.postings.get(term)!.add(acordao.id);
+    });
+
+    this.docs.set(acordao.id, { acordao, terms, length, facets: facetsOf(acordao) });
+    this.totalLength += length;
+  }
+
+  remove(id: string) {
+    const doc = this.docs.get(id);
+    if (!doc) return;
+    doc.terms.forEach((_, term) => {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids && ids.size === 0) this.postings.delete(term);
+    });
+    this.totalLength -= doc.length;
+    this.docs.delete(id);
+  }
+
+  search(query: string, filters: SearchFilters = {}): SearchResult {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const scores = queryTerms.length > 0 ? this.score(queryTerms) : null;
+
+    const facetCounts = Object.fromEntries(FACET_KEYS.map(k => [k, new Map<string, number>()])) as Record<FacetKey, Map<string, number>>;
+    const matched: IndexedDoc[] = [];
+
+    this.docs.forEach((doc, id) => {
+      if (scores && !scores.has(id)) return;
+
+      // Facetas disjuntivas: um documento que só falha o filtro X continua a contar para a faceta X.
+      const failing = FACET_KEYS.filter(key => {
+        const selected = filters[key];
+        return selected && selected.length > 0 && !doc.facets[key].some(v => selected.includes(v));
+      });
+      if (failing.length > 1) return;
+
+      const countFor = failing.length === 1 ? failing : FACET_KEYS;
+      countFor.forEach(key => {
+        new Set(doc.facets[key]).forEach(v => facetCounts[key].set(v, (facetCounts[key].get(v) || 0) + 1));
+      });
+      if (failing.length === 0) matched.push(doc);
+    });
+
+    const termSet = new Set(queryTerms);
+    const hits: SearchHit[] = matched
+      .map(doc => ({
+        acordao: doc.acordao,
+        score: scores?.get(doc.acordao.id) || 0,
+        snippet: buildSnippet(doc.acordao, termSet),
+      }))
+      .sort((a, b) => b.score - a.score || compareByDateDesc(a.acordao, b.acordao));
+
+    const facets = Object.fromEntries(FACET_KEYS.map(key => [
+      key,
+      Array.from(facetCounts[key].entries())
+        .map(([value, count]): FacetValue => ({ value, count }))
+        .sort((a, b) => key === 'year' ? b.value.localeCompare(a.value) : b.count - a.count || a.value.localeCompare(b.value)),
+    ])) as Record<FacetKey, FacetValue[]>;
+
+    return { hits, facets, total: hits.length };
+  }
+
+  private score(queryTerms: string[]): Map<string, number> {
+    const scores = new Map<string, number>();
+    const n = this.docs.size;
+    const avgLength = n > 0 ? this.totalLength / n : 0;
+
+    queryTerms.forEach(term => {
+      const ids = this.postings.get(term);
+      if (!ids) return;
+      ids.forEach(id => {
+        const doc = this.docs.get(id)!;
+        const score = bm25(doc.terms.get(term) || 0, doc.length, avgLength, ids.size, n);
+        scores.set(id, (scores.get(id) || 0) + score);
+      });
+    });
+    return scores;
+  }
+}
+
+export const archiveIndex = new SearchIndex();
+
+let indexLoad: Promise<void> | null = null;
+
+/** Constrói o índice a partir do arquivo na primeira utilização; depois é mantido incrementalmente. */
+export const ensureArchiveIndex = (): Promise<void> => {
+  if (!indexLoad) {
+    indexLoad = StorageService.listProcessedAcordaos()
+      .then(list => archiveIndex.reset(list))
+      .catch(e => {
+        indexLoad = null;
+        throw e;
+      });
+  }
+  return indexLoad;
+};
+
+StorageService.subscribe(event => {
+  if (event.type === 'directory-changed') {
+    indexLoad = null;
+    archiveIndex.reset([]);
+  } else if (event.type === 'acordao-saved' && indexLoad) {
+    if (event.previousId) archiveIndex.remove(event.previousId);
+    archiveIndex.upsert(event.acordao);
+  } else if (event.type === 'acordao-deleted' && indexLoad) {
+    archiveIndex.remove(event.id);
+  }
+});
@@ -0,0 +1,50 @@
+import { ChatMessage, ResearchSession } from '../types';
+
+/**
+ * Sessões de pesquisa com nome: cada conversa com o motor de análise é guardada (via StorageService)
+ * com as mensagens, os acórdãos em âmbito e as datas de criação / atualização.
+ */
+
+const MAX_NAME_LENGTH = 60;
+
+const newSessionId = () => `session_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const createSession = (name: string, scopeAcordaoIds: string[] = []): ResearchSession => {
+  const now = new Date().toISOString();
+  return { id: newSessionId(), name, messages: [], scopeAcordaoIds, createdAt: now, updatedAt: now };
+};
+
+/** Nome por defeito: o início da primeira pergunta. */
+export const sessionNameFromQuestion = (question: string): string => {
+  const clean = question.replace(/\s+/g, ' ').trim();
+  return clean.length > MAX_NAME_LENGTH ? `${clean.slice(0, MAX_NAME_LENGTH - 1)}…` : clean || 'Nova pesquisa';
+};
+
+export const renameSession = (session: ResearchSession, name: string): ResearchSession => ({
+  ...session,
+  name: name.trim() || session.name,
+  updatedAt: new Date().toISOString(),
+});
+
+export const duplicateSession = (session: ResearchSession): ResearchSession => {
+  const now = new Date().toISOString();
+  return {
+    ...session,
+    id: newSessionId(),
+    name: `${session.name} (cópia)`,
+    messages: session.messages.map(m => ({ ...m })),
+    scopeAcordaoIds: [...session.scopeAcordaoIds],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const appendMessages = (session: ResearchSession, messages: ChatMessage[], scopeAcordaoIds?: string[]): ResearchSession => ({
+  ...session,
+  messages: [...session.messages, ...messages],
+  scopeAcordaoIds: scopeAcordaoIds || session.scopeAcordaoIds,
+  updatedAt: new Date().toISOString(),
+});
+
+export const sortSessions = (sessions: ResearchSession[]): ResearchSession[] =>
+  [...sessions].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
@@ -1,23 +1,100 @@
 
-import { Acordao } from '../types';
+import { Acordao, AcordaoVersion, Collection, DescritorEntry, LoadProblem, LoadReport, ResearchSession, SavedSearch, TrashEntry, VersionReason, WatchList } from '../types';
+import { assertSameDecision, canonicalAcordaoId, identityKeys, mergeAcordao } from './ecliService';
+import {
+  CURRENT_SCHEMA_VERSION, isAcordaoVersion, isCollection, isDescritorEntry, isSavedSearch, isSession, isTrashEntry,
+  isWatchList, loadAcordaoRecord,
+} from './schemaService';
+import { isRecord } from './jsonService';
+
+export type StorageEvent =
+  | { type: 'directory-changed' }
+  | { type: 'acordao-saved'; acordao: Acordao; previousId?: string }
+  | { type: 'acordao-deleted'; id: string };
+
+// Referência a um acórdão guardado: id no IndexedDB e, em modo nativo, o nome do ficheiro JSON.
+interface StoredRef {
+  id: string;
+  fileName?: string;
+}
+
+// Coleções de documentos JSON com `id`: em modo nativo, uma subpasta com um ficheiro por documento;
+// em modo virtual, um object store do IndexedDB com o mesmo nome. As versões ficam agrupadas por
+// acórdão: índice 'acordaoId' no IndexedDB e uma subpasta de versions/ por acórdão.
+type DocumentStore = 'sessions' | 'collections' | 'savedSearches' | 'versions' | 'trash' | 'vocabulary' | 'watchLists';
+
+// Object stores (e índices) criados em cada versão da base de dados do modo virtual. Um novo store
+// ou índice acrescenta uma entrada com a versão seguinte; a base de dados é aberta na versão da última entrada.
+const IDB_UPGRADES: {
+  version: number;
+  stores: { name: 'acordaos' | 'raw_files' | DocumentStore; keyPath: string }[];
+  indexes?: { store: DocumentStore; name: string; keyPath: string }[];
+}[] = [
+  { version: 3, stores: [{ name: 'acordaos', keyPath: 'id' }, { name: 'raw_files', keyPath: 'name' }] },
+  { version: 4, stores: [{ name: 'sessions', keyPath: 'id' }] },
+  { version: 5, stores: [{ name: 'collections', keyPath: 'id' }, { name: 'savedSearches', keyPath: 'id' }] },
+  { version: 6, stores: [{ name: 'versions', keyPath: 'id' }, { name: 'trash', keyPath: 'id' }] },
+  { version: 7, stores: [{ name: 'vocabulary', keyPath: 'id' }] },
+  { version: 8, stores: [{ name: 'watchLists', keyPath: 'id' }] },
+  { version: 9, stores: [], indexes: [{ store: 'versions', name: 'acordaoId', keyPath: 'acordaoId' }] },
+];
+const IDB_VERSION = IDB_UPGRADES[IDB_UPGRADES.length - 1].version;
+
+// Versões anteriores guardadas por acórdão; as mais antigas são descartadas.
+const MAX_VERSIONS = 20;
+
+export const toFileKey = (id: string) => id.replace(/[:/\\?%*|"<>]/g, '_');
+
+// Documento lido de um ficheiro ou do IndexedDB, ainda por validar; `name` identifica-o no relatório.
+interface StoredDocument {
+  doc: unknown;
+  name: string;
+}
+
+const documentName = (doc: unknown): string => isRecord(doc) && typeof doc.id === 'string' ? doc.id : '?';
+
+const idbError = (stores: string, error: DOMException | null) =>
+  new Error(`Erro no armazenamento do navegador (${stores}): ${error?.message || 'transação abortada'}`);
 
 export class StorageService {
   private static rootHandle: FileSystemDirectoryHandle | null = null;
   private static isFallbackMode = false;
   private static db: IDBDatabase | null = null;
+  private static listeners = new Set<(event: StorageEvent) => void>();
+  // ECLI / processo -> registo guardado, para que uma reimportação funda em vez de duplicar.
+  private static identities: Map<string, StoredRef> | null = null;
+  // Registos que falharam na última leitura de cada store ('acordaos' ou um DocumentStore).
+  private static loadProblems = new Map<string, LoadProblem[]>();
+  private static migratedCount = 0;
+  // Passagem (uma vez por pasta) das versões gravadas diretamente em versions/ para a subpasta do acórdão.
+  private static versionsLayout: Promise<void> | null = null;
+
+  /** Subscreve alterações ao arquivo (ex.: índice de pesquisa). Devolve a função para cancelar. */
+  static subscribe(listener: (event: StorageEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private static emit(event: StorageEvent) {
+    if (event.type === 'directory-changed') this.resetArchiveState();
+    this.listeners.forEach(listener => listener(event));
+  }
 
   private static async initDB(): Promise<IDBDatabase> {
     if (this.db) return this.db;
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open('JurisAnalyzerDB', 3);
-      request.onupgradeneeded = (event: any) => {
+      const request = indexedDB.open('JurisAnalyzerDB', IDB_VERSION);
+      request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
         const db = request.result;
-        if (!db.objectStoreNames.contains('acordaos')) {
-          db.createObjectStore('acordaos', { keyPath: 'id' });
-        }
-        if (!db.objectStoreNames.contains('raw_files')) {
-          db.createObjectStore('raw_files', { keyPath: 'name' });
-        }
+        IDB_UPGRADES.filter(upgrade => upgrade.version > event.oldVersion).forEach(upgrade => {
+          upgrade.stores.forEach(({ name, keyPath }) => {
+            if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath });
+          });
+          upgrade.indexes?.forEach(({ store, name, keyPath }) => {
+            const objectStore = request.transaction!.objectStore(store);
+            if (!objectStore.indexNames.contains(name)) objectStore.createIndex(name, keyPath);
+          });
+        });
       };
       request.onsuccess = () => {
         this.db = request.result;
@@ -27,52 +104,141 @@ export class StorageService {
     });
   }
 
+  /** Corre `work` numa transação de escrita e só resolve quando esta é confirmada; rejeita se falhar ou abortar. */
+  private static async transaction(stores: string[], work: (tx: IDBTransaction) => void): Promise<void> {
+    const db = await this.initDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(stores, 'readwrite');
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(idbError(stores.join(', '), tx.error));
+      tx.onabort = () => reject(idbError(stores.join(', '), tx.error));
+      try {
+        work(tx);
+      } catch (e) {
+        tx.abort();
+        reject(e);
+      }
+    });
+  }
+
+  /** Leitura num único object store. */
+  private static async read<T>(store: string, query: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.initDB();
+    return new Promise((resolve, reject) => {
+      const request = query(db.transaction(store, 'readonly').objectStore(store));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(idbError(store, request.error));
+    });
+  }
+
+  private static async writeFile(dir: FileSystemDirectoryHandle, name: string, content: string): Promise<void> {
+    const fileHandle = await dir.getFileHandle(name, { create: true });
+    const writable = await fileHandle.createWritable();
+    try {
+      await writable.write(content);
+    } finally {
+      await writable.close();
+    }
+  }
+
+  /** Remove um ficheiro da pasta; um ficheiro que já não existe não é erro. */
+  private static async removeFile(dir: FileSystemDirectoryHandle, name: string): Promise<void> {
+    try {
+      await dir.removeEntry(name);
+    } catch (e) {
+      if ((e as DOMException).name !== 'NotFoundError') {
+        throw new Error(`Não foi possível apagar ${name}: ${(e as Error).message}`);
+      }
+    }
+  }
+
   static async selectDirectory(): Promise<{ success: boolean; mode: 'native' | 'virtual' }> {
     try {
       // @ts-ignore
       this.rootHandle = await window.showDirectoryPicker({ mode: 'readwrite' });
       this.isFallbackMode = false;
+      this.emit({ type: 'directory-changed' });
       return { success: true, mode: 'native' };
     } catch (err: any) {
       await this.initDB();
       this.isFallbackMode = true;
+      this.emit({ type: 'directory-changed' });
       return { success: true, mode: 'virtual' };
     }
   }
 
+  // Caches que dizem respeito ao arquivo ativo (pasta ou IndexedDB).
+  private static resetArchiveState() {
+    this.identities = null;
+    this.loadProblems.clear();
+    this.migratedCount = 0;
+    this.versionsLayout = null;
+  }
+
+  /**
+   * Pede acesso a uma pasta sem a ativar e sem recorrer ao armazenamento virtual se o utilizador
+   * recusar (usado na migração do IndexedDB para uma pasta). Tem de ser chamado diretamente a
+   * partir do clique: o navegador só mostra o seletor em resposta a um gesto do utilizador.
+   */
+  static async pickNativeDirectory(): Promise<FileSystemDirectoryHandle> {
+    try {
+      // @ts-ignore
+      return await window.showDirectoryPicker({ mode: 'readwrite' });
+    } catch (err: any) {
+      throw new Error(err?.name === 'AbortError' ? 'Nenhuma pasta selecionada.' : `Sem acesso à pasta: ${err?.message || err}`);
+    }
+  }
+
+  /**
+   * Passa a gravar na pasta indicada. Com `notify` falso, o aviso 'directory-changed' fica a cargo
+   * de quem chama (ver notifyDirectoryChanged), para que a interface não recarregue a meio de uma migração.
+   */
+  static activateNativeDirectory(handle: FileSystemDirectoryHandle, notify = true) {
+    this.rootHandle = handle;
+    this.isFallbackMode = false;
+    this.resetArchiveState();
+    if (notify) this.notifyDirectoryChanged();
+  }
+
+  static notifyDirectoryChanged() {
+    this.emit({ type: 'directory-changed' });
+  }
+
   static isReady(): boolean {
     return this.rootHandle !== null || this.isFallbackMode;
   }
 
+  static getMode(): 'native' | 'virtual' | null {
+    return this.isFallbackMode ? 'virtual' : this.rootHandle ? 'native' : null;
+  }
+
   static async saveRawTxt(name: string, content: string): Promise<void> {
     if (this.isFallbackMode) {
-      const db = await this.initDB();
-      return new Promise((resolve, reject) => {
-        const transaction = db.transaction('raw_files', 'readwrite');
-        const store = transaction.objectStore('raw_files');
-        store.put({ name, content, timestamp: Date.now() });
-        transaction.oncomplete = () => resolve();
-        transaction.onerror = () => reject(transaction.error);
-      });
+      return this.transaction(['raw_files'], tx => tx.objectStore('raw_files').put({ name, content, timestamp: Date.now() }));
     }
 
     if (!this.rootHandle) return;
-    const fileHandle = await this.rootHandle.getFileHandle(`${name}.txt`, { create: true });
-    const writable = await fileHandle.createWritable();
-    await writable.write(content);
-    await writable.close();
+    await this.writeFile(this.rootHandle, `${name}.txt`, content);
+  }
+
+  static async readRawTxt(name: string): Promise<string | null> {
+    if (this.isFallbackMode) {
+      const entry = await this.read<{ content: string } | undefined>('raw_files', store => store.get(name));
+      return entry?.content ?? null;
+    }
+
+    if (!this.rootHandle) return null;
+    try {
+      const fileHandle = await this.rootHandle.getFileHandle(`${name}.txt`);
+      return await (await fileHandle.getFile()).text();
+    } catch (e) {
+      return null;
+    }
   }
 
   static async listRawFiles(): Promise<{name: string, content: string}[]> {
     if (this.isFallbackMode) {
-      const db = await this.initDB();
-      return new Promise((resolve, reject) => {
-        const transaction = db.transaction('raw_files', 'readonly');
-        const store = transaction.objectStore('raw_files');
-        const request = store.getAll();
-        request.onsuccess = () => resolve(request.result);
-        request.onerror = () => reject(request.error);
-      });
+      return this.read<{ name: string; content: string }[]>('raw_files', store => store.getAll());
     }
 
     if (!this.rootHandle) return [];
@@ -88,68 +254,538 @@ export class StorageService {
     return files;
   }
 
-  static async saveProcessedAcordao(acordao: Acordao): Promise<void> {
+  /**
+   * Lê todos os acórdãos guardados, migrando-os para o esquema atual. Os registos migrados são
+   * regravados (sem passar pelo histórico de versões); os que falham ficam no relatório de carregamento.
+   */
+  private static async listAcordaoEntries(): Promise<{ acordao: Acordao; fileName?: string }[]> {
+    const stored: { data: unknown; source: string; fileName?: string }[] = [];
+    const problems: LoadProblem[] = [];
+
     if (this.isFallbackMode) {
-      const db = await this.initDB();
-      return new Promise((resolve, reject) => {
-        const transaction = db.transaction('acordaos', 'readwrite');
-        const store = transaction.objectStore('acordaos');
-        store.put(acordao);
-        transaction.oncomplete = () => resolve();
-        transaction.onerror = () => reject(transaction.error);
+      (await this.read<unknown[]>('acordaos', store => store.getAll()))
+        .forEach(data => stored.push({ data, source: `acordaos/${documentName(data)}` }));
+    } else {
+      if (!this.rootHandle) return [];
+      // @ts-ignore
+      for await (const entry of this.rootHandle.values()) {
+        if (entry.kind === 'file' && entry.name.endsWith('.json')) {
+          const file = await (entry as FileSystemFileHandle).getFile();
+          try {
+            stored.push({ data: JSON.parse(await file.text()), source: entry.name, fileName: entry.name });
+          } catch (e) {
+            problems.push({ source: entry.name, reason: `JSON inválido: ${(e as Error).message}` });
+          }
+        }
+      }
+    }
+
+    const results: { acordao: Acordao; fileName?: string }[] = [];
+    const migrated: { acordao: Acordao; source: string; fileName?: string }[] = [];
+    stored.forEach(({ data, source, fileName }) => {
+      const loaded = loadAcordaoRecord(data);
+      if (loaded.status === 'failed') {
+        problems.push({ source, reason: loaded.reason });
+        return;
+      }
+      results.push({ acordao: loaded.acordao, fileName });
+      if (loaded.migrated) migrated.push({ acordao: loaded.acordao, source, fileName });
+    });
+
+    problems.push(...await this.persistMigrated(migrated));
+    this.loadProblems.set('acordaos', problems);
+    this.migratedCount = migrated.length;
+    return results;
+  }
+
+  // Regrava no mesmo sítio os registos migrados, para que a migração corra uma só vez.
+  private static async persistMigrated(records: { acordao: Acordao; source: string; fileName?: string }[]): Promise<LoadProblem[]> {
+    if (!records.length) return [];
+    const failed = (source: string, e: unknown): LoadProblem =>
+      ({ source, reason: `migrado, mas não foi possível gravar a versão atualizada: ${(e as Error).message}` });
+
+    if (this.isFallbackMode) {
+      try {
+        await this.transaction(['acordaos'], tx => records.forEach(({ acordao }) => tx.objectStore('acordaos').put(acordao)));
+        return [];
+      } catch (e) {
+        return records.map(({ source }) => failed(source, e));
+      }
+    }
+
+    const problems: LoadProblem[] = [];
+    for (const { acordao, source, fileName } of records) {
+      if (!this.rootHandle || !fileName) continue;
+      try {
+        await this.writeFile(this.rootHandle, fileName, JSON.stringify(acordao, null, 2));
+      } catch (e) {
+        problems.push(failed(source, e));
+      }
+    }
+    return problems;
+  }
+
+  /** Registos que não foi possível carregar na última leitura do arquivo, e quantos foram migrados. */
+  static getLoadReport(): LoadReport {
+    return {
+      problems: Array.from(this.loadProblems.values()).flat(),
+      migrated: this.migratedCount,
+    };
+  }
+
+  private static async loadIdentities(): Promise<Map<string, StoredRef>> {
+    if (this.identities) return this.identities;
+    const identities = new Map<string, StoredRef>();
+    (await this.listAcordaoEntries()).forEach(({ acordao, fileName }) => {
+      [`ID:${acordao.id}`, ...identityKeys(acordao)].forEach(key => identities.set(key, { id: acordao.id, fileName }));
+    });
+    this.identities = identities;
+    return identities;
+  }
+
+  private static async readAcordao(ref: StoredRef): Promise<Acordao | null> {
+    let data: unknown;
+    if (this.isFallbackMode) {
+      data = await this.read<unknown>('acordaos', store => store.get(ref.id));
+    } else {
+      if (!this.rootHandle || !ref.fileName) return null;
+      try {
+        const fileHandle = await this.rootHandle.getFileHandle(ref.fileName);
+        data = JSON.parse(await (await fileHandle.getFile()).text());
+      } catch (e) {
+        return null;
+      }
+    }
+    if (!data) return null;
+    const loaded = loadAcordaoRecord(data);
+    return loaded.status === 'loaded' ? loaded.acordao : null;
+  }
+
+  /** Registo antigo guardado no histórico ou no lixo, migrado para o esquema atual. */
+  private static upgradeStoredRecord(data: unknown, what: string): Acordao {
+    const loaded = loadAcordaoRecord(data);
+    if (loaded.status === 'failed') throw new Error(`${what} ilegível: ${loaded.reason}`);
+    return loaded.acordao;
+  }
+
+  /** Registo já guardado com o mesmo ECLI ou processo, se existir. */
+  static async findStoredAcordao(data: Partial<Acordao>): Promise<Acordao | null> {
+    const identities = await this.loadIdentities();
+    const ref = identityKeys(data).map(key => identities.get(key)).find(Boolean);
+    return ref ? this.readAcordao(ref) : null;
+  }
+
+  /**
+   * Grava um acórdão de forma idempotente: se já existir um registo com o mesmo ECLI ou processo,
+   * os dois são fundidos sob o identificador canónico (ou a fusão é recusada, se os processos
+   * diferirem). Devolve o registo efetivamente gravado.
+   * Se o registo mudar, o estado anterior fica no histórico de versões com o motivo indicado.
+   */
+  static async saveProcessedAcordao(acordao: Acordao, reason: VersionReason = 'reparse'): Promise<Acordao> {
+    const identities = await this.loadIdentities();
+    // O id atual permite reencontrar um registo editado cujo ECLI e processo foram ambos corrigidos.
+    const ref = [`ID:${acordao.id}`, ...identityKeys(acordao)].map(key => identities.get(key)).find(Boolean);
+    const existing = ref ? await this.readAcordao(ref) : null;
+    if (existing) assertSameDecision(existing, acordao);
+    const incoming = { ...acordao, id: canonicalAcordaoId(acordao) };
+    const record = existing ? mergeAcordao(existing, incoming) : incoming;
+    return this.writeAcordao(record, ref, existing ? { record: existing, reason } : undefined);
+  }
+
+  /**
+   * Substitui o registo com o mesmo ECLI ou processo pelo indicado, sem fusão (ex.: importação
+   * de uma cópia com a opção "substituir"). O registo anterior fica no histórico de versões.
+   */
+  static async replaceAcordao(acordao: Acordao, reason: VersionReason): Promise<Acordao> {
+    const identities = await this.loadIdentities();
+    const ref = [`ID:${acordao.id}`, ...identityKeys(acordao)].map(key => identities.get(key)).find(Boolean);
+    const existing = ref ? await this.readAcordao(ref) : null;
+    const record = { ...acordao, id: canonicalAcordaoId(acordao) };
+    return this.writeAcordao(record, ref, existing ? { record: existing, reason } : undefined);
+  }
+
+  /**
+   * Etiquetas, notas e anotações do leitor. Os campos indicados são gravados diretamente sobre
+   * o registo (sem fusão), para que uma lista vazia apague as etiquetas ou anotações anteriores.
+   */
+  static async annotateAcordao(id: string, annotation: Partial<Pick<Acordao, 'tags' | 'notas' | 'anotacoes'>>): Promise<Acordao> {
+    const ref = (await this.loadIdentities()).get(`ID:${id}`);
+    const existing = ref ? await this.readAcordao(ref) : null;
+    if (!ref || !existing) throw new Error(`Acórdão não encontrado no arquivo: ${id}`);
+    return this.writeAcordao({ ...existing, ...annotation }, ref);
+  }
+
+  /** Substitui os descritores de um acórdão (vocabulário controlado); o estado anterior fica no histórico. */
+  static async updateDescritores(id: string, descritores: string[]): Promise<Acordao> {
+    const ref = (await this.loadIdentities()).get(`ID:${id}`);
+    const existing = ref ? await this.readAcordao(ref) : null;
+    if (!ref || !existing) throw new Error(`Acórdão não encontrado no arquivo: ${id}`);
+    return this.writeAcordao({ ...existing, descritores }, ref, { record: existing, reason: 'vocabulary' });
+  }
+
+  /**
+   * Grava o registo (substituindo o de `ref`, que pode ter outro id) e, se `previous` for indicado
+   * e diferir do novo registo, guarda-o como versão. Sem alterações, nada é gravado.
+   */
+  private static async writeAcordao(
+    incoming: Acordao,
+    ref?: StoredRef,
+    previous?: { record: Acordao; reason: VersionReason }
+  ): Promise<Acordao> {
+    const record: Acordao = { ...incoming, schemaVersion: CURRENT_SCHEMA_VERSION };
+    const identities = await this.loadIdentities();
+    const changed = !previous || JSON.stringify(previous.record) !== JSON.stringify(record);
+    // Reimportação sem alterações, já gravada no sítio certo: nada a fazer.
+    const inPlace = ref?.id === record.id && (this.isFallbackMode || ref.fileName === `${toFileKey(record.id)}.json`);
+    if (!changed && inPlace) return record;
+    const version: AcordaoVersion | null = previous && changed ? {
+      id: `${record.id}@${new Date().toISOString()}`,
+      acordaoId: record.id,
+      savedAt: new Date().toISOString(),
+      reason: previous.reason,
+      record: previous.record,
+    } : null;
+    let fileName: string | undefined;
+
+    if (this.isFallbackMode) {
+      await this.transaction(['acordaos', 'versions'], tx => {
+        const store = tx.objectStore('acordaos');
+        store.put(record);
+        if (ref && ref.id !== record.id) store.delete(ref.id);
+        if (version) tx.objectStore('versions').put(version);
       });
+    } else {
+      if (!this.rootHandle) return record;
+      if (version) await this.putVersion(version);
+      fileName = `${toFileKey(record.id)}.json`;
+      await this.writeFile(this.rootHandle, fileName, JSON.stringify(record, null, 2));
+      // Registos antigos eram gravados com o nome derivado do ECLI ou com ids temporários.
+      if (ref?.fileName && ref.fileName !== fileName) await this.removeFile(this.rootHandle, ref.fileName);
     }
 
-    if (!this.rootHandle) return;
-    const fileHandle = await this.rootHandle.getFileHandle(`${acordao.ecli.replace(/[:/\\?%*|"<>]/g, '_')}.json`, { create: true });
-    const writable = await fileHandle.createWritable();
-    await writable.write(JSON.stringify(acordao, null, 2));
-    await writable.close();
+    if (ref && ref.id !== record.id) {
+      identities.delete(`ID:${ref.id}`);
+      await this.moveVersions(ref.id, record.id);
+    }
+    [`ID:${record.id}`, ...identityKeys(record)].forEach(key => identities.set(key, { id: record.id, fileName }));
+    if (version) await this.pruneVersions(record.id);
+    this.emit({ type: 'acordao-saved', acordao: record, previousId: ref && ref.id !== record.id ? ref.id : undefined });
+    return record;
   }
 
-  static async listProcessedAcordaos(): Promise<Acordao[]> {
+  /** Subpasta de versions/ com as versões de um acórdão (null se não existir e `create` for falso). */
+  private static async versionsDir(acordaoId: string, create: boolean): Promise<FileSystemDirectoryHandle | null> {
+    if (!this.rootHandle) return null;
+    try {
+      const root = await this.rootHandle.getDirectoryHandle('versions', { create });
+      this.versionsLayout ??= this.groupFlatVersions(root).catch(e => {
+        this.versionsLayout = null;
+        throw e;
+      });
+      await this.versionsLayout;
+      return await root.getDirectoryHandle(toFileKey(acordaoId), { create });
+    } catch (e) {
+      if (!create && (e as DOMException).name === 'NotFoundError') return null;
+      throw e;
+    }
+  }
+
+  // Os arquivos anteriores gravavam todas as versões diretamente em versions/.
+  private static async groupFlatVersions(root: FileSystemDirectoryHandle): Promise<void> {
+    const { results } = await this.readJsonFiles(root, 'versions');
+    for (const { doc, name } of results) {
+      if (!isAcordaoVersion(doc)) continue;
+      await this.writeFile(await root.getDirectoryHandle(toFileKey(doc.acordaoId), { create: true }), name, JSON.stringify(doc, null, 2));
+      await this.removeFile(root, name);
+    }
+  }
+
+  private static async putVersion(version: AcordaoVersion): Promise<void> {
     if (this.isFallbackMode) {
-      const db = await this.initDB();
-      return new Promise((resolve, reject) => {
-        const transaction = db.transaction('acordaos', 'readonly');
-        const store = transaction.objectStore('acordaos');
-        const request = store.getAll();
-        request.onsuccess = () => resolve(request.result);
-        request.onerror = () => reject(request.error);
+      return this.transaction(['versions'], tx => tx.objectStore('versions').put(version));
+    }
+    const dir = await this.versionsDir(version.acordaoId, true);
+    if (dir) await this.writeFile(dir, `${toFileKey(version.id)}.json`, JSON.stringify(version, null, 2));
+  }
+
+  private static async removeVersion(version: AcordaoVersion): Promise<void> {
+    if (this.isFallbackMode) {
+      return this.transaction(['versions'], tx => tx.objectStore('versions').delete(version.id));
+    }
+    const dir = await this.versionsDir(version.acordaoId, false);
+    if (dir) await this.removeFile(dir, `${toFileKey(version.id)}.json`);
+  }
+
+  // O histórico acompanha o acórdão quando o seu id muda (ex.: PROC:... passa a ECLI).
+  private static async moveVersions(fromId: string, toId: string): Promise<void> {
+    const versions = await this.listVersions(fromId);
+    if (this.isFallbackMode) {
+      if (!versions.length) return;
+      return this.transaction(['versions'], tx => {
+        versions.forEach(version => tx.objectStore('versions').put({ ...version, acordaoId: toId }));
       });
     }
+    for (const version of versions) await this.putVersion({ ...version, acordaoId: toId });
+    // Ids diferentes podem dar o mesmo nome de pasta (ex.: "PROC:1/20" e "PROC_1_20"): nada a remover.
+    if (!versions.length || toFileKey(fromId) === toFileKey(toId)) return;
+    for (const version of versions) await this.removeVersion(version);
+    await this.removeVersionsDir(fromId);
+  }
+
+  // Remove a subpasta (já vazia) das versões de um acórdão.
+  private static async removeVersionsDir(acordaoId: string): Promise<void> {
+    if (this.isFallbackMode || !this.rootHandle) return;
+    await this.removeFile(await this.rootHandle.getDirectoryHandle('versions', { create: true }), toFileKey(acordaoId));
+  }
+
+  private static async pruneVersions(acordaoId: string): Promise<void> {
+    const stale = (await this.listVersions(acordaoId)).slice(MAX_VERSIONS);
+    for (const version of stale) await this.removeVersion(version);
+  }
+
+  /** Versões anteriores de um acórdão, da mais recente para a mais antiga. */
+  static async listVersions(acordaoId: string): Promise<AcordaoVersion[]> {
+    const source = `versions/${toFileKey(acordaoId)}`;
+    let read: { results: StoredDocument[]; problems: LoadProblem[] };
+    if (this.isFallbackMode) {
+      const docs = await this.read<unknown[]>('versions', s => s.index('acordaoId').getAll(acordaoId));
+      read = { results: docs.map(doc => ({ doc, name: documentName(doc) })), problems: [] };
+    } else {
+      const dir = await this.versionsDir(acordaoId, false);
+      read = dir ? await this.readJsonFiles(dir, source) : { results: [], problems: [] };
+    }
+    const versions = this.keepValid(read, isAcordaoVersion, source);
+    return versions.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  /**
+   * Repõe uma versão anterior. O estado atual passa a ser também uma versão, e as etiquetas,
+   * notas e anotações atuais são mantidas (não fazem parte do histórico de extração/edição).
+   */
+  static async restoreVersion(acordaoId: string, versionId: string): Promise<Acordao> {
+    const version = (await this.listVersions(acordaoId)).find(v => v.id === versionId);
+    if (!version) throw new Error('Versão não encontrada.');
+    const ref = (await this.loadIdentities()).get(`ID:${version.acordaoId}`);
+    const current = ref ? await this.readAcordao(ref) : null;
+    if (!ref || !current) throw new Error('O acórdão já não está no arquivo. Restaure-o primeiro a partir do lixo.');
+    const restored = { ...this.upgradeStoredRecord(version.record, 'Versão'), tags: current.tags, notas: current.notas, anotacoes: current.anotacoes };
+    return this.writeAcordao({ ...restored, id: canonicalAcordaoId(restored) }, ref, { record: current, reason: 'restore' });
+  }
+
+  /** Move o acórdão e o respetivo texto bruto para o lixo. */
+  static async deleteAcordao(id: string): Promise<void> {
+    const identities = await this.loadIdentities();
+    const ref = identities.get(`ID:${id}`);
+    const acordao = ref ? await this.readAcordao(ref) : null;
+    if (!ref || !acordao) throw new Error(`Acórdão não encontrado no arquivo: ${id}`);
+    const rawText = acordao.fileName ? await this.readRawTxt(acordao.fileName) : null;
+    const deletedAt = new Date().toISOString();
+    // Cada eliminação tem a sua entrada: apagar de novo um acórdão reimportado não substitui a anterior.
+    const entry: TrashEntry = { id: `${id}@${deletedAt}`, acordaoId: id, acordao, rawText: rawText ?? undefined, deletedAt };
+
+    if (this.isFallbackMode) {
+      await this.transaction(['acordaos', 'raw_files', 'trash'], tx => {
+        tx.objectStore('trash').put(entry);
+        tx.objectStore('acordaos').delete(id);
+        if (acordao.fileName) tx.objectStore('raw_files').delete(acordao.fileName);
+      });
+    } else {
+      if (!this.rootHandle) return;
+      // Primeiro o lixo: se a remoção falhar a meio, o acórdão continua recuperável.
+      await this.putDocument('trash', entry);
+      if (ref.fileName) await this.removeFile(this.rootHandle, ref.fileName);
+      if (acordao.fileName) await this.removeFile(this.rootHandle, `${acordao.fileName}.txt`);
+    }
+
+    Array.from(identities.entries()).filter(([, r]) => r.id === id).forEach(([key]) => identities.delete(key));
+    this.emit({ type: 'acordao-deleted', id });
+  }
+
+  static async listTrash(): Promise<TrashEntry[]> {
+    return (await this.listDocuments('trash', isTrashEntry))
+      // Entradas anteriores não têm acordaoId: o id da entrada era o do acórdão.
+      .map(entry => entry.acordaoId ? entry : { ...entry, acordaoId: entry.id })
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  /**
+   * Devolve um acórdão do lixo ao arquivo (com o texto bruto). Se entretanto foi importado
+   * de novo, os dois registos são fundidos e o atual fica no histórico de versões.
+   */
+  static async restoreFromTrash(id: string): Promise<Acordao> {
+    const entry = (await this.listTrash()).find(e => e.id === id);
+    if (!entry) throw new Error('O acórdão já não está no lixo.');
+    const acordao = this.upgradeStoredRecord(entry.acordao, 'Registo do lixo');
+    if (entry.rawText !== undefined && acordao.fileName) await this.saveRawTxt(acordao.fileName, entry.rawText);
+    const saved = await this.saveProcessedAcordao(acordao, 'restore');
+    await this.deleteDocument('trash', id);
+    return saved;
+  }
+
+  /** Apaga definitivamente um acórdão do lixo, com o respetivo histórico de versões. */
+  static async purgeFromTrash(id: string): Promise<void> {
+    const entries = await this.listTrash();
+    const entry = entries.find(e => e.id === id);
+    await this.deleteDocument('trash', id);
+    if (!entry) return;
+    const { acordaoId } = entry;
+    // Reimportado entretanto, ou apagado outra vez: o histórico é do registo atual ou da outra entrada.
+    if ((await this.loadIdentities()).has(`ID:${acordaoId}`)) return;
+    if (entries.some(e => e.id !== id && e.acordaoId === acordaoId)) return;
+    for (const version of await this.listVersions(acordaoId)) await this.removeVersion(version);
+    await this.removeVersionsDir(acordaoId);
+  }
+
+  static async listProcessedAcordaos(): Promise<Acordao[]> {
+    return (await this.listAcordaoEntries()).map(entry => entry.acordao);
+  }
+
+  static async deleteRawFile(name: string): Promise<void> {
+    if (this.isFallbackMode) {
+      return this.transaction(['raw_files'], tx => tx.objectStore('raw_files').delete(name));
+    }
+    if (this.rootHandle) await this.removeFile(this.rootHandle, `${name}.txt`);
+  }
+
+  private static async putDocument(store: DocumentStore, doc: { id: string }): Promise<void> {
+    if (this.isFallbackMode) {
+      return this.transaction([store], tx => tx.objectStore(store).put(doc));
+    }
+
+    if (!this.rootHandle) return;
+    const dir = await this.rootHandle.getDirectoryHandle(store, { create: true });
+    await this.writeFile(dir, `${toFileKey(doc.id)}.json`, JSON.stringify(doc, null, 2));
+  }
+
+  private static async listDocuments<T>(store: DocumentStore, isValid: (doc: unknown) => doc is T): Promise<T[]> {
+    if (this.isFallbackMode) {
+      const docs = await this.read<unknown[]>(store, s => s.getAll());
+      return this.keepValid({ results: docs.map(doc => ({ doc, name: documentName(doc) })), problems: [] }, isValid, store);
+    }
 
     if (!this.rootHandle) return [];
-    const results: Acordao[] = [];
+    let dir: FileSystemDirectoryHandle;
+    try {
+      dir = await this.rootHandle.getDirectoryHandle(store);
+    } catch (e) {
+      return [];
+    }
+    return this.keepValid(await this.readJsonFiles(dir, store), isValid, store);
+  }
+
+  /** Documentos com a estrutura esperada; os restantes ficam, com os ilegíveis, no relatório de carregamento. */
+  private static keepValid<T>(
+    { results, problems }: { results: StoredDocument[]; problems: LoadProblem[] },
+    isValid: (doc: unknown) => doc is T,
+    source: string
+  ): T[] {
+    const valid: T[] = [];
+    const invalid = [...problems];
+    results.forEach(({ doc, name }) => {
+      if (isValid(doc)) valid.push(doc);
+      else invalid.push({ source: `${source}/${name}`, reason: 'estrutura inválida' });
+    });
+    this.loadProblems.set(source, invalid);
+    return valid;
+  }
+
+  /** Lê os ficheiros .json de uma pasta (sem subpastas); os inválidos ficam como problemas de leitura. */
+  private static async readJsonFiles(dir: FileSystemDirectoryHandle, source: string): Promise<{ results: StoredDocument[]; problems: LoadProblem[] }> {
+    const results: StoredDocument[] = [];
+    const problems: LoadProblem[] = [];
     // @ts-ignore
-    for await (const entry of this.rootHandle.values()) {
+    for await (const entry of dir.values()) {
       if (entry.kind === 'file' && entry.name.endsWith('.json')) {
         const file = await (entry as FileSystemFileHandle).getFile();
         try {
-          const data = JSON.parse(await file.text());
-          if (data.ecli) results.push(data);
-        } catch (e) {}
+          results.push({ doc: JSON.parse(await file.text()), name: entry.name });
+        } catch (e) {
+          problems.push({ source: `${source}/${entry.name}`, reason: `JSON inválido: ${(e as Error).message}` });
+        }
       }
     }
-    return results;
+    return { results, problems };
   }
 
-  static async deleteRawFile(name: string): Promise<void> {
+  private static async deleteDocument(store: DocumentStore, id: string): Promise<void> {
     if (this.isFallbackMode) {
-      const db = await this.initDB();
-      const transaction = db.transaction('raw_files', 'readwrite');
-      transaction.objectStore('raw_files').delete(name);
-      return;
+      return this.transaction([store], tx => tx.objectStore(store).delete(id));
     }
-    await this.rootHandle?.removeEntry(`${name}.txt`);
+
+    if (!this.rootHandle) return;
+    const dir = await this.rootHandle.getDirectoryHandle(store, { create: true });
+    await this.removeFile(dir, `${toFileKey(id)}.json`);
+  }
+
+  static async saveSession(session: ResearchSession): Promise<void> {
+    await this.putDocument('sessions', session);
+  }
+
+  static async listSessions(): Promise<ResearchSession[]> {
+    return this.listDocuments('sessions', isSession);
+  }
+
+  static async deleteSession(id: string): Promise<void> {
+    await this.deleteDocument('sessions', id);
+  }
+
+  static async saveCollection(collection: Collection): Promise<void> {
+    await this.putDocument('collections', collection);
+  }
+
+  static async listCollections(): Promise<Collection[]> {
+    return this.listDocuments('collections', isCollection);
+  }
+
+  static async deleteCollection(id: string): Promise<void> {
+    await this.deleteDocument('collections', id);
+  }
+
+  static async saveSavedSearch(search: SavedSearch): Promise<void> {
+    await this.putDocument('savedSearches', search);
+  }
+
+  static async listSavedSearches(): Promise<SavedSearch[]> {
+    return this.listDocuments('savedSearches', isSavedSearch);
+  }
+
+  static async deleteSavedSearch(id: string): Promise<void> {
+    await this.deleteDocument('savedSearches', id);
+  }
+
+  static async saveDescritorEntry(entry: DescritorEntry): Promise<void> {
+    await this.putDocument('vocabulary', entry);
+  }
+
+  static async listVocabulary(): Promise<DescritorEntry[]> {
+    return this.listDocuments('vocabulary', isDescritorEntry);
+  }
+
+  static async deleteDescritorEntry(id: string): Promise<void> {
+    await this.deleteDocument('vocabulary', id);
+  }
+
+  static async saveWatchList(list: WatchList): Promise<void> {
+    await this.putDocument('watchLists', list);
+  }
+
+  static async listWatchLists(): Promise<WatchList[]> {
+    return this.listDocuments('watchLists', isWatchList);
+  }
+
+  static async deleteWatchList(id: string): Promise<void> {
+    await this.deleteDocument('watchLists', id);
   }
 
   static async downloadJson(data: any, fileName: string) {
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    this.downloadFile(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), `${fileName}.json`);
+  }
+
+  static downloadFile(blob: Blob, fileName: string) {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${fileName}.json`;
+    a.download = fileName;
     a.click();
     URL.revokeObjectURL(url);
   }
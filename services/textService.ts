@@ -0,0 +1,84 @@
+/**
+ * Utilitários de análise de texto em Português (normalização, tokenização e stemming).
+ * Partilhados pelo índice de pesquisa do arquivo e pela seleção de contexto da IA.
+ */
+
+const STOPWORDS = new Set([
+  'a', 'ao', 'aos', 'as', 'ate', 'com', 'como', 'da', 'das', 'de', 'do', 'dos', 'e', 'ela', 'elas',
+  'ele', 'eles', 'em', 'entre', 'era', 'essa', 'esse', 'esta', 'este', 'foi', 'ha', 'isso', 'isto',
+  'ja', 'lhe', 'mais', 'mas', 'me', 'mesmo', 'na', 'nas', 'nao', 'nem', 'no', 'nos', 'o', 'os', 'ou',
+  'para', 'pela', 'pelas', 'pelo', 'pelos', 'por', 'qual', 'quando', 'que', 'se', 'seja', 'sem',
+  'ser', 'sao', 'seu', 'seus', 'sua', 'suas', 'sobre', 'tambem', 'tem', 'um', 'uma', 'umas', 'uns'
+]);
+
+/** Minúsculas e sem acentos: "Responsabilidade Médica" -> "responsabilidade medica". */
+export const normalizeText = (text: string): string =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/** Remove acentos carácter a carácter, preservando as posições (para recortar o texto original). */
+export const foldAccents = (text: string): string =>
+  text.replace(/[^\x00-\x7f]/g, ch => ch.normalize('NFD')[0]);
+
+/**
+ * Stemmer "light" para Português: reduz plurais, femininos e advérbios em -mente,
+ * o suficiente para que "médicas", "médico" e "medica" partilhem o mesmo radical.
+ * Recebe uma palavra já normalizada.
+ */
+export const stemWord = (word: string): string => {
+  let w = word;
+  if (w.length <= 3) return w;
+
+  if (w.endsWith('mente') && w.length > 7) w = w.slice(0, -5);
+
+  // Plurais
+  if (w.endsWith('oes') || w.endsWith('aes')) w = w.slice(0, -3) + 'ao';
+  else if (w.endsWith('ais') && w.length > 4) w = w.slice(0, -3) + 'al';
+  else if (w.endsWith('eis') && w.length > 4) w = w.slice(0, -3) + 'el';
+  else if (w.endsWith('ois') && w.length > 4) w = w.slice(0, -3) + 'ol';
+  else if (w.endsWith('ns')) w = w.slice(0, -2) + 'm';
+  else if (w.endsWith('res') || w.endsWith('les') || w.endsWith('zes')) w = w.slice(0, -2);
+  else if (w.endsWith('s') && !w.endsWith('ss') && !w.endsWith('us') && !w.endsWith('is')) w = w.slice(0, -1);
+
+  // Feminino -> masculino
+  if (w.length > 3 && w.endsWith('a')) w = w.slice(0, -1) + 'o';
+
+  return w;
+};
+
+/** Divide o texto em palavras (letras/dígitos), preservando a posição original de cada uma. */
+export const splitWords = (text: string): { word: string; start: number; end: number }[] => {
+  const words: { word: string; start: number; end: number }[] = [];
+  const re = /[\p{L}\p{N}]+/gu;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text)) !== null) {
+    words.push({ word: match[0], start: match.index, end: match.index + match[0].length });
+  }
+  return words;
+};
+
+/** Termo indexável de uma palavra, ou null se for stopword / demasiado curta. */
+export const toTerm = (word: string): string | null => {
+  const normalized = normalizeText(word);
+  if (normalized.length < 2 || STOPWORDS.has(normalized)) return null;
+  return stemWord(normalized);
+};
+
+/** Tokenização completa: normaliza, remove stopwords e aplica o stemmer. */
+export const tokenize = (text: string): string[] => {
+  const terms: string[] = [];
+  for (const { word } of splitWords(text)) {
+    const term = toTerm(word);
+    if (term) terms.push(term);
+  }
+  return terms;
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Contribuição BM25 de um termo para um documento. */
+export const bm25 = (tf: number, docLength: number, avgLength: number, df: number, docCount: number): number => {
+  const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+  const norm = tf * (BM25_K1 + 1) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * docLength / (avgLength || 1)));
+  return idf * norm;
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { Acordao, DescritorEntry } from '../types';
+import { createDescritorSuggester, parseDescritorSuggestions } from './vocabularyService';
+
+const entry = (label: string, synonyms: string[] = []): DescritorEntry =>
+  ({ id: label, label, synonyms, createdAt: '2024-01-01', updatedAt: '2024-01-01' });
+
+const acordao = (sumario: string): Acordao => ({
+  id: 'PROC:1/20', ecli: 'Desconhecido', processo: '1/20', data: '01-01-2020', relator: 'A', descritores: [],
+  sumario, textoIntegral: '', adjuntos: [], url: '',
+});
+
+describe('createDescritorSuggester', () => {
+  const suggest = createDescritorSuggester([], [entry('Dano'), entry('Caso julgado', ['exceção de caso julgado'])]);
+  const labels = (sumario: string) => suggest(acordao(sumario)).map(s => s.descritor);
+
+  it('encontra a expressão em palavras inteiras, sem acentos nem maiúsculas', () => {
+    expect(labels('A EXCEÇÃO DE CASO JULGADO obsta ao conhecimento do pedido.')).toEqual(['Caso julgado']);
+    expect(suggest(acordao('O dano sofrido pelo autor.'))).toEqual([{ descritor: 'Dano', score: 1, source: 'local' }]);
+  });
+
+  it('não encontra a expressão dentro de outras palavras', () => {
+    expect(labels('O comportamento danoso do réu.')).toEqual([]);
+    expect(labels('Estava em causa o ocaso julgadoria.')).toEqual([]);
+  });
+});
+
+describe('parseDescritorSuggestions', () => {
+  it('lê as sugestões e descarta entradas e descritores sem estrutura', () => {
+    const raw = '```json\n{"sugestoes": [{"acordao": 1, "descritores": ["Culpa", " ", 3]}, {"acordao": "x"}, null, {"acordao": 2}]}\n```';
+    expect(parseDescritorSuggestions(raw)).toEqual([
+      { acordao: 1, descritores: ['Culpa'] },
+      { acordao: 2, descritores: [] },
+    ]);
+    expect(parseDescritorSuggestions('{"sugestoes": "Culpa"}')).toBeNull();
+  });
+});
@@ -0,0 +1,267 @@
+import { Acordao, DescritorEntry } from '../types';
+import { StorageService } from './storageService';
+import { normalizeDescritor } from './comparisonService';
+import { normalizeText, splitWords, tokenize } from './textService';
+import { isRecord, parseModelJson } from './jsonService';
+
+/**
+ * Vocabulário controlado de descritores. Cada entrada tem uma forma preferida e as variantes
+ * (sinónimos, grafias sem acentos, maiúsculas) que passam a essa forma na importação e quando
+ * o vocabulário é aplicado ao arquivo. Inclui sugestões de descritores para acórdãos sem eles.
+ */
+
+// Chave normalizada (minúsculas, sem acentos) -> forma preferida
+export type VocabularyIndex = Map<string, string>;
+
+const newId = () => `descritor_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+/** "  RESPONSABILIDADE   MÉDICA. " -> "RESPONSABILIDADE MÉDICA" */
+export const tidyDescritor = (descritor: string): string =>
+  descritor.replace(/\s+/g, ' ').replace(/^[\s.;,-]+|[\s.;,-]+$/g, '');
+
+export const buildVocabularyIndex = (entries: DescritorEntry[]): VocabularyIndex => {
+  const index: VocabularyIndex = new Map();
+  entries.forEach(entry => [entry.label, ...entry.synonyms].forEach(variant => {
+    const key = normalizeDescritor(variant);
+    if (key && !index.has(key)) index.set(key, entry.label);
+  }));
+  return index;
+};
+
+/** Descritores na forma preferida do vocabulário, sem repetidos (as variantes não registadas ficam como vêm). */
+export const normalizeDescritores = (descritores: string[], index: VocabularyIndex): string[] => {
+  const seen = new Set<string>();
+  return descritores.flatMap(raw => {
+    const tidy = tidyDescritor(raw);
+    const preferred = index.get(normalizeDescritor(tidy)) || tidy;
+    const key = normalizeDescritor(preferred);
+    if (!key || seen.has(key)) return [];
+    seen.add(key);
+    return [preferred];
+  });
+};
+
+/** Vocabulário atual do arquivo, indexado para normalização. */
+export const loadVocabularyIndex = async (): Promise<VocabularyIndex> =>
+  buildVocabularyIndex(await StorageService.listVocabulary());
+
+const entryOf = (entries: DescritorEntry[], descritor: string): DescritorEntry | undefined => {
+  const key = normalizeDescritor(descritor);
+  return entries.find(e => [e.label, ...e.synonyms].some(v => normalizeDescritor(v) === key));
+};
+
+/**
+ * Funde `sources` em `target` (renomear é fundir um único descritor num novo nome).
+ * As entradas dos descritores absorvidos são removidas e as suas variantes passam para a entrada resultante.
+ */
+export const mergeDescritores = (
+  entries: DescritorEntry[],
+  target: string,
+  sources: string[]
+): { entry: DescritorEntry; removedIds: string[] } => {
+  const label = tidyDescritor(target);
+  const base = entryOf(entries, label) || sources.map(s => entryOf(entries, s)).find(Boolean);
+  const absorbed = Array.from(new Set(sources.map(s => entryOf(entries, s)).filter((e): e is DescritorEntry => !!e && e !== base)));
+  const variants = [
+    ...(base ? [base.label, ...base.synonyms] : []),
+    ...absorbed.flatMap(e => [e.label, ...e.synonyms]),
+    ...sources.map(tidyDescritor),
+  ];
+  // Variantes que só diferem em maiúsculas ou acentos já são reconhecidas pela chave normalizada.
+  const seen = new Set([normalizeDescritor(label)]);
+  const synonyms = variants.filter(variant => {
+    const key = normalizeDescritor(variant);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  const now = new Date().toISOString();
+  return {
+    entry: base ? { ...base, label, synonyms, updatedAt: now } : { id: newId(), label, synonyms, createdAt: now, updatedAt: now },
+    removedIds: absorbed.map(e => e.id),
+  };
+};
+
+export const removeSynonym = (entry: DescritorEntry, synonym: string): DescritorEntry => ({
+  ...entry,
+  synonyms: entry.synonyms.filter(s => s !== synonym),
+  updatedAt: new Date().toISOString(),
+});
+
+/** Grava a fusão (ou renomeação) e aplica o vocabulário resultante a todo o arquivo. */
+export const saveMerge = async (
+  acordaos: Acordao[],
+  entries: DescritorEntry[],
+  target: string,
+  sources: string[],
+  onProgress?: (done: number, total: number) => void
+): Promise<number> => {
+  const { entry, removedIds } = mergeDescritores(entries, target, sources);
+  await StorageService.saveDescritorEntry(entry);
+  for (const id of removedIds) await StorageService.deleteDescritorEntry(id);
+  const next = [...entries.filter(e => e.id !== entry.id && !removedIds.includes(e.id)), entry];
+  return applyVocabulary(acordaos, buildVocabularyIndex(next), onProgress);
+};
+
+/** Regrava os acórdãos cujos descritores mudam com o vocabulário. Devolve quantos foram alterados. */
+export const applyVocabulary = async (
+  acordaos: Acordao[],
+  index: VocabularyIndex,
+  onProgress?: (done: number, total: number) => void
+): Promise<number> => {
+  const changes = acordaos.flatMap(acordao => {
+    const descritores = normalizeDescritores(acordao.descritores, index);
+    return JSON.stringify(descritores) === JSON.stringify(acordao.descritores) ? [] : [{ acordao, descritores }];
+  });
+  for (let i = 0; i < changes.length; i++) {
+    onProgress?.(i, changes.length);
+    await StorageService.updateDescritores(changes[i].acordao.id, changes[i].descritores);
+  }
+  onProgress?.(changes.length, changes.length);
+  return changes.length;
+};
+
+export interface DescritorUsage {
+  label: string;
+  count: number;
+  entry?: DescritorEntry;
+}
+
+/**
+ * Descritores do arquivo (na forma preferida), do mais para o menos usado, incluindo os do vocabulário
+ * ainda sem uso. Grafias fora do vocabulário contam em separado, para que possam ser fundidas.
+ */
+export const descritorUsage = (acordaos: Acordao[], entries: DescritorEntry[]): DescritorUsage[] => {
+  const index = buildVocabularyIndex(entries);
+  const usage = new Map<string, DescritorUsage>();
+  entries.forEach(entry => usage.set(entry.label, { label: entry.label, count: 0, entry }));
+  acordaos.forEach(a => normalizeDescritores(a.descritores, index).forEach(label => {
+    const current = usage.get(label) || { label, count: 0, entry: entryOf(entries, label) };
+    usage.set(label, { ...current, count: current.count + 1 });
+  }));
+  return Array.from(usage.values()).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label, 'pt'));
+};
+
+// Chave por radicais, sem ordem: "Responsabilidades médicas" e "médica, responsabilidade" coincidem.
+const stemKey = (descritor: string) => Array.from(new Set(tokenize(descritor))).sort().join(' ');
+
+/**
+ * Grupos de descritores do arquivo que parecem o mesmo conceito (mesmos radicais), para fusão.
+ * Cada grupo vem ordenado por frequência; o primeiro é a forma proposta.
+ */
+export const variantGroups = (acordaos: Acordao[], entries: DescritorEntry[]): { label: string; count: number }[][] => {
+  const groups = new Map<string, DescritorUsage[]>();
+  descritorUsage(acordaos, entries).forEach(usage => {
+    const key = stemKey(usage.label);
+    if (key) groups.set(key, [...(groups.get(key) || []), usage]);
+  });
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => group.map(({ label, count }) => ({ label, count })));
+};
+
+// --- Sugestões ---
+
+export interface DescritorSuggestion {
+  descritor: string;
+  score: number;
+  source: 'local' | 'model';
+}
+
+const NEIGHBOURS = 8;
+const MIN_SIMILARITY = 0.1;
+const PHRASE_SCORE = 1;
+const TERMS_SCORE = 0.5;
+
+type TermVector = Map<string, number>;
+
+const unitVector = (terms: string[], idf: (term: string) => number): TermVector => {
+  const vector: TermVector = new Map();
+  terms.forEach(t => vector.set(t, (vector.get(t) || 0) + 1));
+  let norm = 0;
+  vector.forEach((tf, t) => { const w = (1 + Math.log(tf)) * idf(t); vector.set(t, w); norm += w * w; });
+  norm = Math.sqrt(norm);
+  if (norm > 0) vector.forEach((w, t) => vector.set(t, w / norm));
+  return vector;
+};
+
+// Palavras normalizadas entre espaços, para procurar uma expressão só em palavras inteiras ("dano" não está em "danoso").
+const wordSequence = (text: string): string => {
+  const words = splitWords(normalizeText(text)).map(w => w.word);
+  return words.length ? ` ${words.join(' ')} ` : '';
+};
+
+const dot = (a: TermVector, b: TermVector) => {
+  let sum = 0;
+  a.forEach((w, t) => { sum += w * (b.get(t) || 0); });
+  return sum;
+};
+
+/**
+ * Sugestões locais a partir do sumário: descritores conhecidos (arquivo e vocabulário) que aparecem
+ * no sumário, mais os descritores dos acórdãos com sumário mais parecido (TF-IDF), pesados pela semelhança.
+ * Prepara os dados uma vez para sugerir para vários acórdãos.
+ */
+export const createDescritorSuggester = (acordaos: Acordao[], entries: DescritorEntry[]) => {
+  const index = buildVocabularyIndex(entries);
+  const described = acordaos
+    .filter(a => a.descritores.length > 0 && a.sumario.trim())
+    .map(a => ({ terms: tokenize(a.sumario), descritores: normalizeDescritores(a.descritores, index) }));
+  const df = new Map<string, number>();
+  described.forEach(d => new Set(d.terms).forEach(t => df.set(t, (df.get(t) || 0) + 1)));
+  const idf = (term: string) => Math.log((1 + described.length) / (1 + (df.get(term) || 0))) + 1;
+  const vectors = described.map(d => unitVector(d.terms, idf));
+
+  // Formas preferidas conhecidas e todas as suas variantes (sequência de palavras e radicais), para procurar no sumário.
+  const candidates = new Map<string, Map<string, string[]>>();
+  const addCandidate = (label: string, variant: string) => {
+    const variants = candidates.get(label) || new Map<string, string[]>();
+    variants.set(wordSequence(variant), tokenize(variant));
+    candidates.set(label, variants);
+  };
+  described.forEach(d => d.descritores.forEach(label => addCandidate(label, label)));
+  entries.forEach(e => [e.label, ...e.synonyms].forEach(v => addCandidate(e.label, v)));
+
+  return (acordao: Acordao, limit = 5): DescritorSuggestion[] => {
+    const sumario = wordSequence(acordao.sumario);
+    const terms = tokenize(acordao.sumario);
+    if (terms.length === 0) return [];
+    const termSet = new Set(terms);
+    const scores = new Map<string, number>();
+    const add = (label: string, score: number) => scores.set(label, (scores.get(label) || 0) + score);
+
+    candidates.forEach((variants, label) => {
+      const variantList = Array.from(variants.entries());
+      if (variantList.some(([phrase]) => phrase && sumario.includes(phrase))) add(label, PHRASE_SCORE);
+      else if (variantList.some(([, t]) => t.length > 0 && t.every(x => termSet.has(x)))) add(label, TERMS_SCORE);
+    });
+
+    const vector = unitVector(terms, idf);
+    vectors
+      .map((v, i) => ({ i, similarity: dot(vector, v) }))
+      .filter(n => n.similarity >= MIN_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, NEIGHBOURS)
+      .forEach(({ i, similarity }) => described[i].descritores.forEach(label => add(label, similarity)));
+
+    const existing = new Set(acordao.descritores.map(normalizeDescritor));
+    return Array.from(scores.entries())
+      .filter(([label]) => !existing.has(normalizeDescritor(label)))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([descritor, score]) => ({ descritor, score: Math.round(score * 100) / 100, source: 'local' as const }));
+  };
+};
+
+/** Lê as sugestões devolvidas pelo modelo. Devolve null se o JSON não tiver a estrutura esperada. */
+export const parseDescritorSuggestions = (raw: string): { acordao: number; descritores: string[] }[] | null => {
+  const data = parseModelJson(raw);
+  if (!isRecord(data) || !Array.isArray(data.sugestoes)) return null;
+  return data.sugestoes
+    .filter(isRecord)
+    .map(s => ({
+      acordao: Number(s.acordao),
+      descritores: Array.isArray(s.descritores) ? s.descritores.filter((d): d is string => typeof d === 'string' && !!d.trim()) : [],
+    }))
+    .filter(s => Number.isInteger(s.acordao));
+};
@@ -0,0 +1,124 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { Acordao, WatchList } from '../types';
+import { parseAcordao } from './parserService';
+import { buildAcordaoRecord } from './importService';
+import { AcordaoFetcher, checkWatchList, createWatchList, diffAcordao } from './watchService';
+
+const fixture = (name: string) => readFileSync(resolve(__dirname, 'parsers', '__fixtures__', name), 'utf8');
+
+const URL_STJ = 'http://www.dgsi.pt/jstj.nsf/954f0ce6ad9dd8b980256b5f003fa814/0a1b2c3d?OpenDocument';
+const HTML = fixture('dgsi.html');
+
+const recordFrom = (html: string, url = URL_STJ): Acordao =>
+  buildAcordaoRecord(parseAcordao(html, url), html, url, '1234_18');
+
+// Devolve as páginas por URL e regista os pedidos feitos
+const stubFetcher = (pages: Record<string, string | Error>) => {
+  const requested: string[] = [];
+  const fetcher: AcordaoFetcher = async url => {
+    requested.push(url);
+    const page = pages[url];
+    if (page === undefined || page instanceof Error) throw page || new Error('CORS Error');
+    return page;
+  };
+  return { fetcher, requested };
+};
+
+const LIST: WatchList = createWatchList('Danos', [{ kind: 'descritor', value: 'Responsabilidade civil' }]);
+const vocabulary = new Map();
+
+describe('checkWatchList', () => {
+  const stored = recordFrom(HTML);
+
+  it('não assinala alterações quando a fonte devolve a mesma página', async () => {
+    const { fetcher, requested } = stubFetcher({ [URL_STJ]: HTML });
+    const { check, fetched } = await checkWatchList(LIST, [stored], { fetcher, vocabulary });
+    expect(requested).toEqual([URL_STJ]);
+    expect(check.items).toMatchObject([{ acordaoId: stored.id, status: 'unchanged', changes: [] }]);
+    expect(fetched.size).toBe(0);
+  });
+
+  it('compara campo a campo e guarda o registo obtido para atualizar o arquivo', async () => {
+    const changedHtml = HTML.replace('deve ser fixada equitativamente', 'deve ser fixada segundo a equidade');
+    const { fetcher } = stubFetcher({ [URL_STJ]: changedHtml });
+    const { check, fetched } = await checkWatchList(LIST, [stored], { fetcher, vocabulary });
+    expect(check.items[0].status).toBe('changed');
+    expect(check.items[0].changes.map(c => c.field)).toEqual(['sumario']);
+    expect(fetched.get(stored.id)!.record.sumario).toContain('segundo a equidade');
+    expect(fetched.get(stored.id)!.html).toBe(changedHtml);
+  });
+
+  it('regista as falhas de acesso e os acórdãos sem endereço, sem interromper a verificação', async () => {
+    const other = { ...stored, id: 'PROC:2/20', processo: '2/20', url: 'http://www.dgsi.pt/jstj.nsf/x/y' };
+    const noUrl = { ...stored, id: 'PROC:3/20', processo: '3/20', url: '' };
+    const { fetcher } = stubFetcher({ [URL_STJ]: '<html><body>Página de manutenção</body></html>' });
+    const { check } = await checkWatchList(LIST, [stored, other, noUrl], { fetcher, vocabulary });
+    const byId = new Map(check.items.map(item => [item.acordaoId, item]));
+    expect(byId.get(stored.id)!.status).toBe('failed');
+    expect(byId.get(other.id)).toMatchObject({ status: 'failed', reason: expect.stringContaining('CORS') });
+    expect(byId.get(noUrl.id)!.status).toBe('no-url');
+  });
+
+  it('mostra o motivo de uma falha que não é um Error', async () => {
+    const fetcher: AcordaoFetcher = async () => { throw 'tempo esgotado'; };
+    const { check } = await checkWatchList(LIST, [stored], { fetcher, vocabulary });
+    expect(check.items[0]).toMatchObject({ status: 'failed', reason: 'tempo esgotado' });
+  });
+
+  it('cancelada a meio, rejeita com AbortError sem devolver uma verificação parcial', async () => {
+    const other = { ...stored, id: 'PROC:2/20', processo: '2/20', url: 'http://www.dgsi.pt/jstj.nsf/x/y' };
+    const controller = new AbortController();
+    const requested: string[] = [];
+    const fetcher: AcordaoFetcher = async url => {
+      requested.push(url);
+      controller.abort();
+      return HTML;
+    };
+    const list = { ...LIST };
+    await expect(checkWatchList(list, [stored, other], { fetcher, vocabulary, signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+    expect(requested).toHaveLength(1);
+    expect(list.lastCheck).toBeUndefined();
+  });
+
+  it('indica os acórdãos do arquivo abrangidos desde a verificação anterior', async () => {
+    const added = { ...stored, id: 'PROC:2/20', processo: '2/20', url: '' };
+    const { fetcher } = stubFetcher({ [URL_STJ]: HTML });
+    const first = await checkWatchList(LIST, [stored], { fetcher, vocabulary });
+    expect(first.check.newIds).toEqual([]);
+    const second = await checkWatchList({ ...LIST, lastCheck: first.check }, [stored, added], { fetcher, vocabulary });
+    expect(second.check.acordaoIds.sort()).toEqual([stored.id, added.id].sort());
+    expect(second.check.newIds).toEqual([added.id]);
+  });
+});
+
+describe('diffAcordao', () => {
+  const stored = recordFrom(HTML);
+
+  it('ignora a ordem e as maiúsculas dos descritores', () => {
+    expect(diffAcordao(stored, { ...stored, descritores: [...stored.descritores].reverse().map(d => d.toLowerCase()) })).toEqual([]);
+  });
+
+  it('mostra só o trecho à volta da diferença nos textos longos', () => {
+    const texto = `${'a'.repeat(500)}X${'b'.repeat(500)}`;
+    const [change] = diffAcordao({ ...stored, textoIntegral: texto }, { ...stored, textoIntegral: texto.replace('X', 'Y') });
+    expect(change.field).toBe('textoIntegral');
+    expect(change.before.length).toBeLessThan(210);
+    expect(change.before).toMatch(/^…a+X/);
+    expect(change.after).toMatch(/^…a+Y/);
+  });
+
+  it('assinala os campos corrigidos à mão', () => {
+    const changes = diffAcordao({ ...stored, relator: 'Maria Beleza', editedFields: ['relator'] }, stored);
+    expect(changes).toEqual([{ field: 'relator', label: expect.any(String), before: 'Maria Beleza', after: stored.relator, edited: true }]);
+  });
+});
+
+describe('createWatchList', () => {
+  it('gera identificadores distintos para listas criadas em simultâneo', () => {
+    expect(createWatchList('a', []).id).not.toBe(createWatchList('b', []).id);
+  });
+});
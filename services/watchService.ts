@@ -0,0 +1,257 @@
+import { Acordao, FieldChange, WatchCheck, WatchCheckItem, WatchCriterion, WatchKind, WatchList } from '../types';
+import { StorageService } from './storageService';
+import { fetchAcordaoHtml, parseAcordao } from './parserService';
+import { buildAcordaoRecord } from './importService';
+import { loadVocabularyIndex, VocabularyIndex } from './vocabularyService';
+import { normalizeDescritor } from './comparisonService';
+import { cleanJudgeName, judgeKey } from './judgeService';
+import { appliesProvision, formatProvision, parseProvisionQuery } from './legislationService';
+import { compareByDateDesc } from './dateService';
+import { REVIEW_FIELD_LABELS, REVIEW_FIELDS } from './reviewService';
+import { abortError, isAbortError } from './modelClient';
+
+/**
+ * Listas de vigilância sobre descritores, relatores ou disposições legais. A verificação é manual
+ * ("verificar agora"): volta a obter a página de cada acórdão abrangido pelo endereço guardado,
+ * passa-a de novo pelo parser e compara o resultado com o registo do arquivo, campo a campo.
+ * Indica também os acórdãos do arquivo que passaram a ser abrangidos desde a verificação anterior
+ * (importados ou corrigidos entretanto). A fonte não é pesquisada: um acórdão novo publicado no
+ * DGSI/CSM só aparece depois de importado.
+ */
+
+/** Obtém a página de um acórdão. Injetável, p.ex. para testar contra um servidor local de fixtures. */
+export type AcordaoFetcher = (url: string, signal?: AbortSignal) => Promise<string>;
+
+// --- Acesso à fonte ---
+
+export interface FetchSettings {
+  // Vazio: acesso direto ao site. Com proxy, "{url}" é substituído pelo endereço do acórdão (codificado);
+  // sem "{url}", o endereço é acrescentado no fim (ex.: "http://localhost:8080/?url=").
+  proxyUrl: string;
+}
+
+const FETCH_SETTINGS_KEY = 'jurisanalyzer.fetchSettings';
+
+export const DEFAULT_FETCH_SETTINGS: FetchSettings = { proxyUrl: '' };
+
+export const loadFetchSettings = (): FetchSettings => {
+  try {
+    return { ...DEFAULT_FETCH_SETTINGS, ...JSON.parse(localStorage.getItem(FETCH_SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_FETCH_SETTINGS;
+  }
+};
+
+export const saveFetchSettings = (settings: FetchSettings) => {
+  localStorage.setItem(FETCH_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const proxiedUrl = (proxyUrl: string, url: string): string =>
+  proxyUrl.includes('{url}') ? proxyUrl.replace('{url}', encodeURIComponent(url)) : `${proxyUrl}${encodeURIComponent(url)}`;
+
+export const createProxyFetcher = (proxyUrl: string): AcordaoFetcher => async (url, signal) => {
+  let response: Response;
+  try {
+    response = await fetch(proxiedUrl(proxyUrl, url), { signal });
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    throw new Error(`Proxy inacessível (${proxyUrl}): ${(e as Error).message}`);
+  }
+  if (!response.ok) throw new Error(`O proxy respondeu ${response.status}.`);
+  return response.text();
+};
+
+export const fetcherFor = (settings: FetchSettings): AcordaoFetcher =>
+  settings.proxyUrl.trim() ? createProxyFetcher(settings.proxyUrl.trim()) : fetchAcordaoHtml;
+
+// fetchAcordaoHtml não distingue as falhas de rede do bloqueio pelo navegador.
+const fetchFailure = (e: unknown): string => {
+  const message = e instanceof Error ? e.message : String(e);
+  return message === 'CORS Error'
+    ? 'O site não respondeu ou não permite o acesso a partir do navegador (CORS). Configure um proxy local.'
+    : message;
+};
+
+// --- Listas e critérios ---
+
+export const WATCH_KIND_LABELS: Record<WatchKind, string> = {
+  descritor: 'Descritor',
+  relator: 'Relator',
+  disposicao: 'Legislação',
+};
+
+/** Critério na forma gravada, ou null se o valor não for reconhecido (ex.: disposição sem diploma conhecido). */
+export const createCriterion = (kind: WatchKind, input: string): WatchCriterion | null => {
+  const value = input.trim();
+  if (!value) return null;
+  if (kind === 'disposicao') {
+    const provision = parseProvisionQuery(value);
+    return provision ? { kind, value: formatProvision(provision) } : null;
+  }
+  if (kind === 'relator') return judgeKey(value) ? { kind, value: cleanJudgeName(value) } : null;
+  return { kind, value };
+};
+
+const newId = () => `watch_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const createWatchList = (name: string, criteria: WatchCriterion[]): WatchList => {
+  const now = new Date().toISOString();
+  return { id: newId(), name: name.trim(), criteria, createdAt: now, updatedAt: now };
+};
+
+const criterionMatcher = (criterion: WatchCriterion): ((acordao: Acordao) => boolean) => {
+  switch (criterion.kind) {
+    case 'descritor': {
+      const key = normalizeDescritor(criterion.value);
+      return a => a.descritores.some(d => normalizeDescritor(d) === key);
+    }
+    case 'relator': {
+      const key = judgeKey(criterion.value);
+      return a => !!key && judgeKey(a.relator) === key;
+    }
+    case 'disposicao': {
+      const provision = parseProvisionQuery(criterion.value);
+      return a => !!provision && appliesProvision(a, provision);
+    }
+  }
+};
+
+/** Acórdãos do arquivo com pelo menos um dos critérios da lista, do mais recente para o mais antigo. */
+export const watchedAcordaos = (list: WatchList, acordaos: Acordao[]): Acordao[] => {
+  const matchers = list.criteria.map(criterionMatcher);
+  return acordaos.filter(a => matchers.some(matches => matches(a))).sort(compareByDateDesc);
+};
+
+// --- Comparação com a fonte ---
+
+const WATCHED_FIELDS: { field: keyof Acordao; label: string }[] = [
+  ...REVIEW_FIELDS.map(field => ({ field, label: REVIEW_FIELD_LABELS[field] })),
+  { field: 'textoIntegral', label: 'Texto integral' },
+  { field: 'decisao', label: 'Decisão' },
+  { field: 'votacao', label: 'Votação' },
+  { field: 'meioProcessual', label: 'Meio processual' },
+  { field: 'legislacaoNacional', label: 'Legislação nacional' },
+];
+
+const EXCERPT_LENGTH = 200;
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const display = (value: unknown): string =>
+  Array.isArray(value) ? value.map(v => collapse(String(v))).join('; ') : collapse(typeof value === 'string' ? value : '');
+
+// Descritores comparados sem ordem nem diferenças de acentos/maiúsculas (ver normalizeDescritor).
+const comparable = (field: keyof Acordao, value: unknown): string =>
+  field === 'descritores' && Array.isArray(value) ? value.map(normalizeDescritor).sort().join('|') : display(value);
+
+// Nos textos longos, mostra apenas o trecho à volta da primeira diferença.
+const excerpts = (before: string, after: string): [string, string] => {
+  if (before.length <= EXCERPT_LENGTH && after.length <= EXCERPT_LENGTH) return [before, after];
+  let common = 0;
+  while (common < before.length && common < after.length && before[common] === after[common]) common++;
+  const start = Math.max(0, common - EXCERPT_LENGTH / 4);
+  const cut = (text: string) =>
+    `${start > 0 ? '…' : ''}${text.slice(start, start + EXCERPT_LENGTH)}${start + EXCERPT_LENGTH < text.length ? '…' : ''}`;
+  return [cut(before), cut(after)];
+};
+
+/** Campos em que o registo obtido agora da fonte difere do guardado. */
+export const diffAcordao = (stored: Acordao, fetched: Acordao): FieldChange[] => {
+  const edited = new Set<string>(stored.editedFields || []);
+  return WATCHED_FIELDS.flatMap(({ field, label }) => {
+    if (comparable(field, stored[field]) === comparable(field, fetched[field])) return [];
+    const [before, after] = excerpts(display(stored[field]), display(fetched[field]));
+    return [{ field, label, before, after, ...(edited.has(field) ? { edited: true } : {}) }];
+  });
+};
+
+/** Registo obtido da fonte numa verificação, com a página de onde foi lido. */
+export interface FetchedRecord {
+  record: Acordao;
+  html: string;
+}
+
+export interface WatchCheckOptions {
+  fetcher?: AcordaoFetcher; // Por omissão, o das definições (acesso direto ou proxy)
+  vocabulary?: VocabularyIndex;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface WatchCheckRun {
+  check: WatchCheck;
+  fetched: Map<string, FetchedRecord>; // Por id do acórdão, só os que mudaram; não é gravado
+}
+
+/** Verifica cada acórdão abrangido pela lista contra a fonte, um de cada vez. Não grava nada. */
+export const checkWatchList = async (list: WatchList, acordaos: Acordao[], options: WatchCheckOptions = {}): Promise<WatchCheckRun> => {
+  const fetcher = options.fetcher || fetcherFor(loadFetchSettings());
+  const vocabulary = options.vocabulary || await loadVocabularyIndex();
+  const watched = watchedAcordaos(list, acordaos);
+  const previous = list.lastCheck ? new Set(list.lastCheck.acordaoIds) : null;
+  const fetched = new Map<string, FetchedRecord>();
+  const items: WatchCheckItem[] = [];
+
+  for (let i = 0; i < watched.length; i++) {
+    if (options.signal?.aborted) throw abortError();
+    options.onProgress?.(i, watched.length);
+    const stored = watched[i];
+    const item: WatchCheckItem = { acordaoId: stored.id, processo: stored.processo, url: stored.url, status: 'unchanged', changes: [] };
+    items.push(item);
+    if (!stored.url) {
+      item.status = 'no-url';
+      continue;
+    }
+    let html: string;
+    try {
+      html = await fetcher(stored.url, options.signal);
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      item.status = 'failed';
+      item.reason = fetchFailure(e);
+      continue;
+    }
+    const result = parseAcordao(html, stored.url);
+    if (!result.success || !result.data) {
+      item.status = 'failed';
+      item.reason = result.error || 'Estrutura do acórdão não reconhecida';
+      continue;
+    }
+    const record = buildAcordaoRecord(result, html, stored.url, stored.fileName || '', vocabulary);
+    item.changes = diffAcordao(stored, record);
+    if (item.changes.length > 0) {
+      item.status = 'changed';
+      fetched.set(stored.id, { record, html });
+    }
+  }
+  options.onProgress?.(watched.length, watched.length);
+
+  return {
+    check: {
+      checkedAt: new Date().toISOString(),
+      acordaoIds: watched.map(a => a.id),
+      // Só acórdãos do arquivo; na primeira verificação não há termo de comparação.
+      newIds: previous ? watched.filter(a => !previous.has(a.id)).map(a => a.id) : [],
+      items,
+    },
+    fetched,
+  };
+};
+
+/**
+ * Atualiza o arquivo com o registo obtido da fonte, como num reprocessamento: os campos corrigidos
+ * à mão mantêm-se e o estado anterior fica no histórico. O texto bruto passa a ser a página obtida.
+ */
+export const applyFetchedRecord = async (stored: Acordao, fetched: FetchedRecord): Promise<Acordao> => {
+  if (stored.fileName) await StorageService.saveRawTxt(stored.fileName, fetched.html);
+  return StorageService.saveProcessedAcordao({ ...fetched.record, id: stored.id }, 'reparse');
+};
+
+/** Marca o acórdão como atualizado no resultado gravado da última verificação. */
+export const markUpdated = (list: WatchList, acordaoId: string): WatchList => list.lastCheck ? {
+  ...list,
+  lastCheck: {
+    ...list.lastCheck,
+    items: list.lastCheck.items.map(item => item.acordaoId === acordaoId ? { ...item, status: 'updated' as const } : item),
+  },
+} : list;
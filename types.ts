@@ -1,26 +1,380 @@
 
 export interface Acordao {
   id: string; // Internal unique ID or ECLI
+  schemaVersion?: number; // Versão do formato gravado (ausente nos registos anteriores ao versionamento)
   ecli: string;
   relator: string;
   descritores: string[];
   processo: string;
-  data: string;
+  data: string; // Data tal como consta da fonte
+  dataIso?: string; // AAAA-MM-DD, quando a data foi reconhecida
   sumario: string;
   textoIntegral: string;
   adjuntos: string[];
   url: string;
   fileName?: string;
+  // Campos opcionais preenchidos pelos parsers que os disponibilizam (ex.: DGSI)
+  fonte?: 'csm' | 'dgsi' | string;
+  tribunal?: string; // Código do tribunal quando não há ECLI (ex.: STJ, TRL)
+  numeroConvencional?: string;
+  numeroDocumento?: string;
+  meioProcessual?: string;
+  votacao?: string;
+  decisao?: string;
+  areaTematica?: string;
+  tribunalRecurso?: string;
+  legislacaoNacional?: string;
+  jurisprudenciaNacional?: string;
+  disposicoes?: LegalProvision[]; // Disposições legais referidas no sumário e no texto integral
+  // Organização pelo utilizador
+  tags?: string[];
+  notas?: string;
+  anotacoes?: TextAnnotation[]; // Sublinhados e notas de margem feitos no leitor
+  // Auditoria da revisão manual
+  originalParse?: OriginalParse;
+  editedFields?: ReviewField[];
+  editedAt?: string;
+}
+
+export type AnnotatedField = 'sumario' | 'textoIntegral';
+
+/** Sublinhado (com nota opcional) ancorado a um intervalo do sumário ou do texto integral. */
+export interface TextAnnotation {
+  id: string;
+  field: AnnotatedField;
+  start: number; // Posições no texto do campo, [start, end)
+  end: number;
+  quote: string; // Texto sublinhado, para reencontrar a âncora se o texto for corrigido
+  note?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+/** Registo guardado que não foi possível carregar (JSON inválido, estrutura inválida, esquema desconhecido). */
+export interface LoadProblem {
+  source: string; // Ficheiro (modo pasta) ou object store/id (modo navegador)
+  reason: string;
+}
+
+export interface LoadReport {
+  problems: LoadProblem[];
+  migrated: number; // Registos atualizados para o esquema atual na última leitura do arquivo
+}
+
+export type ReviewField = 'ecli' | 'processo' | 'data' | 'relator' | 'adjuntos' | 'descritores' | 'sumario';
+
+/** Resultado do parser tal como foi extraído, guardado antes de qualquer correção manual. */
+export interface OriginalParse {
+  parser?: string;
+  parsedAt: string;
+  fields: Partial<Pick<Acordao, ReviewField>>;
+  diagnostics?: ExtractionDiagnostics;
 }
 
 export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
-  timestamp: Date;
+  timestamp: string; // ISO 8601, para sobreviver à serialização em JSON
+  context?: ContextReport;
+  analysis?: StructuredAnalysis;
 }
 
 export interface ExtractionResult {
   success: boolean;
   data?: Partial<Acordao>;
   error?: string;
+  parser?: string;
+  diagnostics?: ExtractionDiagnostics;
+}
+
+export type ExtractionStrategy =
+  | 'css-selector'   // classe/ID conhecido no HTML da fonte
+  | 'table-row'      // linha "Etiqueta | Valor" de uma tabela
+  | 'labelled-regex' // "Etiqueta: valor" no texto colado
+  | 'url-fallback'   // deduzido da URL
+  | 'heuristic'      // regra aproximada (ex.: adjuntos após o nome do relator)
+  | 'whole-page'     // sem delimitação: usou-se a página inteira
+  | 'default';       // não encontrado: valor por defeito
+
+export type DiagnosedField = ReviewField | 'textoIntegral';
+
+export interface FieldDiagnostic {
+  strategy: ExtractionStrategy;
+  confidence: number; // 0 a 1
+}
+
+export interface ExtractionDiagnostics {
+  fields: Partial<Record<DiagnosedField, FieldDiagnostic>>;
+  warnings: string[];
+  quality: number; // média das confianças, para acompanhar a qualidade entre versões do parser
+}
+
+export type FacetKey = 'relator' | 'court' | 'year' | 'descritor' | 'disposicao' | 'tag';
+
+export type SearchFilters = Partial<Record<FacetKey, string[]>>;
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHit {
+  acordao: Acordao;
+  score: number;
+  snippet: HighlightSegment[];
+}
+
+export interface SearchResult {
+  hits: SearchHit[];
+  facets: Record<FacetKey, FacetValue[]>;
+  total: number;
+}
+
+export type ChunkSection = 'sumario' | 'relatorio' | 'fundamentacao' | 'decisao' | 'texto';
+
+export interface ContextPassage {
+  acordaoId: string;
+  processo: string;
+  section: ChunkSection;
+  chunkIndex: number;
+  score: number;
+  tokens: number;
+}
+
+export interface ContextReport {
+  passages: ContextPassage[];
+  acordaoIds: string[];
+  usedTokens: number;
+  tokenBudget: number;
+  candidateCount: number;
+  dateFrom?: string;
+  dateTo?: string;
+  provision?: string; // Disposição legal a que o contexto foi limitado
+}
+
+export interface AnalysisResult {
+  text: string;
+  context: ContextReport;
+  analysis?: StructuredAnalysis;
+}
+
+// mismatch: o acórdão existe, mas o processo ou o ECLI citados não coincidem com o registo
+export type CitationStatus = 'verified' | 'outside-context' | 'mismatch' | 'not-found';
+
+export interface AnalysisCitation {
+  acordaoId?: string;
+  processo: string;
+  data: string;
+  ecli?: string;
+  status: CitationStatus;
+}
+
+export interface AnalysisPosition {
+  titulo: string;
+  resumo: string;
+  argumentos: string[];
+  citacoes: AnalysisCitation[];
+}
+
+export interface StructuredAnalysis {
+  introducao: string;
+  posicoes: AnalysisPosition[];
+  divergencia: string;
+  conclusao: string;
+}
+
+export type ImportStatus = 'pending' | 'imported' | 'updated' | 'duplicate' | 'error';
+
+export interface ImportFileReport {
+  name: string;
+  status: ImportStatus;
+  processo?: string;
+  ecli?: string;
+  message?: string;
+  warnings?: string[];
+}
+
+export interface ResearchSession {
+  id: string;
+  name: string;
+  messages: ChatMessage[];
+  scopeAcordaoIds: string[]; // Acórdãos disponíveis para a análise nesta sessão
+  scope?: AnalysisScope; // Âmbito escolhido (coleção, pesquisa guardada, seleção)
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
+
+export interface ModelSettings {
+  provider: ProviderKind;
+  model: string;
+  temperature: number;
+  tokenBudget: number; // Orçamento de tokens para os excertos enviados ao modelo
+  maxOutputTokens?: number;
+  baseUrl?: string; // Endpoint compatível com OpenAI (Ollama, llama.cpp server, vLLM)
+  apiKey?: string;
+}
+
+export interface CitationReference {
+  key: string; // ECLI, PROC:<processo> ou DEC:<tribunal>:<data>
+  raw: string; // Excerto do texto onde a citação foi encontrada
+  ecli?: string;
+  processo?: string;
+  court?: string;
+  dateIso?: string;
+}
+
+export interface CitationEdge {
+  reference: CitationReference;
+  targetId?: string; // Acórdão do arquivo a que a citação corresponde, se importado
+}
+
+export interface CitationNode {
+  acordaoId: string;
+  cites: CitationEdge[];
+  citedBy: string[];
+}
+
+export interface MissingCitation {
+  reference: CitationReference;
+  citedBy: string[];
+}
+
+export interface CitationGraph {
+  nodes: Map<string, CitationNode>;
+  missing: MissingCitation[];
+}
+
+export interface LegalProvision {
+  diploma: string; // Sigla normalizada: 'CC', 'CPP', 'DL 291/2007', 'Lei 23/96'
+  artigo: string; // '483', '1-A'
+  numero?: string;
+  alinea?: string;
+}
+
+// Dossiê do utilizador (ex.: por processo de um cliente ou por tema)
+export interface Collection {
+  id: string;
+  name: string;
+  acordaoIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Entrada do vocabulário controlado de descritores: a forma preferida e as variantes que lhe correspondem. */
+export interface DescritorEntry {
+  id: string;
+  label: string; // Forma preferida
+  synonyms: string[]; // Sinónimos e grafias alternativas, substituídos pela forma preferida
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WatchKind = 'descritor' | 'relator' | 'disposicao';
+
+// Critério de uma lista de vigilância: um descritor, um relator ou uma disposição legal ("art. 483.º CC")
+export interface WatchCriterion {
+  kind: WatchKind;
+  value: string;
+}
+
+/** Diferença num campo entre o registo guardado e o que a fonte devolve agora. */
+export interface FieldChange {
+  field: keyof Acordao;
+  label: string;
+  before: string;
+  after: string;
+  edited?: boolean; // Campo corrigido manualmente: a atualização a partir da fonte não o substitui
+}
+
+export interface WatchCheckItem {
+  acordaoId: string;
+  processo: string;
+  url: string;
+  status: 'unchanged' | 'changed' | 'updated' | 'failed' | 'no-url'; // updated: arquivo já atualizado a partir da fonte
+  changes: FieldChange[];
+  reason?: string; // Motivo da falha (acesso à fonte ou leitura da página)
+}
+
+/** Resultado da última verificação manual de uma lista. */
+export interface WatchCheck {
+  checkedAt: string;
+  acordaoIds: string[]; // Acórdãos do arquivo abrangidos pela lista no momento da verificação
+  newIds: string[]; // Do arquivo, abrangidos agora mas não na verificação anterior (importados entretanto; a fonte não é pesquisada)
+  items: WatchCheckItem[];
+}
+
+/** Lista de vigilância: acórdãos do arquivo com qualquer um dos critérios, verificados contra a fonte a pedido. */
+export interface WatchList {
+  id: string;
+  name: string;
+  criteria: WatchCriterion[];
+  createdAt: string;
+  updatedAt: string;
+  lastCheck?: WatchCheck;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  createdAt: string;
+}
+
+export type AnalysisScope =
+  | { kind: 'all' }
+  | { kind: 'collection'; id: string }
+  | { kind: 'search'; id: string }
+  | { kind: 'selection'; acordaoIds: string[] };
+
+export interface ProfileCount {
+  name: string;
+  count: number;
+}
+
+// Grupo de acórdãos com sumários e descritores semelhantes, tratado como uma posição (tese)
+export interface ThesisCluster {
+  id: string;
+  acordaoIds: string[];
+  keyTerms: string[]; // Descritores / palavras mais característicos do grupo
+  label: string;
+  labelSource: 'model' | 'terms';
+  resumo?: string; // Apenas quando rotulado pelo modelo
+  cohesion: number; // Similaridade média ao centróide do grupo (0-1)
+  relatores: ProfileCount[];
+  tribunais: ProfileCount[];
+}
+
+export interface ThesisMap {
+  clusters: ThesisCluster[];
+  isolated: string[]; // Acórdãos sem semelhança suficiente com nenhum outro
+  vectorizer: string;
+  threshold: number;
+}
+
+export type VersionReason = 'reparse' | 'edit' | 'restore' | 'import' | 'vocabulary';
+
+// Estado anterior de um acórdão, guardado sempre que o registo é reprocessado, editado ou reposto
+export interface AcordaoVersion {
+  id: string;
+  acordaoId: string;
+  savedAt: string;
+  reason: VersionReason;
+  record: Acordao;
+}
+
+// Acórdão apagado, com o texto bruto, recuperável até o lixo ser esvaziado
+export interface TrashEntry {
+  id: string;
+  acordaoId: string;
+  acordao: Acordao;
+  rawText?: string;
+  deletedAt: string;
 }